@@ -6,6 +6,8 @@
  *
  * Usage:
  *   bun run benchmarks/pii-accuracy/run.ts
+ *   bun run benchmarks/pii-accuracy/run.ts --backend gliner --url http://localhost:8080
+ *   bun run benchmarks/pii-accuracy/run.ts --backend builtin
  *   bun run benchmarks/pii-accuracy/run.ts --threshold 0.5
  *   bun run benchmarks/pii-accuracy/run.ts --languages de,en
  *   bun run benchmarks/pii-accuracy/run.ts --verbose
@@ -14,6 +16,8 @@
 import { parseArgs } from "util";
 import { Glob } from "bun";
 import { parse as parseYaml } from "yaml";
+import { createNerBackend, NER_BACKENDS, type NerBackendType } from "../../src/pii/backends";
+import { detectBuiltinPII } from "../../src/pii/builtin";
 import {
   TestCaseSchema,
   type AccuracyMetrics,
@@ -26,12 +30,15 @@ import {
 // Configuration
 const DEFAULT_THRESHOLD = 0.7;
 const PRESIDIO_URL = process.env.PRESIDIO_URL || "http://localhost:5002";
+const BACKENDS = [...NER_BACKENDS, "builtin"];
 const TEST_DATA_DIR = import.meta.dir + "/test-data";
 
 // Parse command line arguments
 const { values: args } = parseArgs({
   args: Bun.argv.slice(2),
   options: {
+    backend: { type: "string", short: "b", default: "presidio" },
+    url: { type: "string", short: "u" },
     threshold: { type: "string", short: "t" },
     languages: { type: "string", short: "l" },
     verbose: { type: "boolean", short: "v", default: false },
@@ -47,6 +54,8 @@ Usage:
   bun run benchmarks/pii-accuracy/run.ts [options]
 
 Options:
+  -b, --backend <type>       Detector to test: ${BACKENDS.join(", ")} (default: presidio)
+  -u, --url <url>            Backend URL (default: $PRESIDIO_URL or ${PRESIDIO_URL} for presidio)
   -t, --threshold <value>    Score threshold (default: ${DEFAULT_THRESHOLD})
   -l, --languages <langs>    Comma-separated languages to test (e.g., de,en)
   -v, --verbose              Show detailed results for each test case
@@ -54,6 +63,8 @@ Options:
 
 Examples:
   bun run benchmarks/pii-accuracy/run.ts
+  bun run benchmarks/pii-accuracy/run.ts --backend gliner --url http://localhost:8080
+  bun run benchmarks/pii-accuracy/run.ts --backend builtin
   bun run benchmarks/pii-accuracy/run.ts --threshold 0.5
   bun run benchmarks/pii-accuracy/run.ts --languages de,en
   bun run benchmarks/pii-accuracy/run.ts --verbose
@@ -64,6 +75,16 @@ Examples:
 const threshold = args.threshold ? Number.parseFloat(args.threshold) : DEFAULT_THRESHOLD;
 const verbose = args.verbose ?? false;
 const languageFilter = args.languages?.split(",").map((l) => l.trim().toLowerCase());
+const backendType = args.backend ?? "presidio";
+
+if (!BACKENDS.includes(backendType)) {
+  console.error(`Unknown backend '${backendType}'. Use one of: ${BACKENDS.join(", ")}`);
+  process.exit(1);
+}
+if (backendType !== "presidio" && backendType !== "builtin" && !args.url) {
+  console.error(`--url is required for the ${backendType} backend`);
+  process.exit(1);
+}
 
 // Entity types we test for
 const ENTITY_TYPES = [
@@ -110,33 +131,24 @@ async function loadTestCases(): Promise<TestCase[]> {
   return testCases.sort((a, b) => a.id.localeCompare(b.id));
 }
 
+// NER backend under test (undefined for the built-in detector)
+const backend =
+  backendType === "builtin"
+    ? undefined
+    : createNerBackend({
+        type: backendType as NerBackendType,
+        url: args.url ?? PRESIDIO_URL,
+      });
+
 /**
- * Call Presidio analyzer API
+ * Detect PII with the selected backend
  */
 async function detectPII(text: string, language: string): Promise<DetectedEntity[]> {
   if (!text) return [];
 
-  const response = await fetch(`${PRESIDIO_URL}/analyze`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      text,
-      language,
-      entities: ENTITY_TYPES,
-      score_threshold: threshold,
-    }),
-  });
-
-  if (!response.ok) {
-    throw new Error(`Presidio error: ${response.status} ${await response.text()}`);
-  }
-
-  const entities = (await response.json()) as Array<{
-    entity_type: string;
-    start: number;
-    end: number;
-    score: number;
-  }>;
+  const entities = backend
+    ? await backend.analyze(text, language, ENTITY_TYPES, threshold)
+    : detectBuiltinPII(text, ENTITY_TYPES, threshold);
 
   return entities.map((e) => ({
     type: e.entity_type,
@@ -147,18 +159,6 @@ async function detectPII(text: string, language: string): Promise<DetectedEntity
   }));
 }
 
-/**
- * Check if Presidio is available
- */
-async function checkPresidio(): Promise<boolean> {
-  try {
-    const response = await fetch(`${PRESIDIO_URL}/health`);
-    return response.ok;
-  } catch {
-    return false;
-  }
-}
-
 /**
  * Run a single test case and compare results
  */
@@ -270,19 +270,25 @@ async function main(): Promise<void> {
   console.log("║           PII Detection Accuracy Benchmark                 ║");
   console.log("╚════════════════════════════════════════════════════════════╝\n");
 
-  // Check Presidio availability
-  console.log(`Presidio URL: ${PRESIDIO_URL}`);
+  // Check backend availability
+  console.log(`Backend: ${backend ? `${backend.name} (${backend.url})` : "built-in"}`);
   console.log(`Threshold: ${threshold}`);
   if (languageFilter) {
     console.log(`Languages: ${languageFilter.join(", ")}`);
   }
 
-  if (!(await checkPresidio())) {
-    console.error("\n✗ Presidio is not available. Start it with:");
-    console.error("  docker compose up presidio-analyzer -d\n");
-    process.exit(1);
+  if (backend) {
+    if (!(await backend.healthCheck())) {
+      console.error(`\n✗ ${backend.name} is not available at ${backend.url}.`);
+      if (backendType === "presidio") {
+        console.error("  Start it with: docker compose up presidio-analyzer -d\n");
+      }
+      process.exit(1);
+    }
+    console.log(`${backend.name}: ✓ Connected\n`);
+  } else {
+    console.log();
   }
-  console.log("Presidio: ✓ Connected\n");
 
   // Load test cases from directory
   const testCases = await loadTestCases();
@@ -0,0 +1,206 @@
+#!/usr/bin/env bun
+/**
+ * PII Detection Batching Benchmark
+ *
+ * Measures latency of scanning a large agent transcript (many tool results)
+ * with one backend call per span versus batched calls (`pii_detection.batch`).
+ *
+ * Usage:
+ *   bun run benchmarks/pii-batching/run.ts
+ *   bun run benchmarks/pii-batching/run.ts --spans 1000
+ *   bun run benchmarks/pii-batching/run.ts --backend gliner --url http://localhost:8080
+ *   bun run benchmarks/pii-batching/run.ts --max-chars 50000 --concurrency 8
+ */
+
+import { parseArgs } from "util";
+import { createNerBackend, NER_BACKENDS, type NerBackendType } from "../../src/pii/backends";
+import { analyzeInBatches, DEFAULT_BATCH_OPTIONS, type BatchOptions } from "../../src/pii/batch";
+import type { PIIEntity } from "../../src/pii/detect";
+
+// Configuration
+const THRESHOLD = 0.7;
+const PRESIDIO_URL = process.env.PRESIDIO_URL || "http://localhost:5002";
+const ENTITY_TYPES = ["PERSON", "EMAIL_ADDRESS", "PHONE_NUMBER", "IP_ADDRESS", "LOCATION"];
+
+// Parse command line arguments
+const { values: args } = parseArgs({
+  args: Bun.argv.slice(2),
+  options: {
+    backend: { type: "string", short: "b", default: "presidio" },
+    url: { type: "string", short: "u" },
+    spans: { type: "string", short: "s", default: "300" },
+    "max-chars": { type: "string", default: String(DEFAULT_BATCH_OPTIONS.max_chars) },
+    concurrency: { type: "string", short: "c", default: String(DEFAULT_BATCH_OPTIONS.concurrency) },
+    language: { type: "string", short: "l", default: "en" },
+    help: { type: "boolean", short: "h", default: false },
+  },
+});
+
+if (args.help) {
+  console.log(`
+PII Detection Batching Benchmark
+
+Usage:
+  bun run benchmarks/pii-batching/run.ts [options]
+
+Options:
+  -b, --backend <type>       NER backend: ${NER_BACKENDS.join(", ")} (default: presidio)
+  -u, --url <url>            Backend URL (default: $PRESIDIO_URL or ${PRESIDIO_URL} for presidio)
+  -s, --spans <n>            Tool results in the synthetic transcript (default: 300)
+      --max-chars <n>        Batch size budget (default: ${DEFAULT_BATCH_OPTIONS.max_chars})
+  -c, --concurrency <n>      Calls in flight (default: ${DEFAULT_BATCH_OPTIONS.concurrency})
+  -l, --language <lang>      Language sent to the backend (default: en)
+  -h, --help                 Show this help message
+`);
+  process.exit(0);
+}
+
+const backendType = args.backend as NerBackendType;
+if (!(NER_BACKENDS as readonly string[]).includes(backendType)) {
+  console.error(`Unknown backend '${backendType}'. Use one of: ${NER_BACKENDS.join(", ")}`);
+  process.exit(1);
+}
+if (backendType !== "presidio" && !args.url) {
+  console.error(`--url is required for the ${backendType} backend`);
+  process.exit(1);
+}
+
+const spanCount = Number.parseInt(args.spans ?? "300", 10);
+const maxChars = Number.parseInt(args["max-chars"] ?? "", 10);
+const concurrency = Number.parseInt(args.concurrency ?? "", 10);
+const language = args.language ?? "en";
+
+const backend = createNerBackend({
+  type: backendType,
+  url: args.url ?? PRESIDIO_URL,
+  timeout_ms: 120_000,
+});
+
+/**
+ * Deterministic tool results: file reads, command output and API responses,
+ * with PII sprinkled into some of them
+ */
+function generateTranscript(count: number): string[] {
+  const names = ["Maria Schmidt", "John Carter", "Aiko Tanaka", "Pierre Dubois"];
+  const spans: string[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const name = names[i % names.length];
+    switch (i % 4) {
+      case 0:
+        spans.push(
+          `src/module${i}.ts\n` +
+            Array.from(
+              { length: 20 },
+              (_, line) => `export const value${line} = compute(${line}, "${i}");`,
+            ).join("\n"),
+        );
+        break;
+      case 1:
+        spans.push(
+          `$ npm test\n\n> test\n> bun test\n\n ${i * 3} pass\n 0 fail\nRan ${i * 3} tests in ${i}ms`,
+        );
+        break;
+      case 2:
+        spans.push(
+          JSON.stringify({
+            id: i,
+            customer: name,
+            email: `${name.split(" ")[0].toLowerCase()}@example.com`,
+            phone: `+1 555 010 ${String(i % 100).padStart(4, "0")}`,
+            note: `Ticket opened by ${name} from Berlin regarding invoice ${1000 + i}.`,
+          }),
+        );
+        break;
+      default:
+        spans.push(
+          `[2025-01-0${(i % 9) + 1} 10:00:00] GET /api/orders/${i} 200 from 10.0.${i % 256}.12\n` +
+            `[2025-01-0${(i % 9) + 1} 10:00:01] user ${name} exported report ${i}`,
+        );
+    }
+  }
+  return spans;
+}
+
+interface RunResult {
+  label: string;
+  calls: number;
+  failed: number;
+  entities: number;
+  ms: number;
+}
+
+async function run(label: string, spans: string[], options: BatchOptions | null): Promise<RunResult> {
+  let calls = 0;
+  let failed = 0;
+  const analyze = async (text: string): Promise<PIIEntity[]> => {
+    calls++;
+    try {
+      return await backend.analyze(text, language, ENTITY_TYPES, THRESHOLD);
+    } catch {
+      failed++;
+      return [];
+    }
+  };
+
+  const start = performance.now();
+  // null: the unbatched behaviour - every span at once
+  const results = options
+    ? await analyzeInBatches(spans, options, analyze)
+    : await Promise.all(spans.map(analyze));
+  const ms = performance.now() - start;
+
+  return { label, calls, failed, entities: results.flat().length, ms };
+}
+
+async function main(): Promise<void> {
+  console.log("\n╔════════════════════════════════════════════════════════════╗");
+  console.log("║           PII Detection Batching Benchmark                 ║");
+  console.log("╚════════════════════════════════════════════════════════════╝\n");
+
+  console.log(`Backend: ${backend.name} (${backend.url})`);
+  if (!(await backend.healthCheck())) {
+    console.error(`\n✗ ${backend.name} is not available at ${backend.url}.`);
+    if (backendType === "presidio") {
+      console.error("  Start it with: docker compose up presidio-analyzer -d\n");
+    }
+    process.exit(1);
+  }
+  console.log(`${backend.name}: ✓ Connected\n`);
+
+  const spans = generateTranscript(spanCount);
+  const totalChars = spans.reduce((sum, span) => sum + span.length, 0);
+  console.log(`Transcript: ${spans.length} tool results, ${totalChars} chars`);
+  console.log(`Batching: max_chars ${maxChars}, concurrency ${concurrency}\n`);
+
+  // Warm up the backend (model loading, JIT) so the first run isn't penalized
+  await backend.analyze(spans[0], language, ENTITY_TYPES, THRESHOLD);
+
+  const results = [
+    await run("per span, unbounded", spans, null),
+    await run(`per span, ${concurrency} in flight`, spans, {
+      enabled: false,
+      max_chars: maxChars,
+      concurrency,
+    }),
+    await run("batched", spans, { enabled: true, max_chars: maxChars, concurrency }),
+  ];
+
+  console.log("────────────────────────────────────────────────────────────");
+  console.log("                         RESULTS");
+  console.log("────────────────────────────────────────────────────────────\n");
+  console.log(
+    `${"Mode".padEnd(26)}${"Calls".padStart(7)}${"Failed".padStart(8)}${"Entities".padStart(10)}${"Time".padStart(10)}`,
+  );
+  for (const result of results) {
+    console.log(
+      `${result.label.padEnd(26)}${String(result.calls).padStart(7)}${String(result.failed).padStart(8)}${String(result.entities).padStart(10)}${`${Math.round(result.ms)}ms`.padStart(10)}`,
+    );
+  }
+  console.log("\n────────────────────────────────────────────────────────────\n");
+}
+
+main().catch((error) => {
+  console.error("Benchmark failed:", error);
+  process.exit(1);
+});
@@ -2,6 +2,14 @@ import { existsSync, readFileSync, statSync } from "node:fs";
 import { parse as parseYaml } from "yaml";
 import { z } from "zod";
 import { SUPPORTED_LANGUAGES } from "./constants/languages";
+import { FUZZY_UNMASK_LEVELS } from "./masking/fuzzy";
+import { PII_PLACEHOLDER_FORMAT, validatePlaceholderFormat } from "./masking/placeholders";
+import { NER_BACKENDS } from "./pii/backends/types";
+import { DEFAULT_BATCH_OPTIONS } from "./pii/batch";
+import { PII_CACHE_MAX_SIZE, PII_CACHE_TTL_SECONDS, PII_CACHE_TYPES } from "./pii/cache";
+import { DEFAULT_INCREMENTAL_OPTIONS } from "./pii/incremental";
+import { validateCustomPattern } from "./secrets/patterns/custom";
+import { DEFAULT_ENTROPY_OPTIONS } from "./secrets/patterns/entropy";
 
 // Schema definitions
 
@@ -13,16 +21,71 @@ const LocalProviderSchema = z.object({
   model: z.string(), // Required: all PII requests use this model
 });
 
+const OPENAI_API_TYPES = ["openai", "azure"] as const;
+
+// Azure OpenAI: deployment URLs with an api-version query and an api-key header
+const AzureOptions = {
+  type: z.enum(OPENAI_API_TYPES).default("openai"),
+  api_version: z.string().optional(), // azure only: default depends on the endpoint
+  deployments: z.record(z.string().min(1)).default({}), // azure only: model -> deployment name
+};
+
 // Providers - OpenAI-compatible endpoints (cloud or self-hosted)
 const OpenAIProviderSchema = z.object({
   base_url: z.string().url().default("https://api.openai.com/v1"),
   api_key: z.string().optional(), // Optional fallback if client doesn't send auth header
+  fallback: z.array(z.string().min(1)).default([]), // Tried in order when retries are exhausted
+  ...AzureOptions,
+});
+
+// Named OpenAI-compatible upstream (Mistral, LiteLLM, ...), selected by providers.routing
+const UpstreamSchema = z.object({
+  base_url: z.string().url(),
+  api_key: z.string().optional(), // Sent instead of the client's auth header when set
+  timeout_ms: z.coerce.number().int().min(1000).optional(), // Defaults to server.provider_timeout_ms
+  fallback: z.array(z.string().min(1)).default([]), // "openai", "local" or providers.upstreams keys
+  ...AzureOptions,
+});
+
+// Retries for failed provider calls, before any response byte reached the client
+const RetrySchema = z.object({
+  max_retries: z.coerce.number().int().min(0).max(10).default(0), // Per provider, 0 = no retries
+  initial_delay_ms: z.coerce.number().int().min(0).default(500), // Doubled after every retry
+  max_delay_ms: z.coerce.number().int().min(0).default(8_000),
+  statuses: z.array(z.number().int().min(400).max(599)).default([408, 429, 500, 502, 503, 504]),
 });
 
+// Routing rule - all given conditions must match, the first matching rule wins
+const RoutingRuleSchema = z
+  .object({
+    model: z.string().min(1).optional(), // Glob on the request model, e.g. "mistral-*"
+    header: z
+      .object({
+        name: z.string().min(1),
+        value: z.string().optional(), // Glob on the header value, omitted = header is present
+      })
+      .optional(),
+    path_prefix: z.string().startsWith("/").optional(), // e.g. "/openai/v1/embeddings"
+    upstream: z.string().min(1), // providers.upstreams key, or "openai" for providers.openai
+  })
+  .refine((rule) => rule.model || rule.header || rule.path_prefix, {
+    message: "Routing rule needs at least one of model, header or path_prefix",
+  });
+
+// Upstream names end up in the log's provider column, so built-in names are taken
+const RESERVED_UPSTREAM_NAMES = ["openai", "anthropic", "gemini", "copilot", "local", "api"];
+
 // Anthropic provider
 const AnthropicProviderSchema = z.object({
   base_url: z.string().url().default("https://api.anthropic.com"),
   api_key: z.string().optional(), // Optional fallback if client doesn't send auth header
+  fallback: z.array(z.literal("local")).default([]), // Only the local provider speaks the Messages API
+});
+
+// Google Gemini provider (Gemini API, not Vertex AI)
+const GeminiProviderSchema = z.object({
+  base_url: z.string().url().default("https://generativelanguage.googleapis.com"),
+  api_key: z.string().optional(), // Optional fallback if client doesn't send x-goog-api-key or ?key=
 });
 
 // GitHub Copilot provider
@@ -33,11 +96,51 @@ const CopilotProviderSchema = z.object({
 
 const DEFAULT_WHITELIST = ["You are Claude Code, Anthropic's official CLI for Claude."];
 
+// Structured whitelist entry - exact, regex or glob match, optionally scoped to entity types and roles
+const WhitelistRuleSchema = z
+  .object({
+    pattern: z.string().min(1),
+    regex: z.boolean().default(false),
+    glob: z.boolean().default(false),
+    entity_types: z.array(z.string()).optional(),
+    roles: z.array(z.string()).optional(),
+  })
+  .superRefine((rule, ctx) => {
+    if (rule.regex && rule.glob) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "regex and glob cannot both be set" });
+    }
+    if (rule.regex) {
+      try {
+        new RegExp(rule.pattern);
+      } catch (error) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["pattern"],
+          message: `invalid regex: ${(error as Error).message}`,
+        });
+      }
+    }
+  });
+
 const MaskingSchema = z.object({
+  // placeholder: [[PERSON_1]] tokens, pseudonym: realistic fake values
+  strategy: z.enum(["placeholder", "pseudonym"]).default("placeholder"),
+  // {TYPE} and {N} wrapped in literal delimiters, optional {NONCE} (random per request)
+  placeholder_format: z
+    .string()
+    .default(PII_PLACEHOLDER_FORMAT)
+    .superRefine((format, ctx) => {
+      const error = validatePlaceholderFormat(format);
+      if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+    }),
+  // Restore placeholders the model rewrote: off, conservative (spacing, case,
+  // single delimiters) or aggressive (also bare TYPE_N)
+  fuzzy_unmask: z.enum(FUZZY_UNMASK_LEVELS).default("off"),
   show_markers: z.boolean().default(false),
   marker_text: z.string().default("[protected]"),
+  // Plain strings (substring match in both directions, PII only) or structured entries
   whitelist: z
-    .array(z.string())
+    .array(z.union([z.string(), WhitelistRuleSchema]))
     .default([])
     .transform((arr) => [...DEFAULT_WHITELIST, ...arr]),
 });
@@ -55,11 +158,110 @@ const LanguagesSchema = z
   .pipe(z.array(LanguageEnum))
   .default(["en"]);
 
+const PII_ENGINES = ["presidio", "builtin", "presidio_with_fallback"] as const;
+
+// Model server behind the presidio engines: Presidio, a generic HTTP NER server or a GLiNER server
+const NerBackendSchema = z
+  .object({
+    type: z.enum(NER_BACKENDS).default("presidio"),
+    url: z.string().url().optional(), // Required for http and gliner; presidio uses presidio_url
+    timeout_ms: z.coerce.number().int().min(1000).default(30_000),
+    headers: z.record(z.string()).default({}),
+    labels: z.record(z.string()).default({}), // gliner: entity type -> model label
+  })
+  .refine((backend) => backend.type === "presidio" || backend.url !== undefined, {
+    message: "backend.url is required for http and gliner backends",
+    path: ["url"],
+  });
+
+// Spans are packed into batches per NER call so large conversations don't flood the backend
+const BatchSchema = z.object({
+  enabled: z.boolean().default(DEFAULT_BATCH_OPTIONS.enabled),
+  max_chars: z.coerce.number().int().min(1000).default(DEFAULT_BATCH_OPTIONS.max_chars), // per call, separators included
+  concurrency: z.coerce.number().int().min(1).default(DEFAULT_BATCH_OPTIONS.concurrency), // calls in flight per request
+});
+
+// Detection cache - memory only, or with a persistent tier shared across restarts and replicas
+const PIICacheSchema = z
+  .object({
+    type: z.enum(PII_CACHE_TYPES).default("memory"),
+    database: z.string().default("./data/pii-cache.db"), // sqlite
+    url: z.string().url().optional(), // redis: redis://, rediss:// or valkey://
+    ttl_seconds: z.coerce.number().int().min(60).default(86_400),
+    max_entries: z.coerce.number().int().min(100).default(100_000), // sqlite; redis uses maxmemory
+    // In-memory tier, always in front of the persistent one
+    memory_ttl_seconds: z.coerce.number().int().min(1).default(PII_CACHE_TTL_SECONDS),
+    memory_max_entries: z.coerce.number().int().min(1).default(PII_CACHE_MAX_SIZE),
+  })
+  .refine((cache) => cache.type !== "redis" || cache.url !== undefined, {
+    message: "cache.url is required for the redis cache",
+    path: ["url"],
+  });
+
+// Reuse detection results for the unchanged conversation prefix, only scan the new tail
+const IncrementalSchema = z.object({
+  enabled: z.boolean().default(DEFAULT_INCREMENTAL_OPTIONS.enabled),
+  max_spans: z.coerce.number().int().min(100).default(DEFAULT_INCREMENTAL_OPTIONS.max_spans), // spans remembered
+});
+
+// One language for the whole request, or one per span for mixed-language conversations
+const LANGUAGE_DETECTION_MODES = ["request", "span"] as const;
+const LanguageDetectionSchema = z.object({
+  mode: z.enum(LANGUAGE_DETECTION_MODES).default("request"),
+  min_chars: z.coerce.number().int().min(1).default(50), // span mode: shorter spans use the request language
+});
+
+// What to do with a request when PII detection fails (e.g. Presidio is down)
+const DETECTION_ERROR_POLICIES = ["block", "allow_with_secrets_only", "route_local"] as const;
+const DetectionErrorPolicyEnum = z.enum(DETECTION_ERROR_POLICIES);
+
+// One policy for all routes, or a default with per-route overrides
+const OnErrorSchema = z
+  .union([
+    DetectionErrorPolicyEnum,
+    z.object({
+      default: DetectionErrorPolicyEnum.default("block"),
+      openai: DetectionErrorPolicyEnum.optional(), // chat completions and responses
+      anthropic: DetectionErrorPolicyEnum.optional(),
+      copilot: DetectionErrorPolicyEnum.optional(),
+      gemini: DetectionErrorPolicyEnum.optional(),
+      embeddings: DetectionErrorPolicyEnum.optional(),
+    }),
+  ])
+  .default("block");
+
+// Company-specific terms (customer names, project names, hostnames) masked as their own entity type
+const DenyListSchema = z
+  .object({
+    entity_type: z.string().regex(/^[A-Z][A-Z0-9_]*$/, "entity_type must be UPPER_SNAKE_CASE"),
+    terms: z.array(z.string()).optional(),
+    file: z.string().min(1).optional(), // one term per line, reloaded on change
+  })
+  .superRefine((list, ctx) => {
+    if (!list.terms && !list.file) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "deny list needs terms or a file" });
+    }
+    if (list.file && !existsSync(list.file)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["file"],
+        message: `deny list file not found: ${list.file}`,
+      });
+    }
+  });
+
 const PIIDetectionSchema = z.object({
   enabled: z.boolean().default(true),
-  presidio_url: z.string().url(),
+  // presidio, builtin (regex + checksums, no Presidio) or presidio_with_fallback (builtin while Presidio is down)
+  engine: z.enum(PII_ENGINES).default("presidio"),
+  presidio_url: z.string().url().default("http://localhost:5002"),
+  backend: NerBackendSchema.default({}),
+  batch: BatchSchema.default({}),
+  cache: PIICacheSchema.default({}),
+  incremental: IncrementalSchema.default({}),
   languages: LanguagesSchema,
   fallback_language: LanguageEnum.default("en"),
+  language_detection: LanguageDetectionSchema.default({}),
   score_threshold: z.coerce.number().min(0).max(1).default(0.7),
   entities: z
     .array(z.string())
@@ -73,6 +275,16 @@ const PIIDetectionSchema = z.object({
       "LOCATION",
     ]),
   scan_roles: z.array(z.string()).optional(),
+  // Checksum and plausibility checks after detection - set an entity to false to keep all its hits
+  validation: z
+    .object({
+      CREDIT_CARD: z.boolean().default(true), // Luhn
+      IBAN_CODE: z.boolean().default(true), // mod 97
+      PHONE_NUMBER: z.boolean().default(true), // digit count, no dates/versions/IPs
+    })
+    .default({}),
+  deny_lists: z.array(DenyListSchema).default([]),
+  on_error: OnErrorSchema,
 });
 
 const ServerSchema = z.object({
@@ -110,15 +322,153 @@ const SecretEntityTypes = [
   "ENV_PASSWORD",
   "ENV_SECRET",
   "CONNECTION_STRING",
+  "API_KEY_AWS_SECRET",
+  "API_KEY_GOOGLE",
+  "API_KEY_STRIPE_RESTRICTED",
+  "API_KEY_TWILIO",
+  "API_KEY_SENDGRID",
+  "SLACK_TOKEN",
+  "GITLAB_TOKEN",
+  "NPM_TOKEN",
+  "PYPI_TOKEN",
+  "HUGGINGFACE_TOKEN",
+  "GCP_SERVICE_ACCOUNT",
+  "GCP_PRIVATE_KEY",
+  "AZURE_STORAGE_CONNECTION_STRING",
+  "HIGH_ENTROPY_SECRET",
 ] as const;
 
-const SecretsDetectionSchema = z.object({
-  enabled: z.boolean().default(true),
-  action: z.enum(["block", "mask", "route_local"]).default("mask"),
-  entities: z.array(z.enum(SecretEntityTypes)).default(["OPENSSH_PRIVATE_KEY", "PEM_PRIVATE_KEY"]),
-  max_scan_chars: z.coerce.number().int().min(0).default(200000),
-  log_detected_types: z.boolean().default(true),
-  scan_roles: z.array(z.string()).optional(),
+// User-defined secret pattern, compiled into a detector at startup
+const CustomSecretPatternSchema = z
+  .object({
+    name: z
+      .string()
+      .regex(/^[A-Z][A-Z0-9_]*$/, "custom pattern name must be UPPER_SNAKE_CASE")
+      .refine((name) => !(SecretEntityTypes as readonly string[]).includes(name), {
+        message: "custom pattern name must not shadow a built-in secret type",
+      }),
+    regex: z.string().min(1),
+    keywords: z.array(z.string().min(1)).optional(), // prefilter: only scan text containing one of these
+    min_entropy: z.coerce.number().min(0).optional(), // Shannon entropy in bits per character
+    group: z.union([z.number().int().min(0), z.string().min(1)]).optional(), // capture group holding the secret
+  })
+  .superRefine((pattern, ctx) => {
+    const error = validateCustomPattern(pattern);
+    if (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["regex"], message: error });
+    }
+  });
+
+// Thresholds for HIGH_ENTROPY_SECRET (generic high-entropy values)
+const EntropySchema = z.object({
+  min_length: z.coerce.number().int().min(1).default(DEFAULT_ENTROPY_OPTIONS.min_length),
+  // Shannon entropy in bits per character - hex tops out at 4, base64 at 6
+  hex_threshold: z.coerce.number().min(0).default(DEFAULT_ENTROPY_OPTIONS.hex_threshold),
+  base64_threshold: z.coerce.number().min(0).default(DEFAULT_ENTROPY_OPTIONS.base64_threshold),
+  keywords: z.array(z.string().min(1)).default(DEFAULT_ENTROPY_OPTIONS.keywords),
+  require_keyword: z.boolean().default(DEFAULT_ENTROPY_OPTIONS.require_keyword),
+  // Regexes for values that are never reported (UUIDs and hashes are always skipped)
+  allowlist: z
+    .array(
+      z.string().refine(
+        (pattern) => {
+          try {
+            new RegExp(pattern);
+            return true;
+          } catch {
+            return false;
+          }
+        },
+        { message: "invalid allowlist regex" },
+      ),
+    )
+    .default(DEFAULT_ENTROPY_OPTIONS.allowlist),
+});
+
+const SecretsDetectionSchema = z
+  .object({
+    enabled: z.boolean().default(true),
+    action: z.enum(["block", "mask", "route_local"]).default("mask"),
+    // Built-in types or custom pattern names
+    entities: z.array(z.string()).default(["OPENSSH_PRIVATE_KEY", "PEM_PRIVATE_KEY"]),
+    max_scan_chars: z.coerce.number().int().min(0).default(200000),
+    log_detected_types: z.boolean().default(true),
+    scan_roles: z.array(z.string()).optional(),
+    entropy: EntropySchema.default({}),
+    custom_patterns: z.array(CustomSecretPatternSchema).default([]),
+  })
+  .superRefine((config, ctx) => {
+    const customNames = new Set<string>();
+    config.custom_patterns.forEach((pattern, i) => {
+      if (customNames.has(pattern.name)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["custom_patterns", i, "name"],
+          message: `duplicate custom pattern name '${pattern.name}'`,
+        });
+      }
+      customNames.add(pattern.name);
+    });
+    config.entities.forEach((entity, i) => {
+      if (!(SecretEntityTypes as readonly string[]).includes(entity) && !customNames.has(entity)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["entities", i],
+          message: `unknown secret type '${entity}' (not built-in or a custom pattern name)`,
+        });
+      }
+    });
+  });
+
+// Placeholder sessions - keep placeholders stable across conversation turns
+const SessionsSchema = z.object({
+  enabled: z.boolean().default(false),
+  database: z.string().default("./data/sessions.db"),
+  ttl_seconds: z.coerce.number().int().min(60).default(86_400),
+  conversation_hash: z.boolean().default(false), // key by conversation prefix when no session header is sent
+});
+
+// Embeddings route policy - applied when PII or secrets are found in embedding inputs
+const EmbeddingsSchema = z.object({
+  action: z.enum(["mask", "block", "route_local"]).default("mask"),
+  local_model: z.string().optional(), // Embedding model on the local provider, required for route_local
+});
+
+const POLICY_ACTIONS = ["allow", "mask", "route_local", "upstream", "block"] as const;
+const POLICY_ROUTES = ["openai", "anthropic", "copilot", "gemini", "embeddings"] as const;
+
+// Policy rule - all given conditions must match, the first matching rule decides the action
+const PolicyRuleSchema = z
+  .object({
+    name: z.string().min(1).optional(), // Shown in X-PasteGuard-Decision, defaults to "#<position>"
+    entities: z.array(z.string()).min(1).optional(), // Any of these entity types detected
+    only_entities: z.array(z.string()).min(1).optional(), // PII detected, and only these types
+    min_entities: z.coerce.number().int().min(1).optional(), // At least N entities (of `entities` if set)
+    secrets: z.union([z.boolean(), z.array(z.string()).min(1)]).optional(), // Any / none / any of these types
+    model: z.string().min(1).optional(), // Glob on the request model
+    client: z.string().min(1).optional(), // Glob on the User-Agent header
+    routes: z.array(z.enum(POLICY_ROUTES)).min(1).optional(), // All routes if omitted
+    action: z.enum(POLICY_ACTIONS),
+    upstream: z.string().min(1).optional(), // providers.upstreams key, required for action upstream
+  })
+  .superRefine((rule, ctx) => {
+    if (rule.action === "upstream" && !rule.upstream) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["upstream"],
+        message: "Action 'upstream' requires an upstream name",
+      });
+    } else if (rule.action !== "upstream" && rule.upstream) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["upstream"],
+        message: "upstream is only used with action 'upstream'",
+      });
+    }
+  });
+
+const PolicySchema = z.object({
+  rules: z.array(PolicyRuleSchema).default([]),
 });
 
 const ConfigSchema = z
@@ -129,7 +479,11 @@ const ConfigSchema = z
     providers: z.object({
       openai: OpenAIProviderSchema.default({}),
       anthropic: AnthropicProviderSchema.default({}),
+      gemini: GeminiProviderSchema.default({}),
       copilot: CopilotProviderSchema.optional(),
+      upstreams: z.record(UpstreamSchema).default({}),
+      routing: z.array(RoutingRuleSchema).default([]),
+      retry: RetrySchema.default({}),
     }),
     // Local provider - only for route mode
     local: LocalProviderSchema.optional(),
@@ -138,6 +492,9 @@ const ConfigSchema = z
     logging: LoggingSchema.default({}),
     dashboard: DashboardSchema.default({}),
     secrets_detection: SecretsDetectionSchema.default({}),
+    embeddings: EmbeddingsSchema.default({}),
+    sessions: SessionsSchema.default({}),
+    policy: PolicySchema.default({}),
   })
   .refine(
     (config) => {
@@ -163,15 +520,135 @@ const ConfigSchema = z
       message:
         "secrets_detection.action 'route_local' is not compatible with mode 'mask'. Use mode 'route' or change secrets_detection.action to 'block' or 'mask'",
     },
-  );
+  )
+
+  .refine(
+    (config) => {
+      // Embeddings route_local needs a local provider and an embedding model
+      if (config.embeddings.action === "route_local") {
+        return config.local !== undefined && config.embeddings.local_model !== undefined;
+      }
+      return true;
+    },
+    {
+      message:
+        "embeddings.action 'route_local' requires 'local' provider configuration and embeddings.local_model",
+    },
+  )
+  .superRefine((config, ctx) => {
+    const { upstreams, routing } = config.providers;
+    for (const name of Object.keys(upstreams)) {
+      if (RESERVED_UPSTREAM_NAMES.includes(name)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["providers", "upstreams", name],
+          message: `Upstream name '${name}' is reserved for a built-in provider`,
+        });
+      }
+    }
+    routing.forEach((rule, index) => {
+      if (rule.upstream !== "openai" && !(rule.upstream in upstreams)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["providers", "routing", index, "upstream"],
+          message: `Unknown upstream '${rule.upstream}'`,
+        });
+      }
+    });
+
+    const fallbacks: [string, string[]][] = [
+      ["openai", config.providers.openai.fallback],
+      ["anthropic", config.providers.anthropic.fallback],
+      ...Object.entries(upstreams).map(([name, u]): [string, string[]] => [name, u.fallback]),
+    ];
+    for (const [name, fallback] of fallbacks) {
+      const path = name in upstreams ? ["upstreams", name] : [name];
+      fallback.forEach((target, index) => {
+        let message: string | undefined;
+        if (target === name) {
+          message = `'${name}' can't fall back to itself`;
+        } else if (target === "local") {
+          if (!config.local) message = "Fallback 'local' requires 'local' provider configuration";
+        } else if (target !== "openai" && !(target in upstreams)) {
+          message = `Unknown upstream '${target}'`;
+        }
+        if (message) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["providers", ...path, "fallback", index],
+            message,
+          });
+        }
+      });
+    }
+  })
+  .superRefine((config, ctx) => {
+    config.policy.rules.forEach((rule, index) => {
+      if (rule.upstream && !(rule.upstream in config.providers.upstreams)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["policy", "rules", index, "upstream"],
+          message: `Unknown upstream '${rule.upstream}'`,
+        });
+      }
+      if (rule.action === "route_local" && !config.local) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["policy", "rules", index, "action"],
+          message: "'route_local' requires 'local' provider configuration",
+        });
+      }
+    });
+  })
+  .superRefine((config, ctx) => {
+    // on_error route_local forwards to the local provider. A route_local default
+    // falls back to block on routes that can't route locally (see getDetectionErrorPolicy)
+    const onError = config.pii_detection.on_error;
+    const policies = typeof onError === "string" ? { default: onError } : onError;
+    for (const [route, policy] of Object.entries(policies)) {
+      if (policy !== "route_local") continue;
+      const path = ["pii_detection", "on_error", ...(typeof onError === "string" ? [] : [route])];
+      if (route === "copilot" || route === "gemini") {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path,
+          message: `'route_local' is not supported for ${route}`,
+        });
+      } else if (!config.local) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path,
+          message: "'route_local' requires 'local' provider configuration",
+        });
+      } else if (route === "embeddings" && !config.embeddings.local_model) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path,
+          message: "'route_local' for embeddings requires embeddings.local_model",
+        });
+      }
+    }
+  });
 
 export type Config = z.infer<typeof ConfigSchema>;
 export type OpenAIProviderConfig = z.infer<typeof OpenAIProviderSchema>;
 export type AnthropicProviderConfig = z.infer<typeof AnthropicProviderSchema>;
+export type GeminiProviderConfig = z.infer<typeof GeminiProviderSchema>;
+export type UpstreamConfig = z.infer<typeof UpstreamSchema>;
+export type RetryConfig = z.infer<typeof RetrySchema>;
+export type RoutingRule = z.infer<typeof RoutingRuleSchema>;
 export type CopilotProviderConfig = z.infer<typeof CopilotProviderSchema>;
 export type LocalProviderConfig = z.infer<typeof LocalProviderSchema>;
 export type MaskingConfig = z.infer<typeof MaskingSchema>;
+export type MaskingStrategy = MaskingConfig["strategy"];
+export type PIIEngine = (typeof PII_ENGINES)[number];
+export type DetectionErrorPolicy = (typeof DETECTION_ERROR_POLICIES)[number];
+export type DetectionErrorRoute = "openai" | "anthropic" | "copilot" | "gemini" | "embeddings";
 export type SecretsDetectionConfig = z.infer<typeof SecretsDetectionSchema>;
+export type EmbeddingsConfig = z.infer<typeof EmbeddingsSchema>;
+export type SessionsConfig = z.infer<typeof SessionsSchema>;
+export type PolicyRule = z.infer<typeof PolicyRuleSchema>;
+export type PolicyAction = (typeof POLICY_ACTIONS)[number];
 
 /**
  * Replaces ${VAR} and ${VAR:-default} patterns with environment variable values
@@ -18,7 +18,10 @@ export const HEALTH_CHECK_TIMEOUT_MS = 5_000;
  */
 export function createTTFBTimeout(ms: number): { signal: AbortSignal; clear: () => void } {
   const controller = new AbortController();
-  const timer = setTimeout(() => controller.abort(new Error("The operation timed out.")), ms);
+  const timer = setTimeout(
+    () => controller.abort(new DOMException("The operation timed out.", "TimeoutError")),
+    ms,
+  );
   return {
     signal: controller.signal,
     clear: () => clearTimeout(timer),
@@ -9,10 +9,12 @@ import { anthropicRoutes } from "./routes/anthropic";
 import { apiRoutes } from "./routes/api";
 import { copilotRoutes } from "./routes/copilot";
 import { dashboardRoutes } from "./routes/dashboard";
+import { geminiRoutes } from "./routes/gemini";
 import { healthRoutes } from "./routes/health";
 import { infoRoutes } from "./routes/info";
 import { openaiRoutes } from "./routes/openai";
 import { getLogger } from "./services/logger";
+import { getSessionStore } from "./services/sessions";
 
 type Variables = {
   requestId: string;
@@ -58,6 +60,7 @@ app.route("/", healthRoutes);
 app.route("/", infoRoutes);
 app.route("/openai", openaiRoutes);
 app.route("/anthropic", anthropicRoutes);
+app.route("/gemini", geminiRoutes);
 app.route("/copilot", copilotRoutes);
 app.route("/api", apiRoutes);
 
@@ -121,23 +124,38 @@ async function validateStartup() {
   }
 
   const detector = getPIIDetector();
+  const engine = config.pii_detection.engine;
 
-  // Wait for Presidio to be ready (multi-language setups need longer to load spaCy models)
+  if (engine === "builtin") {
+    console.log("[STARTUP] ✓ Using built-in PII detector (Presidio not required)");
+    return;
+  }
+
+  // Wait for the NER backend to be ready (multi-language setups need longer to load spaCy models)
+  const backend = detector.getBackendInfo();
+  const isPresidio = config.pii_detection.backend.type === "presidio";
   const startupTimeout = Number(process.env.PASTEGUARD_STARTUP_TIMEOUT) || 180;
-  console.log("[STARTUP] Connecting to Presidio...");
+  console.log(`[STARTUP] Connecting to ${backend.name}...`);
   const ready = await detector.waitForReady(startupTimeout, 1000);
 
-  if (!ready) {
-    console.error(
-      `[STARTUP] ✗ Could not connect to Presidio at ${config.pii_detection.presidio_url}`,
-    );
-    console.error(
-      "          Make sure Presidio is running: docker compose up presidio-analyzer -d",
+  if (!ready && engine === "presidio_with_fallback") {
+    console.warn(
+      `[STARTUP] ⚠ ${backend.name} not reachable at ${backend.url}, using built-in PII detector until it is`,
     );
+    return;
+  }
+
+  if (!ready) {
+    console.error(`[STARTUP] ✗ Could not connect to ${backend.name} at ${backend.url}`);
+    if (isPresidio) {
+      console.error(
+        "          Make sure Presidio is running: docker compose up presidio-analyzer -d",
+      );
+    }
     process.exit(1);
   }
 
-  console.log("[STARTUP] ✓ Presidio connected");
+  console.log(`[STARTUP] ✓ ${backend.name} connected`);
 
   // Validate configured languages
   console.log(`[STARTUP] Validating languages: ${config.pii_detection.languages.join(", ")}`);
@@ -152,7 +170,9 @@ async function validateStartup() {
     console.error(`   Missing:    ${validation.missing.join(", ")}\n`);
     console.error("   To fix, either:");
     console.error(
-      `   1. Rebuild: LANGUAGES=${config.pii_detection.languages.join(",")} docker compose build presidio-analyzer`,
+      isPresidio
+        ? `   1. Rebuild: LANGUAGES=${config.pii_detection.languages.join(",")} docker compose build presidio-analyzer`
+        : `   1. Add the missing languages to the ${backend.name} server`,
     );
     console.error(`   2. Update config.yaml languages to: [${validation.available.join(", ")}]\n`);
     console.error("[STARTUP] ✗ Language configuration mismatch. Exiting for safety.");
@@ -163,6 +183,11 @@ async function validateStartup() {
 }
 
 function printStartupBanner(config: ReturnType<typeof getConfig>, host: string, port: number) {
+  const upstreamNames = Object.keys(config.providers.upstreams);
+  const upstreamInfo =
+    upstreamNames.length > 0
+      ? `\n  Upstreams: ${upstreamNames.join(", ")} (${config.providers.routing.length} routing rules)`
+      : "";
   const modeInfo =
     config.mode === "route"
       ? `
@@ -171,14 +196,14 @@ Routing:
   On PII:  local
 
 Providers:
-  OpenAI: ${config.providers.openai.base_url}
+  OpenAI: ${config.providers.openai.base_url}${upstreamInfo}
   Local:  ${config.local?.type || "not configured"} → ${config.local?.model || "n/a"}`
       : `
 Masking:
   Markers: ${config.masking.show_markers ? "enabled" : "disabled"}
 
 Provider:
-  OpenAI: ${config.providers.openai.base_url}`;
+  OpenAI: ${config.providers.openai.base_url}${upstreamInfo}`;
 
   console.log(`
 ╔═══════════════════════════════════════════════════════════╗
@@ -188,7 +213,9 @@ Provider:
 
 Server:     http://${host}:${port}
 OpenAI API: http://${host}:${port}/openai/v1/chat/completions
+Responses:  http://${host}:${port}/openai/v1/responses
 Anthropic:  http://${host}:${port}/anthropic/v1/messages
+Gemini:     http://${host}:${port}/gemini/v1beta/models/{model}:generateContent
 Copilot:    http://${host}:${port}/copilot (chat/completions + v1/engines/:engine/completions)
 Mask API:   http://${host}:${port}/api/mask
 Health:     http://${host}:${port}/health
@@ -199,6 +226,9 @@ Mode:       ${config.mode.toUpperCase()}
 ${modeInfo}
 
 PII Detection:
+  Engine:    ${config.pii_detection.engine}
+  Backend:   ${config.pii_detection.backend.type}
+  Cache:     ${config.pii_detection.cache.type}
   Languages: ${config.pii_detection.languages.join(", ")}
   Fallback:  ${config.pii_detection.fallback_language}
   Threshold: ${config.pii_detection.score_threshold}
@@ -263,6 +293,16 @@ function setupGracefulShutdown(stopCleanup: () => void) {
     } catch {
       // Logger might not be initialized
     }
+    try {
+      getSessionStore()?.close();
+    } catch {
+      // Session store might not be initialized
+    }
+    try {
+      getPIIDetector().closeCache();
+    } catch {
+      // Persistent detection cache might not be reachable
+    }
     process.exit(0);
   }
 
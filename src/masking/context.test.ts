@@ -6,7 +6,9 @@ import {
   incrementAndGenerate,
   processStreamChunk,
   replaceWithPlaceholders,
+  reserveLiteralPlaceholders,
   restorePlaceholders,
+  unmapLiteralPlaceholders,
 } from "./context";
 
 /**
@@ -231,6 +233,71 @@ describe("restorePlaceholders", () => {
   });
 });
 
+describe("custom placeholder format", () => {
+  test("restores and streams placeholders of the context format", () => {
+    const ctx = createPlaceholderContext({ placeholderFormat: "<{TYPE}_{N}>" });
+    ctx.mapping["<PERSON_1>"] = "Jane";
+
+    expect(restorePlaceholders("<b>Hi</b> <PERSON_1>", ctx)).toBe("<b>Hi</b> Jane");
+
+    const first = processStreamChunk("", "Hi <PERS", ctx, restorePlaceholders);
+    expect(first).toEqual({ output: "Hi ", remainingBuffer: "<PERS" });
+    const second = processStreamChunk(first.remainingBuffer, "ON_1>!", ctx, restorePlaceholders);
+    expect(second).toEqual({ output: "Jane!", remainingBuffer: "" });
+  });
+
+  test("gives each context its own nonce", () => {
+    const templates = new Set(
+      Array.from(
+        { length: 5 },
+        () =>
+          createPlaceholderContext({ placeholderFormat: "⟦{NONCE}:{TYPE}_{N}⟧" }).format?.template,
+      ),
+    );
+    expect([...templates][0]).toMatch(/^⟦[0-9a-f]{4}:\{TYPE\}_\{N\}⟧$/);
+    expect(templates.size).toBeGreaterThan(1);
+  });
+});
+
+describe("literal placeholders in input", () => {
+  test("skips placeholders that already appear in the input", () => {
+    const ctx = createPlaceholderContext();
+    const text = "Template: [[PERSON_1]]. Name: Jane";
+    reserveLiteralPlaceholders([text], ctx);
+
+    const masked = replaceWithPlaceholders(
+      text,
+      [{ start: 30, end: 34, type: "PERSON" }],
+      ctx,
+      (item: TestItem) => item.type,
+      (type, c) => incrementAndGenerate(type, c, testPlaceholder),
+      simpleResolveConflicts,
+    );
+
+    expect(masked).toBe("Template: [[PERSON_1]]. Name: [[PERSON_2]]");
+    // The literal is never unmasked
+    expect(restorePlaceholders(masked, ctx)).toBe("Template: [[PERSON_1]]. Name: Jane");
+  });
+});
+
+describe("unmapLiteralPlaceholders", () => {
+  test("reserves a stored placeholder the input contains literally", () => {
+    const ctx = createPlaceholderContext();
+    ctx.mapping["[[PERSON_1]]"] = "Alice";
+    ctx.reverseMapping.Alice = "[[PERSON_1]]";
+    ctx.mapping["[[PERSON_2]]"] = "Bob";
+    ctx.reverseMapping.Bob = "[[PERSON_2]]";
+    ctx.counters.PERSON = 2;
+
+    unmapLiteralPlaceholders(["What does [[PERSON_1]] mean?"], ctx);
+
+    expect(ctx.mapping).toEqual({ "[[PERSON_2]]": "Bob" });
+    expect(ctx.reverseMapping).toEqual({ Bob: "[[PERSON_2]]" });
+    expect(restorePlaceholders("[[PERSON_1]] and [[PERSON_2]]", ctx)).toBe("[[PERSON_1]] and Bob");
+    expect(incrementAndGenerate("PERSON", ctx, testPlaceholder)).toBe("[[PERSON_3]]");
+  });
+});
+
 describe("_sortedKeys cache invalidation", () => {
   test("restores placeholder added after initial cache population", () => {
     const ctx = createPlaceholderContext();
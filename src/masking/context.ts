@@ -2,8 +2,24 @@
  * Placeholder context and text transformation utilities
  */
 
-import { findPartialPlaceholderStart } from "../masking/placeholders";
+import {
+  DEFAULT_PLACEHOLDER_FORMAT,
+  findPartialPlaceholderStart,
+  findPartialValueStart,
+  findPlaceholders,
+  type PlaceholderFormat,
+  parsePlaceholderFormat,
+  resolvePlaceholderNonce,
+} from "../masking/placeholders";
 import type { Span } from "./conflict-resolver";
+import {
+  buildFuzzyIndex,
+  type FuzzyIndex,
+  type FuzzyUnmaskLevel,
+  findFuzzyPlaceholders,
+  findPartialFuzzyStart,
+  restoreFuzzy,
+} from "./fuzzy";
 
 /**
  * Generic context for placeholder-based transformations
@@ -16,8 +32,86 @@ export interface PlaceholderContext {
   reverseMapping: Record<string, string>;
   /** Counter per type for sequential numbering */
   counters: Record<string, number>;
-  /** Cached sorted placeholder keys (longest first) — invalidated when mapping changes */
+  /** Placeholder format (defaults to [[TYPE_N]]) */
+  format?: PlaceholderFormat;
+  /** Placeholders that already appear literally in the input - never generated, so never unmasked */
+  reserved?: Set<string>;
+  /** Random key for pseudonym generation, created on first use */
+  pseudonymSalt?: string;
+  /** Fuzzy unmasking level for mangled placeholders (defaults to off) */
+  fuzzy?: FuzzyUnmaskLevel;
+  /** Distinct mangled placeholders restored by fuzzy unmasking (for logging) */
+  fuzzyRestored?: Set<string>;
+  /**
+   * Cached keys that don't match the placeholder format, e.g. pseudonyms (longest first)
+   * — invalidated when mapping changes
+   */
   _sortedKeys?: string[];
+  /** Cached whole-word matcher for _sortedKeys — invalidated when mapping changes */
+  _valuePattern?: RegExp;
+  /** Cached fuzzy matchers — invalidated when mapping changes */
+  _fuzzyIndex?: FuzzyIndex;
+}
+
+/**
+ * Returns the placeholder format of a context
+ */
+export function getPlaceholderFormat(context: PlaceholderContext): PlaceholderFormat {
+  return context.format ?? DEFAULT_PLACEHOLDER_FORMAT;
+}
+
+/**
+ * Returns mapping keys that placeholder matching can't find, sorted by length
+ * descending (cached on the context)
+ */
+function getSortedKeys(context: PlaceholderContext): string[] {
+  if (!context._sortedKeys) {
+    const { exact } = getPlaceholderFormat(context);
+    context._sortedKeys = Object.keys(context.mapping)
+      .filter((key) => !exact.test(key))
+      .sort((a, b) => b.length - a.length);
+  }
+  return context._sortedKeys;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Returns a pattern matching the sorted keys as whole words, or undefined if
+ * there are none (cached on the context)
+ *
+ * Pseudonyms are ordinary words, so "Grace" must not be restored inside
+ * "Graceful".
+ */
+function getValuePattern(context: PlaceholderContext): RegExp | undefined {
+  const keys = getSortedKeys(context);
+  if (keys.length === 0) return undefined;
+  if (!context._valuePattern) {
+    const alternatives = keys.map(escapeRegExp).join("|");
+    context._valuePattern = new RegExp(
+      `(?<![\\p{L}\\p{N}_])(?:${alternatives})(?![\\p{L}\\p{N}_])`,
+      "gu",
+    );
+  }
+  return context._valuePattern;
+}
+
+/**
+ * Returns the fuzzy index of a context, or undefined if fuzzy unmasking is off
+ * (cached on the context)
+ */
+function getFuzzyIndex(context: PlaceholderContext): FuzzyIndex | undefined {
+  if (!context.fuzzy || context.fuzzy === "off") return undefined;
+  if (!context._fuzzyIndex) {
+    context._fuzzyIndex = buildFuzzyIndex(
+      Object.keys(context.mapping),
+      getPlaceholderFormat(context),
+      context.fuzzy,
+    );
+  }
+  return context._fuzzyIndex;
 }
 
 /**
@@ -31,30 +125,143 @@ export interface MaskResult {
   context: PlaceholderContext;
 }
 
+/**
+ * Options for new placeholder contexts
+ */
+export interface PlaceholderContextOptions {
+  /**
+   * Format template (default [[{TYPE}_{N}]]); {NONCE} is resolved here, so each
+   * context gets its own nonce
+   */
+  placeholderFormat?: string;
+  /** Fuzzy unmasking level (default off) */
+  fuzzy?: FuzzyUnmaskLevel;
+}
+
 /**
  * Creates a new placeholder context
  */
-export function createPlaceholderContext(): PlaceholderContext {
+export function createPlaceholderContext(
+  options: PlaceholderContextOptions = {},
+): PlaceholderContext {
+  const { placeholderFormat, fuzzy } = options;
   return {
     mapping: {},
     reverseMapping: {},
     counters: {},
+    ...(placeholderFormat && {
+      format: parsePlaceholderFormat(resolvePlaceholderNonce(placeholderFormat)),
+    }),
+    ...(fuzzy && { fuzzy }),
   };
 }
 
+/**
+ * Reserves placeholders that already appear literally in the given texts
+ *
+ * A user may paste text that contains `[[PERSON_1]]`. Reserving it makes
+ * generation skip that placeholder, so the literal is never mapped and never
+ * "unmasked" in the response. With fuzzy unmasking, variants it would restore
+ * (`[PERSON_1]`, `[[ person_1 ]]`, bare `PERSON_1` when aggressive) reserve
+ * their placeholder too.
+ */
+export function reserveLiteralPlaceholders(texts: string[], context: PlaceholderContext): void {
+  for (const placeholder of findLiteralPlaceholders(texts, context)) {
+    if (context.mapping[placeholder] !== undefined) continue;
+    context.reserved ??= new Set();
+    context.reserved.add(placeholder);
+  }
+}
+
+/**
+ * Unmaps placeholders of a stored context that appear literally in new input
+ *
+ * A session maps `[[PERSON_1]]` from an earlier turn. If the user now pastes
+ * `[[PERSON_1]]` themselves, restoring it would put that person into the
+ * response. The placeholder is removed from the mapping and reserved instead;
+ * its value gets a new placeholder when it is masked again.
+ */
+export function unmapLiteralPlaceholders(texts: string[], context: PlaceholderContext): void {
+  for (const placeholder of findLiteralPlaceholders(texts, context)) {
+    const original = context.mapping[placeholder];
+    if (original === undefined) continue;
+    delete context.mapping[placeholder];
+    delete context.reverseMapping[original];
+    context._sortedKeys = undefined; // invalidate caches
+    context._valuePattern = undefined;
+    context._fuzzyIndex = undefined;
+    context.reserved ??= new Set();
+    context.reserved.add(placeholder);
+  }
+}
+
+/**
+ * Mapping entries whose placeholder (or pseudonym) appears in masked text
+ */
+export function findMappedPlaceholders(
+  text: string,
+  context: PlaceholderContext,
+): Record<string, string> {
+  const found: Record<string, string> = {};
+  const pattern = getValuePattern(context);
+  const candidates = [
+    ...findPlaceholders(text, getPlaceholderFormat(context)),
+    ...(pattern ? (text.match(pattern) ?? []) : []),
+  ];
+  for (const placeholder of candidates) {
+    const original = context.mapping[placeholder];
+    if (original !== undefined) found[placeholder] = original;
+  }
+  return found;
+}
+
+/**
+ * Adds mapping entries to a context, skipping placeholders and values it
+ * already maps
+ */
+export function addMappings(context: PlaceholderContext, mapping: Record<string, string>): void {
+  for (const [placeholder, original] of Object.entries(mapping)) {
+    if (context.mapping[placeholder] !== undefined) continue;
+    if (context.reverseMapping[original] !== undefined) continue;
+    context.mapping[placeholder] = original;
+    context.reverseMapping[original] = placeholder;
+  }
+  context._sortedKeys = undefined; // invalidate caches
+  context._valuePattern = undefined;
+  context._fuzzyIndex = undefined;
+}
+
+/**
+ * Placeholders in texts, plus those of variants fuzzy unmasking would restore
+ */
+function findLiteralPlaceholders(texts: string[], context: PlaceholderContext): string[] {
+  const format = getPlaceholderFormat(context);
+  const fuzzy = context.fuzzy && context.fuzzy !== "off" ? context.fuzzy : undefined;
+  return texts.flatMap((text) => [
+    ...findPlaceholders(text, format),
+    ...(fuzzy ? findFuzzyPlaceholders(text, format, fuzzy) : []),
+  ]);
+}
+
 /**
  * Increments counter for type and generates placeholder using format function
  *
- * Shared counter logic for both PII masking and secrets masking.
+ * Shared counter logic for both PII masking and secrets masking. Placeholders
+ * that are reserved or already mapped are skipped.
  */
 export function incrementAndGenerate(
   type: string,
   context: PlaceholderContext,
   format: (type: string, count: number) => string,
 ): string {
-  const count = (context.counters[type] || 0) + 1;
-  context.counters[type] = count;
-  return format(type, count);
+  while (true) {
+    const count = (context.counters[type] || 0) + 1;
+    context.counters[type] = count;
+    const placeholder = format(type, count);
+    if (!context.reserved?.has(placeholder) && context.mapping[placeholder] === undefined) {
+      return placeholder;
+    }
+  }
 }
 
 /**
@@ -71,20 +278,32 @@ export function restorePlaceholders(
   context: PlaceholderContext,
   formatValue?: (original: string) => string,
 ): string {
-  let result = text;
+  const format = getPlaceholderFormat(context);
+  const restore = (original: string) => (formatValue ? formatValue(original) : original);
 
-  // Sort placeholders by length descending to avoid partial replacements.
-  // Cache the sorted keys since this is called on every streaming chunk.
-  if (!context._sortedKeys) {
-    context._sortedKeys = Object.keys(context.mapping).sort((a, b) => b.length - a.length);
+  // Placeholders of the context format are found in a single pass
+  let result = text.includes(format.start)
+    ? text.replace(format.pattern, (match) => {
+        const original = context.mapping[match];
+        return original === undefined ? match : restore(original);
+      })
+    : text;
+
+  // Remaining keys (pseudonyms) are replaced as whole words, longest first.
+  // The pattern is cached since this is called on every streaming chunk.
+  const valuePattern = getValuePattern(context);
+  if (valuePattern) {
+    result = result.replace(valuePattern, (match) => restore(context.mapping[match]));
   }
-  const placeholders = context._sortedKeys;
 
-  for (const placeholder of placeholders) {
-    if (!result.includes(placeholder)) continue;
-    const originalValue = context.mapping[placeholder];
-    const replacement = formatValue ? formatValue(originalValue) : originalValue;
-    result = result.replaceAll(placeholder, replacement);
+  // Placeholders the model rewrote (spacing, case, delimiters) are restored last
+  const fuzzyIndex = getFuzzyIndex(context);
+  if (fuzzyIndex) {
+    result = restoreFuzzy(result, fuzzyIndex, (placeholder, match) => {
+      context.fuzzyRestored ??= new Set();
+      context.fuzzyRestored.add(match);
+      return restore(context.mapping[placeholder]);
+    });
   }
 
   return result;
@@ -100,7 +319,7 @@ export function restorePlaceholders(
  * @param items - Items with start/end positions to replace
  * @param context - Placeholder context for tracking mappings
  * @param getType - Function to get the type string from an item
- * @param generatePlaceholder - Function to generate placeholder for a type
+ * @param generatePlaceholder - Function to generate placeholder for a type (and original value)
  * @param resolveConflicts - Function to resolve overlapping items
  */
 export function replaceWithPlaceholders<T extends Span>(
@@ -108,7 +327,7 @@ export function replaceWithPlaceholders<T extends Span>(
   items: T[],
   context: PlaceholderContext,
   getType: (item: T) => string,
-  generatePlaceholder: (type: string, context: PlaceholderContext) => string,
+  generatePlaceholder: (type: string, context: PlaceholderContext, original: string) => string,
   resolveConflicts: (items: T[]) => T[],
 ): string {
   if (items.length === 0) {
@@ -130,10 +349,12 @@ export function replaceWithPlaceholders<T extends Span>(
     let placeholder = context.reverseMapping[originalValue];
 
     if (!placeholder) {
-      placeholder = generatePlaceholder(getType(item), context);
+      placeholder = generatePlaceholder(getType(item), context, originalValue);
       context.mapping[placeholder] = originalValue;
       context.reverseMapping[originalValue] = placeholder;
-      context._sortedKeys = undefined; // invalidate cache
+      context._sortedKeys = undefined; // invalidate caches
+      context._valuePattern = undefined;
+      context._fuzzyIndex = undefined;
     }
 
     itemPlaceholders.set(item, placeholder);
@@ -152,6 +373,26 @@ export function replaceWithPlaceholders<T extends Span>(
   return result;
 }
 
+/**
+ * Finds where a partial placeholder or pseudonym may start at the end of text
+ *
+ * Delimited placeholders are found by their opening delimiter; pseudonyms have
+ * no delimiters, so any suffix that is a prefix of one is held back. With fuzzy
+ * unmasking, mangled placeholders are held back as well.
+ */
+function findPartialStart(text: string, context: PlaceholderContext): number {
+  const starts = [findPartialPlaceholderStart(text, getPlaceholderFormat(context))];
+
+  const pseudonyms = getSortedKeys(context);
+  if (pseudonyms.length > 0) starts.push(findPartialValueStart(text, pseudonyms));
+
+  const fuzzyIndex = getFuzzyIndex(context);
+  if (fuzzyIndex) starts.push(findPartialFuzzyStart(text, fuzzyIndex));
+
+  const found = starts.filter((start) => start !== -1);
+  return found.length > 0 ? Math.min(...found) : -1;
+}
+
 /**
  * Processes a stream chunk, buffering partial placeholders
  *
@@ -170,7 +411,7 @@ export function processStreamChunk(
 ): { output: string; remainingBuffer: string } {
   const combined = buffer + newChunk;
 
-  const partialStart = findPartialPlaceholderStart(combined);
+  const partialStart = findPartialStart(combined, context);
 
   if (partialStart === -1) {
     // No partial placeholder, safe to restore everything
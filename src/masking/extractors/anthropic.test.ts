@@ -272,7 +272,7 @@ describe("Anthropic Text Extractor", () => {
       expect(spans[0].text).toBe("Look at this");
     });
 
-    test("skips tool_use blocks", () => {
+    test("skips tool_use blocks without string input", () => {
       const request = createRequest([
         {
           role: "assistant",
@@ -289,6 +289,36 @@ describe("Anthropic Text Extractor", () => {
       expect(spans[0].text).toBe("Using a tool");
     });
 
+    test("extracts string leaves from tool_use input", () => {
+      const request = createRequest([
+        {
+          role: "assistant",
+          content: [
+            {
+              type: "tool_use",
+              id: "tool_1",
+              name: "send_email",
+              input: { to: "john@example.com", options: { cc: ["jane@example.com"], retries: 2 } },
+            },
+          ],
+        },
+      ]);
+
+      const spans = anthropicExtractor.extractTexts(request);
+
+      expect(spans).toHaveLength(2);
+      expect(spans[0]).toEqual({
+        text: "john@example.com",
+        path: "messages[0].content[0].input",
+        messageIndex: 0,
+        partIndex: 0,
+        nestedPartIndex: 0,
+        role: "assistant",
+      });
+      expect(spans[1].text).toBe("jane@example.com");
+      expect(spans[1].nestedPartIndex).toBe(1);
+    });
+
     test("handles empty messages array", () => {
       const request = createRequest([]);
       const spans = anthropicExtractor.extractTexts(request);
@@ -454,6 +484,43 @@ describe("Anthropic Text Extractor", () => {
       expect(content[0].content).toBe("Result for [[EMAIL_ADDRESS_1]]");
     });
 
+    test("applies masked leaves to tool_use input", () => {
+      const request = createRequest([
+        {
+          role: "assistant",
+          content: [
+            { type: "text", text: "Sending" },
+            {
+              type: "tool_use",
+              id: "tool_1",
+              name: "send_email",
+              input: { to: "john@example.com", subject: "Hi", retries: 2 },
+            },
+          ],
+        },
+      ]);
+
+      const maskedSpans = [
+        {
+          path: "messages[0].content[1].input",
+          maskedText: "[[EMAIL_ADDRESS_1]]",
+          messageIndex: 0,
+          partIndex: 1,
+          nestedPartIndex: 0,
+        },
+      ];
+
+      const result = anthropicExtractor.applyMasked(request, maskedSpans);
+      const content = result.messages[0].content as Array<{
+        type: string;
+        text?: string;
+        input?: Record<string, unknown>;
+      }>;
+
+      expect(content[0].text).toBe("Sending");
+      expect(content[1].input).toEqual({ to: "[[EMAIL_ADDRESS_1]]", subject: "Hi", retries: 2 });
+    });
+
     test("applies masked text to tool_result with array content, preserving images", () => {
       const request = createRequest([
         {
@@ -738,6 +805,46 @@ describe("Anthropic Text Extractor", () => {
     });
   });
 
+  describe("tool_use unmasking", () => {
+    test("restores placeholders in tool_use input without formatValue", () => {
+      const response: AnthropicResponse = {
+        id: "msg_123",
+        type: "message",
+        role: "assistant",
+        content: [
+          {
+            type: "tool_use",
+            id: "tool_1",
+            name: "lookup",
+            input: { name: "[[PERSON_1]]", tags: ["[[PERSON_1]] profile"], limit: 5 },
+          },
+        ],
+        model: "claude-3-sonnet-20240229",
+        stop_reason: "tool_use",
+        stop_sequence: null,
+        usage: { input_tokens: 10, output_tokens: 5 },
+      };
+
+      const context: PlaceholderContext = {
+        mapping: { "[[PERSON_1]]": "Bob" },
+        reverseMapping: { Bob: "[[PERSON_1]]" },
+        counters: { PERSON: 1 },
+      };
+
+      const result = anthropicExtractor.unmaskResponse(
+        response,
+        context,
+        (val) => `[protected]${val}`,
+      );
+
+      expect((result.content[0] as { input: unknown }).input).toEqual({
+        name: "Bob",
+        tags: ["Bob profile"],
+        limit: 5,
+      });
+    });
+  });
+
   describe("cache_control preservation", () => {
     test("preserves cache_control on text block through applyMasked", () => {
       const request = createRequest([
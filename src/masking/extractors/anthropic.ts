@@ -8,6 +8,7 @@
  * - System prompt (string or content blocks) - SEPARATE from messages
  *
  * System spans use messageIndex -1 to distinguish from message spans.
+ * tool_use inputs are extracted leaf by leaf (nestedPartIndex = leaf ordinal).
  */
 
 import type { PlaceholderContext } from "../../masking/context";
@@ -18,7 +19,9 @@ import type {
   TextBlock,
   ThinkingBlock,
   ToolResultBlock,
+  ToolUseBlock,
 } from "../../providers/anthropic/types";
+import { collectStringLeaves, replaceStringLeaves, unmaskToolInput } from "../tool-arguments";
 import type { MaskedSpan, RequestExtractor, TextSpan } from "../types";
 
 /** System content uses messageIndex -1 */
@@ -152,6 +155,19 @@ export const anthropicExtractor: RequestExtractor<AnthropicRequest, AnthropicRes
                 role: msg.role,
               });
             }
+          } else if (block.type === "tool_use") {
+            const leaves = collectStringLeaves((block as ToolUseBlock).input);
+            for (let leafIdx = 0; leafIdx < leaves.length; leafIdx++) {
+              if (!leaves[leafIdx]) continue;
+              spans.push({
+                text: leaves[leafIdx],
+                path: `messages[${msgIdx}].content[${partIdx}].input`,
+                messageIndex: msgIdx,
+                partIndex: partIdx,
+                nestedPartIndex: leafIdx,
+                role: msg.role,
+              });
+            }
           } else if (block.type === "tool_result") {
             const toolResult = block as ToolResultBlock;
             if (typeof toolResult.content === "string") {
@@ -245,6 +261,21 @@ export const anthropicExtractor: RequestExtractor<AnthropicRequest, AnthropicRes
             const span = partSpans.find((s) => s.nestedPartIndex === undefined);
             if (span) return { ...block, thinking: span.maskedText };
           }
+          if (block.type === "tool_use") {
+            const replacements = new Map<number, string>();
+            for (const span of partSpans) {
+              if (span.nestedPartIndex !== undefined) {
+                replacements.set(span.nestedPartIndex, span.maskedText);
+              }
+            }
+            return {
+              ...block,
+              input: replaceStringLeaves(
+                (block as ToolUseBlock).input,
+                replacements,
+              ) as ToolUseBlock["input"],
+            };
+          }
           if (block.type === "tool_result") {
             const toolResult = block as ToolResultBlock;
             if (typeof toolResult.content === "string") {
@@ -293,6 +324,10 @@ export const anthropicExtractor: RequestExtractor<AnthropicRequest, AnthropicRes
         if (block.type === "text") {
           return { ...block, text: unmaskText((block as TextBlock).text) };
         }
+        // Markers are display-only, so tool inputs are restored without formatValue
+        if (block.type === "tool_use") {
+          return { ...block, input: unmaskToolInput((block as ToolUseBlock).input, [context]) };
+        }
         return block;
       }),
     };
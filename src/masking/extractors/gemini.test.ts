@@ -0,0 +1,153 @@
+import { describe, expect, test } from "bun:test";
+import type { PlaceholderContext } from "../../masking/context";
+import type { GeminiRequest, GeminiResponse } from "../../providers/gemini/types";
+import { geminiExtractor } from "./gemini";
+
+describe("Gemini Extractor", () => {
+  describe("extractTexts", () => {
+    test("extracts system instruction and text parts with mapped roles", () => {
+      const request: GeminiRequest = {
+        systemInstruction: { parts: [{ text: "You help John" }] },
+        contents: [
+          { role: "user", parts: [{ text: "Email john@example.com" }] },
+          {
+            role: "model",
+            parts: [{ text: "Thinking about Jane", thought: true }, { text: "Hello Jane" }],
+          },
+          { parts: [{ inlineData: { mimeType: "image/png", data: "iVBOR" } }, { text: "Hi" }] },
+        ],
+      };
+      const spans = geminiExtractor.extractTexts(request);
+
+      expect(spans.map((s) => [s.path, s.text, s.role, s.messageIndex])).toEqual([
+        ["systemInstruction.parts[0].text", "You help John", "system", -1],
+        ["contents[0].parts[0].text", "Email john@example.com", "user", 0],
+        ["contents[1].parts[0].text", "Thinking about Jane", "assistant", 1],
+        ["contents[1].parts[1].text", "Hello Jane", "assistant", 1],
+        ["contents[2].parts[1].text", "Hi", "user", 2],
+      ]);
+    });
+
+    test("extracts function call args and function response leaves", () => {
+      const request: GeminiRequest = {
+        contents: [
+          {
+            role: "model",
+            parts: [{ functionCall: { name: "lookup", args: { name: "Jane", limit: 5 } } }],
+          },
+          {
+            role: "user",
+            parts: [
+              {
+                functionResponse: {
+                  name: "lookup",
+                  response: { result: { email: "jane@example.com", tags: ["vip"] } },
+                },
+              },
+            ],
+          },
+        ],
+      };
+      const spans = geminiExtractor.extractTexts(request);
+
+      expect(spans.map((s) => [s.path, s.text, s.role, s.nestedPartIndex])).toEqual([
+        ["contents[0].parts[0].functionCall.args", "Jane", "assistant", 0],
+        ["contents[1].parts[0].functionResponse.response", "jane@example.com", "tool", 0],
+        ["contents[1].parts[0].functionResponse.response", "vip", "tool", 1],
+      ]);
+    });
+
+    test("reads snake_case system_instruction and function_response", () => {
+      const request: GeminiRequest = {
+        system_instruction: { parts: [{ text: "Be brief" }] },
+        contents: [
+          {
+            role: "user",
+            parts: [{ function_response: { name: "f", response: { output: "John" } } }],
+          },
+        ],
+      };
+      const spans = geminiExtractor.extractTexts(request);
+
+      expect(spans.map((s) => [s.path, s.text])).toEqual([
+        ["system_instruction.parts[0].text", "Be brief"],
+        ["contents[0].parts[0].functionResponse.response", "John"],
+      ]);
+    });
+  });
+
+  describe("applyMasked", () => {
+    test("writes masked text, args and system instruction back in place", () => {
+      const request: GeminiRequest = {
+        system_instruction: { parts: [{ text: "You help John" }] },
+        contents: [
+          {
+            role: "user",
+            parts: [
+              { text: "Hi Jane", thoughtSignature: "sig" },
+              { functionResponse: { name: "f", response: { a: "x", b: "Jane" } } },
+            ],
+          },
+        ],
+      };
+
+      const result = geminiExtractor.applyMasked(request, [
+        { path: "", maskedText: "You help [[PERSON_1]]", messageIndex: -1, partIndex: 0 },
+        { path: "", maskedText: "Hi [[PERSON_2]]", messageIndex: 0, partIndex: 0 },
+        {
+          path: "",
+          maskedText: "[[PERSON_2]]",
+          messageIndex: 0,
+          partIndex: 1,
+          nestedPartIndex: 1,
+        },
+      ]);
+
+      expect(result.system_instruction).toEqual({ parts: [{ text: "You help [[PERSON_1]]" }] });
+      expect(result.systemInstruction).toBeUndefined();
+      expect(result.contents[0].parts).toEqual([
+        { text: "Hi [[PERSON_2]]", thoughtSignature: "sig" },
+        { functionResponse: { name: "f", response: { a: "x", b: "[[PERSON_2]]" } } },
+      ]);
+      // Original request is not mutated
+      expect(request.contents[0].parts[0].text).toBe("Hi Jane");
+    });
+  });
+
+  describe("unmaskResponse", () => {
+    const context: PlaceholderContext = {
+      mapping: { "[[PERSON_1]]": 'Jane "JJ" Doe' },
+      reverseMapping: { 'Jane "JJ" Doe': "[[PERSON_1]]" },
+      counters: { PERSON: 1 },
+    };
+
+    test("restores text and function call args", () => {
+      const response: GeminiResponse = {
+        candidates: [
+          {
+            content: {
+              role: "model",
+              parts: [
+                { text: "Hi [[PERSON_1]]" },
+                { functionCall: { name: "send", args: { to: "[[PERSON_1]]" } } },
+              ],
+            },
+            finishReason: "STOP",
+          },
+        ],
+      };
+
+      const result = geminiExtractor.unmaskResponse(response, context, (v) => `>${v}`);
+      const parts = result.candidates?.[0].content?.parts;
+
+      expect(parts?.[0].text).toBe('Hi >Jane "JJ" Doe');
+      // Args never get display markers
+      expect(parts?.[1].functionCall?.args).toEqual({ to: 'Jane "JJ" Doe' });
+    });
+
+    test("passes through responses without candidates", () => {
+      const response: GeminiResponse = { promptFeedback: { blockReason: "SAFETY" } };
+      expect(geminiExtractor.unmaskResponse(response, context)).toEqual(response);
+    });
+  });
+});
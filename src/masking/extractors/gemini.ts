@@ -0,0 +1,261 @@
+/**
+ * Gemini request extractor for format-agnostic masking
+ *
+ * Extracts text from Gemini generateContent requests and handles unmasking
+ * in responses. Each content has a parts array; a part carries one of:
+ * - text (including thought summaries)
+ * - functionCall (model tool call - args extracted leaf by leaf)
+ * - functionResponse (tool result - response extracted leaf by leaf)
+ * - inlineData / fileData (media, not scanned)
+ *
+ * The system instruction is SEPARATE from contents and uses messageIndex -1.
+ * Gemini's "model" role is reported as "assistant" so whitelist roles work the
+ * same across providers. snake_case field aliases are handled like camelCase.
+ */
+
+import { type PlaceholderContext, restorePlaceholders } from "../../masking/context";
+import type { Content, GeminiRequest, GeminiResponse, Part } from "../../providers/gemini/types";
+import { collectStringLeaves, replaceStringLeaves, unmaskToolInput } from "../tool-arguments";
+import type { MaskedSpan, RequestExtractor, TextSpan } from "../types";
+
+/** System instruction uses messageIndex -1 */
+const SYSTEM_MESSAGE_INDEX = -1;
+
+type PartField = "functionCall" | "functionResponse";
+
+const SNAKE_CASE: Record<PartField | "systemInstruction", string> = {
+  functionCall: "function_call",
+  functionResponse: "function_response",
+  systemInstruction: "system_instruction",
+};
+
+/**
+ * Key an object uses for a field - the camelCase name or its snake_case alias
+ */
+function fieldKey(obj: object, field: keyof typeof SNAKE_CASE): string {
+  return field in obj ? field : SNAKE_CASE[field];
+}
+
+function getField<T>(obj: object, field: keyof typeof SNAKE_CASE): T | undefined {
+  return (obj as Record<string, unknown>)[fieldKey(obj, field)] as T | undefined;
+}
+
+function getSystemInstruction(request: GeminiRequest): Content | undefined {
+  return getField<Content>(request, "systemInstruction");
+}
+
+/**
+ * String leaves of a part's structured payload (functionCall args or functionResponse response)
+ */
+function structuredLeaves(part: Part): { field: PartField; leaves: string[] } | undefined {
+  const call = getField<{ args?: unknown }>(part, "functionCall");
+  if (call) return { field: "functionCall", leaves: collectStringLeaves(call.args ?? {}) };
+
+  const result = getField<{ response?: unknown }>(part, "functionResponse");
+  if (result) return { field: "functionResponse", leaves: collectStringLeaves(result.response) };
+
+  return undefined;
+}
+
+function spanRole(role: string | undefined): string {
+  return role === "model" ? "assistant" : (role ?? "user");
+}
+
+/**
+ * Extract text from a content's parts (for logging)
+ */
+export function extractGeminiTextContent(content: Content | undefined): string {
+  if (!content) return "";
+  return content.parts
+    .map((part) => part.text ?? "")
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Extract text from the system instruction (for logging)
+ */
+export function extractGeminiSystemText(request: GeminiRequest): string {
+  return extractGeminiTextContent(getSystemInstruction(request));
+}
+
+function extractContentSpans(
+  content: Content,
+  path: string,
+  messageIndex: number,
+  role: string,
+): TextSpan[] {
+  const spans: TextSpan[] = [];
+
+  for (let partIdx = 0; partIdx < content.parts.length; partIdx++) {
+    const part = content.parts[partIdx];
+
+    if (part.text) {
+      spans.push({
+        text: part.text,
+        path: `${path}.parts[${partIdx}].text`,
+        messageIndex,
+        partIndex: partIdx,
+        role,
+      });
+      continue;
+    }
+
+    const structured = structuredLeaves(part);
+    if (!structured) continue;
+
+    const isResponse = structured.field === "functionResponse";
+    for (let leafIdx = 0; leafIdx < structured.leaves.length; leafIdx++) {
+      if (!structured.leaves[leafIdx]) continue;
+      spans.push({
+        text: structured.leaves[leafIdx],
+        path: `${path}.parts[${partIdx}].${isResponse ? "functionResponse.response" : "functionCall.args"}`,
+        messageIndex,
+        partIndex: partIdx,
+        nestedPartIndex: leafIdx,
+        role: isResponse ? "tool" : role,
+      });
+    }
+  }
+
+  return spans;
+}
+
+function applyContentMasked(content: Content, spans: MaskedSpan[]): Content {
+  if (spans.length === 0) return content;
+
+  return {
+    ...content,
+    parts: content.parts.map((part, partIdx) => {
+      const partSpans = spans.filter((s) => s.partIndex === partIdx);
+      if (partSpans.length === 0) return part;
+
+      if (part.text) {
+        const span = partSpans.find((s) => s.nestedPartIndex === undefined);
+        return span ? { ...part, text: span.maskedText } : part;
+      }
+
+      const structured = structuredLeaves(part);
+      if (!structured) return part;
+
+      const replacements = new Map<number, string>();
+      for (const span of partSpans) {
+        if (span.nestedPartIndex !== undefined) {
+          replacements.set(span.nestedPartIndex, span.maskedText);
+        }
+      }
+
+      const key = fieldKey(part, structured.field);
+      const payload = (part as Record<string, Record<string, unknown>>)[key];
+      const payloadKey = structured.field === "functionCall" ? "args" : "response";
+      return {
+        ...part,
+        [key]: {
+          ...payload,
+          [payloadKey]: replaceStringLeaves(payload[payloadKey] ?? {}, replacements),
+        },
+      };
+    }),
+  };
+}
+
+/**
+ * Gemini request extractor
+ *
+ * Extracts text from both the system instruction (messageIndex: -1) and contents.
+ */
+export const geminiExtractor: RequestExtractor<GeminiRequest, GeminiResponse> = {
+  extractTexts(request: GeminiRequest): TextSpan[] {
+    const spans: TextSpan[] = [];
+
+    const system = getSystemInstruction(request);
+    if (system) {
+      spans.push(
+        ...extractContentSpans(
+          system,
+          fieldKey(request, "systemInstruction"),
+          SYSTEM_MESSAGE_INDEX,
+          "system",
+        ),
+      );
+    }
+
+    for (let msgIdx = 0; msgIdx < request.contents.length; msgIdx++) {
+      const content = request.contents[msgIdx];
+      spans.push(
+        ...extractContentSpans(content, `contents[${msgIdx}]`, msgIdx, spanRole(content.role)),
+      );
+    }
+
+    return spans;
+  },
+
+  applyMasked(request: GeminiRequest, maskedSpans: MaskedSpan[]): GeminiRequest {
+    const result: GeminiRequest = {
+      ...request,
+      contents: request.contents.map((content, msgIdx) =>
+        applyContentMasked(
+          content,
+          maskedSpans.filter((s) => s.messageIndex === msgIdx),
+        ),
+      ),
+    };
+
+    const system = getSystemInstruction(request);
+    if (system) {
+      result[fieldKey(request, "systemInstruction")] = applyContentMasked(
+        system,
+        maskedSpans.filter((s) => s.messageIndex === SYSTEM_MESSAGE_INDEX),
+      );
+    }
+
+    return result;
+  },
+
+  unmaskResponse(
+    response: GeminiResponse,
+    context: PlaceholderContext,
+    formatValue?: (original: string) => string,
+  ): GeminiResponse {
+    if (!response.candidates) return response;
+
+    return {
+      ...response,
+      candidates: response.candidates.map((candidate) => {
+        if (!candidate.content) return candidate;
+        return {
+          ...candidate,
+          content: {
+            ...candidate.content,
+            parts: candidate.content.parts.map((part) => unmaskPart(part, [context], formatValue)),
+          },
+        };
+      }),
+    };
+  },
+};
+
+/**
+ * Restores placeholders in a response part
+ *
+ * Markers are display-only, so function call args are restored without formatValue.
+ */
+export function unmaskPart(
+  part: Part,
+  contexts: PlaceholderContext[],
+  formatValue?: (original: string) => string,
+): Part {
+  if (part.text) {
+    return {
+      ...part,
+      text: contexts.reduce((text, ctx) => restorePlaceholders(text, ctx, formatValue), part.text),
+    };
+  }
+
+  const key = fieldKey(part, "functionCall");
+  const call = (part as Record<string, { args?: Record<string, unknown> }>)[key];
+  if (call?.args) {
+    return { ...part, [key]: { ...call, args: unmaskToolInput(call.args, contexts) } };
+  }
+  return part;
+}
@@ -0,0 +1,70 @@
+import { describe, expect, test } from "bun:test";
+import { createPlaceholderContext } from "../../masking/context";
+import type { EmbeddingsResponse } from "../../providers/openai/embeddings-types";
+import { openaiEmbeddingsExtractor } from "./openai-embeddings";
+
+describe("OpenAI Embeddings Extractor", () => {
+  describe("extractTexts", () => {
+    test("extracts string input", () => {
+      const spans = openaiEmbeddingsExtractor.extractTexts({
+        model: "text-embedding-3-small",
+        input: "Jane lives in Berlin",
+      });
+
+      expect(spans).toEqual([
+        {
+          text: "Jane lives in Berlin",
+          path: "input",
+          messageIndex: 0,
+          partIndex: 0,
+          role: "user",
+        },
+      ]);
+    });
+
+    test("extracts each string of array input", () => {
+      const spans = openaiEmbeddingsExtractor.extractTexts({ input: ["first", "", "third"] });
+
+      expect(spans.map((s) => [s.path, s.text, s.messageIndex])).toEqual([
+        ["input[0]", "first", 0],
+        ["input[2]", "third", 2],
+      ]);
+    });
+
+    test("skips token array input", () => {
+      expect(openaiEmbeddingsExtractor.extractTexts({ input: [1, 2, 3] })).toEqual([]);
+      expect(openaiEmbeddingsExtractor.extractTexts({ input: [[1, 2], [3]] })).toEqual([]);
+    });
+  });
+
+  describe("applyMasked", () => {
+    test("masks string input", () => {
+      const result = openaiEmbeddingsExtractor.applyMasked({ input: "Jane" }, [
+        { path: "input", maskedText: "[[PERSON_1]]", messageIndex: 0, partIndex: 0 },
+      ]);
+      expect(result.input).toBe("[[PERSON_1]]");
+    });
+
+    test("masks array entries by index and keeps the rest", () => {
+      const request = { input: ["Jane", "clean", "Bob"] };
+      const result = openaiEmbeddingsExtractor.applyMasked(request, [
+        { path: "input[0]", maskedText: "[[PERSON_1]]", messageIndex: 0, partIndex: 0 },
+        { path: "input[2]", maskedText: "[[PERSON_2]]", messageIndex: 2, partIndex: 0 },
+      ]);
+
+      expect(result.input).toEqual(["[[PERSON_1]]", "clean", "[[PERSON_2]]"]);
+      expect(request.input[0]).toBe("Jane");
+    });
+  });
+
+  test("unmaskResponse returns the response unchanged", () => {
+    const response: EmbeddingsResponse = {
+      object: "list",
+      data: [{ object: "embedding", index: 0, embedding: [0.1, 0.2] }],
+      model: "text-embedding-3-small",
+    };
+    expect(openaiEmbeddingsExtractor.unmaskResponse(response, createPlaceholderContext())).toBe(
+      response,
+    );
+  });
+});
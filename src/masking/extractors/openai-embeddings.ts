@@ -0,0 +1,53 @@
+/**
+ * OpenAI Embeddings extractor for format-agnostic masking
+ *
+ * Each string in `input` becomes one span:
+ * - string input → path "input", messageIndex 0
+ * - array input → path "input[i]", messageIndex i
+ *
+ * Pre-tokenized input (token arrays) carries no text and is not scanned.
+ * Embedding vectors cannot contain placeholders, so unmaskResponse is a no-op.
+ */
+
+import type { PlaceholderContext } from "../../masking/context";
+import type {
+  EmbeddingsRequest,
+  EmbeddingsResponse,
+} from "../../providers/openai/embeddings-types";
+import type { MaskedSpan, RequestExtractor, TextSpan } from "../types";
+
+export const openaiEmbeddingsExtractor: RequestExtractor<EmbeddingsRequest, EmbeddingsResponse> = {
+  extractTexts(request: EmbeddingsRequest): TextSpan[] {
+    if (typeof request.input === "string") {
+      return request.input
+        ? [{ text: request.input, path: "input", messageIndex: 0, partIndex: 0, role: "user" }]
+        : [];
+    }
+
+    const spans: TextSpan[] = [];
+    for (let idx = 0; idx < request.input.length; idx++) {
+      const text = request.input[idx];
+      if (typeof text === "string" && text) {
+        spans.push({ text, path: `input[${idx}]`, messageIndex: idx, partIndex: 0, role: "user" });
+      }
+    }
+    return spans;
+  },
+
+  applyMasked(request: EmbeddingsRequest, maskedSpans: MaskedSpan[]): EmbeddingsRequest {
+    if (typeof request.input === "string") {
+      const masked = maskedSpans.find((span) => span.path === "input");
+      return masked ? { ...request, input: masked.maskedText } : request;
+    }
+
+    const lookup = new Map(maskedSpans.map((span) => [span.messageIndex, span.maskedText]));
+    const input = request.input.map((item, idx) =>
+      typeof item === "string" ? (lookup.get(idx) ?? item) : item,
+    );
+    return { ...request, input: input as EmbeddingsRequest["input"] };
+  },
+
+  unmaskResponse(response: EmbeddingsResponse, _context: PlaceholderContext): EmbeddingsResponse {
+    return response;
+  },
+};
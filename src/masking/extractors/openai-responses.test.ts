@@ -0,0 +1,231 @@
+import { describe, expect, test } from "bun:test";
+import type { PlaceholderContext } from "../../masking/context";
+import type { ResponsesRequest, ResponsesResponse } from "../../providers/openai/responses-types";
+import type { MaskedSpan } from "../types";
+import { openaiResponsesExtractor } from "./openai-responses";
+
+function makeResponse(output: ResponsesResponse["output"]): ResponsesResponse {
+  return { id: "resp_1", object: "response", model: "gpt-5", output };
+}
+
+describe("OpenAI Responses Extractor", () => {
+  describe("extractTexts", () => {
+    test("extracts instructions and string input", () => {
+      const request: ResponsesRequest = {
+        model: "gpt-5",
+        instructions: "You help John",
+        input: "Email john@example.com",
+      };
+      const spans = openaiResponsesExtractor.extractTexts(request);
+
+      expect(spans).toEqual([
+        {
+          text: "You help John",
+          path: "instructions",
+          messageIndex: -1,
+          partIndex: 0,
+          role: "system",
+        },
+        {
+          text: "Email john@example.com",
+          path: "input",
+          messageIndex: 0,
+          partIndex: 0,
+          role: "user",
+        },
+      ]);
+    });
+
+    test("extracts message items with string and part content", () => {
+      const request: ResponsesRequest = {
+        input: [
+          { role: "user", content: "Hi" },
+          {
+            type: "message",
+            role: "assistant",
+            content: [
+              { type: "output_text", text: "Hello Jane" },
+              { type: "input_image", image_url: "https://x" },
+            ],
+          },
+        ],
+      };
+      const spans = openaiResponsesExtractor.extractTexts(request);
+
+      expect(spans.map((s) => [s.path, s.text, s.role])).toEqual([
+        ["input[0].content", "Hi", "user"],
+        ["input[1].content[0].text", "Hello Jane", "assistant"],
+      ]);
+    });
+
+    test("extracts function call argument leaves, tool outputs and reasoning summaries", () => {
+      const request: ResponsesRequest = {
+        input: [
+          {
+            type: "reasoning",
+            id: "rs_1",
+            summary: [{ type: "summary_text", text: "Look up Jane" }],
+          },
+          {
+            type: "function_call",
+            call_id: "call_1",
+            name: "lookup",
+            arguments: '{"name":"Jane","limit":5,"tags":["vip"]}',
+          },
+          { type: "function_call_output", call_id: "call_1", output: "jane@example.com" },
+        ],
+      };
+      const spans = openaiResponsesExtractor.extractTexts(request);
+
+      expect(spans.map((s) => [s.path, s.text, s.nestedPartIndex, s.role])).toEqual([
+        ["input[0].summary[0].text", "Look up Jane", undefined, "assistant"],
+        ["input[1].arguments", "Jane", 0, "assistant"],
+        ["input[1].arguments", "vip", 1, "assistant"],
+        ["input[2].output", "jane@example.com", undefined, "tool"],
+      ]);
+    });
+
+    test("extracts custom tool call input", () => {
+      const request: ResponsesRequest = {
+        input: [
+          {
+            type: "custom_tool_call",
+            call_id: "call_1",
+            name: "shell",
+            input: "mail jane@acme.com",
+          },
+          { type: "custom_tool_call_output", call_id: "call_1", output: "sent" },
+        ],
+      };
+      const spans = openaiResponsesExtractor.extractTexts(request);
+
+      expect(spans.map((s) => [s.path, s.text, s.role])).toEqual([
+        ["input[0].input", "mail jane@acme.com", "assistant"],
+        ["input[1].output", "sent", "tool"],
+      ]);
+    });
+
+    test("passes other item types through unscanned", () => {
+      const item = {
+        type: "web_search_call",
+        id: "ws_1",
+        status: "completed",
+        action: { type: "search", query: "Jane Doe" },
+      };
+      const request: ResponsesRequest = { input: [item] };
+
+      expect(openaiResponsesExtractor.extractTexts(request)).toEqual([]);
+      expect(openaiResponsesExtractor.applyMasked(request, []).input).toEqual([item]);
+    });
+
+    test("skips items without text", () => {
+      const request: ResponsesRequest = {
+        input: [
+          { type: "item_reference", id: "msg_1" },
+          { role: "user", content: "" },
+        ],
+      };
+      expect(openaiResponsesExtractor.extractTexts(request)).toEqual([]);
+    });
+  });
+
+  describe("applyMasked", () => {
+    test("writes masked spans back by path", () => {
+      const request: ResponsesRequest = {
+        instructions: "Help John",
+        input: [
+          { role: "user", content: [{ type: "input_text", text: "I am Jane" }] },
+          { type: "function_call", call_id: "c", arguments: '{"to":"Jane","n":1}' },
+          { type: "function_call_output", call_id: "c", output: "sent to Jane" },
+          { type: "reasoning", summary: [{ type: "summary_text", text: "Jane asked" }] },
+          { type: "custom_tool_call", call_id: "d", input: "notify Jane" },
+        ],
+      };
+      const maskedSpans: MaskedSpan[] = [
+        { path: "instructions", maskedText: "Help [[PERSON_1]]", messageIndex: -1, partIndex: 0 },
+        {
+          path: "input[0].content[0].text",
+          maskedText: "I am [[PERSON_2]]",
+          messageIndex: 0,
+          partIndex: 0,
+        },
+        {
+          path: "input[1].arguments",
+          maskedText: "[[PERSON_2]]",
+          messageIndex: 1,
+          partIndex: 0,
+          nestedPartIndex: 0,
+        },
+        {
+          path: "input[2].output",
+          maskedText: "sent to [[PERSON_2]]",
+          messageIndex: 2,
+          partIndex: 0,
+        },
+        {
+          path: "input[3].summary[0].text",
+          maskedText: "[[PERSON_2]] asked",
+          messageIndex: 3,
+          partIndex: 0,
+        },
+        {
+          path: "input[4].input",
+          maskedText: "notify [[PERSON_2]]",
+          messageIndex: 4,
+          partIndex: 0,
+        },
+      ];
+
+      const result = openaiResponsesExtractor.applyMasked(request, maskedSpans);
+      const input = result.input as NonNullable<Exclude<ResponsesRequest["input"], string>>;
+
+      expect(result.instructions).toBe("Help [[PERSON_1]]");
+      expect(input[0].content).toEqual([{ type: "input_text", text: "I am [[PERSON_2]]" }]);
+      expect(JSON.parse(input[1].arguments as string)).toEqual({ to: "[[PERSON_2]]", n: 1 });
+      expect(input[2].output).toBe("sent to [[PERSON_2]]");
+      expect(input[3].summary?.[0].text).toBe("[[PERSON_2]] asked");
+      expect(input[4].input).toBe("notify [[PERSON_2]]");
+      // Original request is not mutated
+      expect(request.instructions).toBe("Help John");
+    });
+
+    test("writes masked string input", () => {
+      const result = openaiResponsesExtractor.applyMasked({ input: "Hi Jane" }, [
+        { path: "input", maskedText: "Hi [[PERSON_1]]", messageIndex: 0, partIndex: 0 },
+      ]);
+      expect(result.input).toBe("Hi [[PERSON_1]]");
+    });
+  });
+
+  describe("unmaskResponse", () => {
+    const context: PlaceholderContext = {
+      mapping: { "[[PERSON_1]]": 'Jane "JJ" Doe' },
+      reverseMapping: { 'Jane "JJ" Doe': "[[PERSON_1]]" },
+      counters: { PERSON: 1 },
+    };
+
+    test("restores message text, tool calls and reasoning summaries", () => {
+      const response = makeResponse([
+        { type: "reasoning", id: "rs", summary: [{ type: "summary_text", text: "[[PERSON_1]]" }] },
+        {
+          type: "message",
+          id: "msg",
+          role: "assistant",
+          content: [{ type: "output_text", text: "Hi [[PERSON_1]]", annotations: [] }],
+        },
+        { type: "function_call", id: "fc", arguments: '{"name":"[[PERSON_1]]"}' },
+        { type: "custom_tool_call", id: "ct", input: "mail [[PERSON_1]]" },
+      ]);
+
+      const result = openaiResponsesExtractor.unmaskResponse(response, context, (v) => `>${v}`);
+
+      expect(result.output[0].summary?.[0].text).toBe('>Jane "JJ" Doe');
+      expect(result.output[1].content).toEqual([
+        { type: "output_text", text: 'Hi >Jane "JJ" Doe', annotations: [] },
+      ]);
+      // Arguments stay valid JSON and never get display markers
+      expect(JSON.parse(result.output[2].arguments as string)).toEqual({ name: 'Jane "JJ" Doe' });
+      expect(result.output[3].input).toBe('mail Jane "JJ" Doe');
+    });
+  });
+});
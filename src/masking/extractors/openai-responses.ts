@@ -0,0 +1,329 @@
+/**
+ * OpenAI Responses API extractor for format-agnostic masking
+ *
+ * The Responses API replaces the messages array with `input` (a string or a
+ * list of items) plus a separate `instructions` string. Text is extracted from:
+ * - instructions (messageIndex -1, like the Anthropic system prompt)
+ * - a plain string input (messageIndex 0)
+ * - message items: string content or text parts
+ * - function_call items: string leaves of the JSON arguments (nestedPartIndex = leaf ordinal)
+ * - custom_tool_call items: the free-form input
+ * - function_call_output / custom_tool_call_output items: string output or text parts
+ * - reasoning items: summary texts
+ *
+ * Spans are written back by path, so every extracted path is unique except
+ * argument leaves, which share their item path and differ by nestedPartIndex.
+ * Other item types (item_reference, web_search_call, ...) carry no user text
+ * and pass through unscanned.
+ */
+
+import { type PlaceholderContext, restorePlaceholders } from "../../masking/context";
+import type {
+  ResponsesContentPart,
+  ResponsesItem,
+  ResponsesRequest,
+  ResponsesResponse,
+} from "../../providers/openai/responses-types";
+import {
+  collectStringLeaves,
+  parseArguments,
+  replaceStringLeaves,
+  unmaskArguments,
+} from "../tool-arguments";
+import type { MaskedSpan, RequestExtractor, TextSpan } from "../types";
+
+/** Instructions use messageIndex -1 */
+const INSTRUCTIONS_MESSAGE_INDEX = -1;
+
+const TOOL_OUTPUT_TYPES = new Set(["function_call_output", "custom_tool_call_output"]);
+
+function isMessageItem(item: ResponsesItem): boolean {
+  return item.type === "message" || (item.type === undefined && item.role !== undefined);
+}
+
+/**
+ * Extracts spans from a string or text-part array field of an item
+ */
+function extractPartsField(
+  value: string | ResponsesContentPart[] | undefined,
+  basePath: string,
+  itemIdx: number,
+  role: string,
+): TextSpan[] {
+  if (typeof value === "string") {
+    return value
+      ? [{ text: value, path: basePath, messageIndex: itemIdx, partIndex: 0, role }]
+      : [];
+  }
+  if (!Array.isArray(value)) return [];
+
+  const spans: TextSpan[] = [];
+  for (let partIdx = 0; partIdx < value.length; partIdx++) {
+    const text = value[partIdx].text;
+    if (typeof text === "string" && text) {
+      spans.push({
+        text,
+        path: `${basePath}[${partIdx}].text`,
+        messageIndex: itemIdx,
+        partIndex: partIdx,
+        role,
+      });
+    }
+  }
+  return spans;
+}
+
+/**
+ * Writes masked text back into a string or text-part array field
+ */
+function applyPartsField(
+  value: string | ResponsesContentPart[],
+  basePath: string,
+  lookup: Map<string, string>,
+): string | ResponsesContentPart[] {
+  if (typeof value === "string") {
+    return lookup.get(basePath) ?? value;
+  }
+  return value.map((part, partIdx) => {
+    const masked = lookup.get(`${basePath}[${partIdx}].text`);
+    return masked !== undefined ? { ...part, text: masked } : part;
+  });
+}
+
+function extractItemTexts(item: ResponsesItem, itemIdx: number): TextSpan[] {
+  const basePath = `input[${itemIdx}]`;
+
+  if (isMessageItem(item)) {
+    return extractPartsField(item.content, `${basePath}.content`, itemIdx, item.role ?? "user");
+  }
+
+  if (item.type === "function_call" && item.arguments) {
+    const parsed = parseArguments(item.arguments);
+    const leaves = parsed ? collectStringLeaves(parsed.value) : [item.arguments];
+    const spans: TextSpan[] = [];
+    for (let leafIdx = 0; leafIdx < leaves.length; leafIdx++) {
+      if (!leaves[leafIdx]) continue;
+      spans.push({
+        text: leaves[leafIdx],
+        path: `${basePath}.arguments`,
+        messageIndex: itemIdx,
+        partIndex: 0,
+        nestedPartIndex: leafIdx,
+        role: "assistant",
+      });
+    }
+    return spans;
+  }
+
+  if (item.type === "custom_tool_call" && item.input) {
+    return [
+      {
+        text: item.input,
+        path: `${basePath}.input`,
+        messageIndex: itemIdx,
+        partIndex: 0,
+        role: "assistant",
+      },
+    ];
+  }
+
+  if (item.type && TOOL_OUTPUT_TYPES.has(item.type)) {
+    return extractPartsField(item.output, `${basePath}.output`, itemIdx, "tool");
+  }
+
+  if (item.type === "reasoning" && item.summary) {
+    return item.summary.flatMap((part, partIdx) =>
+      part.text
+        ? [
+            {
+              text: part.text,
+              path: `${basePath}.summary[${partIdx}].text`,
+              messageIndex: itemIdx,
+              partIndex: partIdx,
+              role: "assistant",
+            },
+          ]
+        : [],
+    );
+  }
+
+  return [];
+}
+
+function applyItemMasked(
+  item: ResponsesItem,
+  itemIdx: number,
+  lookup: Map<string, string>,
+  argumentLookup: Map<string, Map<number, string>>,
+): ResponsesItem {
+  const basePath = `input[${itemIdx}]`;
+
+  if (isMessageItem(item) && item.content !== undefined) {
+    return { ...item, content: applyPartsField(item.content, `${basePath}.content`, lookup) };
+  }
+
+  if (item.type === "function_call" && item.arguments) {
+    const replacements = argumentLookup.get(`${basePath}.arguments`);
+    if (!replacements) return item;
+    const parsed = parseArguments(item.arguments);
+    const args = parsed
+      ? JSON.stringify(replaceStringLeaves(parsed.value, replacements))
+      : (replacements.get(0) ?? item.arguments);
+    return { ...item, arguments: args };
+  }
+
+  if (item.type === "custom_tool_call" && item.input) {
+    return { ...item, input: lookup.get(`${basePath}.input`) ?? item.input };
+  }
+
+  if (item.type && TOOL_OUTPUT_TYPES.has(item.type) && item.output !== undefined) {
+    return { ...item, output: applyPartsField(item.output, `${basePath}.output`, lookup) };
+  }
+
+  if (item.type === "reasoning" && item.summary) {
+    return {
+      ...item,
+      summary: item.summary.map((part, partIdx) => {
+        const masked = lookup.get(`${basePath}.summary[${partIdx}].text`);
+        return masked !== undefined ? { ...part, text: masked } : part;
+      }),
+    };
+  }
+
+  return item;
+}
+
+/**
+ * Restores placeholders in a response output item
+ *
+ * Exported for the stream transformer, which receives complete items in
+ * response.output_item.done and response.completed events.
+ */
+export function unmaskResponsesItem(
+  item: ResponsesItem,
+  restoreText: (text: string) => string,
+  restoreArguments: (args: string) => string,
+  restoreInput: (input: string) => string,
+): ResponsesItem {
+  if (isMessageItem(item) && Array.isArray(item.content)) {
+    return {
+      ...item,
+      content: item.content.map((part) => ({
+        ...part,
+        ...(typeof part.text === "string" && { text: restoreText(part.text) }),
+        ...(typeof part.refusal === "string" && { refusal: restoreText(part.refusal) }),
+      })),
+    };
+  }
+
+  if (item.type === "function_call" && item.arguments) {
+    return { ...item, arguments: restoreArguments(item.arguments) };
+  }
+
+  if (item.type === "custom_tool_call" && item.input) {
+    return { ...item, input: restoreInput(item.input) };
+  }
+
+  if (item.type === "reasoning" && item.summary) {
+    return {
+      ...item,
+      summary: item.summary.map((part) => ({ ...part, text: restoreText(part.text) })),
+    };
+  }
+
+  return item;
+}
+
+/**
+ * OpenAI Responses API extractor
+ */
+export const openaiResponsesExtractor: RequestExtractor<ResponsesRequest, ResponsesResponse> = {
+  extractTexts(request: ResponsesRequest): TextSpan[] {
+    const spans: TextSpan[] = [];
+
+    if (request.instructions) {
+      spans.push({
+        text: request.instructions,
+        path: "instructions",
+        messageIndex: INSTRUCTIONS_MESSAGE_INDEX,
+        partIndex: 0,
+        role: "system",
+      });
+    }
+
+    if (typeof request.input === "string") {
+      if (request.input) {
+        spans.push({
+          text: request.input,
+          path: "input",
+          messageIndex: 0,
+          partIndex: 0,
+          role: "user",
+        });
+      }
+    } else if (Array.isArray(request.input)) {
+      for (let itemIdx = 0; itemIdx < request.input.length; itemIdx++) {
+        spans.push(...extractItemTexts(request.input[itemIdx], itemIdx));
+      }
+    }
+
+    return spans;
+  },
+
+  applyMasked(request: ResponsesRequest, maskedSpans: MaskedSpan[]): ResponsesRequest {
+    // Text spans are keyed by path, argument leaves by path/leaf
+    const lookup = new Map<string, string>();
+    const argumentLookup = new Map<string, Map<number, string>>();
+    for (const span of maskedSpans) {
+      if (span.nestedPartIndex === undefined) {
+        lookup.set(span.path, span.maskedText);
+        continue;
+      }
+      const leaves = argumentLookup.get(span.path) ?? new Map<number, string>();
+      leaves.set(span.nestedPartIndex, span.maskedText);
+      argumentLookup.set(span.path, leaves);
+    }
+
+    let result = { ...request };
+
+    const instructions = lookup.get("instructions");
+    if (instructions !== undefined) {
+      result = { ...result, instructions };
+    }
+
+    if (typeof request.input === "string") {
+      const input = lookup.get("input");
+      if (input !== undefined) {
+        result = { ...result, input };
+      }
+    } else if (Array.isArray(request.input)) {
+      result = {
+        ...result,
+        input: request.input.map((item, itemIdx) =>
+          applyItemMasked(item, itemIdx, lookup, argumentLookup),
+        ),
+      };
+    }
+
+    return result;
+  },
+
+  unmaskResponse(
+    response: ResponsesResponse,
+    context: PlaceholderContext,
+    formatValue?: (original: string) => string,
+  ): ResponsesResponse {
+    // Markers are display-only, so tool arguments and inputs are restored without formatValue
+    return {
+      ...response,
+      output: response.output.map((item) =>
+        unmaskResponsesItem(
+          item,
+          (text) => restorePlaceholders(text, context, formatValue),
+          (args) => unmaskArguments(args, [context]),
+          (input) => restorePlaceholders(input, context),
+        ),
+      ),
+    };
+  },
+};
@@ -393,4 +393,135 @@ describe("OpenAI Text Extractor", () => {
       expect(part.custom_field).toBe("preserved");
     });
   });
+
+  describe("tool call arguments", () => {
+    const toolCallRequest = (args: string) =>
+      createRequest([
+        { role: "user", content: "Email John" },
+        {
+          role: "assistant",
+          content: null,
+          tool_calls: [
+            { id: "call_1", type: "function", function: { name: "send_email", arguments: args } },
+          ],
+        },
+      ]);
+
+    test("extracts string leaves of tool call arguments", () => {
+      const request = toolCallRequest(
+        JSON.stringify({ to: "john@example.com", cc: ["jane@example.com"], retries: 3 }),
+      );
+
+      const spans = openaiExtractor.extractTexts(request);
+
+      expect(spans).toHaveLength(3);
+      expect(spans[1]).toEqual({
+        text: "john@example.com",
+        path: "messages[1].tool_calls[0].function.arguments",
+        messageIndex: 1,
+        partIndex: 0,
+        nestedPartIndex: 0,
+        role: "assistant",
+      });
+      expect(spans[2].text).toBe("jane@example.com");
+      expect(spans[2].nestedPartIndex).toBe(1);
+    });
+
+    test("scans invalid JSON arguments as a single leaf", () => {
+      const request = toolCallRequest('{"to": "john@example.com"');
+
+      const spans = openaiExtractor.extractTexts(request);
+
+      expect(spans).toHaveLength(2);
+      expect(spans[1].text).toBe('{"to": "john@example.com"');
+      expect(spans[1].nestedPartIndex).toBe(0);
+    });
+
+    test("applies masked leaves and keeps arguments valid JSON", () => {
+      const request = toolCallRequest(
+        JSON.stringify({ to: "john@example.com", note: 'say "hi"', retries: 3 }),
+      );
+
+      const result = openaiExtractor.applyMasked(request, [
+        {
+          path: "messages[1].tool_calls[0].function.arguments",
+          maskedText: "[[EMAIL_ADDRESS_1]]",
+          messageIndex: 1,
+          partIndex: 0,
+          nestedPartIndex: 0,
+        },
+      ]);
+
+      const args = JSON.parse(result.messages[1].tool_calls![0].function!.arguments!);
+      expect(args).toEqual({ to: "[[EMAIL_ADDRESS_1]]", note: 'say "hi"', retries: 3 });
+      expect(result.messages[0].content).toBe("Email John");
+      expect(result.messages[1].tool_calls![0].id).toBe("call_1");
+    });
+
+    test("does not confuse tool call leaves with content parts", () => {
+      const request = createRequest([
+        {
+          role: "assistant",
+          content: "Sending now",
+          tool_calls: [
+            { id: "call_1", type: "function", function: { name: "f", arguments: '{"a":"b"}' } },
+          ],
+        },
+      ]);
+
+      const result = openaiExtractor.applyMasked(request, [
+        {
+          path: "messages[0].tool_calls[0].function.arguments",
+          maskedText: "[[PERSON_1]]",
+          messageIndex: 0,
+          partIndex: 0,
+          nestedPartIndex: 0,
+        },
+      ]);
+
+      expect(result.messages[0].content).toBe("Sending now");
+      expect(result.messages[0].tool_calls![0].function!.arguments).toBe('{"a":"[[PERSON_1]]"}');
+    });
+
+    test("unmasks tool call arguments in response with JSON escaping", () => {
+      const response: OpenAIResponse = {
+        id: "test-id",
+        object: "chat.completion",
+        created: 123456,
+        model: "gpt-4",
+        choices: [
+          {
+            index: 0,
+            message: {
+              role: "assistant",
+              content: null,
+              tool_calls: [
+                {
+                  id: "call_1",
+                  type: "function",
+                  function: { name: "lookup", arguments: '{"name":"[[PERSON_1]]"}' },
+                },
+              ],
+            },
+            finish_reason: "tool_calls",
+          },
+        ],
+      };
+
+      const context: PlaceholderContext = {
+        mapping: { "[[PERSON_1]]": 'John "JD" Doe' },
+        reverseMapping: { 'John "JD" Doe': "[[PERSON_1]]" },
+        counters: { PERSON: 1 },
+      };
+
+      const result = openaiExtractor.unmaskResponse(
+        response,
+        context,
+        (val) => `[protected]${val}`,
+      );
+
+      const args = JSON.parse(result.choices[0].message.tool_calls![0].function!.arguments!);
+      expect(args.name).toBe('John "JD" Doe');
+    });
+  });
 });
@@ -7,13 +7,45 @@
  *
  * For OpenAI, system prompts are regular messages with role "system",
  * so no special handling is needed.
+ *
+ * Assistant tool calls are extracted leaf by leaf: each string leaf of the
+ * JSON in tool_calls[].function.arguments becomes a span with
+ * partIndex = tool call index and nestedPartIndex = leaf ordinal.
  */
 
 import { type PlaceholderContext, restorePlaceholders } from "../../masking/context";
-import type { OpenAIRequest, OpenAIResponse } from "../../providers/openai/types";
+import type { OpenAIRequest, OpenAIResponse, OpenAIToolCall } from "../../providers/openai/types";
 import type { OpenAIContentPart } from "../../utils/content";
+import {
+  collectStringLeaves,
+  parseArguments,
+  replaceStringLeaves,
+  unmaskArguments,
+} from "../tool-arguments";
 import type { MaskedSpan, RequestExtractor, TextSpan } from "../types";
 
+function toolCallPath(msgIdx: number, callIdx: number): string {
+  return `messages[${msgIdx}].tool_calls[${callIdx}].function.arguments`;
+}
+
+/**
+ * Extracts string leaves from tool call arguments.
+ * Arguments that are not valid JSON are scanned as a single text leaf.
+ */
+function extractArgumentLeaves(args: string): string[] {
+  const parsed = parseArguments(args);
+  return parsed ? collectStringLeaves(parsed.value) : [args];
+}
+
+/**
+ * Writes masked leaves back into tool call arguments, keeping the JSON valid
+ */
+function applyMaskedArguments(args: string, replacements: Map<number, string>): string {
+  const parsed = parseArguments(args);
+  if (!parsed) return replacements.get(0) ?? args;
+  return JSON.stringify(replaceStringLeaves(parsed.value, replacements));
+}
+
 /**
  * OpenAI request extractor
  *
@@ -35,10 +67,7 @@ export const openaiExtractor: RequestExtractor<OpenAIRequest, OpenAIResponse> =
           partIndex: 0,
           role: msg.role,
         });
-        continue;
-      }
-
-      if (Array.isArray(msg.content)) {
+      } else if (Array.isArray(msg.content)) {
         for (let partIdx = 0; partIdx < msg.content.length; partIdx++) {
           const part = msg.content[partIdx] as OpenAIContentPart;
           if (part.type === "text" && typeof part.text === "string") {
@@ -52,28 +81,54 @@ export const openaiExtractor: RequestExtractor<OpenAIRequest, OpenAIResponse> =
           }
         }
       }
+
+      if (msg.tool_calls) {
+        for (let callIdx = 0; callIdx < msg.tool_calls.length; callIdx++) {
+          const args = msg.tool_calls[callIdx].function?.arguments;
+          if (!args) continue;
+
+          const leaves = extractArgumentLeaves(args);
+          for (let leafIdx = 0; leafIdx < leaves.length; leafIdx++) {
+            if (!leaves[leafIdx]) continue;
+            spans.push({
+              text: leaves[leafIdx],
+              path: toolCallPath(msgIdx, callIdx),
+              messageIndex: msgIdx,
+              partIndex: callIdx,
+              nestedPartIndex: leafIdx,
+              role: msg.role,
+            });
+          }
+        }
+      }
     }
 
     return spans;
   },
 
   applyMasked(request: OpenAIRequest, maskedSpans: MaskedSpan[]): OpenAIRequest {
+    // Content spans are keyed by message/part, tool call leaves by path/leaf
     const lookup = new Map<string, string>();
+    const argumentLookup = new Map<string, Map<number, string>>();
     for (const span of maskedSpans) {
-      lookup.set(`${span.messageIndex}:${span.partIndex}`, span.maskedText);
+      if (span.nestedPartIndex === undefined) {
+        lookup.set(`${span.messageIndex}:${span.partIndex}`, span.maskedText);
+        continue;
+      }
+      const leaves = argumentLookup.get(span.path) ?? new Map<number, string>();
+      leaves.set(span.nestedPartIndex, span.maskedText);
+      argumentLookup.set(span.path, leaves);
     }
 
     const maskedMessages = request.messages.map((msg, msgIdx) => {
+      let result = msg;
+
       if (typeof msg.content === "string") {
-        const key = `${msgIdx}:0`;
-        const masked = lookup.get(key);
+        const masked = lookup.get(`${msgIdx}:0`);
         if (masked !== undefined) {
-          return { ...msg, content: masked };
+          result = { ...result, content: masked };
         }
-        return msg;
-      }
-
-      if (Array.isArray(msg.content)) {
+      } else if (Array.isArray(msg.content)) {
         const transformedContent = msg.content.map((part: OpenAIContentPart, partIdx: number) => {
           const key = `${msgIdx}:${partIdx}`;
           const masked = lookup.get(key);
@@ -82,10 +137,25 @@ export const openaiExtractor: RequestExtractor<OpenAIRequest, OpenAIResponse> =
           }
           return part;
         });
-        return { ...msg, content: transformedContent };
+        result = { ...result, content: transformedContent };
+      }
+
+      if (msg.tool_calls && argumentLookup.size > 0) {
+        const maskedToolCalls = msg.tool_calls.map((call: OpenAIToolCall, callIdx: number) => {
+          const replacements = argumentLookup.get(toolCallPath(msgIdx, callIdx));
+          if (!replacements || !call.function?.arguments) return call;
+          return {
+            ...call,
+            function: {
+              ...call.function,
+              arguments: applyMaskedArguments(call.function.arguments, replacements),
+            },
+          };
+        });
+        result = { ...result, tool_calls: maskedToolCalls };
       }
 
-      return msg;
+      return result;
     });
 
     return { ...request, messages: maskedMessages };
@@ -106,6 +176,20 @@ export const openaiExtractor: RequestExtractor<OpenAIRequest, OpenAIResponse> =
             typeof choice.message.content === "string"
               ? restorePlaceholders(choice.message.content, context, formatValue)
               : choice.message.content,
+          // Markers are display-only, so tool arguments are restored without formatValue
+          ...(choice.message.tool_calls && {
+            tool_calls: choice.message.tool_calls.map((call) =>
+              call.function?.arguments
+                ? {
+                    ...call,
+                    function: {
+                      ...call.function,
+                      arguments: unmaskArguments(call.function.arguments, [context]),
+                    },
+                  }
+                : call,
+            ),
+          }),
         },
       })),
     };
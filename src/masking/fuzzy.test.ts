@@ -0,0 +1,226 @@
+import { describe, expect, test } from "bun:test";
+import {
+  createPlaceholderContext,
+  incrementAndGenerate,
+  type PlaceholderContext,
+  processStreamChunk,
+  replaceWithPlaceholders,
+  reserveLiteralPlaceholders,
+  restorePlaceholders,
+} from "./context";
+import {
+  buildFuzzyIndex,
+  findFuzzyPlaceholders,
+  findPartialFuzzyStart,
+  restoreFuzzy,
+} from "./fuzzy";
+import {
+  DEFAULT_PLACEHOLDER_FORMAT,
+  generatePlaceholder,
+  parsePlaceholderFormat,
+} from "./placeholders";
+
+function contextWith(
+  mapping: Record<string, string>,
+  fuzzy: "off" | "conservative" | "aggressive",
+  placeholderFormat?: string,
+): PlaceholderContext {
+  const ctx = createPlaceholderContext({ placeholderFormat, fuzzy });
+  for (const [placeholder, original] of Object.entries(mapping)) {
+    ctx.mapping[placeholder] = original;
+    ctx.reverseMapping[original] = placeholder;
+  }
+  return ctx;
+}
+
+const restore = (text: string, ctx: PlaceholderContext) => restorePlaceholders(text, ctx);
+
+describe("restoreFuzzy", () => {
+  const index = buildFuzzyIndex(
+    ["[[PERSON_1]]", "[[EMAIL_ADDRESS_2]]"],
+    DEFAULT_PLACEHOLDER_FORMAT,
+    "conservative",
+  );
+  const fuzzy = (text: string) => restoreFuzzy(text, index, (placeholder) => `<${placeholder}>`);
+
+  test("restores whitespace inside delimiters", () => {
+    expect(fuzzy("Hi [[ PERSON_1 ]]!")).toBe("Hi <[[PERSON_1]]>!");
+    expect(fuzzy("Hi [ [PERSON_1] ]!")).toBe("Hi <[[PERSON_1]]>!");
+  });
+
+  test("restores changed letter case", () => {
+    expect(fuzzy("Hi [[Person_1]]")).toBe("Hi <[[PERSON_1]]>");
+    expect(fuzzy("Mail [[email_address_2]]")).toBe("Mail <[[EMAIL_ADDRESS_2]]>");
+  });
+
+  test("restores single delimiters and spaces instead of underscores", () => {
+    expect(fuzzy("Hi [PERSON_1]")).toBe("Hi <[[PERSON_1]]>");
+    expect(fuzzy("Hi [[PERSON 1]]")).toBe("Hi <[[PERSON_1]]>");
+    expect(fuzzy("Mail [EMAIL ADDRESS 2]")).toBe("Mail <[[EMAIL_ADDRESS_2]]>");
+  });
+
+  test("leaves unknown placeholders untouched", () => {
+    expect(fuzzy("Hi [[ PERSON_3 ]] and [LOCATION_1]")).toBe("Hi [[ PERSON_3 ]] and [LOCATION_1]");
+  });
+
+  test("does not restore bare placeholders", () => {
+    expect(fuzzy("Hi PERSON_1")).toBe("Hi PERSON_1");
+  });
+
+  test("aggressive restores bare placeholders on word boundaries", () => {
+    const aggressive = buildFuzzyIndex(["[[PERSON_1]]"], DEFAULT_PLACEHOLDER_FORMAT, "aggressive");
+    const restoreBare = (text: string) => restoreFuzzy(text, aggressive, () => "Hans");
+    expect(restoreBare("Hi PERSON_1, welcome")).toBe("Hi Hans, welcome");
+    expect(restoreBare("Hi person 1")).toBe("Hi Hans");
+    expect(restoreBare("Hi PERSON_10")).toBe("Hi PERSON_10");
+    expect(restoreBare("Hi XPERSON_1")).toBe("Hi XPERSON_1");
+  });
+
+  test("supports custom formats", () => {
+    const format = parsePlaceholderFormat("<{TYPE}-{N}>");
+    const custom = buildFuzzyIndex(["<PERSON-1>"], format, "conservative");
+    expect(restoreFuzzy("Hi < person - 1 >", custom, () => "Hans")).toBe("Hi Hans");
+  });
+});
+
+describe("fuzzy unmasking in restorePlaceholders", () => {
+  test("restores mangled placeholders and records them", () => {
+    const ctx = contextWith({ "[[PERSON_1]]": "Hans Müller" }, "conservative");
+
+    const result = restorePlaceholders("[[PERSON_1]], [[ person_1 ]] and [Person_1]", ctx);
+
+    expect(result).toBe("Hans Müller, Hans Müller and Hans Müller");
+    expect(ctx.fuzzyRestored?.size).toBe(2);
+  });
+
+  test("exact placeholders are not counted as fuzzy restorations", () => {
+    const ctx = contextWith({ "[[PERSON_1]]": "Hans Müller" }, "conservative");
+
+    restorePlaceholders("Hello [[PERSON_1]]", ctx);
+
+    expect(ctx.fuzzyRestored).toBeUndefined();
+  });
+
+  test("off keeps mangled placeholders", () => {
+    const ctx = contextWith({ "[[PERSON_1]]": "Hans Müller" }, "off");
+
+    expect(restorePlaceholders("Hello [[ PERSON_1 ]]", ctx)).toBe("Hello [[ PERSON_1 ]]");
+  });
+
+  test("applies formatValue to fuzzy restorations", () => {
+    const ctx = contextWith({ "[[PERSON_1]]": "Hans" }, "conservative");
+
+    expect(restorePlaceholders("Hi [PERSON_1]", ctx, (value) => `*${value}*`)).toBe("Hi *Hans*");
+  });
+
+  test("does not restore literal placeholders reserved from the input", () => {
+    const ctx = contextWith({ "[[PERSON_2]]": "Hans" }, "conservative");
+    ctx.reserved = new Set(["[[PERSON_1]]"]);
+
+    expect(restorePlaceholders("[[ PERSON_1 ]] [[ PERSON_2 ]]", ctx)).toBe("[[ PERSON_1 ]] Hans");
+  });
+});
+
+describe("findFuzzyPlaceholders", () => {
+  test("returns variants in canonical form", () => {
+    expect(
+      findFuzzyPlaceholders(
+        "Use [PERSON_1] or [[ email address_2 ]]",
+        DEFAULT_PLACEHOLDER_FORMAT,
+        "conservative",
+      ),
+    ).toEqual(["[[PERSON_1]]", "[[EMAIL_ADDRESS_2]]"]);
+  });
+
+  test("finds bare variants only when aggressive", () => {
+    const text = "Fill in PERSON_1 here";
+
+    expect(findFuzzyPlaceholders(text, DEFAULT_PLACEHOLDER_FORMAT, "conservative")).toEqual([]);
+    expect(findFuzzyPlaceholders(text, DEFAULT_PLACEHOLDER_FORMAT, "aggressive")).toEqual([
+      "[[PERSON_1]]",
+    ]);
+  });
+});
+
+describe("fuzzy variants in the request", () => {
+  function mask(text: string, start: number, end: number, ctx: PlaceholderContext): string {
+    reserveLiteralPlaceholders([text], ctx);
+    return replaceWithPlaceholders(
+      text,
+      [{ start, end }],
+      ctx,
+      () => "PERSON",
+      (type, c) =>
+        incrementAndGenerate(type, c, (t, n) =>
+          generatePlaceholder(DEFAULT_PLACEHOLDER_FORMAT.template, t, n),
+        ),
+      (items) => items,
+    );
+  }
+
+  test("never restores a variant the user wrote to a masked value", () => {
+    const ctx = contextWith({}, "conservative");
+    const text = "Template uses [PERSON_1] literally. Contact Alice.";
+
+    const masked = mask(text, 44, 49, ctx);
+
+    expect(masked).toBe("Template uses [PERSON_1] literally. Contact [[PERSON_2]].");
+    expect(restore("The template has [PERSON_1] in it; contact [[PERSON_2]].", ctx)).toBe(
+      "The template has [PERSON_1] in it; contact Alice.",
+    );
+  });
+
+  test("reserves bare variants when aggressive", () => {
+    const ctx = contextWith({}, "aggressive");
+
+    const masked = mask("Replace PERSON_1 with Alice", 22, 27, ctx);
+
+    expect(masked).toBe("Replace PERSON_1 with [[PERSON_2]]");
+    expect(restore("PERSON_1 becomes [[PERSON_2]]", ctx)).toBe("PERSON_1 becomes Alice");
+  });
+});
+
+describe("fuzzy unmasking while streaming", () => {
+  test("buffers a mangled placeholder split across chunks", () => {
+    const ctx = contextWith({ "[[PERSON_1]]": "Hans" }, "conservative");
+
+    const first = processStreamChunk("", "Hello [ PERS", ctx, restore);
+    expect(first.output).toBe("Hello ");
+    expect(first.remainingBuffer).toBe("[ PERS");
+
+    const second = processStreamChunk(first.remainingBuffer, "ON_1 ]!", ctx, restore);
+    expect(second.output).toBe("Hello Hans!".slice(6));
+    expect(second.remainingBuffer).toBe("");
+  });
+
+  test("buffers a single opening bracket", () => {
+    const ctx = contextWith({ "[[PERSON_1]]": "Hans" }, "conservative");
+
+    const first = processStreamChunk("", "Hello [", ctx, restore);
+    expect(first.remainingBuffer).toBe("[");
+
+    const second = processStreamChunk(first.remainingBuffer, "PERSON_1] and", ctx, restore);
+    expect(second.output).toBe("Hans and");
+  });
+
+  test("aggressive buffers a partial bare placeholder", () => {
+    const ctx = contextWith({ "[[PERSON_1]]": "Hans" }, "aggressive");
+
+    const first = processStreamChunk("", "Hello PERSO", ctx, restore);
+    expect(first.output).toBe("Hello ");
+
+    const second = processStreamChunk(first.remainingBuffer, "N_1.", ctx, restore);
+    expect(second.output).toBe("Hans.");
+  });
+
+  test("does not buffer without known placeholders", () => {
+    const index = buildFuzzyIndex([], DEFAULT_PLACEHOLDER_FORMAT, "conservative");
+    expect(findPartialFuzzyStart("Hello [", index)).toBe(-1);
+  });
+
+  test("does not buffer closed brackets or long text", () => {
+    const index = buildFuzzyIndex(["[[PERSON_1]]"], DEFAULT_PLACEHOLDER_FORMAT, "conservative");
+    expect(findPartialFuzzyStart("see [1] here", index)).toBe(-1);
+    expect(findPartialFuzzyStart(`[${"x".repeat(80)}`, index)).toBe(-1);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Fuzzy unmasking - restores placeholders the model rewrote
+ *
+ * Models regularly return `[[PERSON_1]]` as `[[ PERSON_1 ]]`, `[PERSON_1]`,
+ * `[[Person_1]]` or just `PERSON_1`. After the exact pass, a tolerant pass
+ * matches these variants and restores them if they normalize to a known
+ * placeholder. Unknown placeholders are never touched.
+ *
+ * Levels (`masking.fuzzy_unmask`):
+ * - off: exact matches only
+ * - conservative: whitespace inside the placeholder, any letter case, whitespace
+ *   instead of separators, and doubled delimiters written once ([ for [[)
+ * - aggressive: additionally bare TYPE_N without any delimiters
+ */
+
+import { findPartialValueStart, generatePlaceholder, type PlaceholderFormat } from "./placeholders";
+
+export const FUZZY_UNMASK_LEVELS = ["off", "conservative", "aggressive"] as const;
+
+export type FuzzyUnmaskLevel = (typeof FUZZY_UNMASK_LEVELS)[number];
+
+/** Longest text after an opening delimiter character that may still be a mangled placeholder */
+const MAX_PARTIAL_LENGTH = 64;
+
+/**
+ * Fuzzy matchers and known placeholders for one context
+ */
+export interface FuzzyIndex {
+  /** Matches delimited variants, with named groups `type` and `n` */
+  delimited: RegExp;
+  /** Matches bare variants without delimiters (aggressive only) */
+  bare?: RegExp;
+  /** Maps normalized TYPE/N -> placeholder key */
+  keys: Map<string, string>;
+  /** Bare forms of the known placeholders, lowercased (for stream buffering) */
+  bareForms: string[];
+  /** First character of the opening delimiter */
+  openChar: string;
+  /** Last character of the closing delimiter */
+  closeChar: string;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Builds a tolerant pattern for a literal: whitespace may appear between
+ * characters and runs of the same character may be shortened ("[[" -> "[")
+ */
+function fuzzyLiteral(literal: string): string {
+  const runs = literal.match(/(.)\1*/gs) ?? [];
+  return runs
+    .map((run) => {
+      const ch = escapeRegExp(run[0]);
+      return run.length > 1 ? `${ch}(?:\\s*${ch}){0,${run.length - 1}}` : ch;
+    })
+    .join("\\s*");
+}
+
+function normalize(type: string, n: string): string {
+  return `${type.replace(/\s+/g, "_").toUpperCase()}\0${Number(n)}`;
+}
+
+/**
+ * Builds the fuzzy index for a placeholder format and the context's placeholders
+ */
+export function buildFuzzyIndex(
+  placeholders: string[],
+  format: PlaceholderFormat,
+  level: Exclude<FuzzyUnmaskLevel, "off">,
+): FuzzyIndex {
+  // split with a capturing group alternates literals and token names
+  const parts = format.template.split(/\{(TYPE|N)\}/);
+  // Spaces inside TYPE are only safe between delimiters - a bare match would
+  // otherwise swallow the preceding word
+  const innerSource = (typeSeparator: string) =>
+    parts
+      .slice(1, -1)
+      .map((part, i) => {
+        if (i % 2 === 1) return `\\s*(?:${fuzzyLiteral(part)}|\\s)\\s*`;
+        return part === "TYPE"
+          ? `(?<type>[A-Za-z0-9]+(?:${typeSeparator}[A-Za-z0-9]+)*)`
+          : "(?<n>\\d+)";
+      })
+      .join("");
+
+  const keys = new Map<string, string>();
+  const bareForms: string[] = [];
+  const start = parts[0];
+  const end = parts[parts.length - 1];
+  for (const placeholder of placeholders) {
+    const groups = format.exact.exec(placeholder)?.groups;
+    if (!groups) continue;
+    keys.set(normalize(groups.type, groups.n), placeholder);
+    bareForms.push(placeholder.slice(start.length, -end.length).toLowerCase());
+  }
+
+  return {
+    delimited: new RegExp(
+      `${fuzzyLiteral(start)}\\s*${innerSource("[_ ]")}\\s*${fuzzyLiteral(end)}`,
+      "gi",
+    ),
+    bare:
+      level === "aggressive"
+        ? new RegExp(`(?<![A-Za-z0-9_])${innerSource("_")}(?![A-Za-z0-9_])`, "gi")
+        : undefined,
+    keys,
+    bareForms,
+    openChar: start[0],
+    closeChar: end[end.length - 1],
+  };
+}
+
+/**
+ * Restores mangled placeholders in text
+ *
+ * @param restore - Returns the replacement for a matched placeholder key
+ */
+export function restoreFuzzy(
+  text: string,
+  index: FuzzyIndex,
+  restore: (placeholder: string, match: string) => string,
+): string {
+  if (index.keys.size === 0) return text;
+
+  const replace = (match: string, ...args: unknown[]) => {
+    const groups = args[args.length - 1] as { type: string; n: string };
+    const placeholder = index.keys.get(normalize(groups.type, groups.n));
+    return placeholder ? restore(placeholder, match) : match;
+  };
+
+  let result = text.includes(index.openChar) ? text.replace(index.delimited, replace) : text;
+  if (index.bare) {
+    result = result.replace(index.bare, replace);
+  }
+  return result;
+}
+
+/**
+ * Finds placeholder variants the level would restore that already appear in text
+ *
+ * Returns them in canonical form (e.g. "[PERSON_1]" and "person_1" both give
+ * "[[PERSON_1]]"), so they can be reserved and a mangled literal from the
+ * input is never restored to someone's value.
+ */
+export function findFuzzyPlaceholders(
+  text: string,
+  format: PlaceholderFormat,
+  level: Exclude<FuzzyUnmaskLevel, "off">,
+): string[] {
+  const index = buildFuzzyIndex([], format, level);
+  const patterns = index.bare ? [index.delimited, index.bare] : [index.delimited];
+
+  const found: string[] = [];
+  for (const pattern of patterns) {
+    for (const match of text.matchAll(pattern)) {
+      const { type, n } = match.groups as { type: string; n: string };
+      const canonicalType = type.replace(/\s+/g, "_").toUpperCase();
+      found.push(generatePlaceholder(format.template, canonicalType, Number(n)));
+    }
+  }
+  return found;
+}
+
+/**
+ * Streaming buffer helper - finds where a mangled placeholder may start at the end of text
+ *
+ * Returns the position to split at, or -1 if the entire string is safe
+ */
+export function findPartialFuzzyStart(text: string, index: FuzzyIndex): number {
+  if (index.keys.size === 0) return -1;
+
+  let start = -1;
+  const openStart = text.lastIndexOf(index.openChar);
+  if (openStart !== -1) {
+    const afterOpen = text.slice(openStart);
+    if (!afterOpen.includes(index.closeChar) && afterOpen.length <= MAX_PARTIAL_LENGTH) {
+      start = openStart;
+    }
+  }
+
+  if (index.bare) {
+    // ASCII-only lowercasing keeps offsets aligned with the original text
+    const lower = text.replace(/[A-Z]/g, (ch) => ch.toLowerCase());
+    const bareStart = findPartialValueStart(lower, index.bareForms);
+    if (bareStart !== -1 && (start === -1 || bareStart < start)) {
+      start = bareStart;
+    }
+  }
+
+  return start;
+}
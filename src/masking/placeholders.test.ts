@@ -1,11 +1,16 @@
 import { describe, expect, test } from "bun:test";
 import {
   findPartialPlaceholderStart,
+  findPartialValueStart,
+  findPlaceholders,
   generatePlaceholder,
   generateSecretPlaceholder,
   PII_PLACEHOLDER_FORMAT,
   PLACEHOLDER_DELIMITERS,
+  parsePlaceholderFormat,
+  resolvePlaceholderNonce,
   SECRET_PLACEHOLDER_FORMAT,
+  validatePlaceholderFormat,
 } from "./placeholders";
 
 describe("placeholder constants", () => {
@@ -88,3 +93,78 @@ describe("findPartialPlaceholderStart", () => {
     expect(findPartialPlaceholderStart("Hello [")).toBe(-1);
   });
 });
+
+describe("findPartialValueStart", () => {
+  const values = ["Emily Whitfield", "lena.brandt@example.com"];
+
+  test("returns -1 when no value starts at the end", () => {
+    expect(findPartialValueStart("Hello there", values)).toBe(-1);
+  });
+
+  test("returns position of a partial value at end", () => {
+    expect(findPartialValueStart("Dear Emily Wh", values)).toBe(5);
+  });
+
+  test("holds back a complete value the next chunk may extend", () => {
+    expect(findPartialValueStart("Dear Emily Whitfield", values)).toBe(5);
+  });
+
+  test("prefers the longest partial match", () => {
+    expect(findPartialValueStart("mail lena.b", ["a.b", "lena.brandt"])).toBe(5);
+  });
+});
+
+describe("placeholder formats", () => {
+  test("accepts formats with delimiters around {TYPE} and {N}", () => {
+    expect(validatePlaceholderFormat("[[{TYPE}_{N}]]")).toBeUndefined();
+    expect(validatePlaceholderFormat("<{TYPE}_{N}>")).toBeUndefined();
+    expect(validatePlaceholderFormat("{{PII:{TYPE}:{N}}}")).toBeUndefined();
+    expect(validatePlaceholderFormat("⟦{NONCE}:{TYPE}_{N}⟧")).toBeUndefined();
+  });
+
+  test("rejects formats without tokens or delimiters", () => {
+    expect(validatePlaceholderFormat("[[{TYPE}]]")).toContain("{N}");
+    expect(validatePlaceholderFormat("{TYPE}_{N}")).toContain("delimiters");
+    expect(validatePlaceholderFormat("[[{TYPE} {N}]]")).toContain("whitespace");
+    expect(() => parsePlaceholderFormat("{TYPE}_{N}")).toThrow("Invalid placeholder format");
+  });
+
+  test("parses delimiters and a matching pattern", () => {
+    const format = parsePlaceholderFormat("{{PII:{TYPE}:{N}}}");
+    expect(format.start).toBe("{{PII:");
+    expect(format.end).toBe("}}");
+    expect(format.exact.test("{{PII:EMAIL_ADDRESS:12}}")).toBe(true);
+    expect(format.exact.test("{{PII:EMAIL_ADDRESS}}")).toBe(false);
+  });
+
+  test("resolves a random nonce", () => {
+    const template = resolvePlaceholderNonce("⟦{NONCE}:{TYPE}_{N}⟧");
+    expect(template).toMatch(/^⟦[0-9a-f]{4}:\{TYPE\}_\{N\}⟧$/);
+    expect(parsePlaceholderFormat(template).start).toBe(template.slice(0, 6));
+  });
+
+  test("finds placeholders already present in text", () => {
+    const format = parsePlaceholderFormat("<{TYPE}_{N}>");
+    expect(findPlaceholders("<b>Hi</b> <PERSON_1> and <EMAIL_ADDRESS_2>", format)).toEqual([
+      "<PERSON_1>",
+      "<EMAIL_ADDRESS_2>",
+    ]);
+  });
+
+  test("finds partial placeholders of a custom format", () => {
+    const format = parsePlaceholderFormat("{{PII:{TYPE}:{N}}}");
+    expect(findPartialPlaceholderStart("Hi {{PII:PERSON:", format)).toBe(3);
+    expect(findPartialPlaceholderStart("Hi {{PII:PERSON:1}}", format)).toBe(-1);
+  });
+
+  test("buffers a start delimiter cut off at the end", () => {
+    const format = parsePlaceholderFormat("{{PII:{TYPE}:{N}}}");
+    expect(findPartialPlaceholderStart("Hi {{PI", format)).toBe(3);
+    expect(findPartialPlaceholderStart("Hi {", format)).toBe(-1);
+  });
+
+  test("does not hold back a stray start delimiter followed by long text", () => {
+    const format = parsePlaceholderFormat("<{TYPE}_{N}>");
+    expect(findPartialPlaceholderStart(`if a < b then ${"x".repeat(80)}`, format)).toBe(-1);
+  });
+});
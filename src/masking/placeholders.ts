@@ -1,7 +1,17 @@
 /**
  * Placeholder constants and utilities
+ *
+ * The placeholder format is configurable (`masking.placeholder_format`). A
+ * format is a template with {TYPE} and {N} tokens, optionally {NONCE} for a
+ * random per-context nonce, wrapped in literal delimiters:
+ * - [[{TYPE}_{N}]]         -> [[PERSON_1]] (default)
+ * - <{TYPE}_{N}>           -> <PERSON_1>
+ * - {{PII:{TYPE}:{N}}}     -> {{PII:PERSON:1}}
+ * - ⟦{NONCE}:{TYPE}_{N}⟧   -> ⟦a7f3:PERSON_1⟧
  */
 
+import { randomBytes } from "node:crypto";
+
 export const PLACEHOLDER_DELIMITERS = {
   start: "[[",
   end: "]]",
@@ -13,6 +23,96 @@ export const PII_PLACEHOLDER_FORMAT = "[[{TYPE}_{N}]]";
 /** Secrets placeholder format: [[TYPE_N]] e.g. [[API_KEY_SK_1]] */
 export const SECRET_PLACEHOLDER_FORMAT = "[[{N}]]";
 
+/** Longest text after the start delimiter that is still treated as a partial placeholder */
+const MAX_PARTIAL_PLACEHOLDER_LENGTH = 64;
+
+/** Shortest trailing prefix of the start delimiter that is buffered ("[" alone is too common) */
+const MIN_PARTIAL_DELIMITER_LENGTH = 2;
+
+const FORMAT_TOKEN_REGEX = /\{(TYPE|N|NONCE)\}/;
+
+/**
+ * Parsed placeholder format
+ */
+export interface PlaceholderFormat {
+  /** Template with {NONCE} already resolved */
+  template: string;
+  /** Literal text before the first token */
+  start: string;
+  /** Literal text after the last token */
+  end: string;
+  /** Matches complete placeholders anywhere in text */
+  pattern: RegExp;
+  /** Matches a string that is exactly one placeholder, with named groups `type` and `n` */
+  exact: RegExp;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Validates a placeholder format template
+ *
+ * @returns An error message, or undefined if the template is valid
+ */
+export function validatePlaceholderFormat(template: string): string | undefined {
+  const count = (token: string) => template.split(token).length - 1;
+  if (count("{TYPE}") !== 1 || count("{N}") !== 1) {
+    return "must contain {TYPE} and {N} exactly once";
+  }
+  if (count("{NONCE}") > 1) {
+    return "must contain {NONCE} at most once";
+  }
+  const parts = template.split(FORMAT_TOKEN_REGEX);
+  if (!parts[0] || !parts[parts.length - 1]) {
+    return "must start and end with literal delimiters, e.g. [[{TYPE}_{N}]]";
+  }
+  if (/\s/.test(template)) {
+    return "must not contain whitespace";
+  }
+  return undefined;
+}
+
+/**
+ * Replaces {NONCE} with a random 4-character hex nonce
+ */
+export function resolvePlaceholderNonce(template: string): string {
+  return template.replace("{NONCE}", () => randomBytes(2).toString("hex"));
+}
+
+/**
+ * Parses a placeholder format template ({NONCE} must already be resolved)
+ *
+ * @throws Error if the template is invalid
+ */
+export function parsePlaceholderFormat(template: string): PlaceholderFormat {
+  const error = validatePlaceholderFormat(template);
+  if (error) {
+    throw new Error(`Invalid placeholder format "${template}": ${error}`);
+  }
+
+  // split with a capturing group alternates literals and token names
+  const parts = template.split(/\{(TYPE|N)\}/);
+  const source = parts
+    .map((part, i) => {
+      if (i % 2 === 0) return escapeRegExp(part);
+      return part === "TYPE" ? "(?<type>[A-Za-z0-9_]+)" : "(?<n>\\d+)";
+    })
+    .join("");
+
+  return {
+    template,
+    start: parts[0],
+    end: parts[parts.length - 1],
+    pattern: new RegExp(source, "g"),
+    exact: new RegExp(`^${source}$`),
+  };
+}
+
+/** The default [[TYPE_N]] format */
+export const DEFAULT_PLACEHOLDER_FORMAT = parsePlaceholderFormat(PII_PLACEHOLDER_FORMAT);
+
 /**
  * Generates a placeholder string from the format
  */
@@ -28,26 +128,80 @@ export function generateSecretPlaceholder(type: string, count: number): string {
   return SECRET_PLACEHOLDER_FORMAT.replace("{N}", `${type}_${count}`);
 }
 
+/**
+ * Finds placeholders of the format that already appear in text
+ */
+export function findPlaceholders(text: string, format: PlaceholderFormat): string[] {
+  if (!text.includes(format.start)) return [];
+  return text.match(format.pattern) ?? [];
+}
+
 /**
  * Streaming buffer helper - finds safe position to process text
  * that may contain partial placeholders
  *
  * Returns the position where it's safe to split, or -1 if entire string is safe
  */
-export function findPartialPlaceholderStart(text: string): number {
-  const placeholderStart = text.lastIndexOf(PLACEHOLDER_DELIMITERS.start);
+export function findPartialPlaceholderStart(
+  text: string,
+  format: PlaceholderFormat = DEFAULT_PLACEHOLDER_FORMAT,
+): number {
+  const placeholderStart = text.lastIndexOf(format.start);
 
   if (placeholderStart === -1) {
-    return -1; // No potential placeholder, entire string is safe
+    return findPartialDelimiterStart(text, format.start);
   }
 
-  // Check if there's a complete placeholder after the last [[
-  const afterStart = text.slice(placeholderStart);
-  const hasCompletePlaceholder = afterStart.includes(PLACEHOLDER_DELIMITERS.end);
+  // Check if there's a complete placeholder after the last start delimiter
+  const afterStart = text.slice(placeholderStart + format.start.length);
+  const hasCompletePlaceholder = afterStart.includes(format.end);
 
   if (hasCompletePlaceholder) {
-    return -1; // Placeholder is complete, entire string is safe
+    return findPartialDelimiterStart(text, format.start);
+  }
+
+  // Too long to be a placeholder - a stray delimiter, not worth holding back
+  if (afterStart.length > MAX_PARTIAL_PLACEHOLDER_LENGTH) {
+    return -1;
   }
 
   return placeholderStart; // Return position where partial placeholder starts
 }
+
+/**
+ * Finds a start delimiter cut off at the end of text (e.g. "{{PI" of "{{PII:")
+ */
+function findPartialDelimiterStart(text: string, start: string): number {
+  for (let length = start.length - 1; length >= MIN_PARTIAL_DELIMITER_LENGTH; length--) {
+    if (text.endsWith(start.slice(0, length))) {
+      return text.length - length;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Streaming buffer helper for values without delimiters (pseudonyms)
+ *
+ * Returns the start of the longest suffix of text that is a prefix of one of
+ * the values, or -1 if no value can start at the end of text. Complete values
+ * are held back too: values only match as whole words, and the next chunk may
+ * continue the word.
+ */
+export function findPartialValueStart(text: string, values: string[]): number {
+  let start = -1;
+
+  for (const value of values) {
+    const maxLength = Math.min(value.length, text.length);
+    // Only suffixes longer than the current best can move the split point earlier
+    const minLength = start === -1 ? 1 : text.length - start + 1;
+    for (let length = maxLength; length >= minLength; length--) {
+      if (text.endsWith(value.slice(0, length))) {
+        start = text.length - length;
+        break;
+      }
+    }
+  }
+
+  return start;
+}
@@ -0,0 +1,98 @@
+import { describe, expect, test } from "bun:test";
+import { luhnCheckDigit } from "../utils/checksums";
+import { createPseudonymSalt, generatePseudonym } from "./pseudonyms";
+
+const free = () => false;
+const salt = "0123456789abcdef";
+
+/** Validates an IBAN with the ISO 13616 mod-97 check */
+function isValidIban(iban: string): boolean {
+  const compact = iban.replace(/\s/g, "");
+  const rearranged = `${compact.slice(4)}${compact.slice(0, 4)}`.replace(/[A-Z]/g, (ch) =>
+    String(ch.charCodeAt(0) - 55),
+  );
+  let remainder = 0;
+  for (const ch of rearranged) {
+    remainder = (remainder * 10 + Number(ch)) % 97;
+  }
+  return remainder === 1;
+}
+
+/** Validates a card number with the Luhn check */
+function isValidLuhn(card: string): boolean {
+  const digits = card.replace(/\D/g, "");
+  return luhnCheckDigit(digits.slice(0, -1)) === digits.slice(-1);
+}
+
+describe("generatePseudonym", () => {
+  test("is deterministic per value and salt", () => {
+    const first = generatePseudonym("PERSON", "John Smith", "en", salt, free);
+    const second = generatePseudonym("PERSON", "John Smith", "en", salt, free);
+    expect(first).toBe(second);
+    expect(first).not.toBe("John Smith");
+  });
+
+  test("depends on the salt", () => {
+    const pseudonyms = new Set(
+      Array.from({ length: 8 }, () =>
+        generatePseudonym("CREDIT_CARD", "4111 1111 1111 1111", "en", createPseudonymSalt(), free),
+      ),
+    );
+    expect(pseudonyms.size).toBeGreaterThan(1);
+  });
+
+  test("uses names matching the language", () => {
+    const pseudonym = generatePseudonym("PERSON", "Hans Müller", "de", salt, free);
+    expect(pseudonym).toMatch(/^\S+ \S+$/);
+    expect(pseudonym).not.toMatch(/\[\[/);
+  });
+
+  test("keeps single names single", () => {
+    expect(generatePseudonym("PERSON", "John", "en", salt, free)).toMatch(/^\S+$/);
+  });
+
+  test("generates emails on reserved domains", () => {
+    const email = generatePseudonym("EMAIL_ADDRESS", "john@company.com", "fr", salt, free);
+    expect(email).toMatch(/^[a-z]+\.[a-z]+@example\.(com|org|net)$/);
+  });
+
+  test("generates Luhn-valid cards with the original grouping", () => {
+    const card = generatePseudonym("CREDIT_CARD", "5500-0000-0000-0004", "en", salt, free);
+    expect(card).toMatch(/^5\d{3}-\d{4}-\d{4}-\d{4}$/);
+    expect(isValidLuhn(card as string)).toBe(true);
+  });
+
+  test("generates valid IBANs for the original country", () => {
+    const iban = generatePseudonym("IBAN_CODE", "DE89 3704 0044 0532 0130 00", "en", salt, free);
+    expect(iban).toMatch(/^DE\d{2}( \d{4}){4} \d{2}$/);
+    expect(isValidIban(iban as string)).toBe(true);
+
+    const gb = generatePseudonym("IBAN_CODE", "GB29NWBK60161331926819", "en", salt, free);
+    expect(gb).toMatch(/^GB\d{2}[A-Z]{4}\d{14}$/);
+    expect(isValidIban(gb as string)).toBe(true);
+  });
+
+  test("generates phone numbers for the language's country", () => {
+    expect(generatePseudonym("PHONE_NUMBER", "030 1234567", "de", salt, free)).toMatch(
+      /^\+49 30 23125\d{3}$/,
+    );
+  });
+
+  test("generates documentation IP addresses", () => {
+    expect(generatePseudonym("IP_ADDRESS", "10.0.0.1", "en", salt, free)).toMatch(
+      /^(192\.0\.2|198\.51\.100|203\.0\.113)\.\d+$/,
+    );
+    expect(generatePseudonym("IP_ADDRESS", "fe80::1", "en", salt, free)).toStartWith("2001:db8::");
+  });
+
+  test("avoids values that are already taken", () => {
+    const taken = generatePseudonym("PERSON", "John Smith", "en", salt, free) as string;
+    const other = generatePseudonym("PERSON", "John Smith", "en", salt, (v) => v === taken);
+    expect(other).toBeDefined();
+    expect(other).not.toBe(taken);
+  });
+
+  test("returns undefined for types without a generator", () => {
+    expect(generatePseudonym("US_SSN", "123-45-6789", "en", salt, free)).toBeUndefined();
+  });
+});
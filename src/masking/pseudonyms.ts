@@ -0,0 +1,499 @@
+/**
+ * Pseudonym generation - realistic fake values instead of [[TYPE_N]] placeholders
+ *
+ * Some models treat `[[PERSON_1]]` literally or write awkward prose around it.
+ * The pseudonym strategy replaces PII with fake values of the same kind:
+ * - PERSON / LOCATION: names and cities matching the detected language
+ * - EMAIL_ADDRESS: name-based addresses on reserved example domains (RFC 2606)
+ * - PHONE_NUMBER: numbers from ranges reserved for fiction where one exists
+ * - CREDIT_CARD: same length and grouping as the original, valid Luhn check digit
+ * - IBAN_CODE: same country as the original, valid mod-97 check digits
+ * - IP_ADDRESS: documentation ranges (RFC 5737 / RFC 3849)
+ *
+ * Values are derived from a keyed hash of the entity type and original value.
+ * The key is a random salt per masking context, so a value keeps its pseudonym
+ * within a conversation but can't be linked across requests or clients. Types
+ * without a generator return undefined and fall back to placeholders.
+ */
+
+import { randomBytes } from "node:crypto";
+import type { SupportedLanguage } from "../constants/languages";
+import { ibanCheckDigits, luhnCheckDigit } from "../utils/checksums";
+
+interface NameList {
+  first: string[];
+  last: string[];
+  cities: string[];
+}
+
+const NAMES: Partial<Record<SupportedLanguage, NameList>> = {
+  en: {
+    first: [
+      "Emily",
+      "James",
+      "Olivia",
+      "Daniel",
+      "Grace",
+      "Thomas",
+      "Hannah",
+      "Oliver",
+      "Chloe",
+      "Samuel",
+      "Lucy",
+      "Henry",
+    ],
+    last: [
+      "Whitfield",
+      "Harrington",
+      "Caldwell",
+      "Pemberton",
+      "Ashford",
+      "Bramley",
+      "Thornton",
+      "Kingsley",
+      "Merriweather",
+      "Holloway",
+      "Fairbanks",
+      "Stanton",
+    ],
+    cities: ["Springfield", "Riverton", "Fairview", "Oakridge", "Brookfield", "Millbrook"],
+  },
+  de: {
+    first: [
+      "Lena",
+      "Jonas",
+      "Katrin",
+      "Matthias",
+      "Sabine",
+      "Florian",
+      "Jana",
+      "Tobias",
+      "Miriam",
+      "Stefan",
+      "Ulrike",
+      "Lukas",
+    ],
+    last: [
+      "Brandt",
+      "Hoffmann",
+      "Kessler",
+      "Lindner",
+      "Vogt",
+      "Seidel",
+      "Winkler",
+      "Hartmann",
+      "Kranz",
+      "Ebert",
+      "Pohl",
+      "Lorenz",
+    ],
+    cities: ["Musterstadt", "Lindenau", "Birkenfeld", "Eichenberg", "Tannhausen", "Rosental"],
+  },
+  fr: {
+    first: [
+      "Camille",
+      "Julien",
+      "Élodie",
+      "Mathieu",
+      "Chloé",
+      "Antoine",
+      "Manon",
+      "Nicolas",
+      "Amélie",
+      "Guillaume",
+      "Léa",
+      "Baptiste",
+    ],
+    last: [
+      "Lefèvre",
+      "Moreau",
+      "Garnier",
+      "Rousseau",
+      "Fontaine",
+      "Chevalier",
+      "Mercier",
+      "Gauthier",
+      "Perrin",
+      "Marchand",
+      "Dufour",
+      "Renaud",
+    ],
+    cities: ["Villeneuve", "Beaumont", "Montfort", "Clairvaux", "Belleville", "Rochefort"],
+  },
+  es: {
+    first: [
+      "Lucía",
+      "Javier",
+      "Marta",
+      "Alejandro",
+      "Carmen",
+      "Sergio",
+      "Elena",
+      "Pablo",
+      "Irene",
+      "Diego",
+      "Nuria",
+      "Andrés",
+    ],
+    last: [
+      "Navarro",
+      "Castillo",
+      "Romero",
+      "Serrano",
+      "Molina",
+      "Delgado",
+      "Ortega",
+      "Rubio",
+      "Iglesias",
+      "Vidal",
+      "Herrera",
+      "Campos",
+    ],
+    cities: ["Villaverde", "Montealegre", "Valdehermoso", "Torrealta", "Fuentesol", "Robledo"],
+  },
+  it: {
+    first: [
+      "Giulia",
+      "Marco",
+      "Chiara",
+      "Luca",
+      "Francesca",
+      "Matteo",
+      "Elisa",
+      "Davide",
+      "Sara",
+      "Alessandro",
+      "Valentina",
+      "Simone",
+    ],
+    last: [
+      "Bianchi",
+      "Ferrara",
+      "Galli",
+      "Marchetti",
+      "Fontana",
+      "Barbieri",
+      "Rinaldi",
+      "Caruso",
+      "Lombardi",
+      "Moretti",
+      "Testa",
+      "Gentile",
+    ],
+    cities: ["Montebello", "Roccaverde", "Valfiorita", "Castelnuovo", "Pietrasanta", "Borgoalto"],
+  },
+  nl: {
+    first: [
+      "Sanne",
+      "Daan",
+      "Femke",
+      "Bram",
+      "Lotte",
+      "Joris",
+      "Anouk",
+      "Thijs",
+      "Eline",
+      "Ruben",
+      "Marloes",
+      "Sander",
+    ],
+    last: [
+      "de Vries",
+      "Jansen",
+      "Bakker",
+      "Visser",
+      "Smit",
+      "Meijer",
+      "de Boer",
+      "Mulder",
+      "Bos",
+      "Vos",
+      "Dekker",
+      "Brouwer",
+    ],
+    cities: ["Veldhoven", "Zandvliet", "Oosterwijk", "Molenbeek", "Heidewaard", "Lindendaal"],
+  },
+  pt: {
+    first: [
+      "Beatriz",
+      "Tiago",
+      "Inês",
+      "Rui",
+      "Mariana",
+      "Diogo",
+      "Catarina",
+      "Gonçalo",
+      "Sofia",
+      "Bruno",
+      "Leonor",
+      "Vasco",
+    ],
+    last: [
+      "Almeida",
+      "Carvalho",
+      "Ferreira",
+      "Gomes",
+      "Lopes",
+      "Marques",
+      "Pinto",
+      "Ribeiro",
+      "Sousa",
+      "Teixeira",
+      "Moreira",
+      "Correia",
+    ],
+    cities: [
+      "Vila Nova",
+      "Monte Claro",
+      "Ribeira Alta",
+      "Vale Verde",
+      "Pedra Branca",
+      "Campo Belo",
+    ],
+  },
+  pl: {
+    first: [
+      "Agnieszka",
+      "Tomasz",
+      "Magdalena",
+      "Paweł",
+      "Katarzyna",
+      "Michał",
+      "Joanna",
+      "Krzysztof",
+      "Natalia",
+      "Piotr",
+      "Zofia",
+      "Marek",
+    ],
+    last: [
+      "Kowalczyk",
+      "Wiśniewski",
+      "Zieliński",
+      "Lewandowski",
+      "Dąbrowski",
+      "Kamiński",
+      "Szymański",
+      "Woźniak",
+      "Kaczmarek",
+      "Mazur",
+      "Krawczyk",
+      "Pawlak",
+    ],
+    cities: ["Zielonka", "Brzozów", "Dąbrowa", "Lipno", "Sosnowiec Mały", "Jasień"],
+  },
+};
+
+/** Country used for IBANs and phone numbers per language */
+const LANGUAGE_COUNTRIES: Partial<Record<SupportedLanguage, string>> = {
+  en: "GB",
+  de: "DE",
+  fr: "FR",
+  es: "ES",
+  it: "IT",
+  nl: "NL",
+  pt: "PT",
+  pl: "PL",
+};
+
+/** BBAN layout per country: n = digit, a = uppercase letter */
+const IBAN_BBAN_FORMATS: Record<string, string> = {
+  AT: "nnnnnnnnnnnnnnnn",
+  BE: "nnnnnnnnnnnn",
+  CH: "nnnnnnnnnnnnnnnnn",
+  DE: "nnnnnnnnnnnnnnnnnn",
+  ES: "nnnnnnnnnnnnnnnnnnnn",
+  FR: "nnnnnnnnnnnnnnnnnnnnnnn",
+  GB: "aaaannnnnnnnnnnnnn",
+  IT: "annnnnnnnnnnnnnnnnnnnnn",
+  NL: "aaaannnnnnnnnn",
+  PL: "nnnnnnnnnnnnnnnnnnnnnnnn",
+  PT: "nnnnnnnnnnnnnnnnnnnnn",
+};
+
+/**
+ * Phone number templates per country (# = random digit)
+ * GB, US, DE and FR use ranges reserved for drama/fiction.
+ */
+const PHONE_FORMATS: Record<string, string> = {
+  GB: "+44 20 7946 0###",
+  US: "+1 202-555-01##",
+  DE: "+49 30 23125###",
+  FR: "+33 1 99 00 ## ##",
+  ES: "+34 9## ### ###",
+  IT: "+39 06 #### ####",
+  NL: "+31 20 ### ####",
+  PT: "+351 21 ### ####",
+  PL: "+48 22 ### ## ##",
+};
+
+const EMAIL_DOMAINS = ["example.com", "example.org", "example.net"];
+
+const IPV4_PREFIXES = ["192.0.2.", "198.51.100.", "203.0.113."];
+
+/** Attempts before giving up on a collision-free value */
+const MAX_ATTEMPTS = 10;
+
+/**
+ * Creates a random salt for generatePseudonym (16 hex characters)
+ */
+export function createPseudonymSalt(): string {
+  return randomBytes(8).toString("hex");
+}
+
+/**
+ * Small seeded PRNG (mulberry32) - deterministic per salt and original value
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+type Random = () => number;
+
+function pick<T>(random: Random, items: T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function randomDigit(random: Random): string {
+  return String(Math.floor(random() * 10));
+}
+
+function namesFor(language: string): NameList {
+  return NAMES[language as SupportedLanguage] ?? (NAMES.en as NameList);
+}
+
+function countryFor(language: string): string {
+  return LANGUAGE_COUNTRIES[language as SupportedLanguage] ?? "GB";
+}
+
+/** Strips diacritics and anything else that isn't valid in an email local part */
+function toEmailLocal(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/ł/g, "l")
+    .toLowerCase()
+    .replace(/[^a-z]+/g, "");
+}
+
+function fakePerson(original: string, language: string, random: Random): string {
+  const names = namesFor(language);
+  const first = pick(random, names.first);
+  // Keep single names (e.g. just a first name) single
+  if (original.trim().split(/\s+/).length === 1) return first;
+  return `${first} ${pick(random, names.last)}`;
+}
+
+function fakeEmail(language: string, random: Random): string {
+  const names = namesFor(language);
+  const local = `${toEmailLocal(pick(random, names.first))}.${toEmailLocal(pick(random, names.last))}`;
+  return `${local}@${pick(random, EMAIL_DOMAINS)}`;
+}
+
+function fakePhone(original: string, language: string, random: Random): string {
+  const country = original.trim().startsWith("+1") ? "US" : countryFor(language);
+  const format = PHONE_FORMATS[country] ?? PHONE_FORMATS.GB;
+  return format.replace(/#/g, () => randomDigit(random));
+}
+
+function fakeCreditCard(original: string, random: Random): string {
+  const originalDigits = original.replace(/\D/g, "");
+  const length =
+    originalDigits.length >= 12 && originalDigits.length <= 19 ? originalDigits.length : 16;
+  // Keep the network (first digit) so the card type stays plausible
+  const network = /^[3-6]/.test(originalDigits) ? originalDigits[0] : "4";
+
+  let digits = network;
+  while (digits.length < length - 1) digits += randomDigit(random);
+  digits += luhnCheckDigit(digits);
+
+  // Re-apply the original grouping (spaces, dashes) if the digit count matches
+  if (originalDigits.length !== length) return digits;
+  let index = 0;
+  return original.replace(/\d/g, () => digits[index++]);
+}
+
+function fakeIban(original: string, language: string, random: Random): string {
+  const compact = original.replace(/\s/g, "").toUpperCase();
+  const originalCountry = compact.slice(0, 2);
+  const country = IBAN_BBAN_FORMATS[originalCountry] ? originalCountry : countryFor(language);
+  const format = IBAN_BBAN_FORMATS[country] ?? IBAN_BBAN_FORMATS.DE;
+
+  const bban = format.replace(/[na]/g, (ch) =>
+    ch === "n" ? randomDigit(random) : String.fromCharCode(65 + Math.floor(random() * 26)),
+  );
+  const iban = `${country}${ibanCheckDigits(country, bban)}${bban}`;
+
+  // Print in groups of four if the original was grouped
+  return /\s/.test(original.trim()) ? (iban.match(/.{1,4}/g) ?? [iban]).join(" ") : iban;
+}
+
+function fakeIpAddress(original: string, random: Random): string {
+  if (original.includes(":")) {
+    const group = () => Math.floor(random() * 0xffff).toString(16);
+    return `2001:db8::${group()}:${group()}`;
+  }
+  return `${pick(random, IPV4_PREFIXES)}${1 + Math.floor(random() * 254)}`;
+}
+
+function fakeValue(
+  entityType: string,
+  original: string,
+  language: string,
+  random: Random,
+): string | undefined {
+  switch (entityType) {
+    case "PERSON":
+      return fakePerson(original, language, random);
+    case "LOCATION":
+      return pick(random, namesFor(language).cities);
+    case "EMAIL_ADDRESS":
+      return fakeEmail(language, random);
+    case "PHONE_NUMBER":
+      return fakePhone(original, language, random);
+    case "CREDIT_CARD":
+      return fakeCreditCard(original, random);
+    case "IBAN_CODE":
+      return fakeIban(original, language, random);
+    case "IP_ADDRESS":
+      return fakeIpAddress(original, random);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Generates a pseudonym for a detected value
+ *
+ * @param entityType - PII entity type (PERSON, EMAIL_ADDRESS, ...)
+ * @param original - The original value being replaced
+ * @param language - Detected language of the request
+ * @param salt - Per-context salt from createPseudonymSalt
+ * @param isTaken - Returns true if a candidate is already in use or appears in the
+ *   request (it would be ambiguous to unmask)
+ * @returns The pseudonym, or undefined if the type has no generator or no free value was found
+ */
+export function generatePseudonym(
+  entityType: string,
+  original: string,
+  language: string,
+  salt: string,
+  isTaken: (candidate: string) => boolean,
+): string | undefined {
+  const key = BigInt(`0x${salt}`);
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const hash = Bun.hash.wyhash(`${entityType}\0${original}\0${attempt}`, key);
+    const random = createRandom(Number(hash & 0xffffffffn));
+    const candidate = fakeValue(entityType, original, language, random);
+    if (candidate === undefined) return undefined;
+    if (candidate !== original && !isTaken(candidate)) return candidate;
+  }
+  return undefined;
+}
@@ -7,6 +7,7 @@
  * - Processing streaming chunks with buffering
  */
 
+import type { MaskingConfig } from "../config";
 import type { Span } from "../masking/conflict-resolver";
 import {
   createPlaceholderContext,
@@ -14,6 +15,7 @@ import {
   type PlaceholderContext,
   processStreamChunk,
   replaceWithPlaceholders,
+  reserveLiteralPlaceholders,
   restorePlaceholders,
 } from "../masking/context";
 import type { MaskedSpan, TextSpan } from "./types";
@@ -35,8 +37,9 @@ export interface MaskSpansResult {
  *
  * This is the core masking operation that:
  * 1. Takes extracted text spans
- * 2. Applies entity-based replacement for each span
- * 3. Returns masked spans ready to be applied back to messages
+ * 2. Reserves placeholders that already appear literally in the spans
+ * 3. Applies entity-based replacement for each span
+ * 4. Returns masked spans ready to be applied back to messages
  *
  * @param spans - Text spans extracted from messages
  * @param perSpanData - Per-span entity/location data: perSpanData[spanIndex] = items
@@ -49,13 +52,18 @@ export function maskSpans<T extends Span>(
   spans: TextSpan[],
   perSpanData: T[][],
   getType: (item: T) => string,
-  generatePlaceholder: (type: string, context: PlaceholderContext) => string,
+  generatePlaceholder: (type: string, context: PlaceholderContext, original: string) => string,
   resolveConflicts: (items: T[]) => T[],
   context?: PlaceholderContext,
 ): MaskSpansResult {
   const ctx = context || createPlaceholderContext();
   const maskedSpans: MaskedSpan[] = [];
 
+  reserveLiteralPlaceholders(
+    spans.map((span) => span.text),
+    ctx,
+  );
+
   for (let i = 0; i < spans.length; i++) {
     const span = spans[i];
     const items = perSpanData[i] || [];
@@ -67,6 +75,7 @@ export function maskSpans<T extends Span>(
         maskedText: span.text,
         messageIndex: span.messageIndex,
         partIndex: span.partIndex,
+        nestedPartIndex: span.nestedPartIndex,
       });
       continue;
     }
@@ -85,6 +94,7 @@ export function maskSpans<T extends Span>(
       maskedText,
       messageIndex: span.messageIndex,
       partIndex: span.partIndex,
+      nestedPartIndex: span.nestedPartIndex,
     });
   }
 
@@ -93,9 +103,16 @@ export function maskSpans<T extends Span>(
 
 /**
  * Creates a new masking context
+ *
+ * @param masking - Optional masking config (placeholder format, fuzzy unmasking level)
  */
-export function createMaskingContext(): PlaceholderContext {
-  return createPlaceholderContext();
+export function createMaskingContext(
+  masking?: Partial<Pick<MaskingConfig, "placeholder_format" | "fuzzy_unmask">>,
+): PlaceholderContext {
+  return createPlaceholderContext({
+    placeholderFormat: masking?.placeholder_format,
+    fuzzy: masking?.fuzzy_unmask,
+  });
 }
 
 /**
@@ -0,0 +1,96 @@
+import { describe, expect, test } from "bun:test";
+import { createPlaceholderContext } from "./context";
+import {
+  collectStringLeaves,
+  createToolArgumentsStreamUnmasker,
+  replaceStringLeaves,
+  unmaskArguments,
+  unmaskToolInput,
+} from "./tool-arguments";
+
+function contextWith(mapping: Record<string, string>) {
+  const context = createPlaceholderContext();
+  Object.assign(context.mapping, mapping);
+  return context;
+}
+
+describe("collectStringLeaves / replaceStringLeaves", () => {
+  test("walks nested objects and arrays depth-first", () => {
+    const value = { a: "one", b: [1, "two", { c: "three" }], d: null, e: true };
+    expect(collectStringLeaves(value)).toEqual(["one", "two", "three"]);
+  });
+
+  test("replaces leaves by ordinal without touching other values", () => {
+    const value = { a: "one", b: [1, "two"], c: false };
+    const result = replaceStringLeaves(value, new Map([[1, "TWO"]]));
+    expect(result).toEqual({ a: "one", b: [1, "TWO"], c: false });
+    expect(value.b[1]).toBe("two");
+  });
+});
+
+describe("unmaskArguments", () => {
+  test("restores leaves and keeps the JSON valid", () => {
+    const context = contextWith({ "[[PERSON_1]]": 'Jane "J" Doe' });
+    const result = unmaskArguments('{"name":"[[PERSON_1]]","n":1}', [context]);
+    expect(JSON.parse(result)).toEqual({ name: 'Jane "J" Doe', n: 1 });
+  });
+
+  test("returns arguments unchanged when nothing is restored", () => {
+    const args = '{ "name" :  "Jane" }';
+    expect(unmaskArguments(args, [createPlaceholderContext()])).toBe(args);
+  });
+
+  test("restores invalid JSON as plain text", () => {
+    const context = contextWith({ "[[EMAIL_ADDRESS_1]]": "a@b.com" });
+    expect(unmaskArguments("mail [[EMAIL_ADDRESS_1]]", [context])).toBe("mail a@b.com");
+  });
+
+  test("applies multiple contexts", () => {
+    const pii = contextWith({ "[[PERSON_1]]": "Jane" });
+    const secrets = contextWith({ "[[API_KEY_SK_1]]": "sk-123" });
+    const result = unmaskArguments('{"u":"[[PERSON_1]]","k":"[[API_KEY_SK_1]]"}', [pii, secrets]);
+    expect(JSON.parse(result)).toEqual({ u: "Jane", k: "sk-123" });
+  });
+});
+
+describe("unmaskToolInput", () => {
+  test("restores every string leaf of structured input", () => {
+    const context = contextWith({ "[[PERSON_1]]": "Jane" });
+    expect(unmaskToolInput({ to: ["[[PERSON_1]]"], n: 2 }, [context])).toEqual({
+      to: ["Jane"],
+      n: 2,
+    });
+  });
+});
+
+describe("createToolArgumentsStreamUnmasker", () => {
+  test("buffers partial placeholders per tool call", () => {
+    const context = contextWith({ "[[PERSON_1]]": "Jane", "[[PERSON_2]]": "Bob" });
+    const unmasker = createToolArgumentsStreamUnmasker([context]);
+
+    const first = unmasker.push(0, '{"a":"[[PER');
+    const second = unmasker.push(1, '{"b":"[[PERSON_2');
+    expect(unmasker.pendingKeys().sort()).toEqual([0, 1]);
+
+    const rest0 = unmasker.push(0, 'SON_1]]"}');
+    const rest1 = unmasker.push(1, ']]"}');
+
+    expect(first + rest0).toBe('{"a":"Jane"}');
+    expect(second + rest1).toBe('{"b":"Bob"}');
+    expect(unmasker.pendingKeys()).toEqual([]);
+  });
+
+  test("escapes restored values for JSON strings", () => {
+    const context = contextWith({ "[[PERSON_1]]": 'Jane "J"\nDoe' });
+    const unmasker = createToolArgumentsStreamUnmasker([context]);
+    const output = unmasker.push(0, '{"a":"[[PERSON_1]]"}') + unmasker.flush(0);
+    expect(JSON.parse(output)).toEqual({ a: 'Jane "J"\nDoe' });
+  });
+
+  test("flush returns buffered text that never completed a placeholder", () => {
+    const unmasker = createToolArgumentsStreamUnmasker([createPlaceholderContext()]);
+    const output = unmasker.push(0, '{"m":[[1');
+    expect(output + unmasker.flush(0)).toBe('{"m":[[1');
+    expect(unmasker.flush(0)).toBe("");
+  });
+});
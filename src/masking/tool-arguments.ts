@@ -0,0 +1,172 @@
+/**
+ * Tool call argument utilities
+ *
+ * Tool calls carry structured JSON (OpenAI `tool_calls[].function.arguments`,
+ * Anthropic `tool_use.input`). Only the string leaves of that JSON can contain
+ * free text, so masking works leaf by leaf: extractors emit one span per leaf
+ * (nestedPartIndex = leaf ordinal) and write masked leaves back in place, which
+ * keeps the JSON valid after placeholder substitution.
+ */
+
+import {
+  flushBuffer,
+  type PlaceholderContext,
+  processStreamChunk,
+  restorePlaceholders,
+} from "./context";
+
+/**
+ * Collects string leaves of a JSON value in depth-first order
+ */
+export function collectStringLeaves(value: unknown): string[] {
+  const leaves: string[] = [];
+  mapStringLeaves(value, (leaf) => {
+    leaves.push(leaf);
+    return leaf;
+  });
+  return leaves;
+}
+
+/**
+ * Returns a copy of a JSON value with every string leaf passed through `fn`
+ *
+ * `fn` receives the leaf and its ordinal, in the same order as collectStringLeaves.
+ */
+export function mapStringLeaves(
+  value: unknown,
+  fn: (leaf: string, index: number) => string,
+): unknown {
+  let index = 0;
+
+  const walk = (node: unknown): unknown => {
+    if (typeof node === "string") {
+      return fn(node, index++);
+    }
+    if (Array.isArray(node)) {
+      return node.map(walk);
+    }
+    if (node !== null && typeof node === "object") {
+      const result: Record<string, unknown> = {};
+      for (const [key, child] of Object.entries(node)) {
+        result[key] = walk(child);
+      }
+      return result;
+    }
+    return node;
+  };
+
+  return walk(value);
+}
+
+/**
+ * Returns a copy of a JSON value with selected string leaves replaced
+ *
+ * @param replacements - Maps leaf ordinal -> replacement text
+ */
+export function replaceStringLeaves(value: unknown, replacements: Map<number, string>): unknown {
+  if (replacements.size === 0) return value;
+  return mapStringLeaves(value, (leaf, index) => replacements.get(index) ?? leaf);
+}
+
+/**
+ * Parses a JSON-encoded arguments string, returning undefined if it is not valid JSON
+ */
+export function parseArguments(args: string): { value: unknown } | undefined {
+  try {
+    return { value: JSON.parse(args) };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Escapes a value for insertion inside a JSON string literal (without surrounding quotes)
+ */
+export function escapeJsonString(value: string): string {
+  return JSON.stringify(value).slice(1, -1);
+}
+
+/**
+ * Restores placeholders in a JSON-encoded arguments string
+ *
+ * Valid JSON is restored leaf by leaf and re-serialized so restored values are
+ * escaped correctly. Anything else is restored as plain text.
+ */
+export function unmaskArguments(args: string, contexts: PlaceholderContext[]): string {
+  const restore = (text: string) =>
+    contexts.reduce((result, ctx) => restorePlaceholders(result, ctx), text);
+
+  // Leave arguments byte-for-byte untouched when there is nothing to restore
+  if (restore(args) === args) return args;
+
+  const parsed = parseArguments(args);
+  if (!parsed) return restore(args);
+  return JSON.stringify(mapStringLeaves(parsed.value, restore));
+}
+
+/**
+ * Restores placeholders in every string leaf of a structured tool input
+ */
+export function unmaskToolInput<T>(input: T, contexts: PlaceholderContext[]): T {
+  return mapStringLeaves(input, (leaf) =>
+    contexts.reduce((result, ctx) => restorePlaceholders(result, ctx), leaf),
+  ) as T;
+}
+
+/**
+ * Streaming unmasker for tool call argument fragments
+ *
+ * Arguments stream as raw JSON text, so placeholders are restored as text with
+ * JSON string escaping applied to the original value. Each tool call (keyed by
+ * its index in the stream) keeps its own buffers for partial placeholders.
+ */
+export interface ToolArgumentsStreamUnmasker {
+  /** Processes a fragment, returning the text that is safe to emit */
+  push(key: number, fragment: string): string;
+  /** Flushes the buffered text for a tool call */
+  flush(key: number): string;
+  /** Keys of tool calls that still have buffered text */
+  pendingKeys(): number[];
+}
+
+export function createToolArgumentsStreamUnmasker(
+  contexts: PlaceholderContext[],
+): ToolArgumentsStreamUnmasker {
+  const restore = (text: string, ctx: PlaceholderContext) =>
+    restorePlaceholders(text, ctx, escapeJsonString);
+  // buffers[key][contextIndex]
+  const buffers = new Map<number, string[]>();
+
+  return {
+    push(key, fragment) {
+      const keyBuffers = buffers.get(key) ?? contexts.map(() => "");
+      let output = fragment;
+      for (let i = 0; i < contexts.length; i++) {
+        if (!output && !keyBuffers[i]) continue;
+        const result = processStreamChunk(keyBuffers[i], output, contexts[i], restore);
+        keyBuffers[i] = result.remainingBuffer;
+        output = result.output;
+      }
+      buffers.set(key, keyBuffers);
+      return output;
+    },
+
+    flush(key) {
+      const keyBuffers = buffers.get(key);
+      if (!keyBuffers) return "";
+      buffers.delete(key);
+      let output = "";
+      for (let i = 0; i < contexts.length; i++) {
+        // Text buffered by an earlier context is newer than this context's buffer
+        output = flushBuffer(keyBuffers[i] + output, contexts[i], restore);
+      }
+      return output;
+    },
+
+    pendingKeys() {
+      return [...buffers.entries()]
+        .filter(([, keyBuffers]) => keyBuffers.some(Boolean))
+        .map(([key]) => key);
+    },
+  };
+}
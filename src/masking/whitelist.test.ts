@@ -0,0 +1,71 @@
+import { describe, expect, test } from "bun:test";
+import { globToRegExpSource, isWhitelisted, type WhitelistEntry } from "./whitelist";
+
+describe("isWhitelisted", () => {
+  test("plain strings match substrings in both directions", () => {
+    const whitelist: WhitelistEntry[] = ["Acme Corp"];
+
+    expect(isWhitelisted("Acme", "ORGANIZATION", whitelist)).toBe(true);
+    expect(isWhitelisted("Acme Corp Berlin", "LOCATION", whitelist)).toBe(true);
+    expect(isWhitelisted("Globex", "ORGANIZATION", whitelist)).toBe(false);
+  });
+
+  test("plain strings never suppress secrets", () => {
+    const secret = "sk-proj-abc123key";
+
+    expect(isWhitelisted(secret, "API_KEY_SK", ["key", "sk", secret], "user", "secret")).toBe(
+      false,
+    );
+    expect(isWhitelisted(secret, "API_KEY_SK", [{ pattern: secret }], "user", "secret")).toBe(true);
+  });
+
+  test("structured entries match the whole detected text", () => {
+    const whitelist: WhitelistEntry[] = [{ pattern: "Acme" }];
+
+    expect(isWhitelisted("Acme", "PERSON", whitelist)).toBe(true);
+    expect(isWhitelisted("Acme Smith", "PERSON", whitelist)).toBe(false);
+  });
+
+  test("regex entries must fully match", () => {
+    const whitelist: WhitelistEntry[] = [{ pattern: "ORD-\\d{6}", regex: true }];
+
+    expect(isWhitelisted("ORD-123456", "CREDIT_CARD", whitelist)).toBe(true);
+    expect(isWhitelisted("ORD-123456-7", "CREDIT_CARD", whitelist)).toBe(false);
+  });
+
+  test("glob entries support * and ?", () => {
+    const whitelist: WhitelistEntry[] = [{ pattern: "*@example.com", glob: true }];
+
+    expect(isWhitelisted("jane@example.com", "EMAIL_ADDRESS", whitelist)).toBe(true);
+    expect(isWhitelisted("jane@example.org", "EMAIL_ADDRESS", whitelist)).toBe(false);
+    expect(isWhitelisted("v1.2", "PHONE_NUMBER", [{ pattern: "v?.?", glob: true }])).toBe(true);
+  });
+
+  test("entity_types scopes an entry to the listed types", () => {
+    const whitelist: WhitelistEntry[] = [{ pattern: "Berlin", entity_types: ["LOCATION"] }];
+
+    expect(isWhitelisted("Berlin", "LOCATION", whitelist)).toBe(true);
+    expect(isWhitelisted("Berlin", "PERSON", whitelist)).toBe(false);
+  });
+
+  test("roles scopes an entry to the listed message roles", () => {
+    const whitelist: WhitelistEntry[] = [{ pattern: "Jane Doe", roles: ["system"] }];
+
+    expect(isWhitelisted("Jane Doe", "PERSON", whitelist, "system")).toBe(true);
+    expect(isWhitelisted("Jane Doe", "PERSON", whitelist, "user")).toBe(false);
+    expect(isWhitelisted("Jane Doe", "PERSON", whitelist)).toBe(false);
+  });
+
+  test("returns false for an empty whitelist", () => {
+    expect(isWhitelisted("anything", "PERSON", [])).toBe(false);
+  });
+});
+
+describe("globToRegExpSource", () => {
+  test("escapes regex characters", () => {
+    const pattern = new RegExp(`^(?:${globToRegExpSource("a.b+(c)*")})$`);
+
+    expect(pattern.test("a.b+(c)xyz")).toBe(true);
+    expect(pattern.test("aXb+(c)")).toBe(false);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Whitelist - detections that are never masked (`masking.whitelist`)
+ *
+ * Entries are either plain strings or structured rules:
+ * - "Acme Corp": legacy form - suppresses any PII entity that contains the
+ *   string or is contained in it, for all entity types and roles
+ * - { pattern, regex?, glob?, entity_types?, roles? }: the detected text must
+ *   equal `pattern` (or fully match it as a regex or glob), optionally only
+ *   for some entity types and message roles
+ *
+ * Structured rules apply to PII entities and secret detections. Plain strings
+ * apply to PII only: as substrings, "key" would suppress every secret that
+ * contains it.
+ */
+
+export interface WhitelistRule {
+  /** Exact text, regex source or glob, matched against the whole detected text */
+  pattern: string;
+  /** Treat `pattern` as a regular expression */
+  regex?: boolean;
+  /** Treat `pattern` as a glob (`*` any characters, `?` one character) */
+  glob?: boolean;
+  /** Only suppress these entity types (PII or secret types); all if omitted */
+  entity_types?: string[];
+  /** Only suppress detections in messages with these roles; all if omitted */
+  roles?: string[];
+}
+
+export type WhitelistEntry = string | WhitelistRule;
+
+/** What a detection is - PII entity or secret */
+export type WhitelistTarget = "pii" | "secret";
+
+interface CompiledRule {
+  matches: (detected: string) => boolean;
+  /** Set for plain strings, which never suppress secrets */
+  piiOnly?: boolean;
+  entityTypes?: Set<string>;
+  roles?: Set<string>;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Converts a glob to an anchored regex source
+ */
+export function globToRegExpSource(glob: string): string {
+  return glob
+    .split(/([*?])/)
+    .map((part) => (part === "*" ? "[\\s\\S]*" : part === "?" ? "[\\s\\S]" : escapeRegExp(part)))
+    .join("");
+}
+
+const globCache = new Map<string, RegExp>();
+
+/**
+ * Whether a glob matches the whole value (compiled globs are cached)
+ */
+export function matchesGlob(glob: string, value: string): boolean {
+  let pattern = globCache.get(glob);
+  if (!pattern) {
+    pattern = new RegExp(`^(?:${globToRegExpSource(glob)})$`);
+    globCache.set(glob, pattern);
+  }
+  return pattern.test(value);
+}
+
+function compileRule(entry: WhitelistEntry): CompiledRule {
+  if (typeof entry === "string") {
+    return {
+      matches: (detected) => entry.includes(detected) || detected.includes(entry),
+      piiOnly: true,
+    };
+  }
+
+  let matches: CompiledRule["matches"];
+  if (entry.regex || entry.glob) {
+    const source = entry.regex ? entry.pattern : globToRegExpSource(entry.pattern);
+    const pattern = new RegExp(`^(?:${source})$`);
+    matches = (detected) => pattern.test(detected);
+  } else {
+    matches = (detected) => detected === entry.pattern;
+  }
+
+  return {
+    matches,
+    entityTypes: entry.entity_types ? new Set(entry.entity_types) : undefined,
+    roles: entry.roles ? new Set(entry.roles) : undefined,
+  };
+}
+
+// Compiled rules, once per config
+const compiledWhitelists = new WeakMap<WhitelistEntry[], CompiledRule[]>();
+
+function compileWhitelist(whitelist: WhitelistEntry[]): CompiledRule[] {
+  let rules = compiledWhitelists.get(whitelist);
+  if (!rules) {
+    rules = whitelist.map(compileRule);
+    compiledWhitelists.set(whitelist, rules);
+  }
+  return rules;
+}
+
+/**
+ * Returns true if a detection is whitelisted
+ *
+ * @param role - Role of the message the text came from; rules scoped to roles
+ *   never match detections without a role (e.g. /api/mask)
+ * @param target - Secrets are only suppressed by structured rules
+ */
+export function isWhitelisted(
+  detected: string,
+  entityType: string,
+  whitelist: WhitelistEntry[],
+  role?: string,
+  target: WhitelistTarget = "pii",
+): boolean {
+  if (whitelist.length === 0) return false;
+
+  return compileWhitelist(whitelist).some(
+    (rule) =>
+      !(rule.piiOnly && target === "secret") &&
+      (!rule.entityTypes || rule.entityTypes.has(entityType)) &&
+      (!rule.roles || (role !== undefined && rule.roles.has(role))) &&
+      rule.matches(detected),
+  );
+}
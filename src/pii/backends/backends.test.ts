@@ -0,0 +1,182 @@
+import { afterEach, describe, expect, mock, test } from "bun:test";
+import { createNerBackend } from "./index";
+
+const originalFetch = globalThis.fetch;
+
+interface CapturedRequest {
+  url: string;
+  body?: Record<string, unknown>;
+  headers: Record<string, string>;
+}
+
+function mockServer(respond: (url: string, body?: Record<string, unknown>) => Response) {
+  const requests: CapturedRequest[] = [];
+  globalThis.fetch = mock(async (url: string | URL | Request, init?: RequestInit) => {
+    const body = init?.body ? JSON.parse(init.body as string) : undefined;
+    requests.push({
+      url: url.toString(),
+      body,
+      headers: (init?.headers ?? {}) as Record<string, string>,
+    });
+    return respond(url.toString(), body);
+  }) as unknown as typeof fetch;
+  return requests;
+}
+
+function json(value: unknown, status = 200) {
+  return new Response(JSON.stringify(value), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+describe("presidio backend", () => {
+  test("posts to /analyze and returns Presidio entities", async () => {
+    const requests = mockServer(() =>
+      json([{ entity_type: "PERSON", start: 0, end: 4, score: 0.9 }]),
+    );
+    const backend = createNerBackend({ type: "presidio", url: "http://presidio:5002/" });
+
+    const entities = await backend.analyze("John here", "de", ["PERSON"], 0.7);
+
+    expect(entities).toEqual([{ entity_type: "PERSON", start: 0, end: 4, score: 0.9 }]);
+    expect(requests[0].url).toBe("http://presidio:5002/analyze");
+    expect(requests[0].body).toEqual({
+      text: "John here",
+      language: "de",
+      entities: ["PERSON"],
+      score_threshold: 0.7,
+    });
+  });
+
+  test("reports connection failures with the backend name and URL", async () => {
+    globalThis.fetch = mock(async () => {
+      throw new Error("Connection refused");
+    }) as unknown as typeof fetch;
+    const backend = createNerBackend({ type: "presidio", url: "http://presidio:5002" });
+
+    await expect(backend.analyze("text", "en", ["PERSON"], 0.7)).rejects.toThrow(
+      "Failed to connect to Presidio at http://presidio:5002/analyze",
+    );
+  });
+
+  test("treats 'No matching recognizers' as an unsupported language", async () => {
+    mockServer(() => new Response("No matching recognizers were found", { status: 500 }));
+    const backend = createNerBackend({ type: "presidio", url: "http://presidio:5002" });
+
+    expect(await backend.isLanguageSupported("ja")).toBe(false);
+  });
+});
+
+describe("http backend", () => {
+  test("accepts { entities } responses and drops unrequested or low-score entities", async () => {
+    mockServer(() =>
+      json({
+        entities: [
+          { entity_type: "PERSON", start: 0, end: 4, score: 0.9 },
+          { entity_type: "PERSON", start: 10, end: 14, score: 0.4 },
+          { entity_type: "DATE_TIME", start: 5, end: 9, score: 0.9 },
+        ],
+      }),
+    );
+    const backend = createNerBackend({ type: "http", url: "http://ner:8000" });
+
+    expect(await backend.analyze("John 2024 Jane", "en", ["PERSON"], 0.7)).toEqual([
+      { entity_type: "PERSON", start: 0, end: 4, score: 0.9 },
+    ]);
+  });
+
+  test("accepts a bare array and sends configured headers", async () => {
+    const requests = mockServer(() => json([]));
+    const backend = createNerBackend({
+      type: "http",
+      url: "http://ner:8000",
+      headers: { Authorization: "Bearer token" },
+    });
+
+    expect(await backend.analyze("text", "en", ["PERSON"], 0.7)).toEqual([]);
+    expect(requests[0].headers.Authorization).toBe("Bearer token");
+  });
+
+  test("rejects responses without an entities array", async () => {
+    mockServer(() => json({ result: "ok" }));
+    const backend = createNerBackend({ type: "http", url: "http://ner:8000" });
+
+    await expect(backend.analyze("text", "en", ["PERSON"], 0.7)).rejects.toThrow(
+      "no entities array",
+    );
+  });
+
+  test("reports HTTP errors with the status", async () => {
+    mockServer(() => new Response("model not loaded", { status: 503 }));
+    const backend = createNerBackend({ type: "http", url: "http://ner:8000" });
+
+    await expect(backend.analyze("text", "en", ["PERSON"], 0.7)).rejects.toThrow(
+      "NER server API error: 503",
+    );
+  });
+
+  test("checks /health", async () => {
+    const requests = mockServer(() => new Response("OK"));
+    const backend = createNerBackend({ type: "http", url: "http://ner:8000" });
+
+    expect(await backend.healthCheck()).toBe(true);
+    expect(requests[0].url).toBe("http://ner:8000/health");
+  });
+});
+
+describe("gliner backend", () => {
+  test("sends labels and maps them back to entity types", async () => {
+    const requests = mockServer(() =>
+      json([
+        { start: 0, end: 10, label: "person", score: 0.95, text: "John Smith" },
+        { start: 14, end: 30, label: "Email", score: 0.9, text: "john@example.com" },
+        { start: 35, end: 40, label: "location", score: 0.9, text: "Paris" },
+      ]),
+    );
+    const backend = createNerBackend({ type: "gliner", url: "http://gliner:8080" });
+
+    const entities = await backend.analyze(
+      "John Smith at john@example.com in Paris",
+      "fr",
+      ["PERSON", "EMAIL_ADDRESS"],
+      0.5,
+    );
+
+    expect(requests[0].url).toBe("http://gliner:8080/predict");
+    expect(requests[0].body).toEqual({
+      text: "John Smith at john@example.com in Paris",
+      labels: ["person", "email"],
+      threshold: 0.5,
+    });
+    expect(entities).toEqual([
+      { entity_type: "PERSON", start: 0, end: 10, score: 0.95 },
+      { entity_type: "EMAIL_ADDRESS", start: 14, end: 30, score: 0.9 },
+    ]);
+  });
+
+  test("uses configured labels and derives labels for unknown types", async () => {
+    const requests = mockServer(() =>
+      json({ entities: [{ start: 0, end: 6, label: "customer id", score: 0.8 }] }),
+    );
+    const backend = createNerBackend({
+      type: "gliner",
+      url: "http://gliner:8080",
+      labels: { PERSON: "full name" },
+    });
+
+    const entities = await backend.analyze("C-1234", "en", ["PERSON", "CUSTOMER_ID"], 0.5);
+
+    expect(requests[0].body?.labels).toEqual(["full name", "customer id"]);
+    expect(entities).toEqual([{ entity_type: "CUSTOMER_ID", start: 0, end: 6, score: 0.8 }]);
+  });
+
+  test("supports every language", async () => {
+    const backend = createNerBackend({ type: "gliner", url: "http://gliner:8080" });
+    expect(await backend.isLanguageSupported("ja")).toBe(true);
+  });
+});
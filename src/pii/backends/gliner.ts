@@ -0,0 +1,88 @@
+/**
+ * GLiNER-style model server (PyTorch or ONNX runtime)
+ *
+ * GLiNER is a zero-shot NER model: it takes natural-language labels instead of
+ * fixed entity types and works across languages with one model. The server
+ * wraps `model.predict_entities(text, labels, threshold)`:
+ *
+ * POST {url}/predict
+ *   { "text": "...", "labels": ["person", "email", ...], "threshold": 0.7 }
+ * -> [{ "start": 0, "end": 10, "label": "person", "score": 0.93 }]
+ *    (or { "entities": [...] })
+ *
+ * GET {url}/health -> any 2xx when ready
+ *
+ * Labels map back to PasteGuard entity types; `labels` in the config overrides
+ * the defaults below. Types without a mapping are sent lowercased ("BANK_ACCOUNT"
+ * -> "bank account"). The language is not sent - the model is multilingual.
+ */
+
+import type { PIIEntity } from "../detect";
+import type { NerBackend, NerBackendOptions } from "./types";
+import { checkHealth, postJson, trimUrl } from "./utils";
+
+export const DEFAULT_GLINER_LABELS: Record<string, string> = {
+  PERSON: "person",
+  EMAIL_ADDRESS: "email",
+  PHONE_NUMBER: "phone number",
+  CREDIT_CARD: "credit card number",
+  IBAN_CODE: "iban",
+  IP_ADDRESS: "ip address",
+  LOCATION: "location",
+  ORGANIZATION: "organization",
+  DATE_TIME: "date",
+  URL: "url",
+};
+
+interface GlinerEntity {
+  start: number;
+  end: number;
+  label: string;
+  score: number;
+}
+
+export function createGlinerBackend(options: NerBackendOptions): NerBackend {
+  const url = trimUrl(options.url);
+  const headers = options.headers ?? {};
+  const labelFor = (type: string) =>
+    options.labels?.[type] ?? DEFAULT_GLINER_LABELS[type] ?? type.toLowerCase().replace(/_/g, " ");
+
+  return {
+    name: "GLiNER",
+    url,
+
+    async analyze(text, _language, entities, scoreThreshold) {
+      const typeByLabel = new Map(entities.map((type) => [labelFor(type).toLowerCase(), type]));
+      const body = await postJson(
+        "GLiNER",
+        `${url}/predict`,
+        { text, labels: entities.map(labelFor), threshold: scoreThreshold },
+        { timeoutMs: options.timeout_ms, headers },
+      );
+
+      const list = Array.isArray(body) ? body : (body as { entities?: unknown })?.entities;
+      if (!Array.isArray(list)) {
+        throw new Error("GLiNER response has no entities array");
+      }
+
+      const result: PIIEntity[] = [];
+      for (const entity of list as GlinerEntity[]) {
+        const type = typeByLabel.get(entity.label.toLowerCase());
+        if (type && entity.score >= scoreThreshold) {
+          result.push({
+            entity_type: type,
+            start: entity.start,
+            end: entity.end,
+            score: entity.score,
+          });
+        }
+      }
+      return result;
+    },
+
+    healthCheck: () => checkHealth(`${url}/health`, headers),
+
+    // Multilingual model - no per-language support to check
+    isLanguageSupported: async () => true,
+  };
+}
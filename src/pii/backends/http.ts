@@ -0,0 +1,66 @@
+/**
+ * Generic HTTP NER contract - for any model server that implements it
+ *
+ * POST {url}/analyze
+ *   { "text": "...", "language": "en", "entities": ["PERSON", ...], "score_threshold": 0.7 }
+ * -> { "entities": [{ "entity_type": "PERSON", "start": 0, "end": 10, "score": 0.93 }] }
+ *    (a bare array of entities is accepted too)
+ *
+ * GET {url}/health -> any 2xx when ready
+ *
+ * Offsets index into `text` as given. Servers should return only the requested
+ * entity types; anything else, or below the threshold, is dropped here as well.
+ * Unsupported languages are answered with a 4xx on /analyze.
+ */
+
+import { HEALTH_CHECK_TIMEOUT_MS } from "../../constants/timeouts";
+import type { PIIEntity } from "../detect";
+import type { NerBackend, NerBackendOptions } from "./types";
+import { checkHealth, postJson, trimUrl } from "./utils";
+
+function parseEntities(body: unknown): PIIEntity[] {
+  const list = Array.isArray(body) ? body : (body as { entities?: unknown })?.entities;
+  if (!Array.isArray(list)) {
+    throw new Error("NER server response has no entities array");
+  }
+  return list as PIIEntity[];
+}
+
+export function createHttpBackend(options: NerBackendOptions): NerBackend {
+  const url = trimUrl(options.url);
+  const headers = options.headers ?? {};
+
+  return {
+    name: "NER server",
+    url,
+
+    async analyze(text, language, entities, scoreThreshold) {
+      const body = await postJson(
+        "NER server",
+        `${url}/analyze`,
+        { text, language, entities, score_threshold: scoreThreshold },
+        { timeoutMs: options.timeout_ms, headers },
+      );
+      const wanted = new Set(entities);
+      return parseEntities(body).filter(
+        (entity) => wanted.has(entity.entity_type) && entity.score >= scoreThreshold,
+      );
+    },
+
+    healthCheck: () => checkHealth(`${url}/health`, headers),
+
+    async isLanguageSupported(language) {
+      try {
+        const response = await fetch(`${url}/analyze`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...headers },
+          body: JSON.stringify({ text: "test", language, entities: ["PERSON"] }),
+          signal: AbortSignal.timeout(HEALTH_CHECK_TIMEOUT_MS),
+        });
+        return response.ok;
+      } catch {
+        return false;
+      }
+    },
+  };
+}
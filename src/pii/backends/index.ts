@@ -0,0 +1,26 @@
+import { createGlinerBackend } from "./gliner";
+import { createHttpBackend } from "./http";
+import { createPresidioBackend } from "./presidio";
+import type { NerBackend, NerBackendOptions, NerBackendType } from "./types";
+
+/**
+ * Registry of NER backend adapters
+ *
+ * New model servers can be supported by adding an adapter here.
+ */
+const backendFactories: Record<NerBackendType, (options: NerBackendOptions) => NerBackend> = {
+  presidio: createPresidioBackend,
+  http: createHttpBackend,
+  gliner: createGlinerBackend,
+};
+
+/**
+ * Creates the adapter for a configured backend (`pii_detection.backend`)
+ */
+export function createNerBackend(options: NerBackendOptions): NerBackend {
+  return backendFactories[options.type](options);
+}
+
+export { DEFAULT_GLINER_LABELS } from "./gliner";
+export type { NerBackend, NerBackendOptions, NerBackendType } from "./types";
+export { NER_BACKENDS } from "./types";
@@ -0,0 +1,54 @@
+/**
+ * Microsoft Presidio analyzer (default backend)
+ *
+ * POST /analyze with { text, language, entities, score_threshold },
+ * returns [{ entity_type, start, end, score }].
+ */
+
+import { HEALTH_CHECK_TIMEOUT_MS } from "../../constants/timeouts";
+import type { PIIEntity } from "../detect";
+import type { NerBackend, NerBackendOptions } from "./types";
+import { checkHealth, postJson, trimUrl } from "./utils";
+
+export function createPresidioBackend(options: NerBackendOptions): NerBackend {
+  const url = trimUrl(options.url);
+  const headers = options.headers ?? {};
+
+  return {
+    name: "Presidio",
+    url,
+
+    async analyze(text, language, entities, scoreThreshold) {
+      return (await postJson(
+        "Presidio",
+        `${url}/analyze`,
+        { text, language, entities, score_threshold: scoreThreshold },
+        { timeoutMs: options.timeout_ms, headers },
+      )) as PIIEntity[];
+    },
+
+    healthCheck: () => checkHealth(`${url}/health`, headers),
+
+    async isLanguageSupported(language) {
+      try {
+        const response = await fetch(`${url}/analyze`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...headers },
+          body: JSON.stringify({ text: "test", language, entities: ["PERSON"] }),
+          signal: AbortSignal.timeout(HEALTH_CHECK_TIMEOUT_MS),
+        });
+
+        // If we get a response (even empty array), the language is supported
+        // If we get an error like "No matching recognizers", it's not supported
+        if (response.ok) {
+          return true;
+        }
+
+        const errorText = await response.text();
+        return !errorText.includes("No matching recognizers");
+      } catch {
+        return false;
+      }
+    },
+  };
+}
@@ -0,0 +1,49 @@
+import type { PIIEntity } from "../detect";
+
+/**
+ * Supported NER backends (`pii_detection.backend.type`)
+ */
+export const NER_BACKENDS = ["presidio", "http", "gliner"] as const;
+
+export type NerBackendType = (typeof NER_BACKENDS)[number];
+
+export interface NerBackendOptions {
+  type: NerBackendType;
+  /** Base URL of the model server */
+  url: string;
+  /** Timeout for analyze calls */
+  timeout_ms?: number;
+  /** Extra request headers, e.g. Authorization for a hosted server */
+  headers?: Record<string, string>;
+  /** GLiNER only: entity type -> label sent to the model, overriding the defaults */
+  labels?: Record<string, string>;
+}
+
+/**
+ * Interface for NER backend adapters
+ *
+ * A backend turns text into PII entities with offsets into that text.
+ * Caching, deny lists, whitelisting and validation happen in PIIDetector,
+ * so adapters only translate between PasteGuard and the model server.
+ */
+export interface NerBackend {
+  /** Name for log messages, e.g. "Presidio" */
+  readonly name: string;
+
+  /** Base URL, for log messages */
+  readonly url: string;
+
+  /** Detect entities of the given types with at least the given score */
+  analyze(
+    text: string,
+    language: string,
+    entities: string[],
+    scoreThreshold: number,
+  ): Promise<PIIEntity[]>;
+
+  /** True if the server is reachable */
+  healthCheck(): Promise<boolean>;
+
+  /** True if the backend can analyze text in a language (checked at startup) */
+  isLanguageSupported(language: string): Promise<boolean>;
+}
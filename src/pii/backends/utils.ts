@@ -0,0 +1,66 @@
+import { HEALTH_CHECK_TIMEOUT_MS } from "../../constants/timeouts";
+
+/** Default timeout for analyze calls */
+export const DEFAULT_ANALYZE_TIMEOUT_MS = 30_000;
+
+/**
+ * POSTs JSON to a model server and returns the parsed response
+ *
+ * Connection failures are rethrown as "Failed to connect to <name> at <url>",
+ * HTTP errors as "<name> API error: <status> ...".
+ */
+export async function postJson(
+  name: string,
+  url: string,
+  body: unknown,
+  options: { timeoutMs?: number; headers?: Record<string, string> } = {},
+): Promise<unknown> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...options.headers,
+      },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_ANALYZE_TIMEOUT_MS),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to connect to ${name} at ${url}: ${message}`);
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`${name} API error: ${response.status} ${response.statusText} - ${errorText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * GETs a health endpoint; true on any 2xx response
+ */
+export async function checkHealth(
+  url: string,
+  headers: Record<string, string> = {},
+): Promise<boolean> {
+  try {
+    const response = await fetch(url, {
+      method: "GET",
+      headers,
+      signal: AbortSignal.timeout(HEALTH_CHECK_TIMEOUT_MS),
+    });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Removes a trailing slash so paths can be appended
+ */
+export function trimUrl(url: string): string {
+  return url.replace(/\/+$/, "");
+}
@@ -0,0 +1,160 @@
+import { describe, expect, test } from "bun:test";
+import {
+  analyzeInBatches,
+  BATCH_SEPARATOR,
+  mapWithConcurrency,
+  planBatches,
+  splitBatchEntities,
+  toUtf16Offsets,
+} from "./batch";
+import type { PIIEntity } from "./detect";
+
+/** Analyzer that finds "Anna" and reports code-point offsets like the Python backends */
+async function findAnna(text: string): Promise<PIIEntity[]> {
+  return [...text.matchAll(/Anna/g)].map((match) => {
+    const start = [...text.slice(0, match.index)].length;
+    return { entity_type: "PERSON", start, end: start + 4, score: 0.9 };
+  });
+}
+
+describe("planBatches", () => {
+  test("joins texts with the separator up to the size budget", () => {
+    const batches = planBatches(["aaaa", "bbbb", "cccc"], 11, "|");
+
+    expect(batches).toEqual([
+      {
+        text: "aaaa|bbbb",
+        parts: [
+          { index: 0, offset: 0, length: 4 },
+          { index: 1, offset: 5, length: 4 },
+        ],
+      },
+      { text: "cccc", parts: [{ index: 2, offset: 0, length: 4 }] },
+    ]);
+  });
+
+  test("sends texts over the budget on their own", () => {
+    const batches = planBatches(["a", "x".repeat(50), "b"], 10, "|");
+
+    expect(batches.map((batch) => batch.parts.map((part) => part.index))).toEqual([[0], [1], [2]]);
+  });
+
+  test("puts every text in its own batch with a zero budget", () => {
+    expect(planBatches(["a", "b"], 0)).toHaveLength(2);
+  });
+});
+
+describe("splitBatchEntities", () => {
+  const [batch] = planBatches(["John here", "call 555-1234"], 1000, "|");
+
+  test("maps offsets back to the part the entity starts in", () => {
+    const result = splitBatchEntities(batch, [
+      { entity_type: "PERSON", start: 0, end: 4, score: 0.9 },
+      { entity_type: "PHONE_NUMBER", start: 15, end: 23, score: 0.8 },
+    ]);
+
+    expect(result).toEqual([
+      [{ entity_type: "PERSON", start: 0, end: 4, score: 0.9 }],
+      [{ entity_type: "PHONE_NUMBER", start: 5, end: 13, score: 0.8 }],
+    ]);
+  });
+
+  test("clips entities at the end of their part and drops separator hits", () => {
+    const result = splitBatchEntities(batch, [
+      { entity_type: "LOCATION", start: 5, end: 14, score: 0.9 },
+      { entity_type: "PERSON", start: 9, end: 10, score: 0.9 },
+    ]);
+
+    expect(result).toEqual([[{ entity_type: "LOCATION", start: 5, end: 9, score: 0.9 }], []]);
+  });
+});
+
+describe("toUtf16Offsets", () => {
+  test("shifts offsets after surrogate pairs", () => {
+    const entities = [{ entity_type: "PERSON", start: 3, end: 7, score: 0.9 }];
+
+    expect(toUtf16Offsets("🎉🎉 Anna", entities)).toEqual([
+      { entity_type: "PERSON", start: 5, end: 9, score: 0.9 },
+    ]);
+  });
+
+  test("keeps offsets of text without surrogate pairs", () => {
+    const entities = [{ entity_type: "PERSON", start: 4, end: 8, score: 0.9 }];
+
+    expect(toUtf16Offsets("Hé, Anna", entities)).toBe(entities);
+  });
+});
+
+describe("mapWithConcurrency", () => {
+  test("keeps input order and never exceeds the limit", async () => {
+    let active = 0;
+    let peak = 0;
+
+    const results = await mapWithConcurrency([30, 10, 20, 0, 5], 2, async (ms, i) => {
+      active++;
+      peak = Math.max(peak, active);
+      await Bun.sleep(ms);
+      active--;
+      return i;
+    });
+
+    expect(results).toEqual([0, 1, 2, 3, 4]);
+    expect(peak).toBe(2);
+  });
+});
+
+describe("analyzeInBatches", () => {
+  test("returns entities per text from one call per batch", async () => {
+    const calls: string[] = [];
+    const texts = ["Hi Anna", "nothing", "Bye Anna"];
+
+    const result = await analyzeInBatches(
+      texts,
+      { enabled: true, max_chars: 1000, concurrency: 4 },
+      async (text) => {
+        calls.push(text);
+        return [...text.matchAll(/Anna/g)].map((match) => ({
+          entity_type: "PERSON",
+          start: match.index ?? 0,
+          end: (match.index ?? 0) + 4,
+          score: 0.9,
+        }));
+      },
+    );
+
+    expect(calls).toEqual([texts.join(BATCH_SEPARATOR)]);
+    expect(result).toEqual([
+      [{ entity_type: "PERSON", start: 3, end: 7, score: 0.9 }],
+      [],
+      [{ entity_type: "PERSON", start: 4, end: 8, score: 0.9 }],
+    ]);
+  });
+
+  test("maps code-point offsets after an emoji in an earlier text", async () => {
+    const texts = ["Party 🎉🎉", "Hi Anna"];
+
+    const result = await analyzeInBatches(
+      texts,
+      { enabled: true, max_chars: 1000, concurrency: 4 },
+      findAnna,
+    );
+
+    expect(result).toEqual([[], [{ entity_type: "PERSON", start: 3, end: 7, score: 0.9 }]]);
+    expect(texts[1].slice(result[1][0].start, result[1][0].end)).toBe("Anna");
+  });
+
+  test("analyzes each text on its own when disabled", async () => {
+    const calls: string[] = [];
+
+    await analyzeInBatches(
+      ["a", "b", "c"],
+      { enabled: false, max_chars: 1000, concurrency: 2 },
+      async (text) => {
+        calls.push(text);
+        return [];
+      },
+    );
+
+    expect(calls.sort()).toEqual(["a", "b", "c"]);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Batching of NER backend calls (`pii_detection.batch`)
+ *
+ * Agent conversations carry hundreds of spans (tool results, file reads). One
+ * backend call per span floods Presidio with concurrent requests, so spans are
+ * joined with a separator into batches of up to `max_chars`, each batch is sent
+ * as one call, and entity offsets are mapped back to the span they fall into.
+ * At most `concurrency` batches are in flight per request. Spans longer than
+ * the budget are sent on their own.
+ *
+ * The backends are Python services and report offsets in code points, while
+ * JavaScript strings index UTF-16 code units. Offsets are converted on the
+ * whole batch before splitting, otherwise an emoji in one span would shift
+ * every entity in the spans after it.
+ */
+
+import type { PIIEntity } from "./detect";
+
+/**
+ * Placed between spans in a batch. Blank lines end sentences for the NER model
+ * and the hashes stop regex recognizers (phone numbers, addresses) from
+ * matching across two spans.
+ */
+export const BATCH_SEPARATOR = "\n\n#####\n\n";
+
+export interface BatchOptions {
+  enabled: boolean;
+  max_chars: number;
+  concurrency: number;
+}
+
+export const DEFAULT_BATCH_OPTIONS: BatchOptions = {
+  enabled: true,
+  max_chars: 20_000,
+  concurrency: 4,
+};
+
+export interface BatchPart {
+  /** Index of the text in the input list */
+  index: number;
+  /** Start of the text within the batch */
+  offset: number;
+  length: number;
+}
+
+export interface Batch {
+  text: string;
+  parts: BatchPart[];
+}
+
+/**
+ * Packs texts into batches of at most `maxChars` (separators included), in order
+ */
+export function planBatches(
+  texts: string[],
+  maxChars: number,
+  separator = BATCH_SEPARATOR,
+): Batch[] {
+  const batches: Batch[] = [];
+  let chunks: string[] = [];
+  let parts: BatchPart[] = [];
+  let length = 0;
+
+  const flush = () => {
+    if (parts.length === 0) return;
+    batches.push({ text: chunks.join(separator), parts });
+    chunks = [];
+    parts = [];
+    length = 0;
+  };
+
+  texts.forEach((text, index) => {
+    const offset = parts.length === 0 ? 0 : length + separator.length;
+    if (parts.length > 0 && offset + text.length > maxChars) {
+      flush();
+      chunks.push(text);
+      parts.push({ index, offset: 0, length: text.length });
+      length = text.length;
+      return;
+    }
+    chunks.push(text);
+    parts.push({ index, offset, length: text.length });
+    length = offset + text.length;
+  });
+  flush();
+
+  return batches;
+}
+
+/**
+ * Converts code-point offsets to UTF-16 string indices
+ *
+ * Returns the entities unchanged if the text has no surrogate pairs.
+ */
+export function toUtf16Offsets(text: string, entities: PIIEntity[]): PIIEntity[] {
+  if (entities.length === 0 || !/[\uD800-\uDBFF][\uDC00-\uDFFF]/.test(text)) return entities;
+
+  // UTF-16 index of every code point, plus the end of the text
+  const indexes: number[] = [];
+  let index = 0;
+  for (const char of text) {
+    indexes.push(index);
+    index += char.length;
+  }
+  indexes.push(index);
+
+  return entities.map((entity) => ({
+    ...entity,
+    start: indexes[entity.start] ?? text.length,
+    end: indexes[entity.end] ?? text.length,
+  }));
+}
+
+/**
+ * Maps entities found in a batch back to its parts, with part-relative offsets
+ *
+ * Entities are assigned to the part they start in and clipped at its end;
+ * anything starting inside a separator is dropped.
+ */
+export function splitBatchEntities(batch: Batch, entities: PIIEntity[]): PIIEntity[][] {
+  const result: PIIEntity[][] = batch.parts.map(() => []);
+
+  for (const entity of entities) {
+    const i = findPart(batch.parts, entity.start);
+    if (i < 0) continue;
+    const part = batch.parts[i];
+    const end = Math.min(entity.end, part.offset + part.length);
+    if (end <= entity.start) continue;
+    result[i].push({ ...entity, start: entity.start - part.offset, end: end - part.offset });
+  }
+
+  return result;
+}
+
+function findPart(parts: BatchPart[], position: number): number {
+  let low = 0;
+  let high = parts.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    const part = parts[mid];
+    if (position < part.offset) {
+      high = mid - 1;
+    } else if (position >= part.offset + part.length) {
+      low = mid + 1;
+    } else {
+      return mid;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Runs `fn` over all items with at most `limit` calls in flight, results in input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker));
+  return results;
+}
+
+/**
+ * Analyzes texts in batches and returns the entities of each text, in input order
+ *
+ * With batching disabled, every text is analyzed on its own (still bounded by
+ * `concurrency`).
+ */
+export async function analyzeInBatches(
+  texts: string[],
+  options: BatchOptions,
+  analyze: (text: string) => Promise<PIIEntity[]>,
+): Promise<PIIEntity[][]> {
+  const batches = planBatches(texts, options.enabled ? options.max_chars : 0);
+  const results: PIIEntity[][] = texts.map(() => []);
+
+  await mapWithConcurrency(batches, options.concurrency, async (batch) => {
+    const entities = toUtf16Offsets(batch.text, await analyze(batch.text));
+    const perPart = splitBatchEntities(batch, entities);
+    batch.parts.forEach((part, i) => {
+      results[part.index] = perPart[i];
+    });
+  });
+
+  return results;
+}
@@ -0,0 +1,89 @@
+import { describe, expect, test } from "bun:test";
+import { detectBuiltinPII } from "./builtin";
+
+const ALL_TYPES = [
+  "PERSON",
+  "EMAIL_ADDRESS",
+  "PHONE_NUMBER",
+  "CREDIT_CARD",
+  "IBAN_CODE",
+  "IP_ADDRESS",
+  "LOCATION",
+];
+
+function detect(text: string, threshold = 0.7) {
+  return detectBuiltinPII(text, ALL_TYPES, threshold).map((e) => ({
+    type: e.entity_type,
+    value: text.slice(e.start, e.end),
+  }));
+}
+
+describe("detectBuiltinPII", () => {
+  test("detects email addresses", () => {
+    expect(detect("Contact john.doe+test@example.co.uk today")).toEqual([
+      { type: "EMAIL_ADDRESS", value: "john.doe+test@example.co.uk" },
+    ]);
+  });
+
+  test("detects phone numbers", () => {
+    expect(detect("Call +49 30 1234 5678 or 555-123-4567")).toEqual([
+      { type: "PHONE_NUMBER", value: "+49 30 1234 5678" },
+      { type: "PHONE_NUMBER", value: "555-123-4567" },
+    ]);
+  });
+
+  test("ignores dates and version strings", () => {
+    expect(detect("Released 2024-01-15 as version 1.2.3")).toEqual([]);
+  });
+
+  test("detects credit cards with a valid Luhn check digit", () => {
+    expect(detect("Card: 4111 1111 1111 1111")).toEqual([
+      { type: "CREDIT_CARD", value: "4111 1111 1111 1111" },
+    ]);
+    expect(detect("Order 4111 1111 1111 1112").map((e) => e.type)).not.toContain("CREDIT_CARD");
+  });
+
+  test("detects IBANs and stops before a following uppercase word", () => {
+    expect(detect("IBAN DE89 3704 0044 0532 0130 00 ABCD please")).toEqual([
+      { type: "IBAN_CODE", value: "DE89 3704 0044 0532 0130 00" },
+    ]);
+    expect(detect("GB29NWBK60161331926819")).toEqual([
+      { type: "IBAN_CODE", value: "GB29NWBK60161331926819" },
+    ]);
+  });
+
+  test("rejects IBANs with wrong check digits", () => {
+    expect(detect("DE00 3704 0044 0532 0130 00").map((e) => e.type)).not.toContain("IBAN_CODE");
+  });
+
+  test("detects IPv4 and IPv6 addresses", () => {
+    expect(detect("Server 192.168.1.100 and 2001:db8::8a2e:370:7334")).toEqual([
+      { type: "IP_ADDRESS", value: "192.168.1.100" },
+      { type: "IP_ADDRESS", value: "2001:db8::8a2e:370:7334" },
+    ]);
+    expect(detect("Invalid 999.1.1.1 and 12:30:45")).toEqual([]);
+  });
+
+  test("detects names after a title", () => {
+    expect(detect("Please ask Dr. Müller-Lüdenscheidt and Frau Schmidt")).toEqual([
+      { type: "PERSON", value: "Müller-Lüdenscheidt" },
+      { type: "PERSON", value: "Schmidt" },
+    ]);
+  });
+
+  test("detects known first names followed by a surname", () => {
+    expect(detect("Dear John Smith, thanks")).toEqual([{ type: "PERSON", value: "John Smith" }]);
+  });
+
+  test("scores a first name alone below the default threshold", () => {
+    expect(detect("Mark as read")).toEqual([]);
+    expect(detect("Mark as read", 0.5)).toEqual([{ type: "PERSON", value: "Mark" }]);
+  });
+
+  test("only reports enabled entity types", () => {
+    const text = "John Smith, john@example.com";
+    expect(detectBuiltinPII(text, ["EMAIL_ADDRESS"], 0.7).map((e) => e.entity_type)).toEqual([
+      "EMAIL_ADDRESS",
+    ]);
+  });
+});
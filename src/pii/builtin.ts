@@ -0,0 +1,172 @@
+/**
+ * Built-in PII detector - regex and checksum based, no Presidio required
+ *
+ * Used by `pii_detection.engine: builtin`, and as the fallback of
+ * `presidio_with_fallback` while Presidio is unreachable. Covers the
+ * structured entities reliably and names only partially:
+ *
+ * - EMAIL_ADDRESS: address syntax
+ * - PHONE_NUMBER: digit sequences passing the phone plausibility check
+ * - CREDIT_CARD: 12-19 digits with a valid Luhn check digit
+ * - IBAN_CODE: country code, check digits and BBAN with valid mod-97 check digits
+ * - IP_ADDRESS: IPv4 and IPv6
+ * - PERSON: a title (Mr, Dr, Frau, ...) or a known first name followed by a
+ *   capitalized surname; a known first name alone scores below the default threshold
+ *
+ * LOCATION and other NER-only entities are not detected.
+ */
+
+import { isIP } from "node:net";
+import { resolveConflicts } from "../masking/conflict-resolver";
+import type { PIIEntity } from "./detect";
+import { isPlausiblePhoneNumber, isValidCreditCard, isValidIban } from "./validate";
+
+/** Common first names across the supported languages */
+const FIRST_NAMES = new Set(
+  [
+    // English
+    "James John Robert Michael William David Richard Joseph Thomas Charles Daniel Matthew Mark",
+    "Paul Steven Andrew Peter George Mary Patricia Jennifer Linda Elizabeth Barbara Susan",
+    "Jessica Sarah Karen Emily Emma Olivia Sophia Hannah Laura Rachel Anna",
+    // German
+    "Hans Klaus Jürgen Stefan Andreas Wolfgang Lukas Jonas Sabine Ursula Monika Petra Claudia",
+    "Katrin Julia Lena Anja",
+    // French
+    "Jean Pierre Michel Philippe Nicolas François Julien Antoine Marie Nathalie Isabelle Sophie",
+    "Camille Chloé Céline Amélie",
+    // Spanish, Portuguese, Italian
+    "José Juan Carlos Javier Miguel Alejandro João Pedro Giuseppe Marco Luca Giovanni María",
+    "Carmen Lucía Ana Giulia Francesca",
+    // Dutch, Nordic, Polish
+    "Jan Pieter Sanne Lars Erik Anders Ingrid Astrid Piotr Krzysztof Tomasz Katarzyna Agnieszka",
+    "Małgorzata",
+  ].flatMap((line) => line.split(" ")),
+);
+
+/** Titles that precede a name */
+const TITLES =
+  "Mr|Mrs|Ms|Miss|Dr|Prof|Sir|Madam|Herr|Frau|Monsieur|Madame|Mme|Señor|Señora|Sr|Sra|Signor|Signora|Sig|Dhr|Mevr";
+
+const CAPITALIZED_WORD = "\\p{Lu}[\\p{Ll}'’]+(?:-\\p{Lu}[\\p{Ll}'’]+)?";
+
+const PATTERNS = {
+  EMAIL_ADDRESS:
+    /(?<![\w.%+-])[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}(?![\w-])/g,
+  PHONE_NUMBER: /(?<![\w+])\+?\(?\d[\d().\-/ ]{5,20}\d(?![\w])/g,
+  CREDIT_CARD: /(?<![\d-])\d(?:[ -]?\d){11,18}(?![\d-])/g,
+  IBAN_CODE: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+  IPV4: /(?<![\d.])(?:(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(?![\d.])/g,
+  IPV6: /(?<![\w:])(?:[0-9A-Fa-f]{0,4}:){2,7}[0-9A-Fa-f]{0,4}(?![\w:])/g,
+  TITLED_NAME: new RegExp(
+    `\\b(?:${TITLES})\\.?\\s+(?<name>${CAPITALIZED_WORD}(?:\\s+${CAPITALIZED_WORD})?)`,
+    "gu",
+  ),
+  // The surname is a lookahead so it can still start the next match ("Dear John Smith")
+  NAME: new RegExp(
+    `(?<![\\p{L}])(?<first>${CAPITALIZED_WORD})(?=(?<last>\\s+${CAPITALIZED_WORD})?)`,
+    "gu",
+  ),
+};
+
+const SCORES = {
+  EMAIL_ADDRESS: 1.0,
+  CREDIT_CARD: 1.0,
+  IBAN_CODE: 1.0,
+  IP_ADDRESS: 0.95,
+  PERSON: 0.85,
+  PHONE_NUMBER: 0.75,
+  /** First name without surname or title - ambiguous ("Grace period", "Mark as read") */
+  FIRST_NAME_ONLY: 0.6,
+};
+
+function entity(entity_type: string, start: number, end: number, score: number): PIIEntity {
+  return { entity_type, start, end, score };
+}
+
+/**
+ * Shortens an IBAN candidate by trailing groups until it validates
+ * (the candidate regex may swallow a following uppercase word)
+ */
+function findValidIban(candidate: string): string | undefined {
+  let value = candidate;
+  while (value.replace(/ /g, "").length >= 15) {
+    if (isValidIban(value)) return value;
+    const lastSpace = value.lastIndexOf(" ");
+    if (lastSpace === -1) return undefined;
+    value = value.slice(0, lastSpace);
+  }
+  return undefined;
+}
+
+function detectPersons(text: string): PIIEntity[] {
+  const entities: PIIEntity[] = [];
+
+  for (const match of text.matchAll(PATTERNS.TITLED_NAME)) {
+    const start = match.index + match[0].length - match.groups!.name.length;
+    entities.push(entity("PERSON", start, match.index + match[0].length, SCORES.PERSON));
+  }
+
+  for (const match of text.matchAll(PATTERNS.NAME)) {
+    const { first, last } = match.groups!;
+    if (!FIRST_NAMES.has(first)) continue;
+    const end = match.index + first.length + (last?.length ?? 0);
+    entities.push(
+      entity("PERSON", match.index, end, last ? SCORES.PERSON : SCORES.FIRST_NAME_ONLY),
+    );
+  }
+
+  return entities;
+}
+
+/**
+ * Detects PII without Presidio
+ *
+ * @param entityTypes - Entity types to report (`pii_detection.entities`)
+ * @param scoreThreshold - Minimum score (`pii_detection.score_threshold`)
+ */
+export function detectBuiltinPII(
+  text: string,
+  entityTypes: string[],
+  scoreThreshold: number,
+): PIIEntity[] {
+  const enabled = new Set(entityTypes);
+  const entities: PIIEntity[] = [];
+
+  const collect = (
+    type: Exclude<keyof typeof SCORES, "FIRST_NAME_ONLY">,
+    pattern: RegExp,
+    isValid = (_: string) => true,
+  ) => {
+    for (const match of text.matchAll(pattern)) {
+      if (isValid(match[0])) {
+        entities.push(entity(type, match.index, match.index + match[0].length, SCORES[type]));
+      }
+    }
+  };
+
+  if (enabled.has("EMAIL_ADDRESS")) collect("EMAIL_ADDRESS", PATTERNS.EMAIL_ADDRESS);
+  if (enabled.has("CREDIT_CARD")) collect("CREDIT_CARD", PATTERNS.CREDIT_CARD, isValidCreditCard);
+  if (enabled.has("PHONE_NUMBER")) {
+    collect("PHONE_NUMBER", PATTERNS.PHONE_NUMBER, isPlausiblePhoneNumber);
+  }
+  if (enabled.has("IP_ADDRESS")) {
+    collect("IP_ADDRESS", PATTERNS.IPV4);
+    collect("IP_ADDRESS", PATTERNS.IPV6, (value) => /[0-9A-Fa-f]/.test(value) && isIP(value) === 6);
+  }
+  if (enabled.has("IBAN_CODE")) {
+    for (const match of text.matchAll(PATTERNS.IBAN_CODE)) {
+      const iban = findValidIban(match[0]);
+      if (iban) {
+        entities.push(
+          entity("IBAN_CODE", match.index, match.index + iban.length, SCORES.IBAN_CODE),
+        );
+      }
+    }
+  }
+  if (enabled.has("PERSON")) entities.push(...detectPersons(text));
+
+  // Phone candidates overlap cards, IBANs and IPs - keep the more specific entity
+  return resolveConflicts(entities.filter((e) => e.score >= scoreThreshold)).sort(
+    (a, b) => a.start - b.start,
+  );
+}
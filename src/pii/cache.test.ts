@@ -0,0 +1,121 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+  cacheKey,
+  detectorFingerprint,
+  type PersistentCacheStore,
+  PersistentDetectionCache,
+  PiiDetectionCache,
+  SqliteCacheStore,
+} from "./cache";
+
+const entities = [{ entity_type: "PERSON", start: 0, end: 4, score: 0.9 }];
+
+describe("cacheKey", () => {
+  test("changes with the detector settings, language and text", () => {
+    const fingerprint = detectorFingerprint({ entities: ["PERSON"], scoreThreshold: 0.7 });
+    const key = cacheKey(fingerprint, "John", "en");
+
+    expect(key).toHaveLength(64);
+    expect(cacheKey(fingerprint, "John", "en")).toBe(key);
+    expect(cacheKey(fingerprint, "John", "de")).not.toBe(key);
+    expect(cacheKey(fingerprint, "Jane", "en")).not.toBe(key);
+    expect(
+      cacheKey(detectorFingerprint({ entities: ["PERSON"], scoreThreshold: 0.5 }), "John", "en"),
+    ).not.toBe(key);
+    expect(
+      cacheKey(
+        detectorFingerprint({ entities: ["PERSON"], scoreThreshold: 0.7, whitelist: ["John"] }),
+        "John",
+        "en",
+      ),
+    ).not.toBe(key);
+  });
+});
+
+describe("PiiDetectionCache", () => {
+  test("counts hits and misses", () => {
+    const cache = new PiiDetectionCache();
+    expect(cache.get("k")).toBeUndefined();
+    cache.set("k", entities);
+    expect(cache.get("k")).toEqual(entities);
+
+    expect(cache.getStats()).toMatchObject({ hits: 1, misses: 1, size: 1, hitRate: 50 });
+  });
+
+  test("evicts the least recently used entry beyond the configured size", () => {
+    const cache = new PiiDetectionCache(2, 60);
+    cache.set("a", entities);
+    cache.set("b", entities);
+    cache.get("a");
+    cache.set("c", entities);
+
+    expect(cache.get("b")).toBeUndefined();
+    expect(cache.get("a")).toEqual(entities);
+    expect(cache.getStats()).toMatchObject({ size: 2, maxSize: 2 });
+  });
+});
+
+describe("SqliteCacheStore", () => {
+  let store: SqliteCacheStore;
+
+  afterEach(() => {
+    store.close();
+  });
+
+  test("round-trips values until they expire", async () => {
+    store = new SqliteCacheStore(":memory:", 100);
+    await store.set("fresh", "[1]", 60_000);
+    await store.set("stale", "[2]", 1);
+    await Bun.sleep(5);
+
+    expect(await store.get("fresh")).toBe("[1]");
+    expect(await store.get("stale")).toBeNull();
+    expect(await store.get("missing")).toBeNull();
+  });
+
+  test("drops the oldest entries beyond max_entries", async () => {
+    store = new SqliteCacheStore(":memory:", 2);
+    await store.set("a", "[]", 1000);
+    await store.set("b", "[]", 2000);
+    await store.set("c", "[]", 3000);
+
+    expect(store.cleanup()).toBe(1);
+    expect(await store.get("a")).toBeNull();
+    expect(await store.get("c")).toBe("[]");
+  });
+});
+
+describe("PersistentDetectionCache", () => {
+  test("serializes entities and reports its hit rate", async () => {
+    const cache = new PersistentDetectionCache(
+      "sqlite",
+      new SqliteCacheStore(":memory:", 100),
+      60_000,
+    );
+    await cache.set("k", entities);
+
+    expect(await cache.get("k")).toEqual(entities);
+    expect(await cache.get("other")).toBeUndefined();
+    expect(cache.getStats()).toEqual({
+      type: "sqlite",
+      hits: 1,
+      misses: 1,
+      errors: 0,
+      hitRate: 50,
+    });
+    cache.close();
+  });
+
+  test("treats store errors as misses", async () => {
+    const failing: PersistentCacheStore = {
+      get: () => Promise.reject(new Error("Connection closed")),
+      set: () => Promise.reject(new Error("Connection closed")),
+      close: () => {},
+    };
+    const cache = new PersistentDetectionCache("redis", failing, 60_000);
+
+    await cache.set("k", entities);
+    expect(await cache.get("k")).toBeUndefined();
+    expect(cache.getStats()).toMatchObject({ misses: 1, errors: 2 });
+  });
+});
@@ -0,0 +1,365 @@
+/**
+ * PII detection cache (`pii_detection.cache`)
+ *
+ * Backend results are cached per span so system prompts and earlier turns are
+ * not re-scanned on every request. Two tiers:
+ * 1. an in-memory LRU per process (always on)
+ * 2. optionally a persistent tier shared across restarts and replicas: a SQLite
+ *    file or a Redis-protocol server (Redis, Valkey, Dragonfly)
+ *
+ * Keys are SHA-256 hashes of the detector fingerprint, language and text, so
+ * changing the backend, entities, threshold or whitelist starts a fresh cache
+ * automatically. Only entity types, offsets and scores are stored - never the
+ * text itself.
+ *
+ * Cached results are context-free: a batched backend call sees the neighbouring
+ * spans, but the result is stored under the span's own text and served for it
+ * in any other batch. Batch separators keep the context that reaches a span
+ * small (see pii/batch).
+ */
+
+import { Database } from "bun:sqlite";
+import { createHash } from "node:crypto";
+import { mkdirSync } from "node:fs";
+import { RedisClient } from "bun";
+import type { PIIEntity } from "./detect";
+
+export const PII_CACHE_TYPES = ["memory", "sqlite", "redis"] as const;
+export type PIICacheType = (typeof PII_CACHE_TYPES)[number];
+
+export interface PIICacheOptions {
+  type: PIICacheType;
+  database: string;
+  url?: string;
+  ttl_seconds: number;
+  max_entries: number;
+  memory_ttl_seconds: number;
+  memory_max_entries: number;
+}
+
+// Bump when the stored format changes, to orphan old entries
+const CACHE_FORMAT_VERSION = 1;
+const REDIS_KEY_PREFIX = "pasteguard:pii:";
+
+// In-memory tier defaults (`memory_max_entries`, `memory_ttl_seconds`)
+export const PII_CACHE_MAX_SIZE = 1000;
+export const PII_CACHE_TTL_SECONDS = 60 * 60; // 1 hour
+
+// SQLite tier: expired and surplus entries are deleted at most this often (on set)
+const CLEANUP_INTERVAL_MS = 60 * 1000;
+
+function sha256(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+function hitRate(hits: number, misses: number): number {
+  const total = hits + misses;
+  return total > 0 ? Math.round((hits / total) * 1000) / 10 : 0;
+}
+
+/**
+ * Hashes everything that changes what the backend reports for a text
+ *
+ * The whitelist is applied after caching, but it's part of the fingerprint so a
+ * whitelist change never serves results computed under the old one.
+ */
+export function detectorFingerprint(settings: Record<string, unknown>): string {
+  return sha256(JSON.stringify({ version: CACHE_FORMAT_VERSION, ...settings }));
+}
+
+export function cacheKey(fingerprint: string, text: string, language: string): string {
+  return sha256(`${fingerprint}\0${language}\0${text}`);
+}
+
+interface PiiCacheEntry {
+  entities: PIIEntity[];
+  expiresAt: number;
+}
+
+/**
+ * In-memory LRU tier
+ */
+export class PiiDetectionCache {
+  private readonly cache = new Map<string, PiiCacheEntry>();
+  private hits = 0;
+  private misses = 0;
+
+  constructor(
+    private readonly maxSize = PII_CACHE_MAX_SIZE,
+    private readonly ttlSeconds = PII_CACHE_TTL_SECONDS,
+  ) {}
+
+  get(key: string): PIIEntity[] | undefined {
+    const entry = this.cache.get(key);
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+    if (Date.now() > entry.expiresAt) {
+      this.cache.delete(key);
+      this.misses++;
+      return undefined;
+    }
+    // Move to end to maintain LRU order
+    this.cache.delete(key);
+    this.cache.set(key, entry);
+    this.hits++;
+    return entry.entities;
+  }
+
+  set(key: string, entities: PIIEntity[]): void {
+    if (this.cache.size >= this.maxSize && !this.cache.has(key)) {
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+    this.cache.set(key, { entities, expiresAt: Date.now() + this.ttlSeconds * 1000 });
+  }
+
+  getStats(): { hits: number; misses: number; size: number; maxSize: number; hitRate: number } {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      size: this.cache.size,
+      maxSize: this.maxSize,
+      hitRate: hitRate(this.hits, this.misses),
+    };
+  }
+
+  clear(): void {
+    this.cache.clear();
+    this.hits = 0;
+    this.misses = 0;
+  }
+}
+
+/**
+ * Storage of the persistent tier - values are serialized entity lists
+ */
+export interface PersistentCacheStore {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+  close(): void;
+}
+
+/**
+ * SQLite file, shared by processes on the same host
+ *
+ * Keeps at most `maxEntries` entries, dropping the oldest first.
+ */
+export class SqliteCacheStore implements PersistentCacheStore {
+  private db: Database;
+  private maxEntries: number;
+  private lastCleanup = 0;
+  private getStmt: ReturnType<Database["prepare"]>;
+  private setStmt: ReturnType<Database["prepare"]>;
+
+  constructor(dbPath: string, maxEntries: number) {
+    // Ensure data directory exists
+    const dir = dbPath.substring(0, dbPath.lastIndexOf("/"));
+    if (dir) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    this.maxEntries = maxEntries;
+    this.db = new Database(dbPath);
+    this.db.run("PRAGMA journal_mode = WAL");
+    this.db.run("PRAGMA busy_timeout = 5000");
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS pii_detection_cache (
+        key TEXT PRIMARY KEY,
+        entities TEXT NOT NULL,
+        expires_at INTEGER NOT NULL
+      )
+    `);
+    this.db.run(
+      "CREATE INDEX IF NOT EXISTS idx_pii_cache_expires_at ON pii_detection_cache(expires_at)",
+    );
+
+    this.getStmt = this.db.prepare(
+      "SELECT entities FROM pii_detection_cache WHERE key = ? AND expires_at > ?",
+    );
+    this.setStmt = this.db.prepare(
+      `INSERT INTO pii_detection_cache (key, entities, expires_at) VALUES (?, ?, ?)
+       ON CONFLICT(key) DO UPDATE SET entities = excluded.entities, expires_at = excluded.expires_at`,
+    );
+  }
+
+  async get(key: string): Promise<string | null> {
+    const row = this.getStmt.get(key, Date.now()) as { entities: string } | null;
+    return row?.entities ?? null;
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    const now = Date.now();
+    this.setStmt.run(key, value, now + ttlMs);
+
+    if (now - this.lastCleanup > CLEANUP_INTERVAL_MS) {
+      this.lastCleanup = now;
+      this.cleanup();
+    }
+  }
+
+  /**
+   * Deletes expired entries and the oldest ones beyond `maxEntries`
+   */
+  cleanup(): number {
+    let deleted = this.db
+      .prepare("DELETE FROM pii_detection_cache WHERE expires_at <= ?")
+      .run(Date.now()).changes;
+
+    const row = this.db.prepare("SELECT COUNT(*) as count FROM pii_detection_cache").get();
+    const { count } = row as { count: number };
+    if (count > this.maxEntries) {
+      deleted += this.db
+        .prepare(
+          `DELETE FROM pii_detection_cache WHERE key IN (
+             SELECT key FROM pii_detection_cache ORDER BY expires_at ASC LIMIT ?
+           )`,
+        )
+        .run(count - this.maxEntries).changes;
+    }
+    return deleted;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * Redis-protocol server, shared by all replicas
+ *
+ * Size is bounded by the server's `maxmemory` policy, not `max_entries`.
+ */
+export class RedisCacheStore implements PersistentCacheStore {
+  private client: RedisClient;
+  private connecting: Promise<void> | null = null;
+
+  constructor(url: string) {
+    // Commands fail right away while disconnected instead of queueing behind a reconnect
+    this.client = new RedisClient(url, { connectionTimeout: 2000, enableOfflineQueue: false });
+    this.connect();
+  }
+
+  async get(key: string): Promise<string | null> {
+    this.connect();
+    return this.client.get(REDIS_KEY_PREFIX + key);
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    this.connect();
+    await this.client.set(REDIS_KEY_PREFIX + key, value, "PX", ttlMs);
+  }
+
+  /**
+   * Starts a connection attempt in the background unless connected or already trying
+   */
+  private connect(): void {
+    if (this.client.connected || this.connecting) return;
+    this.connecting = this.client
+      .connect()
+      .catch(() => {})
+      .finally(() => {
+        this.connecting = null;
+      });
+  }
+
+  close(): void {
+    this.client.close();
+  }
+}
+
+/**
+ * Persistent tier - counts hits and treats store errors as misses
+ *
+ * A failing store (Redis down, disk full) never fails detection; the error is
+ * logged once until the store works again.
+ */
+export class PersistentDetectionCache {
+  private hits = 0;
+  private misses = 0;
+  private errors = 0;
+  private failing = false;
+
+  constructor(
+    readonly type: Exclude<PIICacheType, "memory">,
+    private readonly store: PersistentCacheStore,
+    private readonly ttlMs: number,
+  ) {}
+
+  async get(key: string): Promise<PIIEntity[] | undefined> {
+    try {
+      const value = await this.store.get(key);
+      this.recovered();
+      if (value === null) {
+        this.misses++;
+        return undefined;
+      }
+      this.hits++;
+      return JSON.parse(value) as PIIEntity[];
+    } catch (error) {
+      this.failed(error);
+      this.misses++;
+      return undefined;
+    }
+  }
+
+  async set(key: string, entities: PIIEntity[]): Promise<void> {
+    try {
+      await this.store.set(key, JSON.stringify(entities), this.ttlMs);
+      this.recovered();
+    } catch (error) {
+      this.failed(error);
+    }
+  }
+
+  getStats(): { type: string; hits: number; misses: number; errors: number; hitRate: number } {
+    return {
+      type: this.type,
+      hits: this.hits,
+      misses: this.misses,
+      errors: this.errors,
+      hitRate: hitRate(this.hits, this.misses),
+    };
+  }
+
+  close(): void {
+    this.store.close();
+  }
+
+  private failed(error: unknown): void {
+    this.errors++;
+    if (!this.failing) {
+      this.failing = true;
+      console.warn(
+        `[PII] ${this.type} detection cache unavailable, using in-memory cache only:`,
+        error instanceof Error ? error.message : error,
+      );
+    }
+  }
+
+  private recovered(): void {
+    if (this.failing) {
+      this.failing = false;
+      console.log(`[PII] ${this.type} detection cache is back`);
+    }
+  }
+}
+
+/**
+ * Creates the persistent tier, or null for `type: memory`
+ */
+export function createPersistentCache(
+  options: PIICacheOptions | undefined,
+): PersistentDetectionCache | null {
+  if (!options || options.type === "memory") return null;
+
+  const ttlMs = options.ttl_seconds * 1000;
+  if (options.type === "sqlite") {
+    return new PersistentDetectionCache(
+      "sqlite",
+      new SqliteCacheStore(options.database, options.max_entries),
+      ttlMs,
+    );
+  }
+  return new PersistentDetectionCache("redis", new RedisCacheStore(options.url ?? ""), ttlMs);
+}
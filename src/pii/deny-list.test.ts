@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, utimesSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { AhoCorasick, DenyListMatcher, parseDenyListFile } from "./deny-list";
+
+function matchedTexts(text: string, matcher: DenyListMatcher): string[] {
+  return matcher.detect(text).map((entity) => text.slice(entity.start, entity.end));
+}
+
+describe("AhoCorasick", () => {
+  test("finds overlapping occurrences of all patterns", () => {
+    const automaton = new AhoCorasick(["he", "she", "his", "hers"]);
+
+    const matches = automaton
+      .search("ushers")
+      .map(({ pattern, start, end }) => [pattern, start, end]);
+
+    expect(matches).toEqual([
+      [1, 1, 4],
+      [0, 2, 4],
+      [3, 2, 6],
+    ]);
+  });
+
+  test("matches case-insensitively", () => {
+    const automaton = new AhoCorasick(["Acme"]);
+
+    expect(automaton.search("ACME and acme")).toHaveLength(2);
+  });
+});
+
+describe("DenyListMatcher", () => {
+  test("reports inline terms as their list's entity type", () => {
+    const matcher = new DenyListMatcher([
+      { entity_type: "CUSTOMER", terms: ["Acme Corp", "Globex"] },
+      { entity_type: "PROJECT", terms: ["Falcon"] },
+    ]);
+
+    const entities = matcher.detect("Globex asked about Project Falcon");
+
+    expect(entities.map((e) => e.entity_type)).toEqual(["CUSTOMER", "PROJECT"]);
+    expect(entities.every((e) => e.score === 1)).toBe(true);
+  });
+
+  test("respects word boundaries", () => {
+    const matcher = new DenyListMatcher([{ entity_type: "CUSTOMER", terms: ["Acme"] }]);
+
+    expect(matchedTexts("Acmeville, acme, (ACME) and Acme_2", matcher)).toEqual(["acme", "ACME"]);
+  });
+
+  test("matches terms that start or end with punctuation", () => {
+    const matcher = new DenyListMatcher([{ entity_type: "HOSTNAME", terms: [".corp.internal"] }]);
+
+    expect(matchedTexts("ssh db1.corp.internal now", matcher)).toEqual([".corp.internal"]);
+  });
+
+  test("returns no entities without deny lists", () => {
+    expect(new DenyListMatcher([]).detect("Acme")).toEqual([]);
+  });
+});
+
+describe("DenyListMatcher with files", () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "deny-list-"));
+    file = join(dir, "customers.txt");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("loads one term per line and skips comments", () => {
+    writeFileSync(file, "# customers\nAcme Corp\n\n  Globex  \n");
+
+    const matcher = new DenyListMatcher([{ entity_type: "CUSTOMER", file }]);
+
+    expect(matchedTexts("Acme Corp and Globex", matcher)).toEqual(["Acme Corp", "Globex"]);
+  });
+
+  test("reloads the file when it changes", () => {
+    writeFileSync(file, "Acme\n");
+    const matcher = new DenyListMatcher([{ entity_type: "CUSTOMER", file }], 0);
+    expect(matchedTexts("Acme and Initech", matcher)).toEqual(["Acme"]);
+
+    writeFileSync(file, "Acme\nInitech\n");
+    const later = new Date(Date.now() + 5000);
+    utimesSync(file, later, later);
+
+    expect(matchedTexts("Acme and Initech", matcher)).toEqual(["Acme", "Initech"]);
+  });
+
+  test("keeps the previous terms when the file disappears", () => {
+    writeFileSync(file, "Acme\n");
+    const matcher = new DenyListMatcher([{ entity_type: "CUSTOMER", file }], 0);
+
+    rmSync(file);
+
+    expect(matchedTexts("Acme", matcher)).toEqual(["Acme"]);
+  });
+
+  test("keeps inline terms when the file is missing at startup", () => {
+    const matcher = new DenyListMatcher([
+      { entity_type: "CUSTOMER", terms: ["Initech"], file: join(dir, "missing.txt") },
+    ]);
+
+    expect(matchedTexts("Acme and Initech", matcher)).toEqual(["Initech"]);
+  });
+});
+
+describe("parseDenyListFile", () => {
+  test("handles CRLF line endings", () => {
+    expect(parseDenyListFile("Acme\r\nGlobex\r\n")).toEqual(["Acme", "Globex"]);
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Deny lists - company-specific terms Presidio doesn't know (`pii_detection.deny_lists`)
+ *
+ * Customer names, internal project names or hostnames are listed per entity
+ * type, inline or in a file (one term per line, `#` comments). All terms are
+ * compiled into one Aho-Corasick automaton, so matching cost depends on the
+ * text length, not on the number of terms. Matches are case-insensitive and
+ * respect word boundaries ("Acme" does not match inside "Acmeville").
+ *
+ * File-backed lists are reloaded when the file changes.
+ */
+
+import { readFileSync, statSync } from "node:fs";
+import type { PIIEntity } from "./detect";
+
+export interface DenyListConfig {
+  /** Entity type reported for matches, e.g. CUSTOMER -> [[CUSTOMER_1]] */
+  entity_type: string;
+  /** Inline terms */
+  terms?: string[];
+  /** Path to a file with one term per line */
+  file?: string;
+}
+
+/** Deny-list hits are certain, so they win conflicts against Presidio guesses */
+const DENY_LIST_SCORE = 1.0;
+
+/** Minimum time between checks of deny-list files for changes */
+const RELOAD_CHECK_INTERVAL_MS = 1000;
+
+/**
+ * Lowercases per UTF-16 code unit, keeping characters whose lowercase form has
+ * a different length - offsets in the folded text match the original
+ */
+function foldCase(text: string): string {
+  return text.replace(/[A-Z\u0080-\uffff]/g, (ch) => {
+    const lower = ch.toLowerCase();
+    return lower.length === ch.length ? lower : ch;
+  });
+}
+
+function isWordChar(ch: string | undefined): boolean {
+  return ch !== undefined && /[\p{L}\p{N}_]/u.test(ch);
+}
+
+interface AutomatonNode {
+  next: Map<string, number>;
+  fail: number;
+  /** Indexes of the patterns ending at this node (including via fail links) */
+  output: number[];
+}
+
+/**
+ * Aho-Corasick automaton over case-folded patterns
+ */
+export class AhoCorasick {
+  private readonly nodes: AutomatonNode[] = [{ next: new Map(), fail: 0, output: [] }];
+
+  constructor(private readonly patterns: string[]) {
+    patterns.forEach((pattern, index) => {
+      let node = 0;
+      // Code units, like search() - offsets must match the text
+      const folded = foldCase(pattern);
+      for (let i = 0; i < folded.length; i++) {
+        const ch = folded[i];
+        let child = this.nodes[node].next.get(ch);
+        if (child === undefined) {
+          child = this.nodes.length;
+          this.nodes.push({ next: new Map(), fail: 0, output: [] });
+          this.nodes[node].next.set(ch, child);
+        }
+        node = child;
+      }
+      this.nodes[node].output.push(index);
+    });
+
+    // Breadth-first: fail links point to the longest proper suffix that is also a prefix
+    const queue = [...this.nodes[0].next.values()];
+    for (let i = 0; i < queue.length; i++) {
+      const node = this.nodes[queue[i]];
+      for (const [ch, child] of node.next) {
+        let fail = node.fail;
+        while (fail !== 0 && !this.nodes[fail].next.has(ch)) {
+          fail = this.nodes[fail].fail;
+        }
+        const target = this.nodes[fail].next.get(ch);
+        this.nodes[child].fail = target !== undefined && target !== child ? target : 0;
+        this.nodes[child].output.push(...this.nodes[this.nodes[child].fail].output);
+        queue.push(child);
+      }
+    }
+  }
+
+  /**
+   * Finds all (possibly overlapping) occurrences
+   */
+  search(text: string): Array<{ pattern: number; start: number; end: number }> {
+    const matches: Array<{ pattern: number; start: number; end: number }> = [];
+    const folded = foldCase(text);
+    let node = 0;
+
+    for (let i = 0; i < folded.length; i++) {
+      const ch = folded[i];
+      while (node !== 0 && !this.nodes[node].next.has(ch)) {
+        node = this.nodes[node].fail;
+      }
+      node = this.nodes[node].next.get(ch) ?? 0;
+      for (const pattern of this.nodes[node].output) {
+        matches.push({ pattern, start: i + 1 - this.patterns[pattern].length, end: i + 1 });
+      }
+    }
+
+    return matches;
+  }
+}
+
+/**
+ * Parses a deny-list file: one term per line, blank lines and `#` comments ignored
+ */
+export function parseDenyListFile(content: string): string[] {
+  return content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#"));
+}
+
+interface LoadedList {
+  config: DenyListConfig;
+  terms: string[];
+  /** Terms of the last successful file read */
+  fileTerms: string[];
+  mtimeMs?: number;
+}
+
+/**
+ * Matches all configured deny lists
+ */
+export class DenyListMatcher {
+  private readonly lists: LoadedList[];
+  private automaton: AhoCorasick;
+  private patternTypes: string[] = [];
+  private lastReloadCheck = Date.now();
+
+  constructor(
+    lists: DenyListConfig[],
+    private readonly reloadIntervalMs = RELOAD_CHECK_INTERVAL_MS,
+  ) {
+    this.lists = lists.map((config) => {
+      const list: LoadedList = { config, terms: [], fileTerms: [] };
+      this.loadTerms(list);
+      return list;
+    });
+    this.automaton = this.build();
+  }
+
+  /**
+   * Finds deny-listed terms in text
+   */
+  detect(text: string): PIIEntity[] {
+    if (this.lists.length === 0 || !text) return [];
+    this.reloadChangedFiles();
+
+    return this.automaton
+      .search(text)
+      .filter(
+        ({ start, end }) =>
+          !(isWordChar(text[start]) && isWordChar(text[start - 1])) &&
+          !(isWordChar(text[end - 1]) && isWordChar(text[end])),
+      )
+      .map(({ pattern, start, end }) => ({
+        entity_type: this.patternTypes[pattern],
+        start,
+        end,
+        score: DENY_LIST_SCORE,
+      }));
+  }
+
+  private build(): AhoCorasick {
+    const patterns: string[] = [];
+    this.patternTypes = [];
+    for (const list of this.lists) {
+      for (const term of list.terms) {
+        patterns.push(term);
+        this.patternTypes.push(list.config.entity_type);
+      }
+    }
+    return new AhoCorasick(patterns);
+  }
+
+  /**
+   * Loads inline and file terms
+   *
+   * Inline terms always apply. If the file can't be read, its terms from the
+   * last successful read are kept (none at startup).
+   */
+  private loadTerms(list: LoadedList): void {
+    const { terms = [], file } = list.config;
+
+    if (file) {
+      try {
+        list.mtimeMs = statSync(file).mtimeMs;
+        list.fileTerms = parseDenyListFile(readFileSync(file, "utf-8"));
+      } catch (error) {
+        console.warn(
+          `[DENY_LIST] Could not read ${file}, keeping previous file terms:`,
+          error instanceof Error ? error.message : error,
+        );
+      }
+    }
+
+    const unique = new Set([...terms.map((term) => term.trim()), ...list.fileTerms]);
+    unique.delete("");
+    list.terms = [...unique];
+  }
+
+  private reloadChangedFiles(): void {
+    const now = Date.now();
+    if (now - this.lastReloadCheck < this.reloadIntervalMs) return;
+    this.lastReloadCheck = now;
+
+    let changed = false;
+    for (const list of this.lists) {
+      if (!list.config.file) continue;
+      let mtimeMs: number;
+      try {
+        mtimeMs = statSync(list.config.file).mtimeMs;
+      } catch {
+        continue; // Missing file: keep the previous terms until it's back
+      }
+      if (mtimeMs !== list.mtimeMs) {
+        this.loadTerms(list);
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      this.automaton = this.build();
+    }
+  }
+}
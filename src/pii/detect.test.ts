@@ -1,7 +1,9 @@
 import { afterEach, describe, expect, mock, test } from "bun:test";
 import { openaiExtractor } from "../masking/extractors/openai";
 import type { OpenAIMessage, OpenAIRequest } from "../providers/openai/types";
+import { BATCH_SEPARATOR } from "./batch";
 import { filterWhitelistedEntities, PIIDetector } from "./detect";
+import { createPrefixContext, getPlaceholderAssignments, maskRequest } from "./mask";
 
 const originalFetch = globalThis.fetch;
 
@@ -22,16 +24,20 @@ function mockPresidio(
       const body = JSON.parse(init.body as string);
       const text = body.text as string;
 
-      for (const [key, entities] of Object.entries(responses)) {
-        if (text.includes(key)) {
-          return new Response(JSON.stringify(entities), {
-            status: 200,
-            headers: { "Content-Type": "application/json" },
-          });
+      // Answer each span of a batch on its own, with offsets into the batch
+      const found = [];
+      let offset = 0;
+      for (const part of text.split(BATCH_SEPARATOR)) {
+        const key = Object.keys(responses).find((k) => part.includes(k));
+        if (key) {
+          found.push(
+            ...responses[key].map((e) => ({ ...e, start: e.start + offset, end: e.end + offset })),
+          );
         }
+        offset += part.length + BATCH_SEPARATOR.length;
       }
 
-      return new Response(JSON.stringify([]), {
+      return new Response(JSON.stringify(found), {
         status: 200,
         headers: { "Content-Type": "application/json" },
       });
@@ -55,14 +61,14 @@ describe("PIIDetector", () => {
       mockPresidio({
         "system-pii": [{ entity_type: "PERSON", start: 0, end: 10, score: 0.9 }],
         "user-pii": [{ entity_type: "EMAIL_ADDRESS", start: 0, end: 8, score: 0.9 }],
-        "assistant-pii": [{ entity_type: "PHONE_NUMBER", start: 0, end: 13, score: 0.9 }],
+        "assistant-pii": [{ entity_type: "PHONE_NUMBER", start: 14, end: 26, score: 0.9 }],
       });
 
       const detector = new PIIDetector();
       const request = createRequest([
         { role: "system", content: "system-pii here" },
         { role: "user", content: "user-pii here" },
-        { role: "assistant", content: "assistant-pii here" },
+        { role: "assistant", content: "assistant-pii 555-123-4567" },
       ]);
 
       const result = await detector.analyzeRequest(request, openaiExtractor);
@@ -166,6 +172,168 @@ describe("PIIDetector", () => {
     });
   });
 
+  describe("analyzeRequest batching", () => {
+    test("sends many spans in a few backend calls and maps offsets back", async () => {
+      mockPresidio({
+        "john@example.com": [{ entity_type: "EMAIL_ADDRESS", start: 8, end: 24, score: 0.99 }],
+      });
+
+      const messages: OpenAIMessage[] = Array.from({ length: 300 }, (_, i) => ({
+        role: "user",
+        content: i === 150 ? "Contact john@example.com" : `Tool result ${i}`,
+      }));
+      const detector = new PIIDetector();
+      const result = await detector.analyzeRequest(createRequest(messages), openaiExtractor);
+
+      const calls = (globalThis.fetch as unknown as { mock: { calls: unknown[] } }).mock.calls;
+      expect(calls).toHaveLength(1);
+      expect(result.spanEntities[150]).toEqual([
+        { entity_type: "EMAIL_ADDRESS", start: 8, end: 24, score: 0.99 },
+      ]);
+      expect(result.allEntities).toHaveLength(1);
+    });
+  });
+
+  describe("analyzeRequest incremental scanning", () => {
+    function analyzedTexts(): string[] {
+      const calls = (globalThis.fetch as unknown as { mock: { calls: [string, RequestInit][] } })
+        .mock.calls;
+      return calls.map(([, init]) => JSON.parse(init.body as string).text as string);
+    }
+
+    test("only scans spans after the unchanged conversation prefix", async () => {
+      mockPresidio({
+        "Jane Doe": [{ entity_type: "PERSON", start: 6, end: 14, score: 0.9 }],
+      });
+      const detector = new PIIDetector();
+      const turn1: OpenAIMessage[] = [
+        { role: "system", content: "You are a coding agent" },
+        { role: "user", content: "Email Jane Doe about the release" },
+      ];
+      const turn2: OpenAIMessage[] = [
+        ...turn1,
+        { role: "assistant", content: "Done, sent it" },
+        { role: "user", content: "Thanks" },
+      ];
+
+      const first = await detector.analyzeRequest(createRequest(turn1), openaiExtractor);
+      mockPresidio({});
+      const second = await detector.analyzeRequest(createRequest(turn2), openaiExtractor);
+
+      expect(first).toMatchObject({ spansScanned: 2, spansSkipped: 0 });
+      expect(second).toMatchObject({ spansScanned: 2, spansSkipped: 2 });
+      expect(analyzedTexts().join()).not.toContain("Jane Doe");
+      expect(second.spanEntities[1]).toEqual(first.spanEntities[1]);
+
+      // Same entities in the same order - the history keeps its placeholders
+      const masked1 = maskRequest(createRequest(turn1), first, openaiExtractor).request;
+      const masked2 = maskRequest(createRequest(turn2), second, openaiExtractor).request;
+      expect(masked2.messages[1].content).toBe(masked1.messages[1].content);
+      expect(masked2.messages[1].content).toContain("[[PERSON_1]]");
+    });
+
+    test("keeps history placeholders when the tail adds new entities", async () => {
+      mockPresidio({
+        "Jane Doe": [{ entity_type: "PERSON", start: 6, end: 14, score: 0.9 }],
+      });
+      const detector = new PIIDetector();
+      const masking = {
+        strategy: "placeholder",
+        placeholder_format: "⟦{NONCE}:{TYPE}_{N}⟧",
+        fuzzy_unmask: "off",
+      } as const;
+      const turn1: OpenAIMessage[] = [{ role: "user", content: "Email Jane Doe today" }];
+      const turn2: OpenAIMessage[] = [
+        ...turn1,
+        { role: "assistant", content: "Sent" },
+        { role: "user", content: "Also John Roe and Jane Doe" },
+      ];
+
+      // Without a session, like maskPII: seed a fresh context, mask, store the assignments
+      const maskTurn = async (messages: OpenAIMessage[]) => {
+        const request = createRequest(messages);
+        const detection = await detector.analyzeRequest(request, openaiExtractor);
+        const hashes = detection.prefixHashes ?? [];
+        const context = createPrefixContext(
+          detector.getPlaceholderAssignments(hashes),
+          masking,
+          messages.map((message) => message.content as string),
+        );
+        const result = maskRequest(request, detection, openaiExtractor, context);
+        detector.storePlaceholderAssignments(
+          hashes,
+          getPlaceholderAssignments(result.maskedSpans, result.context, masking),
+        );
+        return { detection, masked: result.request };
+      };
+
+      const first = await maskTurn(turn1);
+      mockPresidio({
+        "John Roe": [
+          { entity_type: "PERSON", start: 5, end: 13, score: 0.9 },
+          { entity_type: "PERSON", start: 18, end: 26, score: 0.9 },
+        ],
+      });
+      const second = await maskTurn(turn2);
+
+      const history = first.masked.messages[0].content as string;
+      const nonce = history.slice(7, 11);
+      expect(history).toBe(`Email ⟦${nonce}:PERSON_1⟧ today`);
+      expect(second.detection).toMatchObject({ spansScanned: 2, spansSkipped: 1 });
+      expect(second.masked.messages[0].content).toBe(history);
+      expect(second.masked.messages[2].content).toBe(
+        `Also ⟦${nonce}:PERSON_2⟧ and ⟦${nonce}:PERSON_1⟧`,
+      );
+    });
+
+    test("rescans everything after an earlier message changed", async () => {
+      mockPresidio({});
+      const detector = new PIIDetector();
+      await detector.analyzeRequest(
+        createRequest([
+          { role: "user", content: "First question" },
+          { role: "assistant", content: "First answer" },
+        ]),
+        openaiExtractor,
+      );
+
+      const edited = await detector.analyzeRequest(
+        createRequest([
+          { role: "user", content: "Edited question" },
+          { role: "assistant", content: "First answer" },
+        ]),
+        openaiExtractor,
+      );
+
+      expect(edited).toMatchObject({ spansScanned: 2, spansSkipped: 0 });
+    });
+  });
+
+  describe("analyzeRequest validation", () => {
+    test("drops entities that fail validation and counts them per type", async () => {
+      const text = "Order 1234 5678 9012 3456, card 4111 1111 1111 1111, version 1.2.3.4";
+      mockPresidio({
+        Order: [
+          { entity_type: "CREDIT_CARD", start: 6, end: 25, score: 0.9 },
+          { entity_type: "CREDIT_CARD", start: 32, end: 51, score: 0.9 },
+          { entity_type: "PHONE_NUMBER", start: 61, end: 68, score: 0.8 },
+        ],
+      });
+
+      const detector = new PIIDetector();
+      const result = await detector.analyzeRequest(
+        createRequest([{ role: "user", content: text }]),
+        openaiExtractor,
+      );
+
+      expect(result.allEntities).toHaveLength(1);
+      expect(text.slice(result.allEntities[0].start, result.allEntities[0].end)).toBe(
+        "4111 1111 1111 1111",
+      );
+      expect(result.validationRejected).toEqual({ CREDIT_CARD: 1, PHONE_NUMBER: 1 });
+    });
+  });
+
   describe("detectPII", () => {
     test("returns entities from Presidio", async () => {
       mockPresidio({
@@ -306,6 +474,27 @@ describe("PIIDetector", () => {
       expect(result).toHaveLength(0);
     });
 
+    test("structured entries only match the whole entity text", () => {
+      const text = "Acme Smith works at Acme";
+      const entities = [
+        { entity_type: "PERSON", start: 0, end: 10, score: 0.9 },
+        { entity_type: "ORGANIZATION", start: 20, end: 24, score: 0.8 },
+      ];
+
+      const result = filterWhitelistedEntities(text, entities, [{ pattern: "Acme" }]);
+
+      expect(result.map((e) => e.entity_type)).toEqual(["PERSON"]);
+    });
+
+    test("applies entity type and role scoping", () => {
+      const text = "Berlin";
+      const entities = [{ entity_type: "LOCATION", start: 0, end: 6, score: 0.9 }];
+      const whitelist = [{ pattern: "Berlin", entity_types: ["LOCATION"], roles: ["system"] }];
+
+      expect(filterWhitelistedEntities(text, entities, whitelist, "system")).toHaveLength(0);
+      expect(filterWhitelistedEntities(text, entities, whitelist, "user")).toHaveLength(1);
+    });
+
     test("returns all entities when whitelist is empty", () => {
       const text = "Contact Claude at claude@example.com";
       const entities = [
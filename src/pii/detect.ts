@@ -1,7 +1,25 @@
-import { getConfig } from "../config";
-import { HEALTH_CHECK_TIMEOUT_MS } from "../constants/timeouts";
-import type { RequestExtractor } from "../masking/types";
+import { getConfig, type PIIEngine } from "../config";
+import type { RequestExtractor, TextSpan } from "../masking/types";
+import { isWhitelisted, type WhitelistEntry } from "../masking/whitelist";
 import { getLanguageDetector, type SupportedLanguage } from "../services/language-detector";
+import { createNerBackend, type NerBackend } from "./backends";
+import { analyzeInBatches, type BatchOptions, DEFAULT_BATCH_OPTIONS } from "./batch";
+import { detectBuiltinPII } from "./builtin";
+import {
+  cacheKey,
+  createPersistentCache,
+  detectorFingerprint,
+  type PersistentDetectionCache,
+  PiiDetectionCache,
+} from "./cache";
+import { DenyListMatcher } from "./deny-list";
+import {
+  ConversationScanIndex,
+  conversationPrefixHashes,
+  DEFAULT_INCREMENTAL_OPTIONS,
+  type PlaceholderAssignment,
+} from "./incremental";
+import { mergeRejected, validateEntities } from "./validate";
 
 export interface PIIEntity {
   entity_type: string;
@@ -10,26 +28,39 @@ export interface PIIEntity {
   score: number;
 }
 
+/**
+ * Removes entities matched by the whitelist (`masking.whitelist`)
+ *
+ * @param role - Role of the span the text came from, for role-scoped entries
+ */
 export function filterWhitelistedEntities(
   text: string,
   entities: PIIEntity[],
-  whitelist: string[],
+  whitelist: WhitelistEntry[],
+  role?: string,
 ): PIIEntity[] {
   if (whitelist.length === 0) return entities;
 
-  return entities.filter((entity) => {
-    const detectedText = text.slice(entity.start, entity.end);
-    return !whitelist.some(
-      (pattern) => pattern.includes(detectedText) || detectedText.includes(pattern),
-    );
-  });
+  return entities.filter(
+    (entity) =>
+      !isWhitelisted(text.slice(entity.start, entity.end), entity.entity_type, whitelist, role),
+  );
 }
 
-interface AnalyzeRequest {
-  text: string;
-  language: string;
-  entities?: string[];
-  score_threshold?: number;
+/**
+ * Language to scan a span with in `language_detection.mode: span`
+ *
+ * Spans shorter than `minChars` and spans in a language that isn't configured
+ * keep the request language - detection on a few words is unreliable.
+ */
+function spanLanguage(
+  text: string,
+  requestLanguage: SupportedLanguage,
+  minChars: number,
+): SupportedLanguage {
+  if (text.length < minChars) return requestLanguage;
+  const result = getLanguageDetector().detect(text);
+  return result.usedFallback ? requestLanguage : result.language;
 }
 
 export interface PIIDetectionResult {
@@ -40,124 +71,191 @@ export interface PIIDetectionResult {
   language: SupportedLanguage;
   languageFallback: boolean;
   detectedLanguage?: string;
-}
-
-// LRU cache for PII detection results — avoids redundant Presidio calls for repeated spans
-// (system prompts and earlier conversation turns are re-scanned every request otherwise)
-const PII_CACHE_MAX_SIZE = 1000;
-const PII_CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
-
-interface PiiCacheEntry {
-  entities: PIIEntity[];
-  expiresAt: number;
-}
-
-class PiiDetectionCache {
-  private readonly cache = new Map<number, PiiCacheEntry>();
-  private hits = 0;
-  private misses = 0;
-
-  get(text: string, language: string): PIIEntity[] | undefined {
-    const key = Bun.hash(`${language}\0${text}`) as number;
-    const entry = this.cache.get(key);
-    if (!entry) {
-      this.misses++;
-      return undefined;
-    }
-    if (Date.now() > entry.expiresAt) {
-      this.cache.delete(key);
-      this.misses++;
-      return undefined;
-    }
-    // Move to end to maintain LRU order
-    this.cache.delete(key);
-    this.cache.set(key, entry);
-    this.hits++;
-    return entry.entities;
-  }
-
-  set(text: string, language: string, entities: PIIEntity[]): void {
-    const key = Bun.hash(`${language}\0${text}`) as number;
-    if (this.cache.size >= PII_CACHE_MAX_SIZE && !this.cache.has(key)) {
-      this.cache.delete(this.cache.keys().next().value as number);
-    }
-    this.cache.set(key, { entities, expiresAt: Date.now() + PII_CACHE_TTL_MS });
-  }
-
-  getStats(): { hits: number; misses: number; size: number; maxSize: number; hitRate: number } {
-    const total = this.hits + this.misses;
-    return {
-      hits: this.hits,
-      misses: this.misses,
-      size: this.cache.size,
-      maxSize: PII_CACHE_MAX_SIZE,
-      hitRate: total > 0 ? Math.round((this.hits / total) * 1000) / 10 : 0,
-    };
-  }
-
-  clear(): void {
-    this.cache.clear();
-    this.hits = 0;
-    this.misses = 0;
-  }
+  /** Entities dropped by post-detection validation, per entity type */
+  validationRejected?: Record<string, number>;
+  /** Languages the spans were scanned with (several with language_detection.mode span) */
+  languages?: SupportedLanguage[];
+  /** Spans sent to the detector */
+  spansScanned?: number;
+  /** Spans whose results were reused from an earlier turn (incremental scanning) */
+  spansSkipped?: number;
+  /** Prefix fingerprint of each span (incremental scanning), for placeholder assignments */
+  prefixHashes?: string[];
 }
 
 export class PIIDetector {
-  private presidioUrl: string;
+  private engine: PIIEngine;
+  private readonly backend: NerBackend;
   private scoreThreshold: number;
   private entityTypes: string[];
   private languageValidation?: { available: string[]; missing: string[] };
-  private readonly piiCache = new PiiDetectionCache();
+  private readonly piiCache: PiiDetectionCache;
+  private readonly persistentCache: PersistentDetectionCache | null;
+  private readonly fingerprint: string;
+  private readonly scanIndex: ConversationScanIndex | null;
+  private readonly denyLists: DenyListMatcher;
+  private readonly batch: BatchOptions;
+  private usingFallback = false;
 
   constructor() {
     const config = getConfig();
-    this.presidioUrl = config.pii_detection.presidio_url;
+    this.engine = config.pii_detection.engine ?? "presidio";
+    const backend = config.pii_detection.backend;
+    this.backend = createNerBackend({
+      ...backend,
+      type: backend?.type ?? "presidio",
+      url: backend?.url ?? config.pii_detection.presidio_url,
+    });
     this.scoreThreshold = config.pii_detection.score_threshold;
     this.entityTypes = config.pii_detection.entities;
+    this.batch = config.pii_detection.batch ?? DEFAULT_BATCH_OPTIONS;
+    const cache = config.pii_detection.cache;
+    this.piiCache = new PiiDetectionCache(cache?.memory_max_entries, cache?.memory_ttl_seconds);
+    this.persistentCache = createPersistentCache(cache);
+    const incremental = config.pii_detection.incremental ?? DEFAULT_INCREMENTAL_OPTIONS;
+    this.scanIndex = incremental.enabled ? new ConversationScanIndex(incremental.max_spans) : null;
+    this.fingerprint = detectorFingerprint({
+      backend: {
+        type: backend?.type ?? "presidio",
+        url: this.backend.url,
+        labels: backend?.labels,
+      },
+      entities: [...this.entityTypes].sort(),
+      scoreThreshold: this.scoreThreshold,
+      whitelist: config.masking.whitelist,
+    });
+    this.denyLists = new DenyListMatcher(config.pii_detection.deny_lists ?? []);
+  }
+
+  /**
+   * Finds terms from the configured deny lists (not cached - lists reload on change)
+   */
+  detectDenyListTerms(text: string): PIIEntity[] {
+    return this.denyLists.detect(text);
   }
 
+  /**
+   * Detects PII with the configured engine (`pii_detection.engine`)
+   */
   async detectPII(text: string, language: SupportedLanguage): Promise<PIIEntity[]> {
-    const cached = this.piiCache.get(text, language);
-    if (cached) return cached;
+    return (await this.detectPIIBatch([text], language))[0];
+  }
 
-    const analyzeEndpoint = `${this.presidioUrl}/analyze`;
+  /**
+   * Detects PII in several texts, batching backend calls (`pii_detection.batch`)
+   *
+   * With presidio_with_fallback, backend errors switch to the built-in
+   * detector until the backend answers again. Fallback results are not cached,
+   * so texts are re-scanned by the backend once it's back.
+   *
+   * @returns Entities per text, in input order
+   */
+  async detectPIIBatch(texts: string[], language: SupportedLanguage): Promise<PIIEntity[][]> {
+    const builtin = () =>
+      texts.map((text) => detectBuiltinPII(text, this.entityTypes, this.scoreThreshold));
 
-    const request: AnalyzeRequest = {
-      text,
-      language,
-      entities: this.entityTypes,
-      score_threshold: this.scoreThreshold,
-    };
+    if (this.engine === "builtin") {
+      return builtin();
+    }
+    if (this.engine === "presidio") {
+      return this.detectWithBackend(texts, language);
+    }
 
     try {
-      const response = await fetch(analyzeEndpoint, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(request),
-        signal: AbortSignal.timeout(30_000),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(
-          `Presidio API error: ${response.status} ${response.statusText} - ${errorText}`,
+      const entities = await this.detectWithBackend(texts, language);
+      if (this.usingFallback) {
+        this.usingFallback = false;
+        console.log(
+          `[PII] ${this.backend.name} is back, built-in fallback detector no longer used`,
         );
       }
-
-      const entities = (await response.json()) as PIIEntity[];
-      this.piiCache.set(text, language, entities);
       return entities;
     } catch (error) {
-      if (error instanceof Error) {
-        if (error.message.includes("fetch")) {
-          throw new Error(`Failed to connect to Presidio at ${this.presidioUrl}: ${error.message}`);
-        }
-        throw error;
+      if (!this.usingFallback) {
+        this.usingFallback = true;
+        console.warn(
+          `[PII] ${this.backend.name} unavailable, using built-in fallback detector:`,
+          error instanceof Error ? error.message : error,
+        );
+      }
+      return builtin();
+    }
+  }
+
+  /**
+   * True while presidio_with_fallback is serving requests with the built-in detector
+   */
+  isUsingFallback(): boolean {
+    return this.usingFallback;
+  }
+
+  private async detectWithBackend(
+    texts: string[],
+    language: SupportedLanguage,
+  ): Promise<PIIEntity[][]> {
+    const results: PIIEntity[][] = new Array(texts.length);
+    // Texts missing from the in-memory cache, deduplicated by cache key
+    const pending = new Map<string, { text: string; indexes: number[] }>();
+
+    texts.forEach((text, i) => {
+      if (!text) {
+        results[i] = [];
+        return;
+      }
+      const key = cacheKey(this.fingerprint, text, language);
+      const cached = this.piiCache.get(key);
+      if (cached) {
+        results[i] = cached;
+        return;
+      }
+      const entry = pending.get(key);
+      if (entry) {
+        entry.indexes.push(i);
+      } else {
+        pending.set(key, { text, indexes: [i] });
+      }
+    });
+    if (pending.size === 0) return results;
+
+    const fill = (key: string, entities: PIIEntity[]) => {
+      this.piiCache.set(key, entities);
+      for (const index of pending.get(key)?.indexes ?? []) {
+        results[index] = entities;
       }
-      throw new Error(`Unknown error during PII detection: ${error}`);
+    };
+
+    let keys = [...pending.keys()];
+    const persistent = this.persistentCache;
+    if (persistent) {
+      const stored = await Promise.all(keys.map((key) => persistent.get(key)));
+      keys = keys.filter((key, i) => {
+        const entities = stored[i];
+        if (entities) fill(key, entities);
+        return !entities;
+      });
+      if (keys.length === 0) return results;
     }
+
+    const found = await analyzeInBatches(
+      keys.map((key) => pending.get(key)?.text ?? ""),
+      this.batch,
+      (text) => this.backend.analyze(text, language, this.entityTypes, this.scoreThreshold),
+    );
+    keys.forEach((key, i) => {
+      fill(key, found[i]);
+    });
+    // Not awaited - persistent writes don't hold up the request and never throw
+    keys.forEach((key, i) => {
+      void persistent?.set(key, found[i]);
+    });
+    return results;
+  }
+
+  /**
+   * Name and URL of the NER backend (`pii_detection.backend`), for log messages
+   */
+  getBackendInfo(): { name: string; url: string } {
+    return { name: this.backend.name, url: this.backend.url };
   }
 
   /**
@@ -180,23 +278,69 @@ export class PIIDetector {
       ? getLanguageDetector().detect(langText)
       : { language: config.pii_detection.fallback_language, usedFallback: true };
 
-    // Detect PII for each span independently
+    // Detect PII for each span independently (backend calls are batched across spans)
     const scanRoles = config.pii_detection.scan_roles
       ? new Set(config.pii_detection.scan_roles)
       : null;
     const whitelist = config.masking.whitelist;
+    const validationRejected: Record<string, number> = {};
 
-    const spanEntities: PIIEntity[][] = await Promise.all(
-      spans.map(async (span) => {
-        if (scanRoles && span.role && !scanRoles.has(span.role)) {
-          return [];
-        }
-        if (!span.text) return [];
-        const entities = await this.detectPII(span.text, langResult.language);
-        return filterWhitelistedEntities(span.text, entities, whitelist);
-      }),
+    const scannable = (span: TextSpan) =>
+      !!span.text && !(scanRoles && span.role && !scanRoles.has(span.role));
+
+    const languageDetection = config.pii_detection.language_detection;
+    const spanLanguages = spans.map((span) =>
+      scannable(span) && languageDetection?.mode === "span"
+        ? spanLanguage(span.text, langResult.language, languageDetection.min_chars)
+        : langResult.language,
     );
 
+    // Spans of a conversation prefix seen in an earlier request reuse its results
+    const hashes = this.scanIndex
+      ? conversationPrefixHashes(this.fingerprint, spans, spanLanguages)
+      : [];
+    const reused = this.scanIndex?.lookup(hashes) ?? [];
+
+    // One detector pass per language (a single one unless language_detection.mode is span)
+    const pendingByLanguage = new Map<SupportedLanguage, number[]>();
+    spans.forEach((span, i) => {
+      if (!scannable(span) || reused[i]) return;
+      const group = pendingByLanguage.get(spanLanguages[i]);
+      if (group) {
+        group.push(i);
+      } else {
+        pendingByLanguage.set(spanLanguages[i], [i]);
+      }
+    });
+
+    const found: PIIEntity[][] = spans.map((_, i) => reused[i] ?? []);
+    for (const [language, indexes] of pendingByLanguage) {
+      const detected = await this.detectPIIBatch(
+        indexes.map((i) => spans[i].text),
+        language,
+      );
+      indexes.forEach((spanIndex, i) => {
+        found[spanIndex] = detected[i];
+      });
+    }
+
+    // Fallback results are not remembered, like in the detection cache
+    if (this.scanIndex && !this.usingFallback) {
+      this.scanIndex.store(hashes, found);
+    }
+
+    const spanEntities: PIIEntity[][] = spans.map((span, i) => {
+      if (!scannable(span)) return [];
+      const entities = [...found[i], ...this.detectDenyListTerms(span.text)];
+      const validated = validateEntities(
+        span.text,
+        filterWhitelistedEntities(span.text, entities, whitelist, span.role),
+        config.pii_detection.validation,
+      );
+      mergeRejected(validationRejected, validated.rejected);
+      return validated.entities;
+    });
+
     const allEntities = spanEntities.flat();
 
     return {
@@ -207,37 +351,64 @@ export class PIIDetector {
       language: langResult.language,
       languageFallback: langResult.usedFallback,
       detectedLanguage: langResult.detectedLanguage,
+      validationRejected,
+      languages: [...new Set(spanLanguages.filter((_, i) => scannable(spans[i])))].sort(),
+      spansScanned: [...pendingByLanguage.values()].reduce((sum, group) => sum + group.length, 0),
+      spansSkipped: spans.filter((span, i) => scannable(span) && reused[i]).length,
+      ...(this.scanIndex && { prefixHashes: hashes }),
     };
   }
 
-  getCacheStats(): {
-    hits: number;
-    misses: number;
-    size: number;
-    maxSize: number;
-    hitRate: number;
+  /**
+   * Placeholder assignments stored for the reused prefix of a request
+   * (incremental scanning)
+   */
+  getPlaceholderAssignments(prefixHashes: string[]): PlaceholderAssignment[] {
+    return this.scanIndex?.lookupAssignments(prefixHashes) ?? [];
+  }
+
+  /**
+   * Remembers the placeholder assignments of a masked request's spans
+   */
+  storePlaceholderAssignments(prefixHashes: string[], assignments: PlaceholderAssignment[]): void {
+    this.scanIndex?.storeAssignments(prefixHashes, assignments);
+  }
+
+  /**
+   * Hit rates of the in-memory cache and, if configured, the persistent tier
+   * (whose lookups are the in-memory misses)
+   */
+  getCacheStats(): ReturnType<PiiDetectionCache["getStats"]> & {
+    persistent: ReturnType<PersistentDetectionCache["getStats"]> | null;
   } {
-    return this.piiCache.getStats();
+    return {
+      ...this.piiCache.getStats(),
+      persistent: this.persistentCache?.getStats() ?? null,
+    };
   }
 
   clearCache(): void {
     this.piiCache.clear();
+    this.scanIndex?.clear();
+  }
+
+  /**
+   * Closes the persistent cache tier (on shutdown)
+   */
+  closeCache(): void {
+    this.persistentCache?.close();
   }
 
+  /**
+   * Checks the NER backend (always true for the builtin engine, which doesn't use it)
+   */
   async healthCheck(): Promise<boolean> {
-    try {
-      const response = await fetch(`${this.presidioUrl}/health`, {
-        method: "GET",
-        signal: AbortSignal.timeout(HEALTH_CHECK_TIMEOUT_MS),
-      });
-      return response.ok;
-    } catch {
-      return false;
-    }
+    if (this.engine === "builtin") return true;
+    return this.backend.healthCheck();
   }
 
   /**
-   * Wait for Presidio to be ready (for docker-compose startup order)
+   * Wait for the NER backend to be ready (for docker-compose startup order)
    */
   async waitForReady(maxRetries = 30, delayMs = 1000): Promise<boolean> {
     for (let i = 1; i <= maxRetries; i++) {
@@ -247,7 +418,7 @@ export class PIIDetector {
       if (i < maxRetries) {
         // Show initial message, then every 5 attempts
         if (i === 1) {
-          process.stdout.write("[STARTUP] Waiting for Presidio");
+          process.stdout.write(`[STARTUP] Waiting for ${this.backend.name}`);
         } else if (i % 5 === 0) {
           process.stdout.write(".");
         }
@@ -259,34 +430,10 @@ export class PIIDetector {
   }
 
   /**
-   * Test if a language is supported by trying to analyze with it
+   * Test if a language is supported by the NER backend
    */
   async isLanguageSupported(language: string): Promise<boolean> {
-    try {
-      const response = await fetch(`${this.presidioUrl}/analyze`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          text: "test",
-          language,
-          entities: ["PERSON"],
-        }),
-        signal: AbortSignal.timeout(HEALTH_CHECK_TIMEOUT_MS),
-      });
-
-      // If we get a response (even empty array), the language is supported
-      // If we get an error like "No matching recognizers", it's not supported
-      if (response.ok) {
-        return true;
-      }
-
-      const errorText = await response.text();
-      return !errorText.includes("No matching recognizers");
-    } catch {
-      return false;
-    }
+    return this.backend.isLanguageSupported(language);
   }
 
   /**
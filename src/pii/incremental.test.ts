@@ -0,0 +1,63 @@
+import { describe, expect, test } from "bun:test";
+import type { TextSpan } from "../masking/types";
+import { ConversationScanIndex, conversationPrefixHashes } from "./incremental";
+
+function span(text: string, messageIndex: number, role = "user"): TextSpan {
+  return { text, path: `messages[${messageIndex}].content`, messageIndex, partIndex: 0, role };
+}
+
+const person = [{ entity_type: "PERSON", start: 0, end: 4, score: 0.9 }];
+
+describe("conversationPrefixHashes", () => {
+  test("repeats for an unchanged prefix", () => {
+    const turn1 = [span("Hi", 0), span("Hello", 1, "assistant")];
+    const turn2 = [...turn1, span("Thanks", 2)];
+
+    const hashes1 = conversationPrefixHashes("root", turn1, ["en", "en"]);
+    const hashes2 = conversationPrefixHashes("root", turn2, ["en", "en", "en"]);
+
+    expect(hashes2.slice(0, 2)).toEqual(hashes1);
+    expect(hashes2).toHaveLength(3);
+  });
+
+  test("changes for every span after an edit, and with the root or language", () => {
+    const languages = ["en", "en"];
+    const original = conversationPrefixHashes("root", [span("Hi", 0), span("Hello", 1)], languages);
+    const edited = conversationPrefixHashes("root", [span("Hey", 0), span("Hello", 1)], languages);
+
+    expect(edited[1]).not.toBe(original[1]);
+    expect(conversationPrefixHashes("other", [span("Hi", 0)], ["en"])[0]).not.toBe(original[0]);
+    expect(conversationPrefixHashes("root", [span("Hi", 0)], ["de"])[0]).not.toBe(original[0]);
+  });
+});
+
+describe("ConversationScanIndex", () => {
+  test("returns results for the longest known prefix only", () => {
+    const index = new ConversationScanIndex(100);
+    index.store(["a", "b"], [person, []]);
+
+    expect(index.lookup(["a", "b", "c"])).toEqual([person, [], undefined]);
+    expect(index.lookup(["x", "b"])).toEqual([undefined, undefined]);
+  });
+
+  test("keeps placeholder assignments of the known prefix", () => {
+    const index = new ConversationScanIndex(100);
+    const assignment = { mapping: { "[[PERSON_1]]": "Jane" }, settings: "placeholder\0" };
+    index.store(["a", "b"], [person, []]);
+    index.storeAssignments(["a", "b", "c"], [assignment]);
+    index.store(["a", "b", "c"], [person, [], []]);
+
+    expect(index.lookupAssignments(["a", "b", "c"])).toEqual([assignment]);
+    expect(index.lookupAssignments(["x", "a"])).toEqual([]);
+  });
+
+  test("evicts the least recently stored spans beyond max_spans", () => {
+    const index = new ConversationScanIndex(2);
+    index.store(["a"], [[]]);
+    index.store(["b", "c"], [[], []]);
+
+    expect(index.size).toBe(2);
+    expect(index.lookup(["a"])).toEqual([undefined]);
+    expect(index.lookup(["b"])).toEqual([[]]);
+  });
+});
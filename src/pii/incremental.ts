@@ -0,0 +1,153 @@
+/**
+ * Incremental scanning (`pii_detection.incremental`)
+ *
+ * Coding agents resend the whole conversation on every turn. Each span gets a
+ * prefix fingerprint - a hash chained over the detector fingerprint and every
+ * span up to and including it, with its scan language - so a span's fingerprint
+ * only repeats when the entire conversation up to it is unchanged. Spans whose
+ * fingerprint was seen in an earlier request reuse that request's detection
+ * results; only the new tail is sent to the detector.
+ *
+ * Stored results are raw detector output. Deny lists, the whitelist and
+ * validation still run on every span, so list changes apply right away.
+ *
+ * Each span also keeps the placeholders it was masked with. Without a session,
+ * the next request's context is seeded with those of the reused prefix, so the
+ * history keeps its placeholders and pseudonyms (with the same nonce and salt)
+ * and new entities in the tail get the next free ones.
+ */
+
+import { createHash } from "node:crypto";
+import type { TextSpan } from "../masking/types";
+import type { PIIEntity } from "./detect";
+
+export interface IncrementalOptions {
+  enabled: boolean;
+  max_spans: number;
+}
+
+export const DEFAULT_INCREMENTAL_OPTIONS: IncrementalOptions = {
+  enabled: true,
+  max_spans: 50_000,
+};
+
+const PREFIX_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Prefix fingerprint of every span, in order
+ *
+ * @param root - Detector fingerprint; a change starts a new chain
+ * @param languages - Language each span is scanned with
+ */
+export function conversationPrefixHashes(
+  root: string,
+  spans: TextSpan[],
+  languages: string[],
+): string[] {
+  let previous = root;
+  return spans.map((span, i) => {
+    previous = createHash("sha256")
+      .update(`${previous}\0${languages[i]}\0${span.role ?? ""}\0${span.path}\0${span.text}`)
+      .digest("hex");
+    return previous;
+  });
+}
+
+/**
+ * Placeholders a span was masked with
+ */
+export interface PlaceholderAssignment {
+  /** Placeholder (or pseudonym) -> original value, for those in the masked span */
+  mapping: Record<string, string>;
+  /** Masking settings the placeholders were generated with (strategy and format) */
+  settings: string;
+  /** Placeholder format with its nonce resolved */
+  format?: string;
+  pseudonymSalt?: string;
+}
+
+interface PrefixEntry {
+  entities: PIIEntity[];
+  assignment?: PlaceholderAssignment;
+  expiresAt: number;
+}
+
+/**
+ * In-memory LRU of detection results by prefix fingerprint
+ */
+export class ConversationScanIndex {
+  private readonly entries = new Map<string, PrefixEntry>();
+
+  constructor(private readonly maxSpans: number) {}
+
+  /**
+   * Stored results for the longest known prefix
+   *
+   * @returns Entities for each leading span whose prefix was seen before,
+   *          undefined from the first new span on
+   */
+  lookup(hashes: string[]): Array<PIIEntity[] | undefined> {
+    const now = Date.now();
+    const results: Array<PIIEntity[] | undefined> = new Array(hashes.length).fill(undefined);
+
+    for (let i = 0; i < hashes.length; i++) {
+      const entry = this.entries.get(hashes[i]);
+      if (!entry || now > entry.expiresAt) break;
+      results[i] = entry.entities;
+    }
+    return results;
+  }
+
+  /**
+   * Stores (or refreshes) the results of a request's spans
+   *
+   * Placeholder assignments of known spans are kept.
+   */
+  store(hashes: string[], entities: PIIEntity[][]): void {
+    const expiresAt = Date.now() + PREFIX_TTL_MS;
+    hashes.forEach((hash, i) => {
+      const assignment = this.entries.get(hash)?.assignment;
+      // Move to end to maintain LRU order
+      this.entries.delete(hash);
+      this.entries.set(hash, { entities: entities[i], assignment, expiresAt });
+    });
+    while (this.entries.size > this.maxSpans) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  /**
+   * Placeholder assignments stored for the longest known prefix
+   *
+   * @returns Assignments of the leading spans that have one
+   */
+  lookupAssignments(hashes: string[]): PlaceholderAssignment[] {
+    const now = Date.now();
+    const assignments: PlaceholderAssignment[] = [];
+
+    for (const hash of hashes) {
+      const entry = this.entries.get(hash);
+      if (!entry || now > entry.expiresAt) break;
+      if (entry.assignment) assignments.push(entry.assignment);
+    }
+    return assignments;
+  }
+
+  /**
+   * Stores the placeholder assignments of spans whose results are stored
+   */
+  storeAssignments(hashes: string[], assignments: PlaceholderAssignment[]): void {
+    hashes.forEach((hash, i) => {
+      const entry = this.entries.get(hash);
+      if (entry && assignments[i]) entry.assignment = assignments[i];
+    });
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
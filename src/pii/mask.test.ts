@@ -6,7 +6,9 @@ import { createPIIResultFromSpans } from "../test-utils/detection-results";
 import type { PIIEntity } from "./detect";
 import {
   createMaskingContext,
+  createPrefixContext,
   flushMaskingBuffer,
+  getPlaceholderAssignments,
   mask,
   maskRequest,
   unmask,
@@ -15,12 +17,18 @@ import {
 } from "./mask";
 
 const defaultConfig: MaskingConfig = {
+  strategy: "placeholder",
+  placeholder_format: "[[{TYPE}_{N}]]",
+  fuzzy_unmask: "conservative",
   show_markers: false,
   marker_text: "[protected]",
   whitelist: [],
 };
 
 const configWithMarkers: MaskingConfig = {
+  strategy: "placeholder",
+  placeholder_format: "[[{TYPE}_{N}]]",
+  fuzzy_unmask: "conservative",
   show_markers: true,
   marker_text: "[protected]",
   whitelist: [],
@@ -158,6 +166,132 @@ describe("maskRequest with PIIDetectionResult", () => {
   });
 });
 
+describe("maskRequest with pseudonym strategy", () => {
+  test("replaces PII with fake values and restores them", () => {
+    const request = createRequest([
+      { role: "user", content: "Hi, I am John Smith (john@acme.com)" },
+    ]);
+    const detection = createPIIResultFromSpans([
+      [
+        { entity_type: "PERSON", start: 9, end: 19, score: 0.9 },
+        { entity_type: "EMAIL_ADDRESS", start: 21, end: 34, score: 1.0 },
+      ],
+    ]);
+
+    const { request: masked, context } = maskRequest(
+      request,
+      detection,
+      openaiExtractor,
+      undefined,
+      "pseudonym",
+    );
+
+    const content = masked.messages[0].content as string;
+    expect(content).not.toContain("John Smith");
+    expect(content).not.toContain("john@acme.com");
+    expect(content).not.toContain("[[");
+    expect(context.counters).toEqual({ PERSON: 1, EMAIL_ADDRESS: 1 });
+    expect(unmask(content, context, defaultConfig)).toBe("Hi, I am John Smith (john@acme.com)");
+  });
+
+  test("never picks a pseudonym that appears in the request", () => {
+    const names = "Emily James Olivia Daniel Grace Thomas Hannah Oliver Chloe Samuel Lucy";
+    const request = createRequest([{ role: "user", content: `I am John. ${names}` }]);
+    const detection = createPIIResultFromSpans([
+      [{ entity_type: "PERSON", start: 5, end: 9, score: 0.9 }],
+    ]);
+
+    const { context } = maskRequest(request, detection, openaiExtractor, undefined, "pseudonym");
+
+    const pseudonym = context.reverseMapping.John;
+    expect(pseudonym).toBeDefined();
+    expect(names.split(" ")).not.toContain(pseudonym);
+  });
+
+  test("restores pseudonyms as whole words only", () => {
+    const context = createMaskingContext();
+    context.mapping.Grace = "Alice";
+
+    expect(unmask("Graceful, Grace.", context, defaultConfig)).toBe("Graceful, Alice.");
+  });
+
+  test("falls back to placeholders for types without pseudonyms", () => {
+    const request = createRequest([{ role: "user", content: "SSN 123-45-6789" }]);
+    const detection = createPIIResultFromSpans([
+      [{ entity_type: "US_SSN", start: 4, end: 15, score: 1.0 }],
+    ]);
+
+    const { request: masked } = maskRequest(
+      request,
+      detection,
+      openaiExtractor,
+      undefined,
+      "pseudonym",
+    );
+
+    expect(masked.messages[0].content).toBe("SSN [[US_SSN_1]]");
+  });
+});
+
+describe("createPrefixContext", () => {
+  const pseudonymConfig: MaskingConfig = { ...defaultConfig, strategy: "pseudonym" };
+  const history = "Hi, I am John Smith";
+  const detection = createPIIResultFromSpans([
+    [{ entity_type: "PERSON", start: 9, end: 19, score: 0.9 }],
+  ]);
+
+  function maskHistory(config: MaskingConfig) {
+    const result = maskRequest(
+      createRequest([{ role: "user", content: history }]),
+      detection,
+      openaiExtractor,
+      createMaskingContext(config),
+      config.strategy,
+    );
+    return {
+      masked: result.request.messages[0].content as string,
+      assignments: getPlaceholderAssignments(result.maskedSpans, result.context, config),
+    };
+  }
+
+  test("keeps the pseudonyms of the history", () => {
+    const { masked, assignments } = maskHistory(pseudonymConfig);
+    const context = createPrefixContext(assignments, pseudonymConfig, [history, "Thanks"]);
+
+    const { request } = maskRequest(
+      createRequest([
+        { role: "user", content: history },
+        { role: "user", content: "Thanks" },
+      ]),
+      createPIIResultFromSpans([[{ entity_type: "PERSON", start: 9, end: 19, score: 0.9 }], []]),
+      openaiExtractor,
+      context,
+      "pseudonym",
+    );
+
+    expect(request.messages[0].content).toBe(masked);
+    expect(context.pseudonymSalt).toBe(assignments[0].pseudonymSalt);
+  });
+
+  test("drops stored placeholders that appear literally in the request", () => {
+    const { assignments } = maskHistory(defaultConfig);
+    const context = createPrefixContext(assignments, defaultConfig, [
+      history,
+      "Who is [[PERSON_1]]?",
+    ]);
+
+    expect(context.mapping).toEqual({});
+    expect(context.reverseMapping).toEqual({});
+  });
+
+  test("ignores assignments made with other masking settings", () => {
+    const { assignments } = maskHistory(defaultConfig);
+    const context = createPrefixContext(assignments, pseudonymConfig, [history]);
+
+    expect(context.mapping).toEqual({});
+  });
+});
+
 describe("streaming with PII placeholders", () => {
   test("buffers partial [[TYPE placeholder", () => {
     const context = createMaskingContext();
@@ -196,6 +330,35 @@ describe("streaming with PII placeholders", () => {
     const flushed = flushMaskingBuffer("[[EMAIL_ADD", context, defaultConfig);
     expect(flushed).toBe("[[EMAIL_ADD");
   });
+
+  test("restores a pseudonym split across chunks", () => {
+    const context = createMaskingContext();
+    context.mapping["Emily Whitfield"] = "John Smith";
+
+    const first = unmaskStreamChunk("", "Dear Emily Whit", context, defaultConfig);
+    expect(first.output).toBe("Dear ");
+    expect(first.remainingBuffer).toBe("Emily Whit");
+
+    const second = unmaskStreamChunk(
+      first.remainingBuffer,
+      "field, thanks",
+      context,
+      defaultConfig,
+    );
+    expect(second.output).toBe("John Smith, thanks");
+    expect(second.remainingBuffer).toBe("");
+  });
+
+  test("holds a complete pseudonym until the word ends", () => {
+    const context = createMaskingContext();
+    context.mapping.Grace = "Alice";
+
+    const first = unmaskStreamChunk("", "Hi Grace", context, defaultConfig);
+    expect(first.output).toBe("Hi ");
+
+    const second = unmaskStreamChunk(first.remainingBuffer, "ful day", context, defaultConfig);
+    expect(second.output).toBe("Graceful day");
+  });
 });
 
 describe("PII conflict resolution", () => {
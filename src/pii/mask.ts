@@ -2,14 +2,20 @@
  * PII masking
  */
 
-import type { MaskingConfig } from "../config";
+import type { MaskingConfig, MaskingStrategy } from "../config";
 import { resolveConflicts } from "../masking/conflict-resolver";
-import { incrementAndGenerate } from "../masking/context";
 import {
-  generatePlaceholder as generatePlaceholderFromFormat,
-  PII_PLACEHOLDER_FORMAT,
-} from "../masking/placeholders";
+  addMappings,
+  createPlaceholderContext,
+  findMappedPlaceholders,
+  getPlaceholderFormat,
+  incrementAndGenerate,
+  unmapLiteralPlaceholders,
+} from "../masking/context";
+import { generatePlaceholder as generatePlaceholderFromFormat } from "../masking/placeholders";
+import { createPseudonymSalt, generatePseudonym } from "../masking/pseudonyms";
 import {
+  createMaskingContext,
   flushMaskingBuffer as flushBuffer,
   type MaskSpansResult,
   maskSpans,
@@ -17,8 +23,9 @@ import {
   unmaskStreamChunk as unmaskChunk,
   unmask as unmaskText,
 } from "../masking/service";
-import type { RequestExtractor, TextSpan } from "../masking/types";
+import type { MaskedSpan, RequestExtractor, TextSpan } from "../masking/types";
 import type { PIIDetectionResult, PIIEntity } from "./detect";
+import type { PlaceholderAssignment } from "./incremental";
 
 export { createMaskingContext, type PlaceholderContext } from "../masking/service";
 
@@ -34,11 +41,47 @@ export interface MaskResult {
  * Generates a placeholder for a PII entity type
  */
 function generatePlaceholder(entityType: string, context: PlaceholderContext): string {
+  const { template } = getPlaceholderFormat(context);
   return incrementAndGenerate(entityType, context, (type, count) =>
-    generatePlaceholderFromFormat(PII_PLACEHOLDER_FORMAT, type, count),
+    generatePlaceholderFromFormat(template, type, count),
   );
 }
 
+/**
+ * Returns the replacement generator for a masking strategy
+ *
+ * Pseudonyms fall back to placeholders for entity types without a generator.
+ * A pseudonym must not match another replacement or an original value, or
+ * appear anywhere in the request (in any letter case), otherwise unmasking
+ * would rewrite text the user wrote.
+ */
+function getPlaceholderGenerator(
+  strategy: MaskingStrategy,
+  language: string,
+  texts: string[],
+): (entityType: string, context: PlaceholderContext, original: string) => string {
+  if (strategy !== "pseudonym") return generatePlaceholder;
+
+  const input = texts.join("\n").toLowerCase();
+  return (entityType, context, original) => {
+    context.pseudonymSalt ??= createPseudonymSalt();
+    const pseudonym = generatePseudonym(
+      entityType,
+      original,
+      language,
+      context.pseudonymSalt,
+      (candidate) =>
+        candidate in context.mapping ||
+        candidate in context.reverseMapping ||
+        input.includes(candidate.toLowerCase()),
+    );
+    if (!pseudonym) return generatePlaceholder(entityType, context);
+
+    context.counters[entityType] = (context.counters[entityType] || 0) + 1;
+    return pseudonym;
+  };
+}
+
 /**
  * Creates formatValue function from masking config
  */
@@ -110,21 +153,31 @@ export interface MaskRequestResult<TRequest> {
   request: TRequest;
   /** Masking context for unmasking response */
   context: PlaceholderContext;
+  /** Every span after masking, in extraction order */
+  maskedSpans: MaskedSpan[];
 }
 
 /**
  * Masks PII in a request using an extractor
+ *
+ * With the pseudonym strategy, fake values match the detected request language.
  */
 export function maskRequest<TRequest, TResponse>(
   request: TRequest,
   detection: PIIDetectionResult,
   extractor: RequestExtractor<TRequest, TResponse>,
   existingContext?: PlaceholderContext,
+  strategy: MaskingStrategy = "placeholder",
 ): MaskRequestResult<TRequest> {
   const spans = extractor.extractTexts(request);
   const { maskedSpans, context } = maskSpansWithEntities(
     spans,
     detection.spanEntities,
+    getPlaceholderGenerator(
+      strategy,
+      detection.language,
+      spans.map((span) => span.text),
+    ),
     existingContext,
   );
 
@@ -135,19 +188,84 @@ export function maskRequest<TRequest, TResponse>(
   });
 
   const maskedRequest = extractor.applyMasked(request, changedSpans);
-  return { request: maskedRequest, context };
+  return { request: maskedRequest, context, maskedSpans };
+}
+
+type AssignmentSettings = Pick<MaskingConfig, "strategy" | "placeholder_format" | "fuzzy_unmask">;
+
+function settingsKey(masking: AssignmentSettings): string {
+  return `${masking.strategy}\0${masking.placeholder_format ?? ""}`;
+}
+
+/**
+ * Creates a masking context seeded with the placeholder assignments stored for
+ * a reused conversation prefix (see pii/incremental)
+ *
+ * Assignments made under other masking settings are ignored. A stored
+ * placeholder or pseudonym that appears literally in the request is dropped,
+ * like on session load, so unmasking can't put its value into the response.
+ *
+ * @param texts - Texts of the request's spans
+ */
+export function createPrefixContext(
+  assignments: PlaceholderAssignment[],
+  masking: AssignmentSettings,
+  texts: string[],
+): PlaceholderContext {
+  const usable = assignments.filter((assignment) => assignment.settings === settingsKey(masking));
+  if (usable.length === 0) return createMaskingContext(masking);
+
+  const { format, pseudonymSalt } = usable[0];
+  const context = createPlaceholderContext({
+    placeholderFormat: format,
+    fuzzy: masking.fuzzy_unmask,
+  });
+  if (pseudonymSalt) context.pseudonymSalt = pseudonymSalt;
+
+  const input = texts.join("\n").toLowerCase();
+  for (const assignment of usable) {
+    if (assignment.format !== format || assignment.pseudonymSalt !== pseudonymSalt) continue;
+    addMappings(
+      context,
+      Object.fromEntries(
+        Object.entries(assignment.mapping).filter(
+          ([placeholder]) => !input.includes(placeholder.toLowerCase()),
+        ),
+      ),
+    );
+  }
+  unmapLiteralPlaceholders(texts, context);
+  return context;
+}
+
+/**
+ * Placeholder assignments of each span of a masked request, for storing with
+ * its prefix fingerprints
+ */
+export function getPlaceholderAssignments(
+  maskedSpans: MaskedSpan[],
+  context: PlaceholderContext,
+  masking: AssignmentSettings,
+): PlaceholderAssignment[] {
+  return maskedSpans.map((span) => ({
+    mapping: findMappedPlaceholders(span.maskedText, context),
+    settings: settingsKey(masking),
+    format: context.format?.template,
+    pseudonymSalt: context.pseudonymSalt,
+  }));
 }
 
 function maskSpansWithEntities(
   spans: TextSpan[],
   spanEntities: PIIEntity[][],
+  generate: (entityType: string, context: PlaceholderContext, original: string) => string,
   existingContext?: PlaceholderContext,
 ): MaskSpansResult {
   return maskSpans(
     spans,
     spanEntities,
     (e) => e.entity_type,
-    generatePlaceholder,
+    generate,
     resolveConflicts,
     existingContext,
   );
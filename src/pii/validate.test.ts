@@ -0,0 +1,118 @@
+import { describe, expect, test } from "bun:test";
+import type { PIIEntity } from "./detect";
+import {
+  isPlausiblePhoneNumber,
+  isValidCreditCard,
+  isValidIban,
+  mergeRejected,
+  validateEntities,
+} from "./validate";
+
+describe("isValidCreditCard", () => {
+  test.each([
+    "4111111111111111",
+    "4111 1111 1111 1111",
+    "5500-0000-0000-0004",
+    "378282246310005",
+  ])("accepts %s", (value) => {
+    expect(isValidCreditCard(value)).toBe(true);
+  });
+
+  test.each([
+    ["failed Luhn check", "4111 1111 1111 1112"],
+    ["order number", "1234 5678 9012 3456"],
+    ["too short", "4111 1111 11"],
+    ["letters", "4111-1111-1111-111A"],
+  ])("rejects %s", (_, value) => {
+    expect(isValidCreditCard(value)).toBe(false);
+  });
+});
+
+describe("isValidIban", () => {
+  test.each([
+    "DE89370400440532013000",
+    "DE89 3704 0044 0532 0130 00",
+    "gb82 west 1234 5698 7654 32",
+  ])("accepts %s", (value) => {
+    expect(isValidIban(value)).toBe(true);
+  });
+
+  test.each([
+    ["wrong check digits", "DE88370400440532013000"],
+    ["no country code", "8937040044053201300012"],
+    ["too short", "DE8937040044"],
+  ])("rejects %s", (_, value) => {
+    expect(isValidIban(value)).toBe(false);
+  });
+});
+
+describe("isPlausiblePhoneNumber", () => {
+  test.each([
+    "+1 (555) 123-4567",
+    "030 12345678",
+    "+49 30 1234567",
+    "555.123.4567",
+    "0171/1234567",
+  ])("accepts %s", (value) => {
+    expect(isPlausiblePhoneNumber(value)).toBe(true);
+  });
+
+  test.each([
+    ["version string", "10.0.19045.2364"],
+    ["IP address", "192.168.1.1"],
+    ["ISO date", "2024-01-31"],
+    ["dotted date", "31.01.2024"],
+    ["too few digits", "12-34"],
+    ["too many digits", "1234567890123456"],
+    ["repeated digits", "0000000000"],
+    ["country code starting with 0", "+0 555 123 4567"],
+    ["letters", "555-CALL-NOW"],
+  ])("rejects %s", (_, value) => {
+    expect(isPlausiblePhoneNumber(value)).toBe(false);
+  });
+});
+
+describe("validateEntities", () => {
+  const text = "Call 192.168.1.1 or +1 555 123 4567, card 4111 1111 1111 1112, John";
+  const entities: PIIEntity[] = [
+    { entity_type: "PHONE_NUMBER", start: 5, end: 16, score: 0.7 },
+    { entity_type: "PHONE_NUMBER", start: 20, end: 35, score: 0.7 },
+    { entity_type: "CREDIT_CARD", start: 42, end: 61, score: 0.9 },
+    { entity_type: "PERSON", start: 63, end: 67, score: 0.9 },
+  ];
+
+  test("removes invalid entities and counts rejections per type", () => {
+    const result = validateEntities(text, entities);
+
+    expect(result.entities.map((e) => text.slice(e.start, e.end))).toEqual([
+      "+1 555 123 4567",
+      "John",
+    ]);
+    expect(result.rejected).toEqual({ PHONE_NUMBER: 1, CREDIT_CARD: 1 });
+  });
+
+  test("skips validation for disabled entity types", () => {
+    const result = validateEntities(text, entities, { CREDIT_CARD: false });
+
+    expect(result.entities.map((e) => e.entity_type)).toContain("CREDIT_CARD");
+    expect(result.rejected).toEqual({ PHONE_NUMBER: 1 });
+  });
+
+  test("keeps entity types without a validator", () => {
+    const result = validateEntities("John", [
+      { entity_type: "PERSON", start: 0, end: 4, score: 0.9 },
+    ]);
+
+    expect(result.entities).toHaveLength(1);
+    expect(result.rejected).toEqual({});
+  });
+});
+
+describe("mergeRejected", () => {
+  test("adds counts per type", () => {
+    expect(mergeRejected({ CREDIT_CARD: 1 }, { CREDIT_CARD: 2, IBAN_CODE: 1 })).toEqual({
+      CREDIT_CARD: 3,
+      IBAN_CODE: 1,
+    });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Post-detection validation - drops Presidio hits that fail a checksum or plausibility check
+ *
+ * Presidio scores pattern matches without always verifying them, so order
+ * numbers show up as CREDIT_CARD and version strings as PHONE_NUMBER. Each
+ * validator receives the detected text and returns false to reject it.
+ *
+ * - CREDIT_CARD: 12-19 digits (spaces and dashes allowed), valid Luhn check digit
+ * - IBAN_CODE: country code, check digits and BBAN with valid mod-97 check digits
+ * - PHONE_NUMBER: 7-15 digits (E.164), no dates, version strings, IP addresses or repeated digits
+ */
+
+import { ibanCheckDigits, luhnCheckDigit } from "../utils/checksums";
+import type { PIIEntity } from "./detect";
+
+export type PIIValidator = (value: string) => boolean;
+
+export function isValidCreditCard(value: string): boolean {
+  if (!/^\d[\d -]*\d$/.test(value.trim())) return false;
+  const digits = value.replace(/\D/g, "");
+  if (digits.length < 12 || digits.length > 19) return false;
+  return luhnCheckDigit(digits.slice(0, -1)) === digits[digits.length - 1];
+}
+
+export function isValidIban(value: string): boolean {
+  const compact = value.replace(/\s/g, "").toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(compact)) return false;
+  return ibanCheckDigits(compact.slice(0, 2), compact.slice(4)) === compact.slice(2, 4);
+}
+
+export function isPlausiblePhoneNumber(value: string): boolean {
+  const trimmed = value.trim();
+  if (!/^\+?[\d\s().\-/]+$/.test(trimmed)) return false;
+
+  const digits = trimmed.replace(/\D/g, "");
+  // E.164 allows at most 15 digits; shorter numbers are local extensions at best
+  if (digits.length < 7 || digits.length > 15) return false;
+  // Country codes never start with 0
+  if (trimmed.startsWith("+") && digits.startsWith("0")) return false;
+  if (/^(\d)\1+$/.test(digits)) return false;
+
+  // Dates: 2024-01-31, 31.01.2024, 01/31/2024
+  if (/^\d{4}[-./]\d{1,2}[-./]\d{1,2}$/.test(trimmed)) return false;
+  if (/^\d{1,2}[-./]\d{1,2}[-./]\d{2,4}$/.test(trimmed)) return false;
+
+  // Version strings and IPv4 addresses: dotted groups with a one-digit group (1.2.3, 10.0.19045.2364)
+  if (/^\d+(?:\.\d+)+$/.test(trimmed) && trimmed.split(".").some((group) => group.length === 1)) {
+    return false;
+  }
+
+  return true;
+}
+
+/** Validators by Presidio entity type */
+export const PII_VALIDATORS: Record<string, PIIValidator> = {
+  CREDIT_CARD: isValidCreditCard,
+  IBAN_CODE: isValidIban,
+  PHONE_NUMBER: isPlausiblePhoneNumber,
+};
+
+export interface PIIValidationResult {
+  entities: PIIEntity[];
+  /** Rejected entity count per entity type (only types with rejections) */
+  rejected: Record<string, number>;
+}
+
+/**
+ * Removes entities that fail their validator
+ *
+ * @param enabled - Per-entity switch (`pii_detection.validation`); types without an entry are validated
+ */
+export function validateEntities(
+  text: string,
+  entities: PIIEntity[],
+  enabled: Record<string, boolean> = {},
+): PIIValidationResult {
+  const rejected: Record<string, number> = {};
+
+  const valid = entities.filter((entity) => {
+    const validator = PII_VALIDATORS[entity.entity_type];
+    if (!validator || enabled[entity.entity_type] === false) return true;
+    if (validator(text.slice(entity.start, entity.end))) return true;
+    rejected[entity.entity_type] = (rejected[entity.entity_type] ?? 0) + 1;
+    return false;
+  });
+
+  return { entities: valid, rejected };
+}
+
+/**
+ * Adds per-type rejection counts into a running total
+ */
+export function mergeRejected(
+  total: Record<string, number>,
+  rejected: Record<string, number>,
+): Record<string, number> {
+  for (const [type, count] of Object.entries(rejected)) {
+    total[type] = (total[type] ?? 0) + count;
+  }
+  return total;
+}
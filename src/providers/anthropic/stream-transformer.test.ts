@@ -4,6 +4,9 @@ import { createMaskingContext } from "../../pii/mask";
 import { createAnthropicUnmaskingStream } from "./stream-transformer";
 
 const defaultConfig: MaskingConfig = {
+  strategy: "placeholder",
+  placeholder_format: "[[{TYPE}_{N}]]",
+  fuzzy_unmask: "conservative",
   show_markers: false,
   marker_text: "[protected]",
   whitelist: [],
@@ -278,6 +281,82 @@ describe("createAnthropicUnmaskingStream", () => {
     expect(result).toContain("value");
   });
 
+  test("unmasks placeholders in input_json_delta split across chunks", async () => {
+    const context = createMaskingContext();
+    context.mapping["[[PERSON_1]]"] = 'John "JD" Doe';
+
+    const jsonDelta = (partial_json: string) =>
+      createAnthropicEvent("content_block_delta", {
+        type: "content_block_delta",
+        index: 1,
+        delta: { type: "input_json_delta", partial_json },
+      });
+    const source = createSSEStream([
+      jsonDelta('{"name": "[[PER'),
+      jsonDelta('SON_1]]"}'),
+      createAnthropicEvent("content_block_stop", { type: "content_block_stop", index: 1 }),
+    ]);
+
+    const unmaskedStream = createAnthropicUnmaskingStream(source, context, defaultConfig);
+    const result = await consumeStream(unmaskedStream);
+
+    const partials = [...result.matchAll(/^data: (.*)$/gm)]
+      .map((m) => JSON.parse(m[1]))
+      .filter((e) => e.delta?.type === "input_json_delta")
+      .map((e) => e.delta.partial_json as string);
+    expect(JSON.parse(partials.join(""))).toEqual({ name: 'John "JD" Doe' });
+  });
+
+  test("drops the separator of fully buffered input_json_delta events", async () => {
+    const context = createMaskingContext();
+    context.mapping["[[PERSON_1]]"] = "Bob";
+
+    const jsonDelta = (partial_json: string) =>
+      createAnthropicEvent("content_block_delta", {
+        type: "content_block_delta",
+        index: 1,
+        delta: { type: "input_json_delta", partial_json },
+      });
+    const source = createSSEStream([
+      createTextDelta("Looking up"),
+      jsonDelta(""),
+      jsonDelta('{"name": "[[PER'),
+      jsonDelta('SON_1]]"}'),
+      createAnthropicEvent("content_block_stop", { type: "content_block_stop", index: 1 }),
+    ]);
+
+    const result = await consumeStream(
+      createAnthropicUnmaskingStream(source, context, defaultConfig),
+    );
+
+    expect(result).toContain("Bob");
+    expect(result).not.toContain("\n\n\n");
+    expect(result.split("\n\n").filter((frame) => frame.trim() === "")).toEqual([""]);
+  });
+
+  test("flushes buffered tool input before content_block_stop", async () => {
+    const context = createMaskingContext();
+    context.mapping["[[PERSON_1]]"] = "Bob";
+
+    const source = createSSEStream([
+      createAnthropicEvent("content_block_delta", {
+        type: "content_block_delta",
+        index: 0,
+        delta: { type: "input_json_delta", partial_json: '{"matrix": [[1' },
+      }),
+      createAnthropicEvent("content_block_stop", { type: "content_block_stop", index: 0 }),
+    ]);
+
+    const unmaskedStream = createAnthropicUnmaskingStream(source, context, defaultConfig);
+    const result = await consumeStream(unmaskedStream);
+
+    const deltaPos = result.indexOf("[[1");
+    const stopPos = result.indexOf('"type":"content_block_stop"');
+    expect(deltaPos).toBeGreaterThan(-1);
+    expect(deltaPos).toBeLessThan(stopPos);
+    expect(result).toContain("event: content_block_delta\ndata:");
+  });
+
   test("handles content_block_stop events", async () => {
     const context = createMaskingContext();
 
@@ -6,14 +6,16 @@
  * - data: {...}
  *
  * Text content comes in content_block_delta events with delta.type === "text_delta"
+ * Tool inputs come in content_block_delta events with delta.type === "input_json_delta"
  */
 
 import type { MaskingConfig } from "../../config";
 import type { PlaceholderContext } from "../../masking/context";
+import { createToolArgumentsStreamUnmasker } from "../../masking/tool-arguments";
 import { flushMaskingBuffer, unmaskStreamChunk } from "../../pii/mask";
 import { flushSecretsMaskingBuffer, unmaskSecretsStreamChunk } from "../../secrets/mask";
 import type { TokenUsage } from "../../services/logger";
-import type { ContentBlockDeltaEvent, TextDelta } from "./types";
+import type { ContentBlockDeltaEvent, InputJsonDelta, TextDelta } from "./types";
 
 // Module-level encoder — stateless, safe to share across all concurrent streams
 const encoder = new TextEncoder();
@@ -32,18 +34,44 @@ export function createAnthropicUnmaskingStream(
   let piiBuffer = "";
   let secretsBuffer = "";
   let lineBuffer = "";
+  // Event type lines are held until their data line is processed, so extra
+  // events (flushed tool input) can be emitted as complete frames before it
+  let pendingEventLine = "";
+  // Set when an event is dropped (fully buffered delta), so its blank separator line goes too
+  let dropSeparator = false;
   // Accumulate token counts across message_start and message_delta events
   const accumulatedTokens: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+  const toolUnmasker = createToolArgumentsStreamUnmasker(
+    [piiContext, secretsContext].filter((ctx): ctx is PlaceholderContext => !!ctx),
+  );
+
+  const inputJsonEvent = (index: number, partialJson: string): string => {
+    const event: ContentBlockDeltaEvent = {
+      type: "content_block_delta",
+      index,
+      delta: { type: "input_json_delta", partial_json: partialJson },
+    };
+    return `event: content_block_delta\ndata: ${JSON.stringify(event)}\n\n`;
+  };
 
   return new ReadableStream({
     async start(controller) {
       const reader = source.getReader();
 
+      const emitPendingEventLine = () => {
+        if (pendingEventLine) {
+          controller.enqueue(encoder.encode(`${pendingEventLine}\n`));
+          pendingEventLine = "";
+        }
+      };
+
       try {
         while (true) {
           const { done, value } = await reader.read();
 
           if (done) {
+            emitPendingEventLine();
+
             // Fire token usage callback with accumulated data
             if (
               onUsage &&
@@ -56,6 +84,11 @@ export function createAnthropicUnmaskingStream(
               }
             }
 
+            // Flush tool inputs whose blocks never saw a content_block_stop
+            for (const index of toolUnmasker.pendingKeys()) {
+              controller.enqueue(encoder.encode(inputJsonEvent(index, toolUnmasker.flush(index))));
+            }
+
             // Flush remaining buffers
             let flushed = "";
 
@@ -94,9 +127,11 @@ export function createAnthropicUnmaskingStream(
           lineBuffer = lines.pop() || "";
 
           for (const line of lines) {
-            // Pass through event type lines
+            // Hold event type lines until the matching data line is handled
             if (line.startsWith("event: ")) {
-              controller.enqueue(encoder.encode(`${line}\n`));
+              dropSeparator = false;
+              emitPendingEventLine();
+              pendingEventLine = line;
               continue;
             }
 
@@ -104,11 +139,14 @@ export function createAnthropicUnmaskingStream(
             if (line.startsWith("data: ")) {
               const data = line.slice(6);
 
-              // Skip full parse for events that can't contain text content or token usage
+              // Skip full parse for events that can't contain text content, tool input or token usage
               if (
                 !data.includes('"text_delta"') &&
+                !data.includes('"input_json_delta"') &&
+                !data.includes('"content_block_stop"') &&
                 !(onUsage && (data.includes('"message_start"') || data.includes('"message_delta"')))
               ) {
+                emitPendingEventLine();
                 controller.enqueue(encoder.encode(`data: ${data}\n`));
                 continue;
               }
@@ -116,6 +154,7 @@ export function createAnthropicUnmaskingStream(
               try {
                 const parsed = JSON.parse(data) as {
                   type: string;
+                  index?: number;
                   delta?: { type: string };
                   message?: {
                     usage?: {
@@ -137,6 +176,7 @@ export function createAnthropicUnmaskingStream(
                   if (u.cache_read_input_tokens != null) {
                     accumulatedTokens.cacheReadInputTokens = u.cache_read_input_tokens;
                   }
+                  emitPendingEventLine();
                   controller.enqueue(encoder.encode(`data: ${data}\n`));
                   continue;
                 }
@@ -144,6 +184,41 @@ export function createAnthropicUnmaskingStream(
                 // Extract output tokens from message_delta event
                 if (onUsage && parsed.type === "message_delta" && parsed.usage) {
                   accumulatedTokens.completionTokens = parsed.usage.output_tokens ?? 0;
+                  emitPendingEventLine();
+                  controller.enqueue(encoder.encode(`data: ${data}\n`));
+                  continue;
+                }
+
+                // Unmask tool input fragments (raw JSON text)
+                if (
+                  parsed.type === "content_block_delta" &&
+                  parsed.delta?.type === "input_json_delta"
+                ) {
+                  const jsonDelta = parsed.delta as InputJsonDelta;
+                  const output = toolUnmasker.push(parsed.index ?? 0, jsonDelta.partial_json);
+                  if (output) {
+                    const modifiedEvent = {
+                      ...parsed,
+                      delta: { ...jsonDelta, partial_json: output },
+                    };
+                    emitPendingEventLine();
+                    controller.enqueue(encoder.encode(`data: ${JSON.stringify(modifiedEvent)}\n`));
+                  } else {
+                    pendingEventLine = "";
+                    dropSeparator = true;
+                  }
+                  continue;
+                }
+
+                // Emit buffered tool input before its block closes
+                if (parsed.type === "content_block_stop") {
+                  const flushedJson = toolUnmasker.flush(parsed.index ?? 0);
+                  if (flushedJson) {
+                    controller.enqueue(
+                      encoder.encode(inputJsonEvent(parsed.index ?? 0, flushedJson)),
+                    );
+                  }
+                  emitPendingEventLine();
                   controller.enqueue(encoder.encode(`data: ${data}\n`));
                   continue;
                 }
@@ -183,21 +258,33 @@ export function createAnthropicUnmaskingStream(
                       ...parsed,
                       delta: { ...textDelta, text: processedText },
                     };
+                    emitPendingEventLine();
                     controller.enqueue(encoder.encode(`data: ${JSON.stringify(modifiedEvent)}\n`));
+                  } else {
+                    pendingEventLine = "";
+                    dropSeparator = true;
                   }
                 } else {
                   // Pass through other events unchanged
+                  emitPendingEventLine();
                   controller.enqueue(encoder.encode(`data: ${data}\n`));
                 }
               } catch {
                 // Pass through unparseable data
+                emitPendingEventLine();
                 controller.enqueue(encoder.encode(`${line}\n`));
               }
               continue;
             }
 
+            emitPendingEventLine();
+
             // Pass through empty lines and other content
             if (line.trim() === "") {
+              if (dropSeparator) {
+                dropSeparator = false;
+                continue;
+              }
               controller.enqueue(encoder.encode("\n"));
             } else {
               controller.enqueue(encoder.encode(`${line}\n`));
@@ -141,10 +141,15 @@ export const TextDeltaSchema = z.object({
   text: z.string(),
 });
 
+export const InputJsonDeltaSchema = z.object({
+  type: z.literal("input_json_delta"),
+  partial_json: z.string(),
+});
+
 export const ContentBlockDeltaEventSchema = z.object({
   type: z.literal("content_block_delta"),
   index: z.number(),
-  delta: TextDeltaSchema,
+  delta: z.union([TextDeltaSchema, InputJsonDeltaSchema]),
 });
 
 // Inferred types
@@ -160,4 +165,5 @@ export type Tool = z.infer<typeof ToolSchema>;
 export type AnthropicRequest = z.infer<typeof AnthropicRequestSchema>;
 export type AnthropicResponse = z.infer<typeof AnthropicResponseSchema>;
 export type TextDelta = z.infer<typeof TextDeltaSchema>;
+export type InputJsonDelta = z.infer<typeof InputJsonDeltaSchema>;
 export type ContentBlockDeltaEvent = z.infer<typeof ContentBlockDeltaEventSchema>;
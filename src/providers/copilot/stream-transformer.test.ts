@@ -4,6 +4,9 @@ import { createMaskingContext } from "../../pii/mask";
 import { createCompletionUnmaskingStream } from "./stream-transformer";
 
 const defaultConfig: MaskingConfig = {
+  strategy: "placeholder",
+  placeholder_format: "[[{TYPE}_{N}]]",
+  fuzzy_unmask: "conservative",
   show_markers: false,
   marker_text: "[protected]",
   whitelist: [],
@@ -0,0 +1,126 @@
+import { describe, expect, test } from "bun:test";
+import type { RetryConfig } from "../config";
+import { ProviderError } from "./errors";
+import {
+  callWithFailover,
+  type FailedAttempt,
+  formatFailedAttempts,
+  getRetryDelay,
+  isRetryableError,
+} from "./failover";
+
+const retry: RetryConfig = {
+  max_retries: 2,
+  initial_delay_ms: 0,
+  max_delay_ms: 0,
+  statuses: [429, 500, 502, 503, 504],
+};
+
+/** Candidate that fails with the given errors, then returns its name */
+function candidate(name: string, errors: unknown[] = []) {
+  let calls = 0;
+  return {
+    name,
+    get calls() {
+      return calls;
+    },
+    call: async () => {
+      calls++;
+      if (calls <= errors.length) throw errors[calls - 1];
+      return name;
+    },
+  };
+}
+
+const unavailable = () => new ProviderError(503, "Service Unavailable", "");
+
+/** Network error like the ones fetch rejects with */
+const fetchFailed = () => Object.assign(new TypeError("fetch failed"), { code: "ECONNREFUSED" });
+
+describe("isRetryableError", () => {
+  test("retries configured statuses, network errors, timeouts and aborts", () => {
+    const timeout = new DOMException("The operation timed out.", "TimeoutError");
+
+    expect(isRetryableError(unavailable(), retry.statuses)).toBe(true);
+    expect(isRetryableError(fetchFailed(), retry.statuses)).toBe(true);
+    expect(isRetryableError(timeout, retry.statuses)).toBe(true);
+    expect(isRetryableError(new DOMException("aborted", "AbortError"), retry.statuses)).toBe(true);
+  });
+
+  test("rethrows other errors", () => {
+    expect(isRetryableError(new ProviderError(400, "Bad Request", ""), retry.statuses)).toBe(false);
+    expect(isRetryableError(new Error("Model is required in request"), retry.statuses)).toBe(false);
+    expect(isRetryableError(new TypeError("x is not a function"), retry.statuses)).toBe(false);
+    expect(isRetryableError("failed", retry.statuses)).toBe(false);
+  });
+});
+
+describe("getRetryDelay", () => {
+  test("doubles per retry up to max_delay_ms", () => {
+    const config = { ...retry, initial_delay_ms: 500, max_delay_ms: 3000 };
+
+    expect([1, 2, 3, 4].map((n) => getRetryDelay(n, config))).toEqual([500, 1000, 2000, 3000]);
+  });
+});
+
+describe("callWithFailover", () => {
+  test("retries the same provider before succeeding", async () => {
+    const openai = candidate("openai", [unavailable(), fetchFailed()]);
+    const failed: FailedAttempt[] = [];
+
+    const { result, provider } = await callWithFailover([openai], retry, failed);
+
+    expect(result).toBe("openai");
+    expect(provider).toBe("openai");
+    expect(openai.calls).toBe(3);
+    expect(formatFailedAttempts(failed)).toBe("openai: 503; openai: fetch failed");
+  });
+
+  test("falls back once retries are exhausted", async () => {
+    const azure = candidate("azure", [unavailable(), unavailable(), unavailable()]);
+    const openai = candidate("openai", [unavailable()]);
+    const local = candidate("local");
+    const failed: FailedAttempt[] = [];
+
+    const { provider } = await callWithFailover([azure, openai, local], retry, failed);
+
+    expect(provider).toBe("openai");
+    expect(local.calls).toBe(0);
+    expect(failed.map((a) => a.provider)).toEqual(["azure", "azure", "azure", "openai"]);
+  });
+
+  test("throws non-retryable errors without trying fallbacks", async () => {
+    const error = new ProviderError(401, "Unauthorized", "");
+    const openai = candidate("openai", [error]);
+    const local = candidate("local");
+    const failed: FailedAttempt[] = [];
+
+    await expect(callWithFailover([openai, local], retry, failed)).rejects.toBe(error);
+    expect(openai.calls).toBe(1);
+    expect(local.calls).toBe(0);
+    expect(failed).toEqual([{ provider: "openai", error: 401 }]);
+  });
+
+  test("throws unexpected errors without retrying", async () => {
+    const error = new Error("No response body for streaming request");
+    const openai = candidate("openai", [error]);
+    const local = candidate("local");
+    const failed: FailedAttempt[] = [];
+
+    await expect(callWithFailover([openai, local], retry, failed)).rejects.toBe(error);
+    expect(openai.calls).toBe(1);
+    expect(local.calls).toBe(0);
+  });
+
+  test("throws the last error when every provider fails", async () => {
+    const last = new ProviderError(502, "Bad Gateway", "");
+    const openai = candidate("openai", [unavailable()]);
+    const local = candidate("local", [last]);
+    const failed: FailedAttempt[] = [];
+
+    await expect(
+      callWithFailover([openai, local], { ...retry, max_retries: 0 }, failed),
+    ).rejects.toBe(last);
+    expect(failed.at(-1)).toEqual({ provider: "local", error: 502 });
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Provider failover - retries with exponential backoff, then fallback providers
+ *
+ * Provider calls resolve as soon as response headers arrive, so every failure
+ * seen here happened before anything was sent to the client and the call can
+ * be repeated with the same (already masked) request.
+ */
+
+import type { RetryConfig } from "../config";
+import { ProviderError } from "./errors";
+
+/**
+ * One provider in a failover chain
+ */
+export interface ProviderCandidate<T> {
+  /** Provider name for logs and X-PasteGuard-Provider */
+  name: string;
+  call: () => Promise<T>;
+}
+
+/**
+ * A failed provider call
+ */
+export interface FailedAttempt {
+  provider: string;
+  /** HTTP status, or the error message for network errors and timeouts */
+  error: number | string;
+}
+
+/**
+ * Whether a failed call is worth repeating
+ *
+ * Provider errors count when their status is in retry.statuses. Network errors
+ * (connection refused, reset, DNS), timeouts and aborts always do. Anything
+ * else is a bug or a bad request and would fail the same way again.
+ */
+export function isRetryableError(error: unknown, statuses: number[]): boolean {
+  if (error instanceof ProviderError) return statuses.includes(error.status);
+  if (!(error instanceof Error)) return false;
+  if (error.name === "TimeoutError" || error.name === "AbortError") return true;
+  // fetch rejects with a TypeError carrying a system error code or cause
+  return error instanceof TypeError && ("code" in error || error.cause !== undefined);
+}
+
+/**
+ * Delay before the given retry (1-based): initial_delay_ms doubled per retry, capped
+ */
+export function getRetryDelay(retry: number, config: RetryConfig): number {
+  return Math.min(config.initial_delay_ms * 2 ** (retry - 1), config.max_delay_ms);
+}
+
+/**
+ * Calls the candidates in order until one succeeds
+ *
+ * Each candidate is retried up to retry.max_retries times. Errors that aren't
+ * retryable (e.g. 400, 401) are thrown right away, since another provider would
+ * reject the request just the same. Every failed call is appended to `failed`,
+ * so callers can log attempts and tell which provider the final error came from.
+ */
+export async function callWithFailover<T>(
+  candidates: ProviderCandidate<T>[],
+  config: RetryConfig,
+  failed: FailedAttempt[],
+): Promise<{ result: T; provider: string }> {
+  let lastError: unknown;
+
+  for (const [index, candidate] of candidates.entries()) {
+    for (let attempt = 0; attempt <= config.max_retries; attempt++) {
+      if (attempt > 0) {
+        await new Promise((resolve) => setTimeout(resolve, getRetryDelay(attempt, config)));
+      }
+
+      try {
+        return { result: await candidate.call(), provider: candidate.name };
+      } catch (error) {
+        lastError = error;
+        failed.push({
+          provider: candidate.name,
+          error:
+            error instanceof ProviderError
+              ? error.status
+              : error instanceof Error
+                ? error.message
+                : "Unknown error",
+        });
+        if (!isRetryableError(error, config.statuses)) throw error;
+
+        const next =
+          attempt < config.max_retries
+            ? `retrying in ${getRetryDelay(attempt + 1, config)}ms`
+            : index < candidates.length - 1
+              ? `falling back to ${candidates[index + 1].name}`
+              : "giving up";
+        console.warn(
+          `[RETRY] ${candidate.name} attempt ${attempt + 1} failed (${failed.at(-1)?.error}), ${next}`,
+        );
+      }
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * Formats failed attempts for the log, e.g. "openai: 503; openai: 503; mistral: fetch failed"
+ */
+export function formatFailedAttempts(failed: FailedAttempt[]): string | undefined {
+  if (failed.length === 0) return undefined;
+  return failed.map((a) => `${a.provider}: ${a.error}`).join("; ");
+}
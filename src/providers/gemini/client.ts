@@ -0,0 +1,139 @@
+/**
+ * Gemini client - simple functions for the Gemini API (generateContent)
+ */
+
+import type { GeminiProviderConfig } from "../../config";
+import { createTTFBTimeout, DEFAULT_PROVIDER_TIMEOUT_MS } from "../../constants/timeouts";
+import type { TokenUsage } from "../../services/logger";
+import { ProviderError } from "../errors";
+import type { GeminiRequest, GeminiResponse, UsageMetadata } from "./types";
+
+const DEFAULT_GEMINI_URL = "https://generativelanguage.googleapis.com";
+
+export type GeminiMethod = "generateContent" | "streamGenerateContent";
+
+/**
+ * Headers to forward from the client to the Gemini API.
+ */
+const GEMINI_FORWARD_HEADERS = [
+  "x-goog-api-key",
+  "authorization",
+  "x-goog-api-client",
+  "x-goog-user-project",
+  "user-agent",
+  "x-request-id",
+];
+
+/**
+ * Collect Gemini-relevant headers from incoming request headers
+ */
+export function collectGeminiHeaders(
+  incomingHeaders: Record<string, string | undefined>,
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  };
+
+  for (const key of GEMINI_FORWARD_HEADERS) {
+    const value = incomingHeaders[key];
+    if (value) {
+      headers[key] = value;
+    }
+  }
+
+  return headers;
+}
+
+/**
+ * Result from Gemini client
+ *
+ * streamGenerateContent without `alt=sse` returns a JSON array of chunks; it is
+ * read in full and returned as a non-streaming result.
+ */
+export type GeminiResult =
+  | {
+      isStreaming: true;
+      response: ReadableStream<Uint8Array>;
+      model: string;
+    }
+  | {
+      isStreaming: false;
+      response: GeminiResponse | GeminiResponse[];
+      model: string;
+    };
+
+/**
+ * Call a Gemini generateContent method
+ *
+ * Transparent forwarding - client auth headers and the query string (`key`, `alt`)
+ * are passed through. Config api_key is only used as fallback when the client
+ * sends no credentials.
+ */
+export async function callGemini(
+  request: GeminiRequest,
+  target: { version: string; model: string; method: GeminiMethod; query: URLSearchParams },
+  config: GeminiProviderConfig,
+  incomingHeaders: Record<string, string | undefined>,
+  timeoutMs?: number,
+): Promise<GeminiResult> {
+  const { version, model, method, query } = target;
+  const isStreaming = method === "streamGenerateContent" && query.get("alt") === "sse";
+  const baseUrl = (config.base_url || DEFAULT_GEMINI_URL).replace(/\/$/, "");
+
+  const headers = collectGeminiHeaders(incomingHeaders);
+  if (!headers["x-goog-api-key"] && !headers.authorization && !query.has("key") && config.api_key) {
+    headers["x-goog-api-key"] = config.api_key;
+  }
+
+  const search = query.size > 0 ? `?${query}` : "";
+  const { signal, clear } = createTTFBTimeout(timeoutMs ?? DEFAULT_PROVIDER_TIMEOUT_MS);
+
+  const response = await fetch(`${baseUrl}/${version}/models/${model}:${method}${search}`, {
+    method: "POST",
+    headers,
+    body: JSON.stringify(request),
+    signal,
+  });
+
+  // Response headers received — clear the timer so streaming isn't interrupted
+  clear();
+
+  if (!response.ok) {
+    throw new ProviderError(response.status, response.statusText, await response.text());
+  }
+
+  if (isStreaming) {
+    if (!response.body) {
+      throw new Error("No response body for streaming request");
+    }
+    return { response: response.body, isStreaming: true, model };
+  }
+
+  return { response: await response.json(), isStreaming: false, model };
+}
+
+/**
+ * Maps Gemini usageMetadata to token counts
+ *
+ * cachedContentTokenCount is a subset of promptTokenCount (like OpenAI), so it is
+ * subtracted to store only the non-cached portion. Thinking tokens are billed as
+ * output, so they count as completion tokens.
+ */
+export function toTokenUsage(usage: UsageMetadata | undefined): TokenUsage | undefined {
+  if (!usage) return undefined;
+  const cachedTokens = usage.cachedContentTokenCount ?? 0;
+  return {
+    promptTokens: (usage.promptTokenCount ?? 0) - cachedTokens,
+    completionTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0),
+    ...(cachedTokens > 0 ? { cacheReadInputTokens: cachedTokens } : {}),
+  };
+}
+
+/**
+ * Get Gemini provider info for /info endpoint
+ */
+export function getGeminiInfo(config: GeminiProviderConfig): { baseUrl: string } {
+  return {
+    baseUrl: config.base_url || DEFAULT_GEMINI_URL,
+  };
+}
@@ -0,0 +1,201 @@
+import { describe, expect, test } from "bun:test";
+import type { MaskingConfig } from "../../config";
+import { createMaskingContext } from "../../pii/mask";
+import type { TokenUsage } from "../../services/logger";
+import { createGeminiUnmaskingStream, unmaskGeminiChunks } from "./stream-transformer";
+import type { GeminiResponse } from "./types";
+
+const defaultConfig: MaskingConfig = {
+  strategy: "placeholder",
+  placeholder_format: "[[{TYPE}_{N}]]",
+  fuzzy_unmask: "conservative",
+  show_markers: false,
+  marker_text: "[protected]",
+  whitelist: [],
+};
+
+/**
+ * Helper to create a ReadableStream from SSE data
+ */
+function createSSEStream(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let index = 0;
+
+  return new ReadableStream({
+    pull(controller) {
+      if (index < chunks.length) {
+        controller.enqueue(encoder.encode(chunks[index]));
+        index++;
+      } else {
+        controller.close();
+      }
+    },
+  });
+}
+
+/**
+ * Helper to consume a stream and return the parsed events
+ */
+async function consumeEvents(stream: ReadableStream<Uint8Array>): Promise<GeminiResponse[]> {
+  const text = await new Response(stream).text();
+  return text
+    .split("\n")
+    .filter((line) => line.startsWith("data: "))
+    .map((line) => JSON.parse(line.slice(6)));
+}
+
+/**
+ * Helper to create a Gemini SSE event (CRLF-terminated like the API)
+ */
+function createEvent(data: GeminiResponse): string {
+  return `data: ${JSON.stringify(data)}\r\n\r\n`;
+}
+
+function createTextEvent(text: string, extra: Partial<GeminiResponse["candidates"] & {}>[0] = {}) {
+  return createEvent({
+    candidates: [{ content: { role: "model", parts: [{ text }] }, index: 0, ...extra }],
+  });
+}
+
+function textOf(events: GeminiResponse[]): string {
+  return events
+    .flatMap((event) => event.candidates?.[0]?.content?.parts ?? [])
+    .map((part) => part.text ?? "")
+    .join("");
+}
+
+describe("createGeminiUnmaskingStream", () => {
+  test("unmasks complete placeholder in single event", async () => {
+    const context = createMaskingContext();
+    context.mapping["[[EMAIL_ADDRESS_1]]"] = "test@test.com";
+
+    const source = createSSEStream([createTextEvent("Hello [[EMAIL_ADDRESS_1]]!")]);
+    const events = await consumeEvents(createGeminiUnmaskingStream(source, context, defaultConfig));
+
+    expect(textOf(events)).toBe("Hello test@test.com!");
+  });
+
+  test("buffers partial placeholder across events and flushes on finishReason", async () => {
+    const context = createMaskingContext();
+    context.mapping["[[PERSON_1]]"] = "Jane";
+
+    const source = createSSEStream([
+      createTextEvent("Hi [[PER"),
+      createTextEvent("SON_1]], how"),
+      createTextEvent(" are you [[", { finishReason: "STOP" }),
+    ]);
+    const events = await consumeEvents(createGeminiUnmaskingStream(source, context, defaultConfig));
+
+    expect(textOf(events)).toBe("Hi Jane, how are you [[");
+    expect(events.at(-1)?.candidates?.[0].finishReason).toBe("STOP");
+  });
+
+  test("handles events split across network chunks", async () => {
+    const context = createMaskingContext();
+    context.mapping["[[PERSON_1]]"] = "Jane";
+
+    const event = createTextEvent("Hi [[PERSON_1]]");
+    const source = createSSEStream([event.slice(0, 20), event.slice(20)]);
+    const events = await consumeEvents(createGeminiUnmaskingStream(source, context, defaultConfig));
+
+    expect(textOf(events)).toBe("Hi Jane");
+  });
+
+  test("keeps thought summaries and answer text apart", async () => {
+    const context = createMaskingContext();
+    context.mapping["[[PERSON_1]]"] = "Jane";
+
+    const source = createSSEStream([
+      createEvent({
+        candidates: [{ content: { parts: [{ text: "Ask [[PERSON_1", thought: true }] } }],
+      }),
+      createEvent({
+        candidates: [
+          {
+            content: { parts: [{ text: "]] first", thought: true }, { text: "Hi [[PERSON_1]]" }] },
+          },
+        ],
+      }),
+    ]);
+    const events = await consumeEvents(createGeminiUnmaskingStream(source, context, defaultConfig));
+    const parts = events.flatMap((e) => e.candidates?.[0]?.content?.parts ?? []);
+
+    const join = (thought: boolean) =>
+      parts
+        .filter((p) => !!p.thought === thought)
+        .map((p) => p.text)
+        .join("");
+
+    expect(join(true)).toBe("Ask Jane first");
+    expect(join(false)).toBe("Hi Jane");
+  });
+
+  test("unmasks function call args", async () => {
+    const context = createMaskingContext();
+    context.mapping["[[PERSON_1]]"] = "Jane";
+
+    const source = createSSEStream([
+      createEvent({
+        candidates: [
+          {
+            content: { parts: [{ functionCall: { name: "send", args: { to: "[[PERSON_1]]" } } }] },
+          },
+        ],
+      }),
+    ]);
+    const events = await consumeEvents(createGeminiUnmaskingStream(source, context, defaultConfig));
+
+    expect(events[0].candidates?.[0].content?.parts[0].functionCall?.args).toEqual({ to: "Jane" });
+  });
+
+  test("reports the final usageMetadata", async () => {
+    const usage: TokenUsage[] = [];
+    const source = createSSEStream([
+      createEvent({
+        candidates: [{ content: { parts: [{ text: "Hi" }] } }],
+        usageMetadata: { promptTokenCount: 100, candidatesTokenCount: 1 },
+      }),
+      createEvent({
+        candidates: [{ content: { parts: [{ text: "!" }] }, finishReason: "STOP" }],
+        usageMetadata: {
+          promptTokenCount: 100,
+          candidatesTokenCount: 2,
+          thoughtsTokenCount: 10,
+          cachedContentTokenCount: 60,
+        },
+      }),
+    ]);
+
+    await consumeEvents(
+      createGeminiUnmaskingStream(source, undefined, defaultConfig, undefined, (tokens) =>
+        usage.push(tokens),
+      ),
+    );
+
+    expect(usage).toEqual([{ promptTokens: 40, completionTokens: 12, cacheReadInputTokens: 60 }]);
+  });
+
+  test("passes through events without candidates", async () => {
+    const context = createMaskingContext();
+    const source = createSSEStream([createEvent({ promptFeedback: { blockReason: "SAFETY" } })]);
+    const events = await consumeEvents(createGeminiUnmaskingStream(source, context, defaultConfig));
+
+    expect(events).toEqual([{ promptFeedback: { blockReason: "SAFETY" } }]);
+  });
+});
+
+describe("unmaskGeminiChunks", () => {
+  test("restores placeholders split across array chunks", async () => {
+    const context = createMaskingContext();
+    context.mapping["[[PERSON_1]]"] = "Jane";
+
+    const chunks: GeminiResponse[] = [
+      { candidates: [{ content: { parts: [{ text: "Hi [[PERS" }] } }] },
+      { candidates: [{ content: { parts: [{ text: "ON_1]]" }] }, finishReason: "STOP" }] },
+    ];
+    const result = await unmaskGeminiChunks(chunks, context, defaultConfig);
+
+    expect(textOf(result)).toBe("Hi Jane");
+    expect(result.at(-1)?.candidates?.[0].finishReason).toBe("STOP");
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Gemini SSE stream transformer for unmasking PII and secrets
+ *
+ * streamGenerateContent?alt=sse sends one complete GenerateContentResponse per
+ * event (`data: {...}`, CRLF-terminated):
+ * - text arrives in candidates[].content.parts[].text deltas (thought: true for thought summaries)
+ * - functionCall parts arrive whole, never split across events
+ * - usageMetadata is cumulative, the last event has the final counts
+ *
+ * Partial placeholders are buffered per candidate and per text kind (answer or
+ * thought), and flushed into the event carrying the candidate's finishReason.
+ */
+
+import type { MaskingConfig } from "../../config";
+import type { PlaceholderContext } from "../../masking/context";
+import { unmaskPart } from "../../masking/extractors/gemini";
+import { flushMaskingBuffer, unmaskStreamChunk } from "../../pii/mask";
+import { flushSecretsMaskingBuffer, unmaskSecretsStreamChunk } from "../../secrets/mask";
+import type { TokenUsage } from "../../services/logger";
+import { toTokenUsage } from "./client";
+import type { Candidate, GeminiResponse, Part, UsageMetadata } from "./types";
+
+// Module-level encoder — stateless, safe to share across all concurrent streams
+const encoder = new TextEncoder();
+
+interface TextBuffers {
+  pii: string;
+  secrets: string;
+}
+
+/**
+ * Creates a transform stream that unmasks Gemini SSE content
+ */
+export function createGeminiUnmaskingStream(
+  source: ReadableStream<Uint8Array>,
+  piiContext: PlaceholderContext | undefined,
+  config: MaskingConfig,
+  secretsContext?: PlaceholderContext,
+  onUsage?: (tokens: TokenUsage) => void,
+): ReadableStream<Uint8Array> {
+  const decoder = new TextDecoder(); // per-stream — has internal state with { stream: true }
+  const contexts = [piiContext, secretsContext].filter((ctx): ctx is PlaceholderContext => !!ctx);
+  // Keyed by `${candidateIndex}:${thought}`
+  const buffers = new Map<string, TextBuffers>();
+  let lineBuffer = "";
+  let lastUsage: UsageMetadata | undefined;
+
+  const unmaskText = (key: string, text: string): string => {
+    const buffer = buffers.get(key) ?? { pii: "", secrets: "" };
+    buffers.set(key, buffer);
+    let processed = text;
+
+    if (piiContext && processed) {
+      const { output, remainingBuffer } = unmaskStreamChunk(
+        buffer.pii,
+        processed,
+        piiContext,
+        config,
+      );
+      buffer.pii = remainingBuffer;
+      processed = output;
+    }
+
+    if (secretsContext && processed) {
+      const { output, remainingBuffer } = unmaskSecretsStreamChunk(
+        buffer.secrets,
+        processed,
+        secretsContext,
+      );
+      buffer.secrets = remainingBuffer;
+      processed = output;
+    }
+
+    return processed;
+  };
+
+  const flushText = (key: string): string => {
+    const buffer = buffers.get(key);
+    if (!buffer) return "";
+    buffers.delete(key);
+
+    let flushed = "";
+    if (buffer.pii) {
+      flushed = piiContext ? flushMaskingBuffer(buffer.pii, piiContext, config) : buffer.pii;
+    }
+    if (buffer.secrets) {
+      flushed += secretsContext
+        ? flushSecretsMaskingBuffer(buffer.secrets, secretsContext)
+        : buffer.secrets;
+    }
+    return flushed;
+  };
+
+  // Buffered text of a candidate as parts, thought summary first
+  const flushCandidate = (index: number): Part[] => {
+    const parts: Part[] = [];
+    const thought = flushText(`${index}:true`);
+    if (thought) parts.push({ text: thought, thought: true });
+    const text = flushText(`${index}:false`);
+    if (text) parts.push({ text });
+    return parts;
+  };
+
+  const transformCandidate = (candidate: Candidate): Candidate => {
+    const index = candidate.index ?? 0;
+    const parts: Part[] = [];
+
+    for (const part of candidate.content?.parts ?? []) {
+      if (typeof part.text !== "string") {
+        parts.push(unmaskPart(part, contexts));
+        continue;
+      }
+      const text = unmaskText(`${index}:${part.thought === true}`, part.text);
+      // Keep parts that carry more than text (e.g. thoughtSignature) even when fully buffered
+      if (text || Object.keys(part).some((key) => key !== "text" && key !== "thought")) {
+        parts.push({ ...part, text });
+      }
+    }
+
+    if (candidate.finishReason) {
+      parts.push(...flushCandidate(index));
+    }
+
+    if (!candidate.content) return candidate;
+    return { ...candidate, content: { ...candidate.content, parts } };
+  };
+
+  return new ReadableStream({
+    async start(controller) {
+      const reader = source.getReader();
+
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+
+          if (done) {
+            // Fire token usage callback with the final counts
+            const usage = toTokenUsage(lastUsage);
+            if (onUsage && usage) {
+              try {
+                onUsage(usage);
+              } catch (e) {
+                console.error("Token usage callback error:", e);
+              }
+            }
+
+            // Flush text of candidates that never sent a finishReason
+            const indexes = new Set([...buffers.keys()].map((key) => Number(key.split(":")[0])));
+            const candidates = [...indexes]
+              .map((index) => ({ index, parts: flushCandidate(index) }))
+              .filter((candidate) => candidate.parts.length > 0)
+              .map(({ index, parts }) => ({ content: { role: "model", parts }, index }));
+            if (candidates.length > 0) {
+              const finalEvent: GeminiResponse = { candidates };
+              controller.enqueue(encoder.encode(`data: ${JSON.stringify(finalEvent)}\n\n`));
+            }
+
+            controller.close();
+            break;
+          }
+
+          lineBuffer += decoder.decode(value, { stream: true });
+          const lines = lineBuffer.split("\n");
+          lineBuffer = lines.pop() || "";
+
+          for (const rawLine of lines) {
+            const line = rawLine.endsWith("\r") ? rawLine.slice(0, -1) : rawLine;
+
+            if (!line.startsWith("data: ")) {
+              // Events are re-terminated below, so blank separator lines are dropped
+              if (line.trim()) {
+                controller.enqueue(encoder.encode(`${line}\n`));
+              }
+              continue;
+            }
+
+            const data = line.slice(6);
+
+            // Skip full parse for events that can't contain text, function calls or usage
+            if (
+              !data.includes('"text"') &&
+              !data.includes('"functionCall"') &&
+              !data.includes('"function_call"') &&
+              !data.includes('"finishReason"') &&
+              !(onUsage && data.includes('"usageMetadata"'))
+            ) {
+              controller.enqueue(encoder.encode(`data: ${data}\n\n`));
+              continue;
+            }
+
+            let parsed: GeminiResponse;
+            try {
+              parsed = JSON.parse(data) as GeminiResponse;
+            } catch {
+              // Pass through unparseable data
+              controller.enqueue(encoder.encode(`${line}\n`));
+              continue;
+            }
+
+            if (parsed.usageMetadata) {
+              lastUsage = parsed.usageMetadata;
+            }
+            if (!parsed.candidates) {
+              controller.enqueue(encoder.encode(`data: ${data}\n\n`));
+              continue;
+            }
+
+            const candidates = parsed.candidates.map(transformCandidate);
+
+            // Drop events whose text is entirely buffered; their usage is repeated later
+            const empty = parsed.candidates.every(
+              (candidate, i) =>
+                !candidate.finishReason &&
+                !!candidate.content?.parts.length &&
+                !candidates[i].content?.parts.length,
+            );
+            if (!empty) {
+              controller.enqueue(
+                encoder.encode(`data: ${JSON.stringify({ ...parsed, candidates })}\n\n`),
+              );
+            }
+          }
+        }
+      } catch (error) {
+        controller.error(error);
+      } finally {
+        reader.releaseLock();
+      }
+    },
+  });
+}
+
+/**
+ * Unmasks the chunks of a streamGenerateContent response without `alt=sse`
+ * (a JSON array), with the same buffering as the SSE stream so placeholders
+ * split across chunks are restored
+ */
+export async function unmaskGeminiChunks(
+  chunks: GeminiResponse[],
+  piiContext: PlaceholderContext | undefined,
+  config: MaskingConfig,
+  secretsContext?: PlaceholderContext,
+): Promise<GeminiResponse[]> {
+  const events = chunks.map((chunk) => `data: ${JSON.stringify(chunk)}\n\n`).join("");
+  const source = new Response(events).body as ReadableStream<Uint8Array>;
+  const output = await new Response(
+    createGeminiUnmaskingStream(source, piiContext, config, secretsContext),
+  ).text();
+
+  return output
+    .split("\n")
+    .filter((line) => line.startsWith("data: "))
+    .map((line) => JSON.parse(line.slice(6)) as GeminiResponse);
+}
@@ -0,0 +1,108 @@
+/**
+ * Google Gemini API Types
+ * Based on: https://ai.google.dev/api/generate-content
+ *
+ * Parts are not tagged with a type - each part sets exactly one data field
+ * (text, inlineData, functionCall, ...). The REST API also accepts snake_case
+ * field names (system_instruction, function_call), which pass through unvalidated.
+ */
+
+import { z } from "zod";
+
+// All schemas use .passthrough() to preserve fields PasteGuard doesn't need to inspect
+// (e.g. thoughtSignature, safetySettings, cachedContent)
+export const FunctionCallSchema = z
+  .object({
+    id: z.string().optional(),
+    name: z.string(),
+    args: z.record(z.unknown()).optional(),
+  })
+  .passthrough();
+
+export const FunctionResponseSchema = z
+  .object({
+    id: z.string().optional(),
+    name: z.string(),
+    response: z.record(z.unknown()),
+  })
+  .passthrough();
+
+export const PartSchema = z
+  .object({
+    text: z.string().optional(),
+    thought: z.boolean().optional(),
+    inlineData: z
+      .object({
+        mimeType: z.string(),
+        data: z.string(),
+      })
+      .passthrough()
+      .optional(),
+    fileData: z
+      .object({
+        mimeType: z.string().optional(),
+        fileUri: z.string(),
+      })
+      .passthrough()
+      .optional(),
+    functionCall: FunctionCallSchema.optional(),
+    functionResponse: FunctionResponseSchema.optional(),
+  })
+  .passthrough();
+
+export const ContentSchema = z
+  .object({
+    role: z.string().optional(), // "user" or "model"; may be omitted for single-turn requests
+    parts: z.array(PartSchema),
+  })
+  .passthrough();
+
+// The model is part of the URL (/models/{model}:generateContent), not the body
+export const GeminiRequestSchema = z
+  .object({
+    contents: z.array(ContentSchema).min(1),
+    systemInstruction: ContentSchema.optional(),
+    system_instruction: ContentSchema.optional(),
+    tools: z.array(z.record(z.unknown())).optional(),
+    toolConfig: z.record(z.unknown()).optional(),
+    generationConfig: z.record(z.unknown()).optional(),
+  })
+  .passthrough();
+
+export const UsageMetadataSchema = z
+  .object({
+    promptTokenCount: z.number().optional(),
+    candidatesTokenCount: z.number().optional(),
+    thoughtsTokenCount: z.number().optional(),
+    cachedContentTokenCount: z.number().optional(),
+    totalTokenCount: z.number().optional(),
+  })
+  .passthrough();
+
+export const CandidateSchema = z
+  .object({
+    content: ContentSchema.optional(),
+    finishReason: z.string().optional(),
+    index: z.number().optional(),
+  })
+  .passthrough();
+
+// Also the shape of every streamGenerateContent chunk
+export const GeminiResponseSchema = z
+  .object({
+    candidates: z.array(CandidateSchema).optional(),
+    usageMetadata: UsageMetadataSchema.optional(),
+    modelVersion: z.string().optional(),
+    responseId: z.string().optional(),
+  })
+  .passthrough();
+
+// Inferred types
+export type FunctionCall = z.infer<typeof FunctionCallSchema>;
+export type FunctionResponse = z.infer<typeof FunctionResponseSchema>;
+export type Part = z.infer<typeof PartSchema>;
+export type Content = z.infer<typeof ContentSchema>;
+export type GeminiRequest = z.infer<typeof GeminiRequestSchema>;
+export type UsageMetadata = z.infer<typeof UsageMetadataSchema>;
+export type Candidate = z.infer<typeof CandidateSchema>;
+export type GeminiResponse = z.infer<typeof GeminiResponseSchema>;
@@ -11,7 +11,14 @@ import {
 } from "../constants/timeouts";
 import type { AnthropicResult } from "./anthropic/client";
 import type { AnthropicRequest, AnthropicResponse } from "./anthropic/types";
-import { ProviderError, type ProviderResult } from "./openai/client";
+import {
+  type EmbeddingsProviderResult,
+  ProviderError,
+  type ProviderResult,
+  type ResponsesProviderResult,
+} from "./openai/client";
+import type { EmbeddingsRequest } from "./openai/embeddings-types";
+import type { ResponsesRequest } from "./openai/responses-types";
 import type { OpenAIRequest } from "./openai/types";
 
 /**
@@ -57,6 +64,85 @@ export async function callLocal(
   return { response: await response.json(), isStreaming: false, model: config.model };
 }
 
+/**
+ * Call local LLM with OpenAI Responses API format
+ * Used in route mode for PII-containing Responses API requests
+ * Ollama supports the Responses API at /v1/responses
+ */
+export async function callLocalResponses(
+  request: ResponsesRequest,
+  config: LocalProviderConfig,
+): Promise<ResponsesProviderResult> {
+  const baseUrl = config.base_url.replace(/\/$/, "");
+  const endpoint = config.type === "ollama" ? `${baseUrl}/v1/responses` : `${baseUrl}/responses`;
+
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (config.api_key) {
+    headers.Authorization = `Bearer ${config.api_key}`;
+  }
+
+  const isStreaming = request.stream ?? false;
+
+  const { signal, clear } = createTTFBTimeout(DEFAULT_PROVIDER_TIMEOUT_MS);
+
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers,
+    body: JSON.stringify({ ...request, model: config.model, stream: isStreaming }),
+    signal,
+  });
+
+  clear();
+
+  if (!response.ok) {
+    throw new ProviderError(response.status, response.statusText, await response.text());
+  }
+
+  if (isStreaming) {
+    if (!response.body) {
+      throw new Error("No response body for streaming request");
+    }
+    return { response: response.body, isStreaming: true, model: config.model };
+  }
+
+  return { response: await response.json(), isStreaming: false, model: config.model };
+}
+
+/**
+ * Call a local embedding model (Ollama or OpenAI-compatible)
+ * Used by the embeddings route_local policy; the model comes from embeddings.local_model
+ */
+export async function callLocalEmbeddings(
+  request: EmbeddingsRequest,
+  config: LocalProviderConfig,
+  model: string,
+): Promise<EmbeddingsProviderResult> {
+  const baseUrl = config.base_url.replace(/\/$/, "");
+  const endpoint = config.type === "ollama" ? `${baseUrl}/v1/embeddings` : `${baseUrl}/embeddings`;
+
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (config.api_key) {
+    headers.Authorization = `Bearer ${config.api_key}`;
+  }
+
+  const { signal, clear } = createTTFBTimeout(DEFAULT_PROVIDER_TIMEOUT_MS);
+
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers,
+    body: JSON.stringify({ ...request, model }),
+    signal,
+  });
+
+  clear();
+
+  if (!response.ok) {
+    throw new ProviderError(response.status, response.statusText, await response.text());
+  }
+
+  return { response: await response.json(), model };
+}
+
 /**
  * Call local LLM with Anthropic Messages API format
  * Used in route mode for PII-containing Anthropic requests
@@ -0,0 +1,89 @@
+/**
+ * Azure OpenAI - URL and auth mapping for OpenAI-compatible providers with type: azure
+ *
+ * Azure serves models from named deployments:
+ *   {base_url}/openai/deployments/{deployment}/chat/completions?api-version=...
+ * and expects the key in an api-key header. Requests keep their OpenAI shape;
+ * only the URL and auth headers are rewritten.
+ */
+
+import type { OpenAIProviderConfig } from "../../config";
+
+/** api-version when none is configured; the Responses API needs a preview */
+export const AZURE_API_VERSION = "2024-10-21";
+export const AZURE_RESPONSES_API_VERSION = "2025-04-01-preview";
+
+/** Endpoints that live under /openai/deployments/{deployment} */
+const DEPLOYMENT_PATHS = [
+  "/chat/completions",
+  "/completions",
+  "/embeddings",
+  "/audio/",
+  "/images/",
+];
+
+/**
+ * Deployment for a model - unmapped models are used as deployment names
+ */
+export function getAzureDeployment(config: OpenAIProviderConfig, model: string): string {
+  return config.deployments[model] ?? model;
+}
+
+/**
+ * Whether an endpoint is deployment-scoped, i.e. needs a model to build the URL
+ */
+export function isDeploymentPath(path: string): boolean {
+  return DEPLOYMENT_PATHS.some((prefix) => path.startsWith(prefix));
+}
+
+/**
+ * Builds the Azure URL for an OpenAI API path (e.g. "/chat/completions")
+ *
+ * Deployment-scoped paths use the model's deployment; the rest (models,
+ * files, responses, ...) sit directly under /openai. The configured
+ * api_version (or the endpoint's default) is added unless the query already
+ * has one.
+ */
+export function buildAzureUrl(
+  config: OpenAIProviderConfig,
+  path: string,
+  model?: string,
+  query = "",
+): string {
+  const baseUrl = config.base_url.replace(/\/$/, "");
+  const params = new URLSearchParams(query);
+  if (!params.has("api-version")) {
+    const fallback = path.startsWith("/responses")
+      ? AZURE_RESPONSES_API_VERSION
+      : AZURE_API_VERSION;
+    params.set("api-version", config.api_version ?? fallback);
+  }
+
+  const prefix =
+    model && isDeploymentPath(path)
+      ? `/openai/deployments/${encodeURIComponent(getAzureDeployment(config, model))}`
+      : "/openai";
+  return `${baseUrl}${prefix}${path}?${params}`;
+}
+
+/**
+ * Auth headers for Azure
+ *
+ * Microsoft Entra ID tokens (JWTs) are forwarded as Authorization: Bearer.
+ * Any other bearer value is an API key, which Azure only accepts as api-key -
+ * so OpenAI SDKs configured with an Azure key work unchanged.
+ */
+export function getAzureAuthHeaders(
+  config: OpenAIProviderConfig,
+  authHeader?: string,
+): Record<string, string> {
+  const token = authHeader?.replace(/^Bearer\s+/i, "");
+  if (authHeader && token) {
+    return isJWT(token) ? { Authorization: authHeader } : { "api-key": token };
+  }
+  return config.api_key ? { "api-key": config.api_key } : {};
+}
+
+function isJWT(token: string): boolean {
+  return /^[\w-]+\.[\w-]+\.[\w-]+$/.test(token);
+}
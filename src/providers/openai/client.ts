@@ -5,15 +5,18 @@
 import type { OpenAIProviderConfig } from "../../config";
 import { createTTFBTimeout, DEFAULT_PROVIDER_TIMEOUT_MS } from "../../constants/timeouts";
 import { ProviderError } from "../errors";
+import { buildAzureUrl, getAzureAuthHeaders, getAzureDeployment } from "./azure";
+import type { EmbeddingsRequest, EmbeddingsResponse } from "./embeddings-types";
+import type { ResponsesRequest, ResponsesResponse } from "./responses-types";
 import type { OpenAIRequest, OpenAIResponse } from "./types";
 
 export { ProviderError } from "../errors";
 
 /**
  * Headers to forward from the client to the OpenAI API.
+ * Auth is set separately, it depends on the provider type.
  */
 const OPENAI_FORWARD_HEADERS = [
-  "authorization",
   "openai-organization",
   "openai-project",
   "user-agent",
@@ -21,10 +24,12 @@ const OPENAI_FORWARD_HEADERS = [
 ];
 
 /**
- * Collect OpenAI-relevant headers from incoming request headers
+ * Collect OpenAI-relevant headers from incoming request headers, plus auth for the provider
  */
 export function collectOpenAIHeaders(
   incomingHeaders: Record<string, string | undefined>,
+  config: OpenAIProviderConfig,
+  authHeader?: string,
 ): Record<string, string> {
   const headers: Record<string, string> = {
     "Content-Type": "application/json",
@@ -37,7 +42,33 @@ export function collectOpenAIHeaders(
     }
   }
 
-  return headers;
+  return { ...headers, ...getAuthHeaders(config, authHeader) };
+}
+
+/**
+ * Auth headers for a provider call
+ *
+ * The client's auth header is used if provided, otherwise the config's api_key.
+ * Azure providers get theirs as api-key (see getAzureAuthHeaders).
+ */
+function getAuthHeaders(config: OpenAIProviderConfig, authHeader?: string): Record<string, string> {
+  if (config.type === "azure") return getAzureAuthHeaders(config, authHeader);
+  if (authHeader) return { Authorization: authHeader };
+  if (config.api_key) return { Authorization: `Bearer ${config.api_key}` };
+  return {};
+}
+
+/**
+ * URL of an API path (e.g. "/chat/completions"), mapped to the model's deployment on Azure
+ */
+export function getOpenAIUrl(
+  config: OpenAIProviderConfig,
+  path: string,
+  model?: string,
+  query = "",
+): string {
+  if (config.type === "azure") return buildAzureUrl(config, path, model, query);
+  return `${config.base_url.replace(/\/$/, "")}${path}${query}`;
 }
 
 /**
@@ -71,20 +102,13 @@ export async function callOpenAI(
     throw new Error("Model is required in request");
   }
 
-  const baseUrl = config.base_url.replace(/\/$/, "");
-  const endpoint = `${baseUrl}/chat/completions`;
+  const endpoint = getOpenAIUrl(config, "/chat/completions", model);
 
   const headers: Record<string, string> = {
     "Content-Type": "application/json",
+    ...getAuthHeaders(config, authHeader),
   };
 
-  // Use client's auth header if provided, otherwise fall back to config
-  if (authHeader) {
-    headers.Authorization = authHeader;
-  } else if (config.api_key) {
-    headers.Authorization = `Bearer ${config.api_key}`;
-  }
-
   // Build request body
   const body: Record<string, unknown> = {
     ...request,
@@ -128,11 +152,129 @@ export async function callOpenAI(
   return { response: await response.json(), isStreaming: false, model };
 }
 
+/**
+ * Result from the Responses API (streaming or non-streaming)
+ */
+export type ResponsesProviderResult =
+  | {
+      isStreaming: true;
+      response: ReadableStream<Uint8Array>;
+      model: string;
+    }
+  | {
+      isStreaming: false;
+      response: ResponsesResponse;
+      model: string;
+    };
+
+/**
+ * Call OpenAI Responses API
+ *
+ * Usage is always part of the final response.completed event, so no
+ * stream_options are needed.
+ */
+export async function callOpenAIResponses(
+  request: ResponsesRequest,
+  config: OpenAIProviderConfig,
+  authHeader?: string,
+  timeoutMs?: number,
+): Promise<ResponsesProviderResult> {
+  const model = request.model;
+  const isStreaming = request.stream ?? false;
+
+  if (!model) {
+    throw new Error("Model is required in request");
+  }
+
+  const endpoint = getOpenAIUrl(config, "/responses", model);
+
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    ...getAuthHeaders(config, authHeader),
+  };
+
+  // The Azure Responses API isn't deployment-scoped, the deployment goes in the body
+  const upstreamModel = config.type === "azure" ? getAzureDeployment(config, model) : model;
+
+  const { signal, clear } = createTTFBTimeout(timeoutMs ?? DEFAULT_PROVIDER_TIMEOUT_MS);
+
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers,
+    body: JSON.stringify({ ...request, model: upstreamModel, stream: isStreaming }),
+    signal,
+  });
+
+  clear();
+
+  if (!response.ok) {
+    throw new ProviderError(response.status, response.statusText, await response.text());
+  }
+
+  if (isStreaming) {
+    if (!response.body) {
+      throw new Error("No response body for streaming request");
+    }
+    return { response: response.body, isStreaming: true, model };
+  }
+
+  return { response: await response.json(), isStreaming: false, model };
+}
+
+/**
+ * Result from the Embeddings API (never streamed)
+ */
+export interface EmbeddingsProviderResult {
+  response: EmbeddingsResponse;
+  model: string;
+}
+
+/**
+ * Call OpenAI Embeddings API
+ */
+export async function callOpenAIEmbeddings(
+  request: EmbeddingsRequest,
+  config: OpenAIProviderConfig,
+  authHeader?: string,
+  timeoutMs?: number,
+): Promise<EmbeddingsProviderResult> {
+  const model = request.model;
+
+  if (!model) {
+    throw new Error("Model is required in request");
+  }
+
+  const endpoint = getOpenAIUrl(config, "/embeddings", model);
+
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    ...getAuthHeaders(config, authHeader),
+  };
+
+  const { signal, clear } = createTTFBTimeout(timeoutMs ?? DEFAULT_PROVIDER_TIMEOUT_MS);
+
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers,
+    body: JSON.stringify(request),
+    signal,
+  });
+
+  clear();
+
+  if (!response.ok) {
+    throw new ProviderError(response.status, response.statusText, await response.text());
+  }
+
+  return { response: await response.json(), model };
+}
+
 /**
  * Get OpenAI provider info for /info endpoint
  */
-export function getOpenAIInfo(config: OpenAIProviderConfig): { baseUrl: string } {
+export function getOpenAIInfo(config: OpenAIProviderConfig): { baseUrl: string; type: string } {
   return {
     baseUrl: config.base_url,
+    type: config.type,
   };
 }
@@ -0,0 +1,51 @@
+/**
+ * OpenAI Embeddings API Types
+ * Based on: https://platform.openai.com/docs/api-reference/embeddings
+ */
+
+import { z } from "zod";
+
+// Input: a string, an array of strings, or pre-tokenized input (array of token arrays)
+export const EmbeddingsInputSchema = z.union([
+  z.string(),
+  z.array(z.string()),
+  z.array(z.number()),
+  z.array(z.array(z.number())),
+]);
+
+// Embeddings request - minimal required fields, rest passthrough
+export const EmbeddingsRequestSchema = z
+  .object({
+    input: EmbeddingsInputSchema,
+    model: z.string().optional(),
+  })
+  .passthrough();
+
+// Embeddings response
+export const EmbeddingsResponseSchema = z
+  .object({
+    object: z.literal("list"),
+    data: z.array(
+      z
+        .object({
+          object: z.string(),
+          index: z.number(),
+          embedding: z.union([z.array(z.number()), z.string()]),
+        })
+        .passthrough(),
+    ),
+    model: z.string(),
+    usage: z
+      .object({
+        prompt_tokens: z.number(),
+        total_tokens: z.number(),
+      })
+      .passthrough()
+      .optional(),
+  })
+  .passthrough();
+
+// Inferred types
+export type EmbeddingsInput = z.infer<typeof EmbeddingsInputSchema>;
+export type EmbeddingsRequest = z.infer<typeof EmbeddingsRequestSchema>;
+export type EmbeddingsResponse = z.infer<typeof EmbeddingsResponseSchema>;
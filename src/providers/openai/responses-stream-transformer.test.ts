@@ -0,0 +1,312 @@
+import { describe, expect, test } from "bun:test";
+import type { MaskingConfig } from "../../config";
+import { createMaskingContext } from "../../pii/mask";
+import type { TokenUsage } from "../../services/logger";
+import { createResponsesUnmaskingStream } from "./responses-stream-transformer";
+
+const defaultConfig: MaskingConfig = {
+  strategy: "placeholder",
+  placeholder_format: "[[{TYPE}_{N}]]",
+  fuzzy_unmask: "conservative",
+  show_markers: false,
+  marker_text: "[protected]",
+  whitelist: [],
+};
+
+/**
+ * Helper to create a ReadableStream from SSE data
+ */
+function createSSEStream(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let index = 0;
+
+  return new ReadableStream({
+    pull(controller) {
+      if (index < chunks.length) {
+        controller.enqueue(encoder.encode(chunks[index]));
+        index++;
+      } else {
+        controller.close();
+      }
+    },
+  });
+}
+
+/**
+ * Helper to consume a stream and return all chunks as string
+ */
+async function consumeStream(stream: ReadableStream<Uint8Array>): Promise<string> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let result = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    result += decoder.decode(value, { stream: true });
+  }
+
+  return result;
+}
+
+/**
+ * Helper to create a Responses API SSE event
+ */
+function createEvent(data: Record<string, unknown>): string {
+  return `event: ${data.type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+function textDelta(delta: string, sequence: number): string {
+  return createEvent({
+    type: "response.output_text.delta",
+    item_id: "msg_1",
+    output_index: 0,
+    content_index: 0,
+    delta,
+    sequence_number: sequence,
+  });
+}
+
+/**
+ * Parses emitted SSE frames into [event line, data] pairs
+ */
+function parseFrames(output: string): { event?: string; data: Record<string, unknown> }[] {
+  return output
+    .split("\n\n")
+    .filter((frame) => frame.includes("data: "))
+    .map((frame) => {
+      const event = frame.match(/^event: (.*)$/m)?.[1];
+      const data = JSON.parse(frame.match(/^data: (.*)$/m)?.[1] ?? "{}");
+      return { event, data };
+    });
+}
+
+describe("createResponsesUnmaskingStream", () => {
+  test("unmasks output_text deltas split across chunks", async () => {
+    const context = createMaskingContext();
+    context.mapping["[[EMAIL_ADDRESS_1]]"] = "jane@example.com";
+
+    const source = createSSEStream([
+      textDelta("Mail [[EMAIL_", 1),
+      textDelta("ADDRESS_1]] now", 2),
+    ]);
+
+    const result = await consumeStream(
+      createResponsesUnmaskingStream(source, context, defaultConfig),
+    );
+    const deltas = parseFrames(result).map((f) => f.data.delta);
+
+    expect(deltas.join("")).toBe("Mail jane@example.com now");
+  });
+
+  test("keeps event lines paired with their data and drops fully buffered events", async () => {
+    const context = createMaskingContext();
+    context.mapping["[[PERSON_1]]"] = "Jane";
+
+    const source = createSSEStream([textDelta("[[PERS", 1), textDelta("ON_1]]", 2)]);
+
+    const result = await consumeStream(
+      createResponsesUnmaskingStream(source, context, defaultConfig),
+    );
+    const frames = parseFrames(result);
+
+    expect(frames).toHaveLength(1);
+    expect(frames[0].event).toBe("response.output_text.delta");
+    expect(frames[0].data.delta).toBe("Jane");
+  });
+
+  test("flushes buffered text as a delta before output_text.done and unmasks the full text", async () => {
+    const context = createMaskingContext();
+    context.mapping["[[PERSON_1]]"] = "Jane";
+
+    const source = createSSEStream([
+      textDelta("Hi [[PERSON_1]] [[", 1),
+      createEvent({
+        type: "response.output_text.done",
+        item_id: "msg_1",
+        output_index: 0,
+        content_index: 0,
+        text: "Hi [[PERSON_1]] [[",
+        sequence_number: 2,
+      }),
+    ]);
+
+    const result = await consumeStream(
+      createResponsesUnmaskingStream(source, context, defaultConfig),
+    );
+    const frames = parseFrames(result);
+
+    expect(frames.map((f) => f.event)).toEqual([
+      "response.output_text.delta",
+      "response.output_text.delta",
+      "response.output_text.done",
+    ]);
+    expect(frames[0].data.delta).toBe("Hi Jane ");
+    expect(frames[1].data.delta).toBe("[[");
+    expect(frames[1].data.item_id).toBe("msg_1");
+    expect(frames[2].data.text).toBe("Hi Jane [[");
+  });
+
+  test("unmasks reasoning summary deltas", async () => {
+    const context = createMaskingContext();
+    context.mapping["[[PERSON_1]]"] = "Jane";
+
+    const source = createSSEStream([
+      createEvent({
+        type: "response.reasoning_summary_text.delta",
+        item_id: "rs_1",
+        output_index: 0,
+        summary_index: 0,
+        delta: "Asked by [[PERSON_1]]",
+      }),
+    ]);
+
+    const result = await consumeStream(
+      createResponsesUnmaskingStream(source, context, defaultConfig),
+    );
+
+    expect(parseFrames(result)[0].data.delta).toBe("Asked by Jane");
+  });
+
+  test("unmasks function call argument deltas with JSON escaping", async () => {
+    const context = createMaskingContext();
+    context.mapping["[[PERSON_1]]"] = 'Jane "JJ" Doe';
+
+    const argsDelta = (delta: string) =>
+      createEvent({
+        type: "response.function_call_arguments.delta",
+        item_id: "fc_1",
+        output_index: 1,
+        delta,
+      });
+    const source = createSSEStream([
+      argsDelta('{"name":"[[PER'),
+      argsDelta('SON_1]]"}'),
+      createEvent({
+        type: "response.function_call_arguments.done",
+        item_id: "fc_1",
+        output_index: 1,
+        arguments: '{"name":"[[PERSON_1]]"}',
+      }),
+    ]);
+
+    const result = await consumeStream(
+      createResponsesUnmaskingStream(source, context, defaultConfig),
+    );
+    const frames = parseFrames(result);
+    const streamed = frames
+      .filter((f) => f.data.type === "response.function_call_arguments.delta")
+      .map((f) => f.data.delta)
+      .join("");
+    const done = frames.find((f) => f.data.type === "response.function_call_arguments.done");
+
+    expect(JSON.parse(streamed)).toEqual({ name: 'Jane "JJ" Doe' });
+    expect(JSON.parse(done?.data.arguments as string)).toEqual({ name: 'Jane "JJ" Doe' });
+  });
+
+  test("unmasks custom tool input deltas without display markers", async () => {
+    const context = createMaskingContext();
+    context.mapping["[[PERSON_1]]"] = "Jane";
+
+    const inputDelta = (delta: string) =>
+      createEvent({
+        type: "response.custom_tool_call_input.delta",
+        item_id: "ct_1",
+        output_index: 0,
+        delta,
+      });
+    const source = createSSEStream([
+      inputDelta("mail [[PER"),
+      inputDelta("SON_1]]"),
+      createEvent({
+        type: "response.custom_tool_call_input.done",
+        item_id: "ct_1",
+        output_index: 0,
+        input: "mail [[PERSON_1]]",
+      }),
+    ]);
+
+    const result = await consumeStream(
+      createResponsesUnmaskingStream(source, context, { ...defaultConfig, show_markers: true }),
+    );
+    const frames = parseFrames(result);
+    const streamed = frames
+      .filter((f) => f.data.type === "response.custom_tool_call_input.delta")
+      .map((f) => f.data.delta)
+      .join("");
+    const done = frames.find((f) => f.data.type === "response.custom_tool_call_input.done");
+
+    expect(streamed).toBe("mail Jane");
+    expect(done?.data.input).toBe("mail Jane");
+  });
+
+  test("unmasks complete items and captures usage from response.completed", async () => {
+    const context = createMaskingContext();
+    context.mapping["[[PERSON_1]]"] = "Jane";
+    const item = {
+      type: "message",
+      id: "msg_1",
+      role: "assistant",
+      content: [{ type: "output_text", text: "Hi [[PERSON_1]]", annotations: [] }],
+    };
+
+    const source = createSSEStream([
+      createEvent({ type: "response.output_item.done", output_index: 0, item }),
+      createEvent({
+        type: "response.completed",
+        response: {
+          id: "resp_1",
+          object: "response",
+          output: [item],
+          usage: {
+            input_tokens: 100,
+            output_tokens: 20,
+            total_tokens: 120,
+            input_tokens_details: { cached_tokens: 40 },
+          },
+        },
+      }),
+    ]);
+
+    let usage: TokenUsage | undefined;
+    const result = await consumeStream(
+      createResponsesUnmaskingStream(source, context, defaultConfig, undefined, (tokens) => {
+        usage = tokens;
+      }),
+    );
+
+    expect(result).not.toContain("[[PERSON_1]]");
+    expect(result.match(/Hi Jane/g)).toHaveLength(2);
+    expect(usage).toEqual({ promptTokens: 60, completionTokens: 20, cacheReadInputTokens: 40 });
+  });
+
+  test("unmasks secrets after PII", async () => {
+    const piiContext = createMaskingContext();
+    piiContext.mapping["[[PERSON_1]]"] = "Jane";
+    const secretsContext = createMaskingContext();
+    secretsContext.mapping["[[API_KEY_OPENAI_1]]"] = "sk-secret";
+
+    const source = createSSEStream([textDelta("[[PERSON_1]] uses [[API_KEY_OPENAI_1]]", 1)]);
+
+    const result = await consumeStream(
+      createResponsesUnmaskingStream(source, piiContext, defaultConfig, secretsContext),
+    );
+
+    expect(parseFrames(result)[0].data.delta).toBe("Jane uses sk-secret");
+  });
+
+  test("passes through unrelated events unchanged", async () => {
+    const created = createEvent({
+      type: "response.created",
+      response: { id: "resp_1", object: "response", output: [] },
+      sequence_number: 0,
+    });
+    const source = createSSEStream([created]);
+
+    const result = await consumeStream(
+      createResponsesUnmaskingStream(source, createMaskingContext(), defaultConfig),
+    );
+
+    expect(result).toBe(created);
+  });
+});
@@ -0,0 +1,378 @@
+/**
+ * OpenAI Responses API SSE stream transformer for unmasking PII and secrets
+ *
+ * The Responses API streams typed events:
+ * - event: response.output_text.delta
+ * - data: {"type":"response.output_text.delta","output_index":0,"content_index":0,"delta":"..."}
+ *
+ * Text arrives as deltas (output_text, refusal, reasoning_summary_text,
+ * custom_tool_call_input) and is repeated in full by the matching .done event, content_part.done,
+ * output_item.done and the final response.completed event. Deltas are unmasked
+ * with per-part buffers for partial placeholders; buffered text is emitted as
+ * an extra delta right before the .done event that closes the part. Complete
+ * text in the other events is restored directly. Custom tool input is restored
+ * without display markers, like function call arguments.
+ */
+
+import type { MaskingConfig } from "../../config";
+import type { PlaceholderContext } from "../../masking/context";
+import { unmaskResponsesItem } from "../../masking/extractors/openai-responses";
+import { createToolArgumentsStreamUnmasker, unmaskArguments } from "../../masking/tool-arguments";
+import { flushMaskingBuffer, unmask, unmaskStreamChunk } from "../../pii/mask";
+import {
+  flushSecretsMaskingBuffer,
+  unmaskSecrets,
+  unmaskSecretsStreamChunk,
+} from "../../secrets/mask";
+import type { TokenUsage } from "../../services/logger";
+import type { ResponsesItem, ResponsesResponse } from "./responses-types";
+
+// Module-level encoder — stateless, safe to share across all concurrent streams
+const encoder = new TextEncoder();
+
+/** Event families that stream text deltas, with the field holding the full text on .done */
+const TEXT_EVENTS: Record<string, "text" | "refusal" | "input"> = {
+  "response.output_text": "text",
+  "response.refusal": "refusal",
+  "response.reasoning_summary_text": "text",
+  "response.custom_tool_call_input": "input",
+};
+
+/** Text event families that feed a tool, restored without display markers */
+const TOOL_INPUT_EVENTS = new Set(["response.custom_tool_call_input"]);
+
+/** Events that carry a complete response object */
+const RESPONSE_EVENTS = new Set(["response.completed", "response.incomplete", "response.failed"]);
+
+/** Substrings of events that may need unmasking; everything else skips the JSON parse */
+const PARSE_MARKERS = [".delta", ".done", ...RESPONSE_EVENTS];
+
+interface ResponsesStreamEvent {
+  type: string;
+  output_index?: number;
+  content_index?: number;
+  summary_index?: number;
+  delta?: string;
+  text?: string;
+  refusal?: string;
+  input?: string;
+  arguments?: string;
+  part?: { text?: string; refusal?: string };
+  item?: ResponsesItem;
+  response?: ResponsesResponse;
+  sequence_number?: number;
+}
+
+interface TextBuffer {
+  pii: string;
+  secrets: string;
+  /** Restore without display markers (tool input) */
+  plain: boolean;
+  /** Last delta event for this part, reused as the template for flushed text */
+  event: ResponsesStreamEvent;
+}
+
+function formatEvent(event: ResponsesStreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Builds a delta event for flushed text from the part's last delta event
+ */
+function flushedDeltaEvent(template: ResponsesStreamEvent, delta: string): ResponsesStreamEvent {
+  const { sequence_number: _, ...event } = template;
+  return { ...event, delta };
+}
+
+/**
+ * Creates a transform stream that unmasks Responses API SSE content
+ */
+export function createResponsesUnmaskingStream(
+  source: ReadableStream<Uint8Array>,
+  piiContext: PlaceholderContext | undefined,
+  config: MaskingConfig,
+  secretsContext?: PlaceholderContext,
+  onUsage?: (tokens: TokenUsage) => void,
+): ReadableStream<Uint8Array> {
+  const decoder = new TextDecoder(); // per-stream — has internal state with { stream: true }
+  let lineBuffer = "";
+  // Event type lines are held until their data line is processed, so extra
+  // events (flushed deltas) can be emitted as complete frames before it
+  let pendingEventLine = "";
+  let capturedUsage: TokenUsage | null = null;
+
+  const textBuffers = new Map<string, TextBuffer>();
+  const contexts = [piiContext, secretsContext].filter((ctx): ctx is PlaceholderContext => !!ctx);
+  const toolUnmasker = createToolArgumentsStreamUnmasker(contexts);
+  const toolEvents = new Map<number, ResponsesStreamEvent>();
+
+  const restoreText = (text: string): string => {
+    let result = text;
+    if (piiContext) result = unmask(result, piiContext, config);
+    if (secretsContext) result = unmaskSecrets(result, secretsContext);
+    return result;
+  };
+  const plainConfig: MaskingConfig = { ...config, show_markers: false };
+  const restoreInput = (input: string): string => {
+    let result = input;
+    if (piiContext) result = unmask(result, piiContext, plainConfig);
+    if (secretsContext) result = unmaskSecrets(result, secretsContext);
+    return result;
+  };
+  const restoreArguments = (args: string) => unmaskArguments(args, contexts);
+  const restoreItem = (item: ResponsesItem) =>
+    unmaskResponsesItem(item, restoreText, restoreArguments, restoreInput);
+
+  const partKey = (family: string, event: ResponsesStreamEvent) =>
+    `${family}:${event.output_index ?? 0}:${event.content_index ?? event.summary_index ?? 0}`;
+
+  const unmaskDelta = (
+    key: string,
+    event: ResponsesStreamEvent,
+    text: string,
+    plain: boolean,
+  ): string => {
+    const buffer = textBuffers.get(key) ?? { pii: "", secrets: "", plain, event };
+    buffer.event = event;
+    let processedText = text;
+
+    if (piiContext && processedText) {
+      const { output, remainingBuffer } = unmaskStreamChunk(
+        buffer.pii,
+        processedText,
+        piiContext,
+        plain ? plainConfig : config,
+      );
+      buffer.pii = remainingBuffer;
+      processedText = output;
+    }
+
+    if (secretsContext && processedText) {
+      const { output, remainingBuffer } = unmaskSecretsStreamChunk(
+        buffer.secrets,
+        processedText,
+        secretsContext,
+      );
+      buffer.secrets = remainingBuffer;
+      processedText = output;
+    }
+
+    textBuffers.set(key, buffer);
+    return processedText;
+  };
+
+  const flushDelta = (key: string): string => {
+    const buffer = textBuffers.get(key);
+    if (!buffer) return "";
+    textBuffers.delete(key);
+
+    let flushed = "";
+    if (buffer.pii && piiContext) {
+      flushed = flushMaskingBuffer(buffer.pii, piiContext, buffer.plain ? plainConfig : config);
+    } else if (buffer.pii) {
+      flushed = buffer.pii;
+    }
+
+    if (buffer.secrets && secretsContext) {
+      flushed += flushSecretsMaskingBuffer(buffer.secrets, secretsContext);
+    } else if (buffer.secrets) {
+      flushed += buffer.secrets;
+    }
+
+    return flushed;
+  };
+
+  /**
+   * Returns the unmasked event, or null if it only buffered text
+   * (extra events to emit first are pushed to `before`)
+   */
+  const processEvent = (
+    parsed: ResponsesStreamEvent,
+    before: ResponsesStreamEvent[],
+  ): ResponsesStreamEvent | null => {
+    const type = parsed.type;
+    const family = type.slice(0, type.lastIndexOf("."));
+    const textField = TEXT_EVENTS[family];
+
+    if (textField && type.endsWith(".delta") && typeof parsed.delta === "string") {
+      const output = unmaskDelta(
+        partKey(family, parsed),
+        parsed,
+        parsed.delta,
+        TOOL_INPUT_EVENTS.has(family),
+      );
+      return output ? { ...parsed, delta: output } : null;
+    }
+
+    if (textField && type.endsWith(".done")) {
+      const key = partKey(family, parsed);
+      const template = textBuffers.get(key)?.event;
+      const flushed = flushDelta(key);
+      if (flushed && template) before.push(flushedDeltaEvent(template, flushed));
+      const full = parsed[textField];
+      const restore = TOOL_INPUT_EVENTS.has(family) ? restoreInput : restoreText;
+      return typeof full === "string" ? { ...parsed, [textField]: restore(full) } : parsed;
+    }
+
+    if (type === "response.function_call_arguments.delta" && typeof parsed.delta === "string") {
+      const index = parsed.output_index ?? 0;
+      toolEvents.set(index, parsed);
+      const output = toolUnmasker.push(index, parsed.delta);
+      return output ? { ...parsed, delta: output } : null;
+    }
+
+    if (type === "response.function_call_arguments.done") {
+      const index = parsed.output_index ?? 0;
+      const template = toolEvents.get(index);
+      toolEvents.delete(index);
+      const flushed = toolUnmasker.flush(index);
+      if (flushed && template) before.push(flushedDeltaEvent(template, flushed));
+      return typeof parsed.arguments === "string"
+        ? { ...parsed, arguments: restoreArguments(parsed.arguments) }
+        : parsed;
+    }
+
+    if (
+      (type === "response.content_part.done" || type === "response.reasoning_summary_part.done") &&
+      parsed.part
+    ) {
+      const part = { ...parsed.part };
+      if (typeof part.text === "string") part.text = restoreText(part.text);
+      if (typeof part.refusal === "string") part.refusal = restoreText(part.refusal);
+      return { ...parsed, part };
+    }
+
+    if (type === "response.output_item.done" && parsed.item) {
+      return { ...parsed, item: restoreItem(parsed.item) };
+    }
+
+    if (RESPONSE_EVENTS.has(type) && parsed.response) {
+      // cached_tokens is a subset of input_tokens (not additive like Anthropic),
+      // so subtract it to store only the non-cached portion.
+      const usage = parsed.response.usage;
+      if (onUsage && usage) {
+        const cachedTokens = usage.input_tokens_details?.cached_tokens ?? 0;
+        capturedUsage = {
+          promptTokens: (usage.input_tokens ?? 0) - cachedTokens,
+          completionTokens: usage.output_tokens ?? 0,
+          ...(cachedTokens > 0 ? { cacheReadInputTokens: cachedTokens } : {}),
+        };
+      }
+      const response = parsed.response;
+      return {
+        ...parsed,
+        response: { ...response, output: (response.output ?? []).map(restoreItem) },
+      };
+    }
+
+    return parsed;
+  };
+
+  return new ReadableStream({
+    async start(controller) {
+      const reader = source.getReader();
+
+      const emitPendingEventLine = () => {
+        if (pendingEventLine) {
+          controller.enqueue(encoder.encode(`${pendingEventLine}\n`));
+          pendingEventLine = "";
+        }
+      };
+
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+
+          if (done) {
+            emitPendingEventLine();
+
+            // Flush parts that never saw their .done event
+            for (const [key, buffer] of [...textBuffers]) {
+              const flushed = flushDelta(key);
+              if (flushed) {
+                controller.enqueue(
+                  encoder.encode(formatEvent(flushedDeltaEvent(buffer.event, flushed))),
+                );
+              }
+            }
+            for (const index of toolUnmasker.pendingKeys()) {
+              const template = toolEvents.get(index) ?? {
+                type: "response.function_call_arguments.delta",
+                output_index: index,
+              };
+              controller.enqueue(
+                encoder.encode(formatEvent(flushedDeltaEvent(template, toolUnmasker.flush(index)))),
+              );
+            }
+
+            // Fire token usage callback if we captured usage data
+            if (onUsage && capturedUsage) {
+              try {
+                onUsage(capturedUsage);
+              } catch (e) {
+                console.error("Token usage callback error:", e);
+              }
+            }
+
+            controller.close();
+            break;
+          }
+
+          lineBuffer += decoder.decode(value, { stream: true });
+          const lines = lineBuffer.split("\n");
+          lineBuffer = lines.pop() || "";
+
+          for (const line of lines) {
+            // Hold event type lines until the matching data line is handled
+            if (line.startsWith("event: ")) {
+              emitPendingEventLine();
+              pendingEventLine = line;
+              continue;
+            }
+
+            if (line.startsWith("data: ")) {
+              const data = line.slice(6);
+
+              // Skip full parse for events that can't contain text, arguments or usage
+              if (!PARSE_MARKERS.some((marker) => data.includes(marker))) {
+                emitPendingEventLine();
+                controller.enqueue(encoder.encode(`data: ${data}\n`));
+                continue;
+              }
+
+              try {
+                const parsed = JSON.parse(data) as ResponsesStreamEvent;
+                const before: ResponsesStreamEvent[] = [];
+                const result = processEvent(parsed, before);
+
+                for (const event of before) {
+                  controller.enqueue(encoder.encode(formatEvent(event)));
+                }
+
+                if (result) {
+                  emitPendingEventLine();
+                  controller.enqueue(encoder.encode(`data: ${JSON.stringify(result)}\n`));
+                } else {
+                  pendingEventLine = "";
+                }
+              } catch {
+                // Pass through unparseable data
+                emitPendingEventLine();
+                controller.enqueue(encoder.encode(`${line}\n`));
+              }
+              continue;
+            }
+
+            // A dropped event's trailing blank line is harmless: SSE ignores empty events
+            emitPendingEventLine();
+            controller.enqueue(encoder.encode(line.trim() === "" ? "\n" : `${line}\n`));
+          }
+        }
+      } catch (error) {
+        controller.error(error);
+      } finally {
+        reader.releaseLock();
+      }
+    },
+  });
+}
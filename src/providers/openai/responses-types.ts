@@ -0,0 +1,93 @@
+/**
+ * OpenAI Responses API Types
+ * Based on: https://platform.openai.com/docs/api-reference/responses
+ *
+ * Input and output share the same item shapes (message, function_call,
+ * function_call_output, reasoning, ...). Items are modelled as one loose
+ * object with the fields PasteGuard inspects; everything else passes through.
+ */
+
+import { z } from "zod";
+
+// Content part inside a message item (input_text, output_text, refusal, input_image, input_file, ...)
+export const ResponsesContentPartSchema = z
+  .object({
+    type: z.string(),
+    text: z.string().optional(),
+    refusal: z.string().optional(),
+  })
+  .passthrough();
+
+// Reasoning summary part (summary_text)
+export const ResponsesSummaryPartSchema = z
+  .object({
+    type: z.string(),
+    text: z.string(),
+  })
+  .passthrough();
+
+// Input/output item - type is optional for shorthand messages ({ role, content })
+export const ResponsesItemSchema = z
+  .object({
+    type: z.string().optional(),
+    id: z.string().optional(),
+    role: z.string().optional(),
+    // message
+    content: z.union([z.string(), z.array(ResponsesContentPartSchema)]).optional(),
+    // function_call - arguments is a JSON-encoded string
+    name: z.string().optional(),
+    arguments: z.string().optional(),
+    call_id: z.string().optional(),
+    // custom_tool_call - free-form input
+    input: z.string().optional(),
+    // function_call_output / custom_tool_call_output
+    output: z.union([z.string(), z.array(ResponsesContentPartSchema)]).optional(),
+    // reasoning
+    summary: z.array(ResponsesSummaryPartSchema).optional(),
+  })
+  .passthrough();
+
+// Responses request - minimal required fields, rest passthrough
+export const ResponsesRequestSchema = z
+  .object({
+    input: z.union([z.string(), z.array(ResponsesItemSchema)]).optional(),
+    instructions: z.string().nullable().optional(),
+    model: z.string().optional(),
+    stream: z.boolean().optional(),
+  })
+  .passthrough();
+
+// Responses response object
+export const ResponsesResponseSchema = z
+  .object({
+    id: z.string(),
+    object: z.literal("response"),
+    created_at: z.number().optional(),
+    model: z.string().optional(),
+    status: z.string().optional(),
+    output: z.array(ResponsesItemSchema),
+    usage: z
+      .object({
+        input_tokens: z.number(),
+        output_tokens: z.number(),
+        total_tokens: z.number().optional(),
+        // cached_tokens is a subset of input_tokens, not additive
+        input_tokens_details: z
+          .object({
+            cached_tokens: z.number().optional(),
+          })
+          .passthrough()
+          .optional(),
+      })
+      .passthrough()
+      .nullable()
+      .optional(),
+  })
+  .passthrough();
+
+// Inferred types
+export type ResponsesContentPart = z.infer<typeof ResponsesContentPartSchema>;
+export type ResponsesSummaryPart = z.infer<typeof ResponsesSummaryPartSchema>;
+export type ResponsesItem = z.infer<typeof ResponsesItemSchema>;
+export type ResponsesRequest = z.infer<typeof ResponsesRequestSchema>;
+export type ResponsesResponse = z.infer<typeof ResponsesResponseSchema>;
@@ -4,6 +4,9 @@ import { createMaskingContext } from "../../pii/mask";
 import { createUnmaskingStream } from "./stream-transformer";
 
 const defaultConfig: MaskingConfig = {
+  strategy: "placeholder",
+  placeholder_format: "[[{TYPE}_{N}]]",
+  fuzzy_unmask: "conservative",
   show_markers: false,
   marker_text: "[protected]",
   whitelist: [],
@@ -270,4 +273,88 @@ describe("createUnmaskingStream", () => {
       expect(result).toContain("[DONE]");
     });
   });
+
+  describe("tool call arguments", () => {
+    const toolCallChunk = (args: string, extra: object = {}) =>
+      `data: ${JSON.stringify({
+        choices: [
+          {
+            index: 0,
+            delta: { tool_calls: [{ index: 0, function: { arguments: args }, ...extra }] },
+            finish_reason: null,
+          },
+        ],
+      })}\n\n`;
+
+    function collectArguments(output: string): string {
+      return [...output.matchAll(/^data: (\{.*\})$/gm)]
+        .map((m) => JSON.parse(m[1]))
+        .flatMap((e) => e.choices?.[0]?.delta?.tool_calls ?? [])
+        .map((call: { function?: { arguments?: string } }) => call.function?.arguments ?? "")
+        .join("");
+    }
+
+    test("unmasks placeholders split across argument deltas with JSON escaping", async () => {
+      const context = createMaskingContext();
+      context.mapping["[[PERSON_1]]"] = 'John "JD" Doe';
+
+      const source = createSSEStream([
+        toolCallChunk("", { id: "call_1", type: "function", function: { name: "lookup" } }),
+        toolCallChunk('{"name": "[[PERS'),
+        toolCallChunk('ON_1]]"}'),
+        `data: {"choices":[{"index":0,"delta":{},"finish_reason":"tool_calls"}]}\n\n`,
+        "data: [DONE]\n\n",
+      ]);
+
+      const result = await consumeStream(createUnmaskingStream(source, context, defaultConfig));
+
+      expect(JSON.parse(collectArguments(result))).toEqual({ name: 'John "JD" Doe' });
+      expect(result).toContain('"name":"lookup"');
+    });
+
+    test("flushes buffered arguments before finish_reason chunk", async () => {
+      const context = createMaskingContext();
+      context.mapping["[[PERSON_1]]"] = "Bob";
+
+      const source = createSSEStream([
+        toolCallChunk('{"m": [[1'),
+        toolCallChunk("],2]}"),
+        `data: {"choices":[{"index":0,"delta":{},"finish_reason":"tool_calls"}]}\n\n`,
+      ]);
+
+      const result = await consumeStream(createUnmaskingStream(source, context, defaultConfig));
+
+      expect(collectArguments(result)).toBe('{"m": [[1],2]}');
+      expect(result.lastIndexOf('finish_reason":"tool_calls')).toBeGreaterThan(
+        result.lastIndexOf("[[1"),
+      );
+    });
+
+    test("keeps the last arguments delta in order when it carries finish_reason", async () => {
+      const context = createMaskingContext();
+      context.mapping["[[PERSON_1]]"] = "Bob";
+
+      const source = createSSEStream([
+        toolCallChunk('{"name": "[[PERS'),
+        `data: ${JSON.stringify({
+          choices: [
+            {
+              index: 0,
+              delta: {
+                tool_calls: [{ index: 0, function: { arguments: 'ON_1]]", "m": [[1],2]}' } }],
+              },
+              finish_reason: "tool_calls",
+            },
+          ],
+        })}\n\n`,
+      ]);
+
+      const result = await consumeStream(createUnmaskingStream(source, context, defaultConfig));
+
+      expect(JSON.parse(collectArguments(result))).toEqual({ name: "Bob", m: [[1], 2] });
+      expect(result.lastIndexOf('finish_reason":"tool_calls')).toBeGreaterThan(
+        result.lastIndexOf("[[1"),
+      );
+    });
+  });
 });
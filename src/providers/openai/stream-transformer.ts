@@ -1,5 +1,6 @@
 import type { MaskingConfig } from "../../config";
 import type { PlaceholderContext } from "../../masking/context";
+import { createToolArgumentsStreamUnmasker } from "../../masking/tool-arguments";
 import { flushMaskingBuffer, unmaskStreamChunk } from "../../pii/mask";
 import { flushSecretsMaskingBuffer, unmaskSecretsStreamChunk } from "../../secrets/mask";
 import type { TokenUsage } from "../../services/logger";
@@ -8,6 +9,30 @@ import type { TokenUsage } from "../../services/logger";
 const encoder = new TextEncoder();
 const DONE_BYTES = encoder.encode("data: [DONE]\n\n");
 
+interface ToolCallDelta {
+  index?: number;
+  function?: { arguments?: string };
+}
+
+/**
+ * Builds an SSE event carrying tool call argument text for a single tool call
+ */
+function toolArgumentsEvent(index: number, args: string): Uint8Array {
+  const event = {
+    id: `flush-${Date.now()}`,
+    object: "chat.completion.chunk",
+    created: Math.floor(Date.now() / 1000),
+    choices: [
+      {
+        index: 0,
+        delta: { tool_calls: [{ index, function: { arguments: args } }] },
+        finish_reason: null,
+      },
+    ],
+  };
+  return encoder.encode(`data: ${JSON.stringify(event)}\n\n`);
+}
+
 /**
  * Creates a transform stream that unmasks SSE content
  *
@@ -15,6 +40,7 @@ const DONE_BYTES = encoder.encode("data: [DONE]\n\n");
  * and unmasking complete ones before forwarding to the client.
  *
  * Supports both PII unmasking and secrets unmasking, or either alone.
+ * Tool call argument deltas are unmasked per tool call with JSON string escaping.
  */
 export function createUnmaskingStream(
   source: ReadableStream<Uint8Array>,
@@ -27,6 +53,9 @@ export function createUnmaskingStream(
   let piiBuffer = "";
   let secretsBuffer = "";
   let capturedUsage: TokenUsage | undefined;
+  const toolUnmasker = createToolArgumentsStreamUnmasker(
+    [piiContext, secretsContext].filter((ctx): ctx is PlaceholderContext => !!ctx),
+  );
 
   return new ReadableStream({
     async start(controller) {
@@ -46,6 +75,11 @@ export function createUnmaskingStream(
               }
             }
 
+            // Flush buffered tool call arguments
+            for (const index of toolUnmasker.pendingKeys()) {
+              controller.enqueue(toolArgumentsEvent(index, toolUnmasker.flush(index)));
+            }
+
             // Flush remaining buffer content before closing
             let flushed = "";
 
@@ -94,8 +128,14 @@ export function createUnmaskingStream(
                 continue;
               }
 
-              // Skip full parse for events that can't have text content or usage
-              if (!data.includes('"content"') && !(onUsage && data.includes('"usage"'))) {
+              // Skip full parse for events that can't have text content, tool arguments,
+              // usage, or a finish_reason that closes buffered tool arguments
+              if (
+                !data.includes('"content"') &&
+                !data.includes('"arguments"') &&
+                !(onUsage && data.includes('"usage"')) &&
+                !(toolUnmasker.pendingKeys().length > 0 && data.includes('"finish_reason"'))
+              ) {
                 controller.enqueue(encoder.encode(`data: ${data}\n\n`));
                 continue;
               }
@@ -116,6 +156,36 @@ export function createUnmaskingStream(
                 }
 
                 const content = parsed.choices?.[0]?.delta?.content || "";
+                const toolCalls = parsed.choices?.[0]?.delta?.tool_calls as
+                  | ToolCallDelta[]
+                  | undefined;
+
+                if (toolCalls?.length) {
+                  for (const call of toolCalls) {
+                    if (call.function?.arguments) {
+                      call.function.arguments = toolUnmasker.push(
+                        call.index ?? 0,
+                        call.function.arguments,
+                      );
+                    }
+                  }
+                }
+
+                // Emit buffered tool arguments before the choice finishes: calls with
+                // an arguments delta in this chunk carry the rest in it, others get
+                // an event of their own ahead of it
+                if (parsed.choices?.[0]?.finish_reason) {
+                  for (const index of toolUnmasker.pendingKeys()) {
+                    const call = toolCalls?.find(
+                      (c) => (c.index ?? 0) === index && c.function?.arguments !== undefined,
+                    );
+                    if (call?.function) {
+                      call.function.arguments += toolUnmasker.flush(index);
+                    } else {
+                      controller.enqueue(toolArgumentsEvent(index, toolUnmasker.flush(index)));
+                    }
+                  }
+                }
 
                 if (content) {
                   let processedContent = content;
@@ -143,11 +213,13 @@ export function createUnmaskingStream(
                     processedContent = output;
                   }
 
-                  if (processedContent) {
-                    // Update the parsed object with processed content
-                    parsed.choices[0].delta.content = processedContent;
+                  // Update the parsed object with processed content
+                  parsed.choices[0].delta.content = processedContent;
+                  if (processedContent || toolCalls?.length) {
                     controller.enqueue(encoder.encode(`data: ${JSON.stringify(parsed)}\n\n`));
                   }
+                } else if (toolCalls?.length) {
+                  controller.enqueue(encoder.encode(`data: ${JSON.stringify(parsed)}\n\n`));
                 } else {
                   // Pass through non-content events
                   controller.enqueue(encoder.encode(`data: ${data}\n\n`));
@@ -29,11 +29,27 @@ export const OpenAIMessageContentSchema = z.union([
   z.null(),
 ]);
 
+// Tool call emitted by the assistant - arguments is a JSON-encoded string
+export const OpenAIToolCallSchema = z
+  .object({
+    id: z.string().optional(),
+    type: z.string().optional(),
+    function: z
+      .object({
+        name: z.string().optional(),
+        arguments: z.string().optional(),
+      })
+      .passthrough()
+      .optional(),
+  })
+  .passthrough();
+
 // Chat message
 export const OpenAIMessageSchema = z
   .object({
     role: z.enum(["system", "developer", "user", "assistant", "tool", "function"]),
     content: OpenAIMessageContentSchema.optional(),
+    tool_calls: z.array(OpenAIToolCallSchema).optional(),
   })
   .passthrough();
 
@@ -56,7 +72,9 @@ export const OpenAIResponseSchema = z.object({
     z.object({
       index: z.number(),
       message: OpenAIMessageSchema.passthrough(),
-      finish_reason: z.enum(["stop", "length", "content_filter"]).nullable(),
+      finish_reason: z
+        .enum(["stop", "length", "content_filter", "tool_calls", "function_call"])
+        .nullable(),
     }),
   ),
   usage: z
@@ -80,6 +98,7 @@ export const OpenAIResponseSchema = z.object({
 // Inferred types
 export type OpenAIContentPart = z.infer<typeof OpenAIContentPartSchema>;
 export type OpenAIMessageContent = z.infer<typeof OpenAIMessageContentSchema>;
+export type OpenAIToolCall = z.infer<typeof OpenAIToolCallSchema>;
 export type OpenAIMessage = z.infer<typeof OpenAIMessageSchema>;
 export type OpenAIRequest = z.infer<typeof OpenAIRequestSchema>;
 export type OpenAIResponse = z.infer<typeof OpenAIResponseSchema>;
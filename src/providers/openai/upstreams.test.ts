@@ -0,0 +1,148 @@
+import { describe, expect, spyOn, test } from "bun:test";
+import type { Config, RoutingRule } from "../../config";
+import { callOpenAI } from "./client";
+import {
+  getClientAuth,
+  getFallbackUpstream,
+  type RoutingInput,
+  resolveUpstream,
+} from "./upstreams";
+
+function createConfig(routing: RoutingRule[]): Config {
+  return {
+    server: { provider_timeout_ms: 60_000 },
+    providers: {
+      openai: { base_url: "https://api.openai.com/v1" },
+      upstreams: {
+        mistral: {
+          base_url: "https://api.mistral.ai/v1",
+          api_key: "mistral-key",
+          timeout_ms: 20_000,
+        },
+        litellm: { base_url: "http://litellm:4000/v1" },
+      },
+      routing,
+    },
+  } as unknown as Config;
+}
+
+function input(overrides: Partial<RoutingInput> = {}): RoutingInput {
+  return {
+    model: "gpt-4o",
+    path: "/openai/v1/chat/completions",
+    headers: { authorization: "Bearer client-key" },
+    ...overrides,
+  };
+}
+
+describe("resolveUpstream", () => {
+  test("falls back to providers.openai without a matching rule", () => {
+    const config = createConfig([{ model: "mistral-*", upstream: "mistral" }]);
+    const target = resolveUpstream(config, input());
+
+    expect(target.name).toBe("openai");
+    expect(target.config.base_url).toBe("https://api.openai.com/v1");
+    expect(target.authHeader).toBe("Bearer client-key");
+    expect(target.timeoutMs).toBe(60_000);
+  });
+
+  test("routes by model glob and uses the upstream's own key and timeout", () => {
+    const config = createConfig([{ model: "mistral-*", upstream: "mistral" }]);
+    const target = resolveUpstream(config, input({ model: "mistral-large-latest" }));
+
+    expect(target.name).toBe("mistral");
+    expect(target.config.api_key).toBe("mistral-key");
+    expect(target.authHeader).toBeUndefined();
+    expect(target.timeoutMs).toBe(20_000);
+  });
+
+  test("forwards the client's auth header to upstreams without api_key", () => {
+    const config = createConfig([{ model: "llama-*", upstream: "litellm" }]);
+    const target = resolveUpstream(config, input({ model: "llama-3.1-70b" }));
+
+    expect(target.name).toBe("litellm");
+    expect(target.authHeader).toBe("Bearer client-key");
+    expect(target.timeoutMs).toBe(60_000);
+  });
+
+  test("first matching rule wins, including explicit openai targets", () => {
+    const config = createConfig([
+      { model: "gpt-4o-mini*", upstream: "litellm" },
+      { model: "gpt-*", upstream: "openai" },
+      { model: "*", upstream: "mistral" },
+    ]);
+
+    expect(resolveUpstream(config, input({ model: "gpt-4o-mini" })).name).toBe("litellm");
+    expect(resolveUpstream(config, input({ model: "gpt-4o" })).name).toBe("openai");
+    expect(resolveUpstream(config, input({ model: "o3" })).name).toBe("mistral");
+  });
+
+  test("matches header presence and header value globs case-insensitively by name", () => {
+    const config = createConfig([
+      { header: { name: "X-Team", value: "research-*" }, upstream: "litellm" },
+      { header: { name: "X-Use-Mistral" }, upstream: "mistral" },
+    ]);
+
+    const research = input({ headers: { "x-team": "research-nlp" } });
+    const sales = input({ headers: { "x-team": "sales" } });
+    const flagged = input({ headers: { "x-use-mistral": "" } });
+
+    expect(resolveUpstream(config, research).name).toBe("litellm");
+    expect(resolveUpstream(config, sales).name).toBe("openai");
+    expect(resolveUpstream(config, flagged).name).toBe("mistral");
+  });
+
+  test("matches path prefix and requires all conditions of a rule", () => {
+    const config = createConfig([
+      { path_prefix: "/openai/v1/embeddings", model: "mistral-*", upstream: "mistral" },
+    ]);
+
+    const embeddings = input({ path: "/openai/v1/embeddings", model: "mistral-embed" });
+    const chat = input({ model: "mistral-embed" });
+
+    expect(resolveUpstream(config, embeddings).name).toBe("mistral");
+    expect(resolveUpstream(config, chat).name).toBe("openai");
+  });
+
+  test("model rules never match requests without a model", () => {
+    const config = createConfig([{ model: "*", upstream: "mistral" }]);
+
+    expect(resolveUpstream(config, input({ model: undefined })).name).toBe("openai");
+  });
+});
+
+describe("getClientAuth", () => {
+  test("prefers Authorization and turns an api-key header into a bearer value", () => {
+    expect(getClientAuth({ authorization: "Bearer a", "api-key": "b" })).toBe("Bearer a");
+    expect(getClientAuth({ "api-key": "b" })).toBe("Bearer b");
+    expect(getClientAuth({})).toBeUndefined();
+  });
+});
+
+describe("getFallbackUpstream", () => {
+  test("never sends the client's Authorization to a fallback", async () => {
+    const fetchSpy = spyOn(globalThis, "fetch").mockResolvedValue(
+      Response.json({ id: "1", model: "gpt-4o", choices: [] }),
+    );
+    try {
+      const primary = resolveUpstream(createConfig([]), input());
+      const fallback = getFallbackUpstream(createConfig([]), "mistral");
+
+      expect(primary.authHeader).toBe("Bearer client-key");
+      expect(fallback?.authHeader).toBeUndefined();
+
+      await callOpenAI({ model: "gpt-4o", messages: [] }, fallback!.config, fallback!.authHeader);
+      const headers = new Headers(fetchSpy.mock.calls[0][1]?.headers);
+      expect(headers.get("authorization")).toBe("Bearer mistral-key");
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+
+  test("skips fallbacks without their own api_key", () => {
+    const config = createConfig([]);
+
+    expect(getFallbackUpstream(config, "litellm")).toBeUndefined();
+    expect(getFallbackUpstream(config, "openai")).toBeUndefined();
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Upstream selection for the OpenAI-compatible routes
+ *
+ * providers.routing rules are checked in order. The first rule whose
+ * conditions (model glob, header, path prefix) all match picks the upstream;
+ * requests no rule matches go to providers.openai.
+ */
+
+import type { Config, OpenAIProviderConfig, RoutingRule } from "../../config";
+import { matchesGlob } from "../../masking/whitelist";
+
+/** Name of providers.openai as a routing target and in logs */
+export const DEFAULT_UPSTREAM = "openai";
+
+// Fallbacks skipped for a missing api_key, warned about once each
+const skippedFallbacks = new Set<string>();
+
+/**
+ * Request attributes routing rules match on
+ */
+export interface RoutingInput {
+  model?: string;
+  /** Full request path, e.g. /openai/v1/chat/completions */
+  path: string;
+  /** Incoming headers with lowercase names */
+  headers: Record<string, string | undefined>;
+}
+
+/**
+ * Resolved upstream for one request
+ */
+export interface UpstreamTarget {
+  /** "openai" or a providers.upstreams key - logged as the provider */
+  name: string;
+  config: OpenAIProviderConfig;
+  /** Client auth header to forward - unset when the upstream has its own api_key */
+  authHeader?: string;
+  timeoutMs: number;
+  /** Providers to try when this one fails ("local", "openai" or providers.upstreams keys) */
+  fallback: string[];
+}
+
+function matchesRule(rule: RoutingRule, input: RoutingInput): boolean {
+  if (rule.model && !(input.model && matchesGlob(rule.model, input.model))) {
+    return false;
+  }
+
+  if (rule.header) {
+    const value = input.headers[rule.header.name.toLowerCase()];
+    if (value === undefined) return false;
+    if (rule.header.value !== undefined && !matchesGlob(rule.header.value, value)) return false;
+  }
+
+  if (rule.path_prefix && !input.path.startsWith(rule.path_prefix)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Picks the upstream for a request
+ */
+export function resolveUpstream(config: Config, input: RoutingInput): UpstreamTarget {
+  const rule = config.providers.routing.find((r) => matchesRule(r, input));
+  return getUpstream(config, rule?.upstream ?? DEFAULT_UPSTREAM, getClientAuth(input.headers));
+}
+
+/**
+ * The client's auth as an Authorization value
+ *
+ * Azure SDKs send their key as api-key instead of Authorization: Bearer, it's
+ * turned into a bearer value so every upstream type can use it.
+ */
+export function getClientAuth(headers: Record<string, string | undefined>): string | undefined {
+  if (headers.authorization) return headers.authorization;
+  return headers["api-key"] ? `Bearer ${headers["api-key"]}` : undefined;
+}
+
+/**
+ * Builds the target for an upstream by name ("openai" or a providers.upstreams key)
+ */
+export function getUpstream(config: Config, name: string, clientAuth?: string): UpstreamTarget {
+  const upstream = name !== DEFAULT_UPSTREAM ? config.providers.upstreams[name] : undefined;
+
+  if (!upstream) {
+    return {
+      name: DEFAULT_UPSTREAM,
+      config: config.providers.openai,
+      authHeader: clientAuth,
+      timeoutMs: config.server.provider_timeout_ms,
+      fallback: config.providers.openai.fallback,
+    };
+  }
+
+  return {
+    name,
+    config: upstream,
+    // Clients hold one key, so an upstream's own api_key replaces whatever they sent
+    authHeader: upstream.api_key ? undefined : clientAuth,
+    timeoutMs: upstream.timeout_ms ?? config.server.provider_timeout_ms,
+    fallback: upstream.fallback,
+  };
+}
+
+/**
+ * Builds the target for a fallback ("openai" or a providers.upstreams key)
+ *
+ * The client's credential was sent for the first provider, so it is never
+ * forwarded to a fallback. Fallbacks without their own api_key are skipped
+ * (with a warning) and return undefined.
+ */
+export function getFallbackUpstream(config: Config, name: string): UpstreamTarget | undefined {
+  const target = getUpstream(config, name);
+  if (!target.config.api_key) {
+    if (!skippedFallbacks.has(target.name)) {
+      skippedFallbacks.add(target.name);
+      console.warn(
+        `[FALLBACK] Skipping fallback ${target.name}: it has no api_key and client credentials are only sent to the first provider`,
+      );
+    }
+    return undefined;
+  }
+  return target;
+}
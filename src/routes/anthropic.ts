@@ -21,31 +21,51 @@ import {
   extractSystemText,
 } from "../masking/extractors/anthropic";
 import { unmaskResponse as unmaskPIIResponse } from "../pii/mask";
-import { callAnthropic, collectAnthropicHeaders } from "../providers/anthropic/client";
+import {
+  type AnthropicResult,
+  callAnthropic,
+  collectAnthropicHeaders,
+} from "../providers/anthropic/client";
 import { createAnthropicUnmaskingStream } from "../providers/anthropic/stream-transformer";
 import {
   type AnthropicRequest,
   AnthropicRequestSchema,
   type AnthropicResponse,
 } from "../providers/anthropic/types";
+import {
+  callWithFailover,
+  type FailedAttempt,
+  formatFailedAttempts,
+  type ProviderCandidate,
+} from "../providers/failover";
 import { callLocalAnthropic } from "../providers/local";
 import { unmaskSecretsResponse } from "../secrets/mask";
 import { incrementActive, setPhase } from "../services/active-requests";
 import { logRequest } from "../services/logger";
-import { detectPII, maskPII, type PIIDetectResult } from "../services/pii";
+import { detectPII, handleDetectionError, maskPII, type PIIDetectResult } from "../services/pii";
+import { decidePolicy, getModeDecision, type PolicyDecision } from "../services/policy";
 import { processSecretsRequest, type SecretsProcessResult } from "../services/secrets";
+import {
+  getClientCredential,
+  loadSession,
+  SESSION_HEADER,
+  saveSession,
+} from "../services/sessions";
 import type { TokenUsage } from "./utils";
 import {
   createLogData,
   createTokenUpdateCallback,
   errorFormats,
   handleProviderError,
+  recordFuzzyRestores,
+  respondPolicyBlocked,
   setBlockedHeaders,
   setResponseHeaders,
   toPIIHeaderData,
   toPIILogData,
   toSecretsHeaderData,
   toSecretsLogData,
+  trackFuzzyRestores,
 } from "./utils";
 
 export const anthropicRoutes = new Hono();
@@ -99,11 +119,19 @@ anthropicRoutes.post(
       );
     }
 
+    const session = loadSession(
+      request,
+      anthropicExtractor,
+      c.req.header(SESSION_HEADER),
+      getClientCredential(c.req.header()),
+    );
+
     // Step 1: Process secrets
     const secretsResult = processSecretsRequest(
       request,
       config.secrets_detection,
       anthropicExtractor,
+      session?.secrets,
     );
 
     if (secretsResult.blocked) {
@@ -133,18 +161,41 @@ anthropicRoutes.post(
       try {
         piiResult = await detectPII(request, anthropicExtractor);
       } catch (error) {
-        console.error("PII detection error:", error);
-        return respondDetectionError(c, request, secretsResult, startTime, reqId);
+        const degraded = handleDetectionError("anthropic", error);
+        if (!degraded) return respondDetectionError(c, request, secretsResult, startTime, reqId);
+        piiResult = degraded;
       }
     }
 
-    // Step 3: Route mode - send to local if PII or secrets detected
-    const shouldRouteToLocal =
-      config.mode === "route" &&
-      (piiResult.hasPII ||
-        (secretsResult.detection?.detected && config.secrets_detection.action === "route_local"));
+    // Step 3: Policy rules decide, otherwise the mode
+    // (detection failed with on_error route_local - only the local provider sees the request)
+    const decision: PolicyDecision =
+      piiResult.degraded === "route_local"
+        ? { action: "route_local", rule: "on_error" }
+        : decidePolicy(
+            "anthropic",
+            { piiResult, secretsResult, model: request.model, client: c.req.header("User-Agent") },
+            getModeDecision(piiResult, secretsResult),
+          );
+    piiResult = { ...piiResult, decision };
+
+    if (decision.action === "block") {
+      return respondPolicyBlocked(
+        c,
+        {
+          provider: "anthropic",
+          model: request.model || "unknown",
+          startTime,
+          piiResult,
+          secretsResult,
+          userAgent: c.req.header("User-Agent") || null,
+          activeRequestId: reqId,
+        },
+        (msg) => errorFormats.anthropic.error(msg, "invalid_request_error"),
+      );
+    }
 
-    if (shouldRouteToLocal) {
+    if (decision.action === "route_local") {
       return sendToLocal(c, request, {
         request,
         startTime,
@@ -154,12 +205,12 @@ anthropicRoutes.post(
       });
     }
 
-    // Step 4: Mask mode - mask PII if found, send to Anthropic
+    // Step 4: Mask PII if found (unless the decision is allow), send to Anthropic
     let piiMaskingContext: PlaceholderContext | undefined;
     let maskedContent: string | undefined;
 
-    if (piiResult.hasPII) {
-      const masked = maskPII(request, piiResult.detection, anthropicExtractor);
+    if (decision.action === "mask" && piiResult.hasPII) {
+      const masked = maskPII(request, piiResult.detection, anthropicExtractor, session?.pii);
       request = masked.request;
       piiMaskingContext = masked.maskingContext;
       maskedContent = formatRequestForLog(request);
@@ -167,6 +218,8 @@ anthropicRoutes.post(
       maskedContent = formatRequestForLog(request);
     }
 
+    saveSession(session);
+
     // Step 5: Send to Anthropic
     return sendToAnthropic(c, request, {
       startTime,
@@ -334,8 +387,14 @@ async function sendToLocal(c: Context, originalRequest: AnthropicRequest, opts:
 
   setPhase(reqId, "provider");
   const providerStart = Date.now();
+  const failed: FailedAttempt[] = [];
   try {
-    const result = await callLocalAnthropic(request, config.local);
+    const local = config.local;
+    const { result } = await callWithFailover(
+      [{ name: "local", call: () => callLocalAnthropic(request, local) }],
+      config.providers.retry,
+      failed,
+    );
     const providerCallMs = Date.now() - providerStart;
 
     logRequest(
@@ -347,6 +406,7 @@ async function sendToLocal(c: Context, originalRequest: AnthropicRequest, opts:
         pii: toPIILogData(piiResult),
         secrets: toSecretsLogData(secretsResult),
         maskedContent,
+        failedAttempts: formatFailedAttempts(failed),
       }),
       c.req.header("User-Agent") || null,
       reqId,
@@ -372,6 +432,7 @@ async function sendToLocal(c: Context, originalRequest: AnthropicRequest, opts:
         pii: toPIILogData(piiResult),
         secrets: toSecretsLogData(secretsResult),
         maskedContent,
+        failedAttempts: failed,
         userAgent: c.req.header("User-Agent") || null,
         activeRequestId: reqId,
       },
@@ -398,28 +459,45 @@ async function sendToAnthropic(c: Context, request: AnthropicRequest, opts: Send
     beta: c.req.header("anthropic-beta"),
   };
 
+  // Fallbacks get the request as prepared for Anthropic, masked or not
+  const chain: ProviderCandidate<AnthropicResult>[] = [
+    {
+      name: "anthropic",
+      call: () =>
+        callAnthropic(
+          request,
+          config.providers.anthropic,
+          clientHeaders,
+          config.server.provider_timeout_ms,
+        ),
+    },
+  ];
+  const local = config.local;
+  if (local && config.providers.anthropic.fallback.includes("local")) {
+    chain.push({ name: "local", call: () => callLocalAnthropic(request, local) });
+  }
+
   setPhase(reqId, "provider");
   const providerStart = Date.now();
+  const failed: FailedAttempt[] = [];
   try {
-    const result = await callAnthropic(
-      request,
-      config.providers.anthropic!,
-      clientHeaders,
-      config.server.provider_timeout_ms,
-    );
+    const { result, provider } = await callWithFailover(chain, config.providers.retry, failed);
     const providerCallMs = Date.now() - providerStart;
+    const failedAttempts = formatFailedAttempts(failed);
+    if (provider !== "anthropic") c.header("X-PasteGuard-Provider", provider);
 
     if (result.isStreaming) {
       setPhase(reqId, "streaming");
       const logId = logRequest(
         createLogData({
-          provider: "anthropic",
+          provider,
           model: result.model || request.model,
           startTime,
           providerCallMs,
           pii: toPIILogData(piiResult),
           secrets: toSecretsLogData(secretsResult),
           maskedContent,
+          failedAttempts,
         }),
         c.req.header("User-Agent") || null,
       );
@@ -430,19 +508,21 @@ async function sendToAnthropic(c: Context, request: AnthropicRequest, opts: Send
         piiMaskingContext,
         secretsResult.maskingContext,
         onUsage,
+        logId,
       );
     }
 
     const usage = result.response.usage;
-    logRequest(
+    const logId = logRequest(
       createLogData({
-        provider: "anthropic",
+        provider,
         model: result.model || request.model,
         startTime,
         providerCallMs,
         pii: toPIILogData(piiResult),
         secrets: toSecretsLogData(secretsResult),
         maskedContent,
+        failedAttempts,
         promptTokens: usage?.input_tokens,
         completionTokens: usage?.output_tokens,
         cacheCreationInputTokens: usage?.cache_creation_input_tokens,
@@ -452,19 +532,20 @@ async function sendToAnthropic(c: Context, request: AnthropicRequest, opts: Send
       reqId,
     );
 
-    return respondJson(c, result.response, piiMaskingContext, secretsResult.maskingContext);
+    return respondJson(c, result.response, piiMaskingContext, secretsResult.maskingContext, logId);
   } catch (error) {
     return handleProviderError(
       c,
       error,
       {
-        provider: "anthropic",
+        provider: failed.at(-1)?.provider ?? "anthropic",
         model: request.model,
         startTime,
         providerCallMs: Date.now() - providerStart,
         pii: toPIILogData(piiResult),
         secrets: toSecretsLogData(secretsResult),
         maskedContent,
+        failedAttempts: failed,
         userAgent: c.req.header("User-Agent") || null,
         activeRequestId: reqId,
       },
@@ -481,6 +562,7 @@ function respondStreaming(
   piiMaskingContext: PlaceholderContext | undefined,
   secretsContext: PlaceholderContext | undefined,
   onUsage?: (tokens: TokenUsage) => void,
+  logId?: number,
 ) {
   const config = getConfig();
   c.header("Content-Type", "text/event-stream");
@@ -495,7 +577,7 @@ function respondStreaming(
       secretsContext,
       onUsage,
     );
-    return c.body(unmaskingStream);
+    return c.body(trackFuzzyRestores(unmaskingStream, logId, [piiMaskingContext, secretsContext]));
   }
 
   return c.body(stream);
@@ -506,6 +588,7 @@ function respondJson(
   response: AnthropicResponse,
   piiMaskingContext: PlaceholderContext | undefined,
   secretsContext: PlaceholderContext | undefined,
+  logId?: number,
 ) {
   const config = getConfig();
   let result = response;
@@ -517,6 +600,7 @@ function respondJson(
   if (secretsContext) {
     result = unmaskSecretsResponse(result, secretsContext, anthropicExtractor);
   }
+  recordFuzzyRestores(logId, [piiMaskingContext, secretsContext]);
 
   return c.json(result);
 }
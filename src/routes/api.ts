@@ -8,10 +8,16 @@
 import { Hono } from "hono";
 import { z } from "zod";
 import { getConfig, type SecretsDetectionConfig } from "../config";
-import { createPlaceholderContext, type PlaceholderContext } from "../masking/context";
+import {
+  createPlaceholderContext,
+  getPlaceholderFormat,
+  type PlaceholderContext,
+} from "../masking/context";
+import { generatePlaceholder } from "../masking/placeholders";
 import { filterWhitelistedEntities, getPIIDetector } from "../pii/detect";
 import { mask as maskPII } from "../pii/mask";
-import { detectSecrets } from "../secrets/detect";
+import { validateEntities } from "../pii/validate";
+import { detectSecrets, filterWhitelistedSecrets } from "../secrets/detect";
 import { maskSecrets } from "../secrets/mask";
 import { getLanguageDetector, type SupportedLanguage } from "../services/language-detector";
 import { logRequest } from "../services/logger";
@@ -52,13 +58,15 @@ function extractEntities(
   context: PlaceholderContext,
 ): MaskEntity[] {
   const entities: MaskEntity[] = [];
+  const { template } = getPlaceholderFormat(context);
 
   for (const [type, count] of Object.entries(context.counters)) {
     const startCount = countersBefore[type] || 0;
     // Add entities for each new placeholder created
     for (let i = startCount + 1; i <= count; i++) {
-      // Build placeholder directly using known format (same for PII and secrets)
-      const placeholder = `[[${type}_${i}]]`;
+      // Build placeholder from the context format (same for PII and secrets);
+      // numbers skipped for reserved literals have no mapping
+      const placeholder = generatePlaceholder(template, type, i);
 
       if (context.mapping[placeholder]) {
         entities.push({ type, placeholder });
@@ -105,7 +113,9 @@ apiRoutes.post("/mask", async (c) => {
   const detectSecretsFlag = detectTypes.includes("secrets");
 
   // Initialize context with optional startFrom counters
-  const context = createPlaceholderContext();
+  const context = createPlaceholderContext({
+    placeholderFormat: config.masking.placeholder_format,
+  });
   if (request.startFrom) {
     for (const [type, count] of Object.entries(request.startFrom)) {
       context.counters[type] = count;
@@ -131,21 +141,27 @@ apiRoutes.post("/mask", async (c) => {
   const piiEntityTypes: string[] = [];
   const secretTypes: string[] = [];
   let scanTimeMs = 0;
+  let validationRejected: Record<string, number> | undefined;
 
   // Detect and mask PII
   if (detectPII) {
     try {
       const piiStartTime = Date.now();
       const detector = getPIIDetector();
-      const piiEntities = await detector.detectPII(maskedText, language);
+      const piiEntities = [
+        ...(await detector.detectPII(maskedText, language)),
+        ...detector.detectDenyListTerms(maskedText),
+      ];
       scanTimeMs = Date.now() - piiStartTime;
 
-      // Apply whitelist filtering
-      const filteredEntities = filterWhitelistedEntities(
+      // Apply whitelist filtering, then drop hits that fail checksum/plausibility checks
+      const validated = validateEntities(
         maskedText,
-        piiEntities,
-        config.masking.whitelist,
+        filterWhitelistedEntities(maskedText, piiEntities, config.masking.whitelist),
+        config.pii_detection.validation,
       );
+      const filteredEntities = validated.entities;
+      validationRejected = validated.rejected;
 
       // Capture counters before masking to track new entities
       const countersBefore = { ...context.counters };
@@ -196,9 +212,15 @@ apiRoutes.post("/mask", async (c) => {
         entities: config.secrets_detection.entities,
         max_scan_chars: config.secrets_detection.max_scan_chars,
         log_detected_types: false,
+        entropy: config.secrets_detection.entropy,
+        custom_patterns: config.secrets_detection.custom_patterns,
       };
 
-      const secretsResult = detectSecrets(maskedText, secretsConfig);
+      const secretsResult = filterWhitelistedSecrets(
+        maskedText,
+        detectSecrets(maskedText, secretsConfig),
+        config.masking.whitelist,
+      );
 
       if (secretsResult.locations && secretsResult.locations.length > 0) {
         // Capture counters before masking to track new entities
@@ -227,6 +249,7 @@ apiRoutes.post("/mask", async (c) => {
             language,
             languageFallback,
             scanTimeMs,
+            validationRejected,
           },
           statusCode: 503,
           errorMessage: error instanceof Error ? error.message : "Secrets detection failed",
@@ -259,6 +282,7 @@ apiRoutes.post("/mask", async (c) => {
         language,
         languageFallback,
         scanTimeMs,
+        validationRejected,
       },
       secrets:
         secretTypes.length > 0 ? { detected: true, types: secretTypes, masked: true } : undefined,
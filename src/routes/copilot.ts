@@ -56,18 +56,28 @@ import {
 import { unmaskSecretsResponse } from "../secrets/mask";
 import { incrementActive, setPhase } from "../services/active-requests";
 import { logRequest } from "../services/logger";
-import { detectPII, maskPII, type PIIDetectResult } from "../services/pii";
+import { detectPII, handleDetectionError, maskPII, type PIIDetectResult } from "../services/pii";
+import { decidePolicy } from "../services/policy";
 import { processSecretsRequest, type SecretsProcessResult } from "../services/secrets";
+import {
+  getClientCredential,
+  loadSession,
+  SESSION_HEADER,
+  saveSession,
+} from "../services/sessions";
 import {
   createLogData,
   errorFormats,
   handleProviderError,
+  recordFuzzyRestores,
+  respondPolicyBlocked,
   setBlockedHeaders,
   setResponseHeaders,
   toPIIHeaderData,
   toPIILogData,
   toSecretsHeaderData,
   toSecretsLogData,
+  trackFuzzyRestores,
 } from "./utils";
 
 export const copilotRoutes = new Hono();
@@ -104,9 +114,20 @@ copilotRoutes.post(
     const reqId = incrementActive("scanning");
     let request = c.req.valid("json") as OpenAIRequest;
     const incomingHeaders = c.req.header();
+    const session = loadSession(
+      request,
+      openaiExtractor,
+      c.req.header(SESSION_HEADER),
+      getClientCredential(c.req.header()),
+    );
 
     // Step 1: Process secrets
-    const secretsResult = processSecretsRequest(request, config.secrets_detection, openaiExtractor);
+    const secretsResult = processSecretsRequest(
+      request,
+      config.secrets_detection,
+      openaiExtractor,
+      session?.secrets,
+    );
 
     if (secretsResult.blocked) {
       return respondChatBlocked(c, request, secretsResult, startTime, reqId);
@@ -134,17 +155,46 @@ copilotRoutes.post(
       try {
         piiResult = await detectPII(request, openaiExtractor);
       } catch (error) {
-        console.error("PII detection error:", error);
-        return respondChatDetectionError(c, request, startTime, reqId);
+        const degraded = handleDetectionError("copilot", error);
+        if (!degraded) return respondChatDetectionError(c, request, startTime, reqId);
+        piiResult = degraded;
       }
     }
 
-    // Step 3: Mask and send (route mode routes to local for chat; not supported for copilot here)
-    const piiMasked = maskPII(request, piiResult.detection, openaiExtractor);
+    // Step 3: Policy rules decide, otherwise mask
+    const decision = decidePolicy(
+      "copilot",
+      { piiResult, secretsResult, model: request.model, client: c.req.header("User-Agent") },
+      { action: "mask", rule: "default" },
+    );
+    piiResult = { ...piiResult, decision };
+
+    if (decision.action === "block") {
+      return respondPolicyBlocked(
+        c,
+        {
+          provider: "copilot",
+          model: request.model || "unknown",
+          startTime,
+          piiResult,
+          secretsResult,
+          userAgent: c.req.header("User-Agent") || null,
+          activeRequestId: reqId,
+        },
+        (msg) => errorFormats.openai.error(msg, "invalid_request_error", "policy_blocked"),
+      );
+    }
+
+    // Step 4: Mask and send (route mode routes to local for chat; not supported for copilot here)
+    const piiMasked =
+      decision.action === "mask"
+        ? maskPII(request, piiResult.detection, openaiExtractor, session?.pii)
+        : undefined;
+    saveSession(session);
     return sendCopilotChat(c, request, incomingHeaders, {
-      request: piiMasked.request,
+      request: piiMasked?.request ?? request,
       piiResult,
-      piiMaskingContext: piiMasked.maskingContext,
+      piiMaskingContext: piiMasked?.maskingContext,
       secretsResult,
       startTime,
       reqId,
@@ -215,19 +265,52 @@ copilotRoutes.post(
       try {
         piiResult = await detectPII(request, codexExtractor);
       } catch (error) {
-        console.error("PII detection error:", error);
-        return respondCompletionDetectionError(c, request, startTime, reqId);
+        const degraded = handleDetectionError("copilot", error);
+        if (!degraded) return respondCompletionDetectionError(c, request, startTime, reqId);
+        piiResult = degraded;
       }
     }
 
-    // Step 3: Mask and send
+    // Step 3: Policy rules decide, otherwise mask
+    const decision = decidePolicy(
+      "copilot",
+      {
+        piiResult,
+        secretsResult,
+        model: request.model || engine,
+        client: c.req.header("User-Agent"),
+      },
+      { action: "mask", rule: "default" },
+    );
+    piiResult = { ...piiResult, decision };
+
+    if (decision.action === "block") {
+      return respondPolicyBlocked(
+        c,
+        {
+          provider: "copilot",
+          model: request.model || engine,
+          startTime,
+          piiResult,
+          secretsResult,
+          userAgent: c.req.header("User-Agent") || null,
+          activeRequestId: reqId,
+        },
+        (msg) => errorFormats.openai.error(msg, "invalid_request_error", "policy_blocked"),
+      );
+    }
+
+    // Step 4: Mask and send
     // Note: Route mode is not supported for inline completions because the local provider
     // only understands chat format, not the legacy completions format.
-    const piiMasked = maskPII(request, piiResult.detection, codexExtractor);
+    const piiMasked =
+      decision.action === "mask"
+        ? maskPII(request, piiResult.detection, codexExtractor)
+        : undefined;
     return sendCopilotCompletion(c, request, engine, incomingHeaders, {
-      request: piiMasked.request,
+      request: piiMasked?.request ?? request,
       piiResult,
-      piiMaskingContext: piiMasked.maskingContext,
+      piiMaskingContext: piiMasked?.maskingContext,
       secretsResult,
       startTime,
       reqId,
@@ -431,7 +514,7 @@ async function sendCopilotChat(
   try {
     const result = await callCopilotChat(request, config.providers.copilot!, incomingHeaders);
 
-    logRequest(
+    const logId = logRequest(
       createLogData({
         provider: "copilot",
         model: result.model || originalRequest.model || "unknown",
@@ -450,6 +533,7 @@ async function sendCopilotChat(
         piiMaskingContext,
         secretsResult.maskingContext,
         config.masking,
+        logId,
       );
     }
 
@@ -459,6 +543,7 @@ async function sendCopilotChat(
       piiMaskingContext,
       secretsResult.maskingContext,
       config.masking,
+      logId,
     );
   } catch (error) {
     return handleProviderError(
@@ -505,7 +590,7 @@ async function sendCopilotCompletion(
       incomingHeaders,
     );
 
-    logRequest(
+    const logId = logRequest(
       createLogData({
         provider: "copilot",
         model: result.model || originalRequest.model || engine,
@@ -524,6 +609,7 @@ async function sendCopilotCompletion(
         piiMaskingContext,
         secretsResult.maskingContext,
         config.masking,
+        logId,
       );
     }
 
@@ -533,6 +619,7 @@ async function sendCopilotCompletion(
       piiMaskingContext,
       secretsResult.maskingContext,
       config.masking,
+      logId,
     );
   } catch (error) {
     return handleProviderError(
@@ -560,6 +647,7 @@ function respondChatStreaming(
   piiContext?: PlaceholderContext,
   secretsContext?: PlaceholderContext,
   maskingConfig?: MaskingConfig,
+  logId?: number,
 ) {
   c.header("Content-Type", "text/event-stream");
   c.header("Cache-Control", "no-cache");
@@ -572,7 +660,7 @@ function respondChatStreaming(
       maskingConfig!,
       secretsContext,
     );
-    return c.body(stream);
+    return c.body(trackFuzzyRestores(stream, logId, [piiContext, secretsContext]));
   }
 
   return c.body(result.response);
@@ -584,6 +672,7 @@ function respondChatJson(
   piiContext?: PlaceholderContext,
   secretsContext?: PlaceholderContext,
   maskingConfig?: MaskingConfig,
+  logId?: number,
 ) {
   let result = response;
   if (piiContext) {
@@ -592,6 +681,7 @@ function respondChatJson(
   if (secretsContext) {
     result = unmaskSecretsResponse(result, secretsContext, openaiExtractor);
   }
+  recordFuzzyRestores(logId, [piiContext, secretsContext]);
   return c.json(result);
 }
 
@@ -603,6 +693,7 @@ function respondCompletionStreaming(
   piiContext?: PlaceholderContext,
   secretsContext?: PlaceholderContext,
   maskingConfig?: MaskingConfig,
+  logId?: number,
 ) {
   c.header("Content-Type", "text/event-stream");
   c.header("Cache-Control", "no-cache");
@@ -615,7 +706,7 @@ function respondCompletionStreaming(
       maskingConfig!,
       secretsContext,
     );
-    return c.body(stream);
+    return c.body(trackFuzzyRestores(stream, logId, [piiContext, secretsContext]));
   }
 
   return c.body(result.response);
@@ -627,6 +718,7 @@ function respondCompletionJson(
   piiContext?: PlaceholderContext,
   secretsContext?: PlaceholderContext,
   maskingConfig?: MaskingConfig,
+  logId?: number,
 ) {
   let result = response;
   if (piiContext) {
@@ -635,5 +727,6 @@ function respondCompletionJson(
   if (secretsContext) {
     result = unmaskSecretsResponse(result, secretsContext, codexExtractor);
   }
+  recordFuzzyRestores(logId, [piiContext, secretsContext]);
   return c.json(result);
 }
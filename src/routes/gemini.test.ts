@@ -0,0 +1,59 @@
+import { describe, expect, test } from "bun:test";
+import { Hono } from "hono";
+import { GeminiRequestSchema } from "../providers/gemini/types";
+import { geminiRoutes } from "./gemini";
+
+const app = new Hono();
+app.route("/gemini", geminiRoutes);
+
+describe("POST /gemini/v1beta/models/:model:generateContent", () => {
+  test("returns 400 for missing contents", async () => {
+    const res = await app.request("/gemini/v1beta/models/gemini-2.5-flash:generateContent", {
+      method: "POST",
+      body: JSON.stringify({ generationConfig: { temperature: 0 } }),
+      headers: { "Content-Type": "application/json" },
+    });
+
+    expect(res.status).toBe(400);
+    const body = (await res.json()) as { error: { code: number; status: string } };
+    expect(body.error).toMatchObject({ code: 400, status: "INVALID_ARGUMENT" });
+  });
+
+  test("returns 400 for empty contents array", async () => {
+    const res = await app.request(
+      "/gemini/v1beta/models/gemini-2.5-flash:streamGenerateContent?alt=sse",
+      {
+        method: "POST",
+        body: JSON.stringify({ contents: [] }),
+        headers: { "Content-Type": "application/json" },
+      },
+    );
+
+    expect(res.status).toBe(400);
+  });
+
+  test("returns 400 for parts that are not an array", async () => {
+    const res = await app.request("/gemini/v1/models/gemini-2.5-pro:generateContent", {
+      method: "POST",
+      body: JSON.stringify({ contents: [{ role: "user", parts: "Hello" }] }),
+      headers: { "Content-Type": "application/json" },
+    });
+
+    expect(res.status).toBe(400);
+  });
+});
+
+describe("Zod schema preserves unknown fields", () => {
+  test("preserves thoughtSignature, safetySettings and snake_case fields", () => {
+    const request = {
+      contents: [{ role: "model", parts: [{ text: "Hi", thoughtSignature: "abc" }] }],
+      system_instruction: { parts: [{ text: "Be brief" }] },
+      safetySettings: [{ category: "HARM_CATEGORY_HARASSMENT", threshold: "BLOCK_NONE" }],
+      cachedContent: "cachedContents/123",
+    };
+
+    const result = GeminiRequestSchema.parse(request);
+
+    expect(result).toEqual(request);
+  });
+});
@@ -0,0 +1,477 @@
+/**
+ * Gemini API generateContent route
+ *
+ * Masks requests from Gemini SDKs (google-genai, @google/generative-ai) before
+ * they reach Google:
+ *   POST /gemini/{v1beta|v1}/models/{model}:generateContent
+ *   POST /gemini/{v1beta|v1}/models/{model}:streamGenerateContent?alt=sse
+ *
+ * All other endpoints (models list, countTokens, files) are proxied as-is.
+ *
+ * Flow:
+ * 1. Validate request
+ * 2. Process secrets (detect, maybe block or mask)
+ * 3. Detect PII
+ * 4. Apply policy rules (allow / mask / block), otherwise mask
+ * 5. Mask PII if found, send to Gemini, unmask response
+ *    (route mode is not supported - the local provider doesn't speak the Gemini format,
+ *    so requests are masked in both modes)
+ */
+
+import { zValidator } from "@hono/zod-validator";
+import type { Context } from "hono";
+import { Hono } from "hono";
+import { proxy } from "hono/proxy";
+import { getConfig } from "../config";
+import type { PlaceholderContext } from "../masking/context";
+import {
+  extractGeminiSystemText,
+  extractGeminiTextContent,
+  geminiExtractor,
+} from "../masking/extractors/gemini";
+import { unmaskResponse as unmaskPIIResponse } from "../pii/mask";
+import {
+  callGemini,
+  collectGeminiHeaders,
+  type GeminiMethod,
+  getGeminiInfo,
+  toTokenUsage,
+} from "../providers/gemini/client";
+import {
+  createGeminiUnmaskingStream,
+  unmaskGeminiChunks,
+} from "../providers/gemini/stream-transformer";
+import {
+  type GeminiRequest,
+  GeminiRequestSchema,
+  type GeminiResponse,
+} from "../providers/gemini/types";
+import { unmaskSecretsResponse } from "../secrets/mask";
+import { incrementActive, setPhase } from "../services/active-requests";
+import { logRequest } from "../services/logger";
+import { detectPII, handleDetectionError, maskPII, type PIIDetectResult } from "../services/pii";
+import { decidePolicy } from "../services/policy";
+import { processSecretsRequest, type SecretsProcessResult } from "../services/secrets";
+import {
+  getClientCredential,
+  loadSession,
+  SESSION_HEADER,
+  saveSession,
+} from "../services/sessions";
+import type { TokenUsage } from "./utils";
+import {
+  createLogData,
+  createTokenUpdateCallback,
+  errorFormats,
+  handleProviderError,
+  recordFuzzyRestores,
+  respondPolicyBlocked,
+  setBlockedHeaders,
+  setResponseHeaders,
+  toPIIHeaderData,
+  toPIILogData,
+  toSecretsHeaderData,
+  toSecretsLogData,
+  trackFuzzyRestores,
+} from "./utils";
+
+export const geminiRoutes = new Hono();
+
+/**
+ * POST /:version/models/{model}:generateContent and :streamGenerateContent
+ *
+ * The model and method share one path segment, so they are matched as one param.
+ */
+geminiRoutes.post(
+  "/:version{v1beta|v1}/models/:target{[^/]+:(?:generateContent|streamGenerateContent)}",
+  zValidator("json", GeminiRequestSchema, (result, c) => {
+    if (!result.success) {
+      return c.json(
+        errorFormats.gemini.error(`Invalid request body: ${result.error.message}`, 400),
+        400,
+      );
+    }
+  }),
+  async (c) => {
+    const startTime = Date.now();
+    const reqId = incrementActive("scanning");
+    let request = c.req.valid("json") as GeminiRequest;
+    const config = getConfig();
+
+    const target = c.req.param("target");
+    const separator = target.lastIndexOf(":");
+    const model = target.slice(0, separator);
+    const method = target.slice(separator + 1) as GeminiMethod;
+
+    const session = loadSession(
+      request,
+      geminiExtractor,
+      c.req.header(SESSION_HEADER),
+      getClientCredential(c.req.header(), new URL(c.req.url).searchParams),
+    );
+
+    // Step 1: Process secrets
+    const secretsResult = processSecretsRequest(
+      request,
+      config.secrets_detection,
+      geminiExtractor,
+      session?.secrets,
+    );
+
+    if (secretsResult.blocked) {
+      return respondBlocked(c, model, secretsResult, startTime, reqId);
+    }
+
+    // Apply secrets masking to request
+    if (secretsResult.masked) {
+      request = secretsResult.request;
+    }
+
+    // Step 2: Detect PII (skip if disabled)
+    let piiResult: PIIDetectResult;
+    if (!config.pii_detection.enabled) {
+      piiResult = {
+        detection: {
+          hasPII: false,
+          spanEntities: [],
+          allEntities: [],
+          scanTimeMs: 0,
+          language: "en",
+          languageFallback: false,
+        },
+        hasPII: false,
+      };
+    } else {
+      try {
+        piiResult = await detectPII(request, geminiExtractor);
+      } catch (error) {
+        const degraded = handleDetectionError("gemini", error);
+        if (!degraded) return respondDetectionError(c, model, secretsResult, startTime, reqId);
+        piiResult = degraded;
+      }
+    }
+
+    // Step 3: Policy rules decide, otherwise mask
+    const decision = decidePolicy(
+      "gemini",
+      { piiResult, secretsResult, model, client: c.req.header("User-Agent") },
+      { action: "mask", rule: "default" },
+    );
+    piiResult = { ...piiResult, decision };
+
+    if (decision.action === "block") {
+      return respondPolicyBlocked(
+        c,
+        {
+          provider: "gemini",
+          model,
+          startTime,
+          piiResult,
+          secretsResult,
+          userAgent: c.req.header("User-Agent") || null,
+          activeRequestId: reqId,
+        },
+        (msg) => errorFormats.gemini.error(msg, 400),
+      );
+    }
+
+    // Step 4: Mask PII if found (unless the decision is allow)
+    let piiMaskingContext: PlaceholderContext | undefined;
+    let maskedContent: string | undefined;
+
+    if (decision.action === "mask" && piiResult.hasPII) {
+      const masked = maskPII(request, piiResult.detection, geminiExtractor, session?.pii);
+      request = masked.request;
+      piiMaskingContext = masked.maskingContext;
+      maskedContent = formatRequestForLog(request);
+    } else if (secretsResult.masked) {
+      maskedContent = formatRequestForLog(request);
+    }
+
+    saveSession(session);
+
+    // Step 5: Send to Gemini
+    return sendToGemini(c, request, {
+      version: c.req.param("version"),
+      model,
+      method,
+      startTime,
+      reqId,
+      piiResult,
+      piiMaskingContext,
+      secretsResult,
+      maskedContent,
+    });
+  },
+);
+
+/**
+ * Proxy all other requests to Gemini
+ *
+ * Transparent forwarding - auth headers and the query string (?key=) are passed through.
+ */
+geminiRoutes.all("/*", async (c) => {
+  const config = getConfig();
+
+  const baseUrl = getGeminiInfo(config.providers.gemini).baseUrl.replace(/\/$/, "");
+  const path = c.req.path.replace(/^\/gemini/, "");
+  const query = c.req.url.includes("?") ? c.req.url.slice(c.req.url.indexOf("?")) : "";
+
+  return proxy(`${baseUrl}${path}${query}`, {
+    ...c.req,
+    headers: {
+      ...collectGeminiHeaders(c.req.header()),
+      "X-Forwarded-Host": c.req.header("host"),
+    },
+  });
+});
+
+// --- Types ---
+
+interface SendOptions {
+  version: string;
+  model: string;
+  method: GeminiMethod;
+  startTime: number;
+  reqId: number;
+  piiResult: PIIDetectResult;
+  piiMaskingContext?: PlaceholderContext;
+  secretsResult: SecretsProcessResult<GeminiRequest>;
+  maskedContent?: string;
+}
+
+// --- Helpers ---
+
+function formatRequestForLog(request: GeminiRequest): string {
+  const parts: string[] = [];
+
+  const systemText = extractGeminiSystemText(request);
+  if (systemText) parts.push(`[system] ${systemText}`);
+
+  for (const content of request.contents) {
+    const text = extractGeminiTextContent(content);
+    const isMultimodal = content.parts.some((part) => part.text === undefined);
+    parts.push(`[${content.role ?? "user"}${isMultimodal ? " multimodal" : ""}] ${text}`);
+  }
+
+  return parts.join("\n");
+}
+
+// --- Response handlers ---
+
+function respondError(c: Context, message: string, status: number) {
+  return c.json(errorFormats.gemini.error(message, status), status as 400 | 500 | 502 | 503);
+}
+
+function respondBlocked(
+  c: Context,
+  model: string,
+  secretsResult: SecretsProcessResult<GeminiRequest>,
+  startTime: number,
+  reqId: number,
+) {
+  const secretTypes = secretsResult.blockedTypes ?? [];
+
+  setBlockedHeaders(c, secretTypes);
+
+  logRequest(
+    createLogData({
+      provider: "gemini",
+      model,
+      startTime,
+      secrets: { detected: true, types: secretTypes, masked: false },
+      statusCode: 400,
+      errorMessage: `Request blocked: detected secret material (${secretTypes.join(",")})`,
+    }),
+    c.req.header("User-Agent") || null,
+    reqId,
+  );
+
+  return respondError(
+    c,
+    `Request blocked: detected secret material (${secretTypes.join(",")}). Remove secrets and retry.`,
+    400,
+  );
+}
+
+function respondDetectionError(
+  c: Context,
+  model: string,
+  secretsResult: SecretsProcessResult<GeminiRequest>,
+  startTime: number,
+  reqId: number,
+) {
+  logRequest(
+    createLogData({
+      provider: "gemini",
+      model,
+      startTime,
+      secrets: toSecretsLogData(secretsResult),
+      statusCode: 503,
+      errorMessage: "PII detection service unavailable",
+    }),
+    c.req.header("User-Agent") || null,
+    reqId,
+  );
+
+  return respondError(c, "PII detection service unavailable", 503);
+}
+
+// --- Provider handlers ---
+
+async function sendToGemini(c: Context, request: GeminiRequest, opts: SendOptions) {
+  const config = getConfig();
+  const { model, startTime, reqId, piiResult, piiMaskingContext, secretsResult, maskedContent } =
+    opts;
+
+  setResponseHeaders(
+    c,
+    config.mode,
+    "gemini",
+    toPIIHeaderData(piiResult),
+    toSecretsHeaderData(secretsResult),
+  );
+
+  const query = new URL(c.req.url).searchParams;
+
+  setPhase(reqId, "provider");
+  const providerStart = Date.now();
+  try {
+    const result = await callGemini(
+      request,
+      { version: opts.version, model, method: opts.method, query },
+      config.providers.gemini,
+      c.req.header(),
+      config.server.provider_timeout_ms,
+    );
+    const providerCallMs = Date.now() - providerStart;
+
+    if (result.isStreaming) {
+      setPhase(reqId, "streaming");
+      const logId = logRequest(
+        createLogData({
+          provider: "gemini",
+          model: result.model,
+          startTime,
+          providerCallMs,
+          pii: toPIILogData(piiResult),
+          secrets: toSecretsLogData(secretsResult),
+          maskedContent,
+        }),
+        c.req.header("User-Agent") || null,
+      );
+      const onUsage = createTokenUpdateCallback(logId, reqId);
+      return respondStreaming(
+        c,
+        result.response,
+        piiMaskingContext,
+        secretsResult.maskingContext,
+        onUsage,
+        logId,
+      );
+    }
+
+    // streamGenerateContent without alt=sse returns an array; its last chunk has the final usage
+    const usage = toTokenUsage(
+      Array.isArray(result.response)
+        ? result.response.at(-1)?.usageMetadata
+        : result.response.usageMetadata,
+    );
+    const logId = logRequest(
+      createLogData({
+        provider: "gemini",
+        model: result.model,
+        startTime,
+        providerCallMs,
+        pii: toPIILogData(piiResult),
+        secrets: toSecretsLogData(secretsResult),
+        maskedContent,
+        promptTokens: usage?.promptTokens,
+        completionTokens: usage?.completionTokens,
+        cacheReadInputTokens: usage?.cacheReadInputTokens,
+      }),
+      c.req.header("User-Agent") || null,
+      reqId,
+    );
+
+    return respondJson(c, result.response, piiMaskingContext, secretsResult.maskingContext, logId);
+  } catch (error) {
+    return handleProviderError(
+      c,
+      error,
+      {
+        provider: "gemini",
+        model,
+        startTime,
+        providerCallMs: Date.now() - providerStart,
+        pii: toPIILogData(piiResult),
+        secrets: toSecretsLogData(secretsResult),
+        maskedContent,
+        userAgent: c.req.header("User-Agent") || null,
+        activeRequestId: reqId,
+      },
+      (msg) => errorFormats.gemini.error(msg, 502),
+    );
+  }
+}
+
+// --- Response formatters ---
+
+function respondStreaming(
+  c: Context,
+  stream: ReadableStream<Uint8Array>,
+  piiMaskingContext: PlaceholderContext | undefined,
+  secretsContext: PlaceholderContext | undefined,
+  onUsage?: (tokens: TokenUsage) => void,
+  logId?: number,
+) {
+  const config = getConfig();
+  c.header("Content-Type", "text/event-stream");
+  c.header("Cache-Control", "no-cache");
+  c.header("Connection", "keep-alive");
+
+  if (piiMaskingContext || secretsContext || onUsage) {
+    const unmaskingStream = createGeminiUnmaskingStream(
+      stream,
+      piiMaskingContext,
+      config.masking,
+      secretsContext,
+      onUsage,
+    );
+    return c.body(trackFuzzyRestores(unmaskingStream, logId, [piiMaskingContext, secretsContext]));
+  }
+
+  return c.body(stream);
+}
+
+async function respondJson(
+  c: Context,
+  response: GeminiResponse | GeminiResponse[],
+  piiMaskingContext: PlaceholderContext | undefined,
+  secretsContext: PlaceholderContext | undefined,
+  logId?: number,
+) {
+  const config = getConfig();
+
+  if (Array.isArray(response)) {
+    const chunks =
+      piiMaskingContext || secretsContext
+        ? await unmaskGeminiChunks(response, piiMaskingContext, config.masking, secretsContext)
+        : response;
+    recordFuzzyRestores(logId, [piiMaskingContext, secretsContext]);
+    return c.json(chunks);
+  }
+
+  let result = response;
+
+  if (piiMaskingContext) {
+    result = unmaskPIIResponse(result, piiMaskingContext, config.masking, geminiExtractor);
+  }
+
+  if (secretsContext) {
+    result = unmaskSecretsResponse(result, secretsContext, geminiExtractor);
+  }
+  recordFuzzyRestores(logId, [piiMaskingContext, secretsContext]);
+
+  return c.json(result);
+}
@@ -8,19 +8,28 @@ export const healthRoutes = new Hono();
 healthRoutes.get("/health", async (c) => {
   const config = getConfig();
   const piiEnabled = config.pii_detection.enabled;
+  const engine = config.pii_detection.engine ?? "presidio";
+  const usesPresidio = piiEnabled && engine !== "builtin";
 
   const [presidioHealth, localHealth] = await Promise.all([
-    piiEnabled ? checkPresidio() : Promise.resolve(true),
+    usesPresidio ? checkPresidio() : Promise.resolve(true),
     config.mode === "route" && config.local
       ? checkLocalHealth(config.local)
       : Promise.resolve(true),
   ]);
 
-  const isHealthy = piiEnabled ? presidioHealth : true;
+  // With presidio_with_fallback, requests are still served by the built-in detector
+  const isHealthy = presidioHealth || engine === "presidio_with_fallback";
 
   const services: Record<string, string> = {};
-  if (piiEnabled) {
-    services.presidio = presidioHealth ? "up" : "down";
+  if (usesPresidio) {
+    // Reported under the backend type: presidio, http or gliner
+    services[config.pii_detection.backend?.type ?? "presidio"] = presidioHealth ? "up" : "down";
+  }
+  if (piiEnabled && engine === "builtin") {
+    services.builtin_pii = "up";
+  } else if (usesPresidio && engine === "presidio_with_fallback" && !presidioHealth) {
+    services.builtin_pii = "fallback";
   }
 
   if (config.mode === "route" && config.local) {
@@ -29,7 +38,7 @@ healthRoutes.get("/health", async (c) => {
 
   return c.json(
     {
-      status: isHealthy ? "healthy" : "degraded",
+      status: presidioHealth ? "healthy" : "degraded",
       services,
       timestamp: new Date().toISOString(),
     },
@@ -6,6 +6,9 @@ mock.module("../config", () => ({
     providers: {
       openai: { base_url: "https://api.openai.com/v1" },
       anthropic: { base_url: "https://api.anthropic.com" },
+      gemini: { base_url: "https://generativelanguage.googleapis.com" },
+      upstreams: {},
+      routing: [],
     },
     pii_detection: {
       languages: ["en"],
@@ -3,6 +3,7 @@ import pkg from "../../package.json";
 import { getConfig } from "../config";
 import { getPIIDetector } from "../pii/detect";
 import { getAnthropicInfo } from "../providers/anthropic/client";
+import { getGeminiInfo } from "../providers/gemini/client";
 import { getLocalInfo } from "../providers/local";
 import { getOpenAIInfo } from "../providers/openai/client";
 
@@ -16,10 +17,14 @@ infoRoutes.get("/info", (c) => {
   const providers: Record<string, unknown> = {
     openai: {
       base_url: getOpenAIInfo(config.providers.openai).baseUrl,
+      type: getOpenAIInfo(config.providers.openai).type,
     },
     anthropic: {
       base_url: getAnthropicInfo(config.providers.anthropic).baseUrl,
     },
+    gemini: {
+      base_url: getGeminiInfo(config.providers.gemini).baseUrl,
+    },
   };
 
   if (config.providers.copilot) {
@@ -28,6 +33,20 @@ infoRoutes.get("/info", (c) => {
     };
   }
 
+  const upstreamNames = Object.keys(config.providers.upstreams);
+  if (upstreamNames.length > 0) {
+    providers.upstreams = Object.fromEntries(
+      upstreamNames.map((name) => [
+        name,
+        {
+          base_url: getOpenAIInfo(config.providers.upstreams[name]).baseUrl,
+          type: getOpenAIInfo(config.providers.upstreams[name]).type,
+        },
+      ]),
+    );
+    providers.routing_rules = config.providers.routing.length;
+  }
+
   const info: Record<string, unknown> = {
     name: "PasteGuard",
     version: pkg.version,
@@ -35,6 +54,8 @@ infoRoutes.get("/info", (c) => {
     mode: config.mode,
     providers,
     pii_detection: {
+      engine: config.pii_detection.engine,
+      backend: config.pii_detection.backend?.type ?? "presidio",
       languages: languageValidation
         ? {
             configured: config.pii_detection.languages,
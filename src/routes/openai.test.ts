@@ -1,5 +1,6 @@
 import { describe, expect, test } from "bun:test";
 import { Hono } from "hono";
+import { ResponsesRequestSchema } from "../providers/openai/responses-types";
 import { OpenAIRequestSchema } from "../providers/openai/types";
 import { openaiRoutes } from "./openai";
 
@@ -45,6 +46,57 @@ describe("POST /openai/v1/chat/completions", () => {
   });
 });
 
+describe("POST /openai/v1/responses", () => {
+  test("returns 400 for invalid input", async () => {
+    const res = await app.request("/openai/v1/responses", {
+      method: "POST",
+      body: JSON.stringify({ model: "gpt-5", input: 42 }),
+      headers: { "Content-Type": "application/json" },
+    });
+
+    expect(res.status).toBe(400);
+    const body = (await res.json()) as { error: { type: string } };
+    expect(body.error.type).toBe("invalid_request_error");
+  });
+
+  test("preserves unknown item and top-level fields", () => {
+    const result = ResponsesRequestSchema.parse({
+      model: "gpt-5",
+      previous_response_id: "resp_1",
+      input: [{ type: "reasoning", id: "rs_1", summary: [], encrypted_content: "abc" }],
+    });
+
+    // biome-ignore lint/suspicious/noExplicitAny: testing unknown field preservation
+    expect((result as any).previous_response_id).toBe("resp_1");
+    // biome-ignore lint/suspicious/noExplicitAny: testing unknown field preservation
+    expect((result.input as any[])[0].encrypted_content).toBe("abc");
+  });
+});
+
+describe("POST /openai/v1/embeddings", () => {
+  test("returns 400 for missing input", async () => {
+    const res = await app.request("/openai/v1/embeddings", {
+      method: "POST",
+      body: JSON.stringify({ model: "text-embedding-3-small" }),
+      headers: { "Content-Type": "application/json" },
+    });
+
+    expect(res.status).toBe(400);
+    const body = (await res.json()) as { error: { type: string } };
+    expect(body.error.type).toBe("invalid_request_error");
+  });
+
+  test("returns 400 for mixed input arrays", async () => {
+    const res = await app.request("/openai/v1/embeddings", {
+      method: "POST",
+      body: JSON.stringify({ model: "text-embedding-3-small", input: ["text", 42] }),
+      headers: { "Content-Type": "application/json" },
+    });
+
+    expect(res.status).toBe(400);
+  });
+});
+
 describe("Zod schema preserves unknown fields", () => {
   const base = {
     model: "gpt-4o",
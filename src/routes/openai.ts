@@ -1,7 +1,7 @@
 /**
- * OpenAI-compatible chat completion route
+ * OpenAI-compatible chat completion, Responses API and embeddings routes
  *
- * Flow:
+ * POST /v1/chat/completions and POST /v1/responses share the same flow:
  * 1. Validate request
  * 2. Process secrets (detect, maybe block or mask)
  * 3. Detect PII
@@ -9,23 +9,48 @@
  *    - mask: mask PII, send to OpenAI, unmask response
  *    - route: send to local (if PII) or OpenAI (if clean)
  * 5. Return response
+ *
+ * POST /v1/embeddings scans the same way but applies the embeddings.action
+ * policy (mask / block / route_local) instead of mode.
  */
 
 import { zValidator } from "@hono/zod-validator";
 import type { Context } from "hono";
 import { Hono } from "hono";
 import { proxy } from "hono/proxy";
-import { getConfig, type MaskingConfig } from "../config";
+import { type EmbeddingsConfig, getConfig, type MaskingConfig } from "../config";
 import type { PlaceholderContext } from "../masking/context";
 import { openaiExtractor } from "../masking/extractors/openai";
+import { openaiEmbeddingsExtractor } from "../masking/extractors/openai-embeddings";
+import { openaiResponsesExtractor } from "../masking/extractors/openai-responses";
 import { unmaskResponse as unmaskPIIResponse } from "../pii/mask";
-import { callLocal } from "../providers/local";
+import {
+  callWithFailover,
+  type FailedAttempt,
+  formatFailedAttempts,
+  type ProviderCandidate,
+} from "../providers/failover";
+import { callLocal, callLocalEmbeddings, callLocalResponses } from "../providers/local";
+import { isDeploymentPath } from "../providers/openai/azure";
 import {
   callOpenAI,
+  callOpenAIEmbeddings,
+  callOpenAIResponses,
   collectOpenAIHeaders,
-  getOpenAIInfo,
+  getOpenAIUrl,
   type ProviderResult,
+  type ResponsesProviderResult,
 } from "../providers/openai/client";
+import {
+  type EmbeddingsRequest,
+  EmbeddingsRequestSchema,
+} from "../providers/openai/embeddings-types";
+import { createResponsesUnmaskingStream } from "../providers/openai/responses-stream-transformer";
+import {
+  type ResponsesRequest,
+  ResponsesRequestSchema,
+  type ResponsesResponse,
+} from "../providers/openai/responses-types";
 import { createUnmaskingStream } from "../providers/openai/stream-transformer";
 import {
   type OpenAIMessage,
@@ -33,11 +58,25 @@ import {
   OpenAIRequestSchema,
   type OpenAIResponse,
 } from "../providers/openai/types";
+import {
+  getClientAuth,
+  getFallbackUpstream,
+  getUpstream,
+  resolveUpstream,
+  type UpstreamTarget,
+} from "../providers/openai/upstreams";
 import { unmaskSecretsResponse } from "../secrets/mask";
 import { incrementActive, setPhase } from "../services/active-requests";
 import { logRequest } from "../services/logger";
-import { detectPII, maskPII, type PIIDetectResult } from "../services/pii";
+import { detectPII, handleDetectionError, maskPII, type PIIDetectResult } from "../services/pii";
+import { decidePolicy, getModeDecision, type PolicyDecision } from "../services/policy";
 import { processSecretsRequest, type SecretsProcessResult } from "../services/secrets";
+import {
+  getClientCredential,
+  loadSession,
+  SESSION_HEADER,
+  saveSession,
+} from "../services/sessions";
 import { extractTextContent } from "../utils/content";
 import type { TokenUsage } from "./utils";
 import {
@@ -45,12 +84,15 @@ import {
   createTokenUpdateCallback,
   errorFormats,
   handleProviderError,
+  recordFuzzyRestores,
+  respondPolicyBlocked,
   setBlockedHeaders,
   setResponseHeaders,
   toPIIHeaderData,
   toPIILogData,
   toSecretsHeaderData,
   toSecretsLogData,
+  trackFuzzyRestores,
 } from "./utils";
 
 export const openaiRoutes = new Hono();
@@ -77,8 +119,20 @@ openaiRoutes.post(
     let request = c.req.valid("json") as OpenAIRequest;
     const config = getConfig();
 
+    const session = loadSession(
+      request,
+      openaiExtractor,
+      c.req.header(SESSION_HEADER),
+      getClientCredential(c.req.header()),
+    );
+
     // Step 1: Process secrets
-    const secretsResult = processSecretsRequest(request, config.secrets_detection, openaiExtractor);
+    const secretsResult = processSecretsRequest(
+      request,
+      config.secrets_detection,
+      openaiExtractor,
+      session?.secrets,
+    );
 
     if (secretsResult.blocked) {
       return respondBlocked(c, request, secretsResult, startTime, reqId);
@@ -107,14 +161,46 @@ openaiRoutes.post(
       try {
         piiResult = await detectPII(request, openaiExtractor);
       } catch (error) {
-        console.error("PII detection error:", error);
-        return respondDetectionError(c, request, startTime, reqId);
+        const degraded = handleDetectionError("openai", error);
+        if (!degraded) return respondDetectionError(c, request, startTime, reqId);
+        piiResult = degraded;
       }
     }
 
-    // Step 3: Process based on mode
-    if (config.mode === "mask") {
-      const piiMasked = maskPII(request, piiResult.detection, openaiExtractor);
+    // Detection failed with on_error route_local - only the local provider sees the request
+    if (piiResult.degraded === "route_local") {
+      saveSession(session);
+      piiResult = { ...piiResult, decision: { action: "route_local", rule: "on_error" } };
+      return sendToLocal(c, request, { request, piiResult, secretsResult, startTime, reqId });
+    }
+
+    // Step 3: Policy rules decide, otherwise the mode
+    const decision = decidePolicy(
+      "openai",
+      { piiResult, secretsResult, model: request.model, client: c.req.header("User-Agent") },
+      getModeDecision(piiResult, secretsResult),
+    );
+    piiResult = { ...piiResult, decision };
+
+    if (decision.action === "block") {
+      return respondPolicyBlocked(
+        c,
+        {
+          provider: "openai",
+          model: request.model || "unknown",
+          startTime,
+          piiResult,
+          secretsResult,
+          userAgent: c.req.header("User-Agent") || null,
+          activeRequestId: reqId,
+        },
+        (msg) => errorFormats.openai.error(msg, "invalid_request_error", "policy_blocked"),
+      );
+    }
+
+    if (decision.action === "mask") {
+      const piiMasked = maskPII(request, piiResult.detection, openaiExtractor, session?.pii);
+      saveSession(session);
       return sendToOpenAI(c, request, {
         request: piiMasked.request,
         piiResult,
@@ -122,17 +208,101 @@ openaiRoutes.post(
         secretsResult,
         startTime,
         reqId,
-        authHeader: c.req.header("Authorization"),
       });
     }
 
-    // Route mode: send to local if PII/secrets detected, otherwise OpenAI
-    const shouldRouteLocal =
-      piiResult.hasPII ||
-      (secretsResult.detection?.detected && config.secrets_detection.action === "route_local");
+    saveSession(session);
+    if (decision.action === "route_local") {
+      return sendToLocal(c, request, { request, piiResult, secretsResult, startTime, reqId });
+    }
 
-    if (shouldRouteLocal) {
-      return sendToLocal(c, request, {
+    // allow / upstream: forward as-is
+    return sendToOpenAI(c, request, {
+      request,
+      piiResult,
+      secretsResult,
+      startTime,
+      reqId,
+      upstream: getDecisionUpstream(c, decision),
+    });
+  },
+);
+
+/**
+ * POST /v1/responses
+ */
+openaiRoutes.post(
+  "/v1/responses",
+  zValidator("json", ResponsesRequestSchema, (result, c) => {
+    if (!result.success) {
+      return c.json(
+        errorFormats.openai.error(
+          `Invalid request body: ${result.error.message}`,
+          "invalid_request_error",
+        ),
+        400,
+      );
+    }
+  }),
+  async (c) => {
+    const startTime = Date.now();
+    const reqId = incrementActive("scanning");
+    let request = c.req.valid("json") as ResponsesRequest;
+    const config = getConfig();
+
+    const session = loadSession(
+      request,
+      openaiResponsesExtractor,
+      c.req.header(SESSION_HEADER),
+      getClientCredential(c.req.header()),
+    );
+
+    // Step 1: Process secrets
+    const secretsResult = processSecretsRequest(
+      request,
+      config.secrets_detection,
+      openaiResponsesExtractor,
+      session?.secrets,
+    );
+
+    if (secretsResult.blocked) {
+      return respondBlocked(c, request, secretsResult, startTime, reqId);
+    }
+
+    // Apply secrets masking to request
+    if (secretsResult.masked) {
+      request = secretsResult.request;
+    }
+
+    // Step 2: Detect PII (skip if disabled)
+    let piiResult: PIIDetectResult;
+    if (!config.pii_detection.enabled) {
+      piiResult = {
+        detection: {
+          hasPII: false,
+          spanEntities: [],
+          allEntities: [],
+          scanTimeMs: 0,
+          language: "en",
+          languageFallback: false,
+        },
+        hasPII: false,
+      };
+    } else {
+      try {
+        piiResult = await detectPII(request, openaiResponsesExtractor);
+      } catch (error) {
+        const degraded = handleDetectionError("openai", error);
+        if (!degraded) return respondDetectionError(c, request, startTime, reqId);
+        piiResult = degraded;
+      }
+    }
+
+    // Detection failed with on_error route_local - only the local provider sees the request
+    if (piiResult.degraded === "route_local") {
+      saveSession(session);
+      piiResult = { ...piiResult, decision: { action: "route_local", rule: "on_error" } };
+      return sendResponsesToLocal(c, request, {
         request,
         piiResult,
         secretsResult,
@@ -141,30 +311,215 @@ openaiRoutes.post(
       });
     }
 
-    return sendToOpenAI(c, request, {
+    // Step 3: Policy rules decide, otherwise the mode
+    const decision = decidePolicy(
+      "openai",
+      { piiResult, secretsResult, model: request.model, client: c.req.header("User-Agent") },
+      getModeDecision(piiResult, secretsResult),
+    );
+    piiResult = { ...piiResult, decision };
+
+    if (decision.action === "block") {
+      return respondPolicyBlocked(
+        c,
+        {
+          provider: "openai",
+          model: request.model || "unknown",
+          startTime,
+          piiResult,
+          secretsResult,
+          userAgent: c.req.header("User-Agent") || null,
+          activeRequestId: reqId,
+        },
+        (msg) => errorFormats.openai.error(msg, "invalid_request_error", "policy_blocked"),
+      );
+    }
+
+    if (decision.action === "mask") {
+      const piiMasked = maskPII(
+        request,
+        piiResult.detection,
+        openaiResponsesExtractor,
+        session?.pii,
+      );
+      saveSession(session);
+      return sendResponsesToOpenAI(c, request, {
+        request: piiMasked.request,
+        piiResult,
+        piiMaskingContext: piiMasked.maskingContext,
+        secretsResult,
+        startTime,
+        reqId,
+      });
+    }
+
+    saveSession(session);
+    if (decision.action === "route_local") {
+      return sendResponsesToLocal(c, request, {
+        request,
+        piiResult,
+        secretsResult,
+        startTime,
+        reqId,
+      });
+    }
+
+    // allow / upstream: forward as-is
+    return sendResponsesToOpenAI(c, request, {
       request,
       piiResult,
       secretsResult,
       startTime,
       reqId,
-      authHeader: c.req.header("Authorization"),
+      upstream: getDecisionUpstream(c, decision),
     });
   },
 );
 
 /**
- * Wildcard proxy for /models, /embeddings, /audio/*, /images/*, etc.
+ * POST /v1/embeddings
  */
-openaiRoutes.all("/*", (c) => {
-  const config = getConfig();
-  const { baseUrl } = getOpenAIInfo(config.providers.openai);
+openaiRoutes.post(
+  "/v1/embeddings",
+  zValidator("json", EmbeddingsRequestSchema, (result, c) => {
+    if (!result.success) {
+      return c.json(
+        errorFormats.openai.error(
+          `Invalid request body: ${result.error.message}`,
+          "invalid_request_error",
+        ),
+        400,
+      );
+    }
+  }),
+  async (c) => {
+    const startTime = Date.now();
+    const reqId = incrementActive("scanning");
+    let request = c.req.valid("json") as EmbeddingsRequest;
+    const config = getConfig();
+    const { action } = config.embeddings;
+
+    // Step 1: Process secrets (the embeddings policy replaces secrets_detection.action)
+    const secretsResult = processSecretsRequest(
+      request,
+      { ...config.secrets_detection, action },
+      openaiEmbeddingsExtractor,
+    );
+
+    if (secretsResult.blocked) {
+      return respondBlocked(c, request, secretsResult, startTime, reqId);
+    }
+
+    // Apply secrets masking to request
+    if (secretsResult.masked) {
+      request = secretsResult.request;
+    }
+
+    // Step 2: Detect PII (skip if disabled)
+    let piiResult: PIIDetectResult;
+    if (!config.pii_detection.enabled) {
+      piiResult = {
+        detection: {
+          hasPII: false,
+          spanEntities: [],
+          allEntities: [],
+          scanTimeMs: 0,
+          language: "en",
+          languageFallback: false,
+        },
+        hasPII: false,
+      };
+    } else {
+      try {
+        piiResult = await detectPII(request, openaiEmbeddingsExtractor);
+      } catch (error) {
+        const degraded = handleDetectionError("embeddings", error);
+        if (!degraded) return respondDetectionError(c, request, startTime, reqId);
+        piiResult = degraded;
+      }
+    }
+
+    // Step 3: Policy rules decide, otherwise embeddings.action
+    // (detection failed with on_error route_local - only the local provider sees the request)
+    const decision: PolicyDecision =
+      piiResult.degraded === "route_local"
+        ? { action: "route_local", rule: "on_error" }
+        : decidePolicy(
+            "embeddings",
+            { piiResult, secretsResult, model: request.model, client: c.req.header("User-Agent") },
+            getEmbeddingsDecision(action, piiResult, secretsResult),
+          );
+    piiResult = { ...piiResult, decision };
+
+    if (decision.action === "block") {
+      if (decision.rule === "embeddings.action") {
+        return respondPIIBlocked(c, request, piiResult, secretsResult, startTime, reqId);
+      }
+      return respondPolicyBlocked(
+        c,
+        {
+          provider: "openai",
+          model: request.model || "unknown",
+          startTime,
+          piiResult,
+          secretsResult,
+          userAgent: c.req.header("User-Agent") || null,
+          activeRequestId: reqId,
+        },
+        (msg) => errorFormats.openai.error(msg, "invalid_request_error", "policy_blocked"),
+      );
+    }
+
+    if (decision.action === "route_local") {
+      return sendEmbeddings(c, request, "local", {
+        request,
+        piiResult,
+        secretsResult,
+        startTime,
+        reqId,
+      });
+    }
+
+    // Masking is a no-op without PII, so clean requests pass unchanged
+    const piiMasked =
+      decision.action === "mask"
+        ? maskPII(request, piiResult.detection, openaiEmbeddingsExtractor).request
+        : request;
+    return sendEmbeddings(c, request, "openai", {
+      request: piiMasked,
+      piiResult,
+      secretsResult,
+      startTime,
+      reqId,
+      upstream: getDecisionUpstream(c, decision),
+    });
+  },
+);
+
+/**
+ * Wildcard proxy for /models, /audio/*, /images/*, etc.
+ *
+ * There is no model to match here, so only header and path_prefix rules apply.
+ */
+openaiRoutes.all("/*", async (c) => {
+  const upstream = resolveRequestUpstream(c);
   const path = c.req.path.replace(/^\/openai\/v1/, "");
   const query = c.req.url.includes("?") ? c.req.url.slice(c.req.url.indexOf("?")) : "";
 
-  return proxy(`${baseUrl}${path}${query}`, {
+  // Azure deployment endpoints (audio, images, ...) need the model for the URL
+  const model =
+    upstream.config.type === "azure" && isDeploymentPath(path)
+      ? await readPassthroughModel(c)
+      : undefined;
+
+  const headers = collectOpenAIHeaders(c.req.header(), upstream.config, upstream.authHeader);
+
+  return proxy(getOpenAIUrl(upstream.config, path, model, query), {
     ...c.req,
     headers: {
-      ...collectOpenAIHeaders(c.req.header()),
+      ...headers,
+      // Keep the client's body type, e.g. multipart uploads to /audio/transcriptions
+      "Content-Type": c.req.header("Content-Type") ?? headers["Content-Type"],
       "X-Forwarded-Host": c.req.header("host"),
     },
   });
@@ -172,20 +527,21 @@ openaiRoutes.all("/*", (c) => {
 
 // --- Types ---
 
-interface OpenAIOptions {
-  request: OpenAIRequest;
+interface OpenAIOptions<TRequest = OpenAIRequest> {
+  request: TRequest;
   piiResult: PIIDetectResult;
   piiMaskingContext?: PlaceholderContext;
-  secretsResult: SecretsProcessResult<OpenAIRequest>;
+  secretsResult: SecretsProcessResult<TRequest>;
   startTime: number;
   reqId: number;
-  authHeader?: string;
+  /** Upstream chosen by a policy rule, instead of providers.routing */
+  upstream?: UpstreamTarget;
 }
 
-interface LocalOptions {
-  request: OpenAIRequest;
+interface LocalOptions<TRequest = OpenAIRequest> {
+  request: TRequest;
   piiResult: PIIDetectResult;
-  secretsResult: SecretsProcessResult<OpenAIRequest>;
+  secretsResult: SecretsProcessResult<TRequest>;
   startTime: number;
   reqId: number;
 }
@@ -202,12 +558,105 @@ function formatMessagesForLog(messages: OpenAIMessage[]): string {
     .join("\n");
 }
 
+/**
+ * Model of a passthrough request, from a JSON or multipart body
+ *
+ * Reads a clone, the original body is still proxied.
+ */
+async function readPassthroughModel(c: Context): Promise<string | undefined> {
+  const contentType = c.req.header("Content-Type") ?? "";
+  try {
+    if (contentType.includes("application/json")) {
+      const body = await c.req.raw.clone().json();
+      return typeof body?.model === "string" ? body.model : undefined;
+    }
+    if (contentType.includes("multipart/form-data")) {
+      const model = (await c.req.raw.clone().formData()).get("model");
+      return typeof model === "string" ? model : undefined;
+    }
+  } catch {
+    // Unreadable body - Azure answers with its own error
+  }
+  return undefined;
+}
+
+function resolveRequestUpstream(c: Context, model?: string): UpstreamTarget {
+  return resolveUpstream(getConfig(), { model, path: c.req.path, headers: c.req.header() });
+}
+
+/**
+ * Upstream named by a policy decision - undefined lets providers.routing pick
+ */
+function getDecisionUpstream(c: Context, decision: PolicyDecision): UpstreamTarget | undefined {
+  if (decision.action !== "upstream" || !decision.upstream) return undefined;
+  return getUpstream(getConfig(), decision.upstream, getClientAuth(c.req.header()));
+}
+
+/**
+ * Providers to try for a request: the upstream, then its fallback list
+ *
+ * Fallbacks get the request as prepared for the upstream, masked or not, but
+ * never the client's credential. An upstream policy decision approved one
+ * upstream for the unmasked request, so only the local provider may stand in
+ * for it.
+ */
+function getFailoverChain<T>(
+  upstream: UpstreamTarget,
+  decision: PolicyDecision | undefined,
+  callUpstream: (target: UpstreamTarget) => Promise<T>,
+  callLocalProvider?: () => Promise<T>,
+): ProviderCandidate<T>[] {
+  const chain: ProviderCandidate<T>[] = [
+    { name: upstream.name, call: () => callUpstream(upstream) },
+  ];
+  for (const name of upstream.fallback) {
+    if (name === "local") {
+      if (callLocalProvider) chain.push({ name, call: callLocalProvider });
+    } else if (decision?.action !== "upstream") {
+      const target = getFallbackUpstream(getConfig(), name);
+      if (target) chain.push({ name: target.name, call: () => callUpstream(target) });
+    }
+  }
+  return chain;
+}
+
+/**
+ * embeddings.action as a decision, used when no policy rule matches
+ */
+function getEmbeddingsDecision(
+  action: EmbeddingsConfig["action"],
+  piiResult: PIIDetectResult,
+  secretsResult: SecretsProcessResult<EmbeddingsRequest>,
+): PolicyDecision {
+  if (action === "block" && piiResult.hasPII) {
+    return { action: "block", rule: "embeddings.action" };
+  }
+  if (action === "route_local" && (piiResult.hasPII || secretsResult.detection?.detected)) {
+    return { action: "route_local", rule: "embeddings.action" };
+  }
+  return { action: "mask", rule: "embeddings.action" };
+}
+
+function formatEmbeddingsInputForLog(request: EmbeddingsRequest): string {
+  return openaiEmbeddingsExtractor
+    .extractTexts(request)
+    .map((span) => span.text)
+    .join("\n");
+}
+
+function formatResponsesInputForLog(request: ResponsesRequest): string {
+  return openaiResponsesExtractor
+    .extractTexts(request)
+    .map((span) => `[${span.role}] ${span.text}`)
+    .join("\n");
+}
+
 // --- Response handlers ---
 
-function respondBlocked(
+function respondBlocked<TRequest extends { model?: string }>(
   c: Context,
-  body: OpenAIRequest,
-  secretsResult: SecretsProcessResult<OpenAIRequest>,
+  body: TRequest,
+  secretsResult: SecretsProcessResult<TRequest>,
   startTime: number,
   reqId: number,
 ) {
@@ -238,7 +687,48 @@ function respondBlocked(
   );
 }
 
-function respondDetectionError(c: Context, body: OpenAIRequest, startTime: number, reqId: number) {
+function respondPIIBlocked<TRequest extends { model?: string }>(
+  c: Context,
+  body: TRequest,
+  piiResult: PIIDetectResult,
+  secretsResult: SecretsProcessResult<TRequest>,
+  startTime: number,
+  reqId: number,
+) {
+  const piiLogData = toPIILogData(piiResult);
+
+  c.header("X-PasteGuard-PII-Detected", "true");
+
+  logRequest(
+    createLogData({
+      provider: "openai",
+      model: body.model || "unknown",
+      startTime,
+      pii: piiLogData,
+      secrets: toSecretsLogData(secretsResult),
+      statusCode: 400,
+      errorMessage: `PII detected: ${piiLogData.entityTypes.join(", ")}`,
+    }),
+    c.req.header("User-Agent") || null,
+    reqId,
+  );
+
+  return c.json(
+    errorFormats.openai.error(
+      `Request blocked: detected personal data (${piiLogData.entityTypes.join(",")}). Remove it and retry.`,
+      "invalid_request_error",
+      "pii_detected",
+    ),
+    400,
+  );
+}
+
+function respondDetectionError(
+  c: Context,
+  body: { model?: string },
+  startTime: number,
+  reqId: number,
+) {
   logRequest(
     createLogData({
       provider: "openai",
@@ -265,8 +755,8 @@ function respondDetectionError(c: Context, body: OpenAIRequest, startTime: numbe
 
 async function sendToOpenAI(c: Context, originalRequest: OpenAIRequest, opts: OpenAIOptions) {
   const config = getConfig();
-  const { request, piiResult, piiMaskingContext, secretsResult, startTime, reqId, authHeader } =
-    opts;
+  const { request, piiResult, piiMaskingContext, secretsResult, startTime, reqId } = opts;
+  const upstream = opts.upstream ?? resolveRequestUpstream(c, originalRequest.model);
 
   const maskedContent =
     piiResult.hasPII || secretsResult.masked ? formatMessagesForLog(request.messages) : undefined;
@@ -274,33 +764,41 @@ async function sendToOpenAI(c: Context, originalRequest: OpenAIRequest, opts: Op
   setResponseHeaders(
     c,
     config.mode,
-    "openai",
+    upstream.name,
     toPIIHeaderData(piiResult),
     toSecretsHeaderData(secretsResult),
   );
 
   setPhase(reqId, "provider");
   const providerStart = Date.now();
+  const failed: FailedAttempt[] = [];
   try {
-    const result = await callOpenAI(
-      request,
-      config.providers.openai,
-      authHeader,
-      config.server.provider_timeout_ms,
+    const { result, provider } = await callWithFailover(
+      getFailoverChain(
+        upstream,
+        piiResult.decision,
+        (target) => callOpenAI(request, target.config, target.authHeader, target.timeoutMs),
+        config.local ? () => callLocal(request, config.local!) : undefined,
+      ),
+      config.providers.retry,
+      failed,
     );
     const providerCallMs = Date.now() - providerStart;
+    const failedAttempts = formatFailedAttempts(failed);
+    if (provider !== upstream.name) c.header("X-PasteGuard-Provider", provider);
 
     if (result.isStreaming) {
       setPhase(reqId, "streaming");
       const logId = logRequest(
         createLogData({
-          provider: "openai",
+          provider,
           model: result.model || originalRequest.model || "unknown",
           startTime,
           providerCallMs,
           pii: toPIILogData(piiResult),
           secrets: toSecretsLogData(secretsResult),
           maskedContent,
+          failedAttempts,
         }),
         c.req.header("User-Agent") || null,
       );
@@ -312,6 +810,7 @@ async function sendToOpenAI(c: Context, originalRequest: OpenAIRequest, opts: Op
         secretsResult.maskingContext,
         config.masking,
         onUsage,
+        logId,
       );
     }
 
@@ -320,15 +819,16 @@ async function sendToOpenAI(c: Context, originalRequest: OpenAIRequest, opts: Op
     // Subtract it so prompt_tokens stores only the non-cached portion, matching
     // Anthropic semantics and keeping the cache_hit_rate formula correct.
     const cachedTokens = usage?.prompt_tokens_details?.cached_tokens ?? 0;
-    logRequest(
+    const logId = logRequest(
       createLogData({
-        provider: "openai",
+        provider,
         model: result.model || originalRequest.model || "unknown",
         startTime,
         providerCallMs,
         pii: toPIILogData(piiResult),
         secrets: toSecretsLogData(secretsResult),
         maskedContent,
+        failedAttempts,
         promptTokens: usage ? usage.prompt_tokens - cachedTokens : undefined,
         completionTokens: usage?.completion_tokens,
         ...(cachedTokens > 0 ? { cacheReadInputTokens: cachedTokens } : {}),
@@ -343,19 +843,21 @@ async function sendToOpenAI(c: Context, originalRequest: OpenAIRequest, opts: Op
       piiMaskingContext,
       secretsResult.maskingContext,
       config.masking,
+      logId,
     );
   } catch (error) {
     return handleProviderError(
       c,
       error,
       {
-        provider: "openai",
+        provider: failed.at(-1)?.provider ?? upstream.name,
         model: originalRequest.model || "unknown",
         startTime,
         providerCallMs: Date.now() - providerStart,
         pii: toPIILogData(piiResult),
         secrets: toSecretsLogData(secretsResult),
         maskedContent,
+        failedAttempts: failed,
         userAgent: c.req.header("User-Agent") || null,
         activeRequestId: reqId,
       },
@@ -385,8 +887,209 @@ async function sendToLocal(c: Context, originalRequest: OpenAIRequest, opts: Loc
 
   setPhase(reqId, "provider");
   const providerStart = Date.now();
+  const failed: FailedAttempt[] = [];
+  try {
+    const local = config.local;
+    const { result } = await callWithFailover(
+      [{ name: "local", call: () => callLocal(request, local) }],
+      config.providers.retry,
+      failed,
+    );
+    const providerCallMs = Date.now() - providerStart;
+
+    logRequest(
+      createLogData({
+        provider: "local",
+        model: result.model || originalRequest.model || "unknown",
+        startTime,
+        providerCallMs,
+        pii: toPIILogData(piiResult),
+        secrets: toSecretsLogData(secretsResult),
+        maskedContent,
+        failedAttempts: formatFailedAttempts(failed),
+      }),
+      c.req.header("User-Agent") || null,
+      reqId,
+    );
+
+    if (result.isStreaming) {
+      c.header("Content-Type", "text/event-stream");
+      c.header("Cache-Control", "no-cache");
+      c.header("Connection", "keep-alive");
+      return c.body(result.response as ReadableStream);
+    }
+
+    return c.json(result.response);
+  } catch (error) {
+    return handleProviderError(
+      c,
+      error,
+      {
+        provider: "local",
+        model: originalRequest.model || "unknown",
+        startTime,
+        providerCallMs: Date.now() - providerStart,
+        pii: toPIILogData(piiResult),
+        secrets: toSecretsLogData(secretsResult),
+        maskedContent,
+        failedAttempts: failed,
+        userAgent: c.req.header("User-Agent") || null,
+        activeRequestId: reqId,
+      },
+      (msg) => errorFormats.openai.error(msg, "server_error", "upstream_error"),
+    );
+  }
+}
+
+async function sendResponsesToOpenAI(
+  c: Context,
+  originalRequest: ResponsesRequest,
+  opts: OpenAIOptions<ResponsesRequest>,
+) {
+  const config = getConfig();
+  const { request, piiResult, piiMaskingContext, secretsResult, startTime, reqId } = opts;
+  const upstream = opts.upstream ?? resolveRequestUpstream(c, originalRequest.model);
+
+  const maskedContent =
+    piiResult.hasPII || secretsResult.masked ? formatResponsesInputForLog(request) : undefined;
+
+  setResponseHeaders(
+    c,
+    config.mode,
+    upstream.name,
+    toPIIHeaderData(piiResult),
+    toSecretsHeaderData(secretsResult),
+  );
+
+  setPhase(reqId, "provider");
+  const providerStart = Date.now();
+  const failed: FailedAttempt[] = [];
+  try {
+    const { result, provider } = await callWithFailover(
+      getFailoverChain(
+        upstream,
+        piiResult.decision,
+        (target) =>
+          callOpenAIResponses(request, target.config, target.authHeader, target.timeoutMs),
+        config.local ? () => callLocalResponses(request, config.local!) : undefined,
+      ),
+      config.providers.retry,
+      failed,
+    );
+    const providerCallMs = Date.now() - providerStart;
+    const failedAttempts = formatFailedAttempts(failed);
+    if (provider !== upstream.name) c.header("X-PasteGuard-Provider", provider);
+
+    if (result.isStreaming) {
+      setPhase(reqId, "streaming");
+      const logId = logRequest(
+        createLogData({
+          provider,
+          model: result.model || originalRequest.model || "unknown",
+          startTime,
+          providerCallMs,
+          pii: toPIILogData(piiResult),
+          secrets: toSecretsLogData(secretsResult),
+          maskedContent,
+          failedAttempts,
+        }),
+        c.req.header("User-Agent") || null,
+      );
+      const onUsage = createTokenUpdateCallback(logId, reqId);
+      return respondResponsesStreaming(
+        c,
+        result,
+        piiMaskingContext,
+        secretsResult.maskingContext,
+        config.masking,
+        onUsage,
+        logId,
+      );
+    }
+
+    const usage = result.response.usage;
+    // cached_tokens is a subset of input_tokens, same as Chat Completions
+    const cachedTokens = usage?.input_tokens_details?.cached_tokens ?? 0;
+    const logId = logRequest(
+      createLogData({
+        provider,
+        model: result.model || originalRequest.model || "unknown",
+        startTime,
+        providerCallMs,
+        pii: toPIILogData(piiResult),
+        secrets: toSecretsLogData(secretsResult),
+        maskedContent,
+        failedAttempts,
+        promptTokens: usage ? usage.input_tokens - cachedTokens : undefined,
+        completionTokens: usage?.output_tokens,
+        ...(cachedTokens > 0 ? { cacheReadInputTokens: cachedTokens } : {}),
+      }),
+      c.req.header("User-Agent") || null,
+      reqId,
+    );
+
+    return respondResponsesJson(
+      c,
+      result.response,
+      piiMaskingContext,
+      secretsResult.maskingContext,
+      config.masking,
+      logId,
+    );
+  } catch (error) {
+    return handleProviderError(
+      c,
+      error,
+      {
+        provider: failed.at(-1)?.provider ?? upstream.name,
+        model: originalRequest.model || "unknown",
+        startTime,
+        providerCallMs: Date.now() - providerStart,
+        pii: toPIILogData(piiResult),
+        secrets: toSecretsLogData(secretsResult),
+        maskedContent,
+        failedAttempts: failed,
+        userAgent: c.req.header("User-Agent") || null,
+        activeRequestId: reqId,
+      },
+      (msg) => errorFormats.openai.error(msg, "server_error", "upstream_error"),
+    );
+  }
+}
+
+async function sendResponsesToLocal(
+  c: Context,
+  originalRequest: ResponsesRequest,
+  opts: LocalOptions<ResponsesRequest>,
+) {
+  const config = getConfig();
+  const { request, piiResult, secretsResult, startTime, reqId } = opts;
+
+  if (!config.local) {
+    throw new Error("Local provider not configured");
+  }
+
+  const maskedContent =
+    piiResult.hasPII || secretsResult.masked ? formatResponsesInputForLog(request) : undefined;
+
+  setResponseHeaders(
+    c,
+    config.mode,
+    "local",
+    toPIIHeaderData(piiResult),
+    toSecretsHeaderData(secretsResult),
+  );
+
+  setPhase(reqId, "provider");
+  const providerStart = Date.now();
+  const failed: FailedAttempt[] = [];
   try {
-    const result = await callLocal(request, config.local);
+    const local = config.local;
+    const { result } = await callWithFailover(
+      [{ name: "local", call: () => callLocalResponses(request, local) }],
+      config.providers.retry,
+      failed,
+    );
     const providerCallMs = Date.now() - providerStart;
 
     logRequest(
@@ -398,6 +1101,7 @@ async function sendToLocal(c: Context, originalRequest: OpenAIRequest, opts: Loc
         pii: toPIILogData(piiResult),
         secrets: toSecretsLogData(secretsResult),
         maskedContent,
+        failedAttempts: formatFailedAttempts(failed),
       }),
       c.req.header("User-Agent") || null,
       reqId,
@@ -423,6 +1127,95 @@ async function sendToLocal(c: Context, originalRequest: OpenAIRequest, opts: Loc
         pii: toPIILogData(piiResult),
         secrets: toSecretsLogData(secretsResult),
         maskedContent,
+        failedAttempts: failed,
+        userAgent: c.req.header("User-Agent") || null,
+        activeRequestId: reqId,
+      },
+      (msg) => errorFormats.openai.error(msg, "server_error", "upstream_error"),
+    );
+  }
+}
+
+async function sendEmbeddings(
+  c: Context,
+  originalRequest: EmbeddingsRequest,
+  target: "openai" | "local",
+  opts: OpenAIOptions<EmbeddingsRequest>,
+) {
+  const config = getConfig();
+  const { request, piiResult, secretsResult, startTime, reqId } = opts;
+  const upstream =
+    target === "openai"
+      ? (opts.upstream ?? resolveRequestUpstream(c, originalRequest.model))
+      : undefined;
+  const provider = upstream?.name ?? "local";
+
+  const maskedContent =
+    piiResult.hasPII || secretsResult.masked ? formatEmbeddingsInputForLog(request) : undefined;
+
+  setResponseHeaders(
+    c,
+    config.embeddings.action === "route_local" ? "route" : "mask",
+    provider,
+    toPIIHeaderData(piiResult),
+    toSecretsHeaderData(secretsResult),
+  );
+
+  const callLocalModel =
+    config.local && config.embeddings.local_model
+      ? () => callLocalEmbeddings(request, config.local!, config.embeddings.local_model!)
+      : undefined;
+
+  setPhase(reqId, "provider");
+  const providerStart = Date.now();
+  const failed: FailedAttempt[] = [];
+  try {
+    const { result, provider: usedProvider } = await callWithFailover(
+      upstream
+        ? getFailoverChain(
+            upstream,
+            piiResult.decision,
+            (target) =>
+              callOpenAIEmbeddings(request, target.config, target.authHeader, target.timeoutMs),
+            callLocalModel,
+          )
+        : [{ name: "local", call: callLocalModel! }],
+      config.providers.retry,
+      failed,
+    );
+    const providerCallMs = Date.now() - providerStart;
+    if (usedProvider !== provider) c.header("X-PasteGuard-Provider", usedProvider);
+
+    logRequest(
+      createLogData({
+        provider: usedProvider,
+        model: result.model || originalRequest.model || "unknown",
+        startTime,
+        providerCallMs,
+        pii: toPIILogData(piiResult),
+        secrets: toSecretsLogData(secretsResult),
+        maskedContent,
+        failedAttempts: formatFailedAttempts(failed),
+        promptTokens: result.response.usage?.prompt_tokens,
+      }),
+      c.req.header("User-Agent") || null,
+      reqId,
+    );
+
+    return c.json(result.response);
+  } catch (error) {
+    return handleProviderError(
+      c,
+      error,
+      {
+        provider: failed.at(-1)?.provider ?? provider,
+        model: originalRequest.model || "unknown",
+        startTime,
+        providerCallMs: Date.now() - providerStart,
+        pii: toPIILogData(piiResult),
+        secrets: toSecretsLogData(secretsResult),
+        maskedContent,
+        failedAttempts: failed,
         userAgent: c.req.header("User-Agent") || null,
         activeRequestId: reqId,
       },
@@ -440,6 +1233,7 @@ function respondStreaming(
   secretsContext?: PlaceholderContext,
   maskingConfig?: MaskingConfig,
   onUsage?: (tokens: TokenUsage) => void,
+  logId?: number,
 ) {
   c.header("Content-Type", "text/event-stream");
   c.header("Cache-Control", "no-cache");
@@ -453,7 +1247,7 @@ function respondStreaming(
       secretsContext,
       onUsage,
     );
-    return c.body(stream);
+    return c.body(trackFuzzyRestores(stream, logId, [piiContext, secretsContext]));
   }
 
   return c.body(result.response);
@@ -465,6 +1259,7 @@ function respondJson(
   piiContext?: PlaceholderContext,
   secretsContext?: PlaceholderContext,
   maskingConfig?: MaskingConfig,
+  logId?: number,
 ) {
   let result = response;
 
@@ -474,6 +1269,55 @@ function respondJson(
   if (secretsContext) {
     result = unmaskSecretsResponse(result, secretsContext, openaiExtractor);
   }
+  recordFuzzyRestores(logId, [piiContext, secretsContext]);
+
+  return c.json(result);
+}
+
+function respondResponsesStreaming(
+  c: Context,
+  result: ResponsesProviderResult & { isStreaming: true },
+  piiContext?: PlaceholderContext,
+  secretsContext?: PlaceholderContext,
+  maskingConfig?: MaskingConfig,
+  onUsage?: (tokens: TokenUsage) => void,
+  logId?: number,
+) {
+  c.header("Content-Type", "text/event-stream");
+  c.header("Cache-Control", "no-cache");
+  c.header("Connection", "keep-alive");
+
+  if (piiContext || secretsContext || onUsage) {
+    const stream = createResponsesUnmaskingStream(
+      result.response,
+      piiContext,
+      maskingConfig!,
+      secretsContext,
+      onUsage,
+    );
+    return c.body(trackFuzzyRestores(stream, logId, [piiContext, secretsContext]));
+  }
+
+  return c.body(result.response);
+}
+
+function respondResponsesJson(
+  c: Context,
+  response: ResponsesResponse,
+  piiContext?: PlaceholderContext,
+  secretsContext?: PlaceholderContext,
+  maskingConfig?: MaskingConfig,
+  logId?: number,
+) {
+  let result = response;
+
+  if (piiContext) {
+    result = unmaskPIIResponse(result, piiContext, maskingConfig!, openaiResponsesExtractor);
+  }
+  if (secretsContext) {
+    result = unmaskSecretsResponse(result, secretsContext, openaiResponsesExtractor);
+  }
+  recordFuzzyRestores(logId, [piiContext, secretsContext]);
 
   return c.json(result);
 }
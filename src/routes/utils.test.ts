@@ -101,6 +101,7 @@ function makePIIResult(
     hasPII?: boolean;
     entities?: Array<{ entity_type: string; start: number; end: number; score: number }>;
     language?: string;
+    languages?: string[];
     languageFallback?: boolean;
     detectedLanguage?: string;
     scanTimeMs?: number;
@@ -117,6 +118,7 @@ function makePIIResult(
       allEntities,
       scanTimeMs: overrides.scanTimeMs ?? 10,
       language: (overrides.language ?? "en") as "en",
+      languages: overrides.languages as "en"[] | undefined,
       languageFallback: overrides.languageFallback ?? false,
       detectedLanguage: overrides.detectedLanguage,
     },
@@ -370,6 +372,46 @@ describe("setResponseHeaders()", () => {
     expect(c.capturedHeaders["X-PasteGuard-PII-Masked"]).toBeUndefined();
   });
 
+  test("sets Decision header and follows the decision for PII-Masked", () => {
+    const c = ctx();
+    setResponseHeaders(
+      c as unknown as Parameters<typeof setResponseHeaders>[0],
+      "mask",
+      "openai",
+      toPIIHeaderData({
+        ...makePIIResult({ hasPII: true }),
+        decision: { action: "allow", rule: "names", matched: ["entities=PERSON"] },
+      }),
+    );
+    expect(c.capturedHeaders["X-PasteGuard-Decision"]).toBe("allow; rule=names; entities=PERSON");
+    expect(c.capturedHeaders["X-PasteGuard-PII-Masked"]).toBeUndefined();
+  });
+
+  test("sets PII-Masked in route mode when the decision is mask", () => {
+    const c = ctx();
+    setResponseHeaders(
+      c as unknown as Parameters<typeof setResponseHeaders>[0],
+      "route",
+      "openai",
+      toPIIHeaderData({
+        ...makePIIResult({ hasPII: true }),
+        decision: { action: "mask", rule: "names" },
+      }),
+    );
+    expect(c.capturedHeaders["X-PasteGuard-PII-Masked"]).toBe("true");
+  });
+
+  test("lists every scanned language in the Language header", () => {
+    const c = ctx();
+    setResponseHeaders(
+      c as unknown as Parameters<typeof setResponseHeaders>[0],
+      "mask",
+      "openai",
+      toPIIHeaderData(makePIIResult({ language: "en", languages: ["de", "en"] })),
+    );
+    expect(c.capturedHeaders["X-PasteGuard-Language"]).toBe("de,en");
+  });
+
   test("sets Language-Fallback when languageFallback=true", () => {
     const c = ctx();
     setResponseHeaders(
@@ -440,6 +482,18 @@ describe("setResponseHeaders()", () => {
     );
     expect(c.capturedHeaders["X-PasteGuard-Secrets-Detected"]).toBeUndefined();
   });
+
+  test("sets Detection-Degraded and PII-Detected 'unknown' when detection failed", () => {
+    const c = ctx();
+    setResponseHeaders(
+      c as unknown as Parameters<typeof setResponseHeaders>[0],
+      "mask",
+      "openai",
+      toPIIHeaderData({ ...makePIIResult(), degraded: "allow_with_secrets_only" }),
+    );
+    expect(c.capturedHeaders["X-PasteGuard-Detection-Degraded"]).toBe("allow_with_secrets_only");
+    expect(c.capturedHeaders["X-PasteGuard-PII-Detected"]).toBe("unknown");
+  });
 });
 
 describe("setBlockedHeaders()", () => {
@@ -470,6 +524,14 @@ describe("setBlockedHeaders()", () => {
 });
 
 describe("createLogData()", () => {
+  test("passes the on_error policy of degraded requests to the log", () => {
+    const pii = toPIILogData({ ...makePIIResult(), degraded: "route_local" });
+    expect(
+      createLogData({ provider: "local", model: "llama3", startTime: Date.now(), pii })
+        .detectionDegraded,
+    ).toBe("route_local");
+  });
+
   test("returns the correct provider and model", () => {
     const result = createLogData({ provider: "openai", model: "gpt-4o", startTime: Date.now() });
     expect(result.provider).toBe("openai");
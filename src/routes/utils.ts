@@ -7,11 +7,14 @@
 
 import type { Context } from "hono";
 import { getConfig } from "../config";
+import type { PlaceholderContext } from "../masking/context";
 import { ProviderError } from "../providers/errors";
+import { type FailedAttempt, formatFailedAttempts } from "../providers/failover";
 import { decrementActive } from "../services/active-requests";
-import type { RequestLogData, TokenUsage } from "../services/logger";
+import type { LogProvider, RequestLogData, TokenUsage } from "../services/logger";
 import { getLogger, logRequest } from "../services/logger";
 import type { PIIDetectResult } from "../services/pii";
+import { formatDecision, type PolicyDecision } from "../services/policy";
 import type { SecretsProcessResult } from "../services/secrets";
 
 // ============================================================================
@@ -41,6 +44,24 @@ export interface AnthropicErrorResponse {
   };
 }
 
+/**
+ * Error response format for Gemini (Google API error)
+ */
+export interface GeminiErrorResponse {
+  error: {
+    code: number;
+    message: string;
+    status: string;
+  };
+}
+
+const GEMINI_ERROR_STATUS: Record<number, string> = {
+  400: "INVALID_ARGUMENT",
+  500: "INTERNAL",
+  502: "UNAVAILABLE",
+  503: "UNAVAILABLE",
+};
+
 /**
  * Format adapters for different API schemas
  */
@@ -73,6 +94,18 @@ export const errorFormats = {
       };
     },
   },
+
+  gemini: {
+    error(message: string, code: number): GeminiErrorResponse {
+      return {
+        error: {
+          code,
+          message,
+          status: GEMINI_ERROR_STATUS[code] ?? "UNKNOWN",
+        },
+      };
+    },
+  },
 };
 
 // ============================================================================
@@ -82,7 +115,12 @@ export const errorFormats = {
 export interface PIIHeaderData {
   hasPII: boolean;
   language: string;
+  /** All languages spans were scanned with, if more than the request language */
+  languages?: string[];
   languageFallback: boolean;
+  /** on_error policy the request was forwarded under after detection failed */
+  degraded?: string;
+  decision?: PolicyDecision;
 }
 
 export interface SecretsHeaderData {
@@ -103,15 +141,23 @@ export function setResponseHeaders(
 ): void {
   c.header("X-PasteGuard-Mode", mode);
   c.header("X-PasteGuard-Provider", provider);
-  c.header("X-PasteGuard-PII-Detected", pii.hasPII.toString());
-  c.header("X-PasteGuard-Language", pii.language);
+  c.header("X-PasteGuard-PII-Detected", pii.degraded ? "unknown" : pii.hasPII.toString());
+  c.header("X-PasteGuard-Language", pii.languages?.length ? pii.languages.join(",") : pii.language);
 
+  if (pii.degraded) {
+    c.header("X-PasteGuard-Detection-Degraded", pii.degraded);
+  }
   if (pii.languageFallback) {
     c.header("X-PasteGuard-Language-Fallback", "true");
   }
-  if (mode === "mask" && pii.hasPII) {
+  // Without a policy decision, mask mode masks everything it found
+  const masked = pii.decision ? pii.decision.action === "mask" : mode === "mask";
+  if (masked && pii.hasPII) {
     c.header("X-PasteGuard-PII-Masked", "true");
   }
+  if (pii.decision) {
+    c.header("X-PasteGuard-Decision", formatDecision(pii.decision));
+  }
   if (secrets?.detected) {
     c.header("X-PasteGuard-Secrets-Detected", "true");
     c.header("X-PasteGuard-Secrets-Types", secrets.types.join(","));
@@ -140,9 +186,20 @@ export interface PIILogData {
   hasPII: boolean;
   entityTypes: string[];
   language: string;
+  /** Languages spans were scanned with (language_detection.mode span) */
+  languages?: string[];
   languageFallback: boolean;
   detectedLanguage?: string;
   scanTimeMs: number;
+  /** Entities dropped by post-detection validation, per entity type */
+  validationRejected?: Record<string, number>;
+  /** on_error policy the request was forwarded under after detection failed */
+  degraded?: string;
+  /** Spans sent to the detector / reused from earlier turns */
+  spansScanned?: number;
+  spansSkipped?: number;
+  /** Formatted policy decision */
+  decision?: string;
 }
 
 /**
@@ -162,9 +219,15 @@ export function toPIILogData(piiResult: PIIDetectResult): PIILogData {
     hasPII: piiResult.hasPII,
     entityTypes: [...new Set(piiResult.detection.allEntities.map((e) => e.entity_type))],
     language: piiResult.detection.language,
+    languages: piiResult.detection.languages,
     languageFallback: piiResult.detection.languageFallback,
     detectedLanguage: piiResult.detection.detectedLanguage,
     scanTimeMs: piiResult.detection.scanTimeMs,
+    validationRejected: piiResult.detection.validationRejected,
+    degraded: piiResult.degraded,
+    spansScanned: piiResult.detection.spansScanned,
+    spansSkipped: piiResult.detection.spansSkipped,
+    decision: piiResult.decision ? formatDecision(piiResult.decision) : undefined,
   };
 }
 
@@ -175,7 +238,10 @@ export function toPIIHeaderData(piiResult: PIIDetectResult): PIIHeaderData {
   return {
     hasPII: piiResult.hasPII,
     language: piiResult.detection.language,
+    languages: piiResult.detection.languages,
     languageFallback: piiResult.detection.languageFallback,
+    degraded: piiResult.degraded,
+    decision: piiResult.decision,
   };
 }
 
@@ -208,13 +274,15 @@ export function toSecretsHeaderData<T>(
 }
 
 export interface CreateLogDataOptions {
-  provider: "openai" | "anthropic" | "copilot" | "local" | "api";
+  provider: LogProvider;
   model: string;
   startTime: number;
   providerCallMs?: number;
   pii?: PIILogData;
   secrets?: SecretsLogData;
   maskedContent?: string;
+  /** Formatted provider calls that failed before the final one */
+  failedAttempts?: string;
   statusCode?: number;
   errorMessage?: string;
   promptTokens?: number;
@@ -236,6 +304,7 @@ export function createLogData(options: CreateLogDataOptions): RequestLogData {
     pii,
     secrets,
     maskedContent,
+    failedAttempts,
     statusCode,
     errorMessage,
     promptTokens,
@@ -255,8 +324,15 @@ export function createLogData(options: CreateLogDataOptions): RequestLogData {
     scanTimeMs: pii?.scanTimeMs ?? 0,
     providerCallMs: providerCallMs ?? 0,
     language: pii?.language ?? config.pii_detection.fallback_language,
+    languages: pii?.languages,
     languageFallback: pii?.languageFallback ?? false,
     detectedLanguage: pii?.detectedLanguage,
+    validationRejected: pii?.validationRejected,
+    detectionDegraded: pii?.degraded,
+    spansScanned: pii?.spansScanned,
+    spansSkipped: pii?.spansSkipped,
+    decision: pii?.decision,
+    failedAttempts,
     maskedContent,
     secretsDetected: secrets?.detected,
     secretsTypes: secrets?.types,
@@ -294,6 +370,44 @@ export function createTokenUpdateCallback(
   };
 }
 
+/**
+ * Records the number of mangled placeholders fuzzy unmasking restored,
+ * summed over the request's contexts (no-op when there were none)
+ */
+export function recordFuzzyRestores(
+  logId: number | undefined,
+  contexts: (PlaceholderContext | undefined)[],
+): void {
+  if (logId === undefined) return;
+  const count = contexts.reduce((sum, ctx) => sum + (ctx?.fuzzyRestored?.size ?? 0), 0);
+  if (count === 0) return;
+  try {
+    getLogger().updateFuzzyRestores(logId, count);
+  } catch (e) {
+    console.error("Fuzzy restore update failed:", e);
+  }
+}
+
+/**
+ * Wraps an unmasking stream so fuzzy restorations are recorded once it ends
+ */
+export function trackFuzzyRestores(
+  stream: ReadableStream<Uint8Array>,
+  logId: number | undefined,
+  contexts: (PlaceholderContext | undefined)[],
+): ReadableStream<Uint8Array> {
+  if (logId === undefined || !contexts.some((ctx) => ctx?.fuzzy && ctx.fuzzy !== "off")) {
+    return stream;
+  }
+  return stream.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      flush() {
+        recordFuzzyRestores(logId, contexts);
+      },
+    }),
+  );
+}
+
 export type { TokenUsage };
 
 // ============================================================================
@@ -301,13 +415,15 @@ export type { TokenUsage };
 // ============================================================================
 
 export interface ProviderErrorContext {
-  provider: "openai" | "anthropic" | "copilot" | "local";
+  provider: LogProvider;
   model: string;
   startTime: number;
   providerCallMs?: number;
   pii?: PIILogData;
   secrets?: SecretsLogData;
   maskedContent?: string;
+  /** Failed provider calls, the last one being the error handled here */
+  failedAttempts?: FailedAttempt[];
   userAgent: string | null;
   activeRequestId?: number;
 }
@@ -326,6 +442,8 @@ export function handleProviderError(
   formatError: (message: string) => object,
 ): Response {
   console.error(`${ctx.provider} request error:`, error);
+  // The last failed attempt is this error, already logged as status and message
+  const failedAttempts = formatFailedAttempts(ctx.failedAttempts?.slice(0, -1) ?? []);
 
   if (error instanceof ProviderError) {
     logRequest(
@@ -337,6 +455,7 @@ export function handleProviderError(
         pii: ctx.pii,
         secrets: ctx.secrets,
         maskedContent: ctx.maskedContent,
+        failedAttempts,
         statusCode: error.status,
         errorMessage: error.errorMessage,
       }),
@@ -362,6 +481,7 @@ export function handleProviderError(
       pii: ctx.pii,
       secrets: ctx.secrets,
       maskedContent: ctx.maskedContent,
+      failedAttempts,
       statusCode: 502,
       errorMessage,
     }),
@@ -371,3 +491,60 @@ export function handleProviderError(
 
   return c.json(formatError(errorMessage), 502);
 }
+
+// ============================================================================
+// Policy Blocks
+// ============================================================================
+
+export interface PolicyBlockedContext<TRequest> {
+  provider: LogProvider;
+  model: string;
+  startTime: number;
+  piiResult: PIIDetectResult;
+  secretsResult: SecretsProcessResult<TRequest>;
+  userAgent: string | null;
+  activeRequestId?: number;
+}
+
+/**
+ * Respond to a request a policy rule blocked, with logging
+ *
+ * Expects piiResult.decision to be set.
+ */
+export function respondPolicyBlocked<TRequest>(
+  c: Context,
+  ctx: PolicyBlockedContext<TRequest>,
+  formatError: (message: string) => object,
+): Response {
+  const decision = ctx.piiResult.decision;
+  const rule = decision?.rule ?? "unknown";
+
+  const secrets = toSecretsLogData(ctx.secretsResult);
+
+  c.header("X-PasteGuard-PII-Detected", ctx.piiResult.hasPII.toString());
+  if (secrets?.detected) {
+    setBlockedHeaders(c, secrets.types ?? []);
+  }
+  if (decision) {
+    c.header("X-PasteGuard-Decision", formatDecision(decision));
+  }
+
+  logRequest(
+    createLogData({
+      provider: ctx.provider,
+      model: ctx.model,
+      startTime: ctx.startTime,
+      pii: toPIILogData(ctx.piiResult),
+      secrets,
+      statusCode: 400,
+      errorMessage: `Blocked by policy rule '${rule}'`,
+    }),
+    ctx.userAgent,
+    ctx.activeRequestId,
+  );
+
+  return c.json(
+    formatError(`Request blocked by policy (rule: ${rule}). Remove sensitive data and retry.`),
+    400,
+  );
+}
@@ -1,6 +1,7 @@
 import type { SecretsDetectionConfig } from "../config";
 import type { RequestExtractor, TextSpan } from "../masking/types";
-import { patternDetectors } from "./patterns";
+import { isWhitelisted, type WhitelistEntry } from "../masking/whitelist";
+import { getPatternDetectors } from "./patterns";
 import type {
   MessageSecretsResult,
   SecretLocation,
@@ -21,9 +22,12 @@ export type {
  *
  * Uses the pattern registry to scan for various secret types:
  * - Private keys: OpenSSH, PEM (RSA, generic, encrypted)
- * - API keys: OpenAI, AWS, GitHub
- * - Tokens: JWT, Bearer
+ * - API keys: OpenAI, AWS, GitHub, Google, Stripe, Twilio, SendGrid
+ * - Tokens: JWT, Bearer, Slack, GitLab, npm, PyPI, Hugging Face
+ * - Cloud credentials: GCP service accounts, Azure storage
  * - Environment variables: Passwords, secrets, connection strings
+ * - Generic high-entropy values assigned to credential-like keys
+ * - Custom patterns from secrets_detection.custom_patterns
  *
  * Respects max_scan_chars limit for performance.
  */
@@ -45,7 +49,7 @@ export function detectSecrets(
   const allMatches: SecretsMatch[] = [];
   const allLocations: SecretLocation[] = [];
 
-  for (const detector of patternDetectors) {
+  for (const detector of getPatternDetectors(config)) {
     // Skip detectors that don't handle any enabled types
     const hasEnabledPattern = detector.patterns.some((p) => enabledTypes.has(p));
     if (!hasEnabledPattern) continue;
@@ -67,6 +71,45 @@ export function detectSecrets(
   };
 }
 
+/**
+ * Removes secret detections matched by the whitelist (`masking.whitelist`)
+ *
+ * Only structured entries apply; plain strings are for PII. Match counts are recomputed from the remaining locations.
+ *
+ * @param role - Role of the span the text came from, for role-scoped entries
+ */
+export function filterWhitelistedSecrets(
+  text: string,
+  result: SecretsDetectionResult,
+  whitelist: WhitelistEntry[],
+  role?: string,
+): SecretsDetectionResult {
+  if (whitelist.length === 0 || !result.locations) return result;
+
+  const locations = result.locations.filter(
+    (location) =>
+      !isWhitelisted(
+        text.slice(location.start, location.end),
+        location.type,
+        whitelist,
+        role,
+        "secret",
+      ),
+  );
+  if (locations.length === result.locations.length) return result;
+
+  const counts = new Map<string, number>();
+  for (const location of locations) {
+    counts.set(location.type, (counts.get(location.type) ?? 0) + 1);
+  }
+
+  return {
+    detected: locations.length > 0,
+    matches: [...counts].map(([type, count]) => ({ type, count })),
+    locations: locations.length > 0 ? locations : undefined,
+  };
+}
+
 /**
  * Detects secrets in a request using an extractor
  */
@@ -74,9 +117,10 @@ export function detectSecretsInRequest<TRequest, TResponse>(
   request: TRequest,
   config: SecretsDetectionConfig,
   extractor: RequestExtractor<TRequest, TResponse>,
+  whitelist: WhitelistEntry[] = [],
 ): MessageSecretsResult {
   const spans = extractor.extractTexts(request);
-  return detectSecretsInSpans(spans, config);
+  return detectSecretsInSpans(spans, config, whitelist);
 }
 
 /**
@@ -85,6 +129,7 @@ export function detectSecretsInRequest<TRequest, TResponse>(
 export function detectSecretsInSpans(
   spans: TextSpan[],
   config: SecretsDetectionConfig,
+  whitelist: WhitelistEntry[] = [],
 ): MessageSecretsResult {
   if (!config.enabled) {
     return {
@@ -102,7 +147,12 @@ export function detectSecretsInSpans(
     if (scanRoles && span.role && !scanRoles.has(span.role)) {
       return [];
     }
-    const result = detectSecrets(span.text, config);
+    const result = filterWhitelistedSecrets(
+      span.text,
+      detectSecrets(span.text, config),
+      whitelist,
+      span.role,
+    );
     for (const match of result.matches) {
       matchCounts.set(match.type, (matchCounts.get(match.type) || 0) + match.count);
     }
@@ -112,7 +162,7 @@ export function detectSecretsInSpans(
   // Build matches array
   const allMatches: SecretsMatch[] = [];
   for (const [type, count] of matchCounts) {
-    allMatches.push({ type: type as SecretLocation["type"], count });
+    allMatches.push({ type, count });
   }
 
   const hasLocations = spanLocations.some((locs) => locs.length > 0);
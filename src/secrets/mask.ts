@@ -3,8 +3,8 @@
  */
 
 import { resolveOverlaps } from "../masking/conflict-resolver";
-import { incrementAndGenerate } from "../masking/context";
-import { generateSecretPlaceholder } from "../masking/placeholders";
+import { getPlaceholderFormat, incrementAndGenerate } from "../masking/context";
+import { generatePlaceholder as generatePlaceholderFromFormat } from "../masking/placeholders";
 import {
   createMaskingContext,
   flushMaskingBuffer as flushBuffer,
@@ -31,9 +31,14 @@ export interface MaskResult {
 
 /**
  * Generates a placeholder for a secret type
+ *
+ * Secrets share the PII placeholder format, e.g. [[API_KEY_SK_1]].
  */
 function generatePlaceholder(secretType: string, context: PlaceholderContext): string {
-  return incrementAndGenerate(secretType, context, generateSecretPlaceholder);
+  const { template } = getPlaceholderFormat(context);
+  return incrementAndGenerate(secretType, context, (type, count) =>
+    generatePlaceholderFromFormat(template, type, count),
+  );
 }
 
 /**
@@ -115,8 +120,9 @@ export function maskRequest<TRequest, TResponse>(
   request: TRequest,
   detection: MessageSecretsResult,
   extractor: RequestExtractor<TRequest, TResponse>,
+  existingContext?: PlaceholderContext,
 ): MaskRequestResult<TRequest> {
-  const context = createMaskingContext();
+  const context = existingContext ?? createMaskingContext();
 
   if (!detection.spanLocations) {
     return { masked: request, context };
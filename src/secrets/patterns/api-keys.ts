@@ -8,9 +8,23 @@ import { detectPattern } from "./utils";
  * - API_KEY_SK: Secret keys with sk- or sk_ prefix (OpenAI, Anthropic, Stripe, RevenueCat)
  * - API_KEY_AWS: AWS Access Keys (AKIA...)
  * - API_KEY_GITHUB: GitHub tokens (ghp_, gho_, ghu_, ghs_, ghr_)
+ * - API_KEY_AWS_SECRET: AWS secret access keys assigned to an aws_secret_access_key-style name
+ * - API_KEY_GOOGLE: Google API keys (AIza...)
+ * - API_KEY_STRIPE_RESTRICTED: Stripe restricted keys (rk_live_, rk_test_)
+ * - API_KEY_TWILIO: Twilio API key SIDs (SK + 32 hex chars)
+ * - API_KEY_SENDGRID: SendGrid API keys (SG.xxx.yyy)
  */
 export const apiKeysDetector: PatternDetector = {
-  patterns: ["API_KEY_SK", "API_KEY_AWS", "API_KEY_GITHUB"],
+  patterns: [
+    "API_KEY_SK",
+    "API_KEY_AWS",
+    "API_KEY_GITHUB",
+    "API_KEY_AWS_SECRET",
+    "API_KEY_GOOGLE",
+    "API_KEY_STRIPE_RESTRICTED",
+    "API_KEY_TWILIO",
+    "API_KEY_SENDGRID",
+  ],
 
   detect(text: string, enabledTypes: Set<string>) {
     const matches: SecretsMatch[] = [];
@@ -38,6 +52,38 @@ export const apiKeysDetector: PatternDetector = {
       detectPattern(text, githubPattern, "API_KEY_GITHUB", matches, locations);
     }
 
+    // AWS secret access keys: 40 base64 chars have no prefix, so only values
+    // assigned to a known name are detected (env vars, ~/.aws/credentials, JSON)
+    if (enabledTypes.has("API_KEY_AWS_SECRET")) {
+      const awsSecretPattern =
+        /(?:aws_?secret_?access_?key|aws_?secret_?key|SecretAccessKey)['"]?\s*[=:]\s*['"]?[A-Za-z0-9/+]{40}(?![A-Za-z0-9/+])/gi;
+      detectPattern(text, awsSecretPattern, "API_KEY_AWS_SECRET", matches, locations);
+    }
+
+    // Google API keys: AIza followed by 35 chars
+    if (enabledTypes.has("API_KEY_GOOGLE")) {
+      const googlePattern = /AIza[0-9A-Za-z_-]{35}/g;
+      detectPattern(text, googlePattern, "API_KEY_GOOGLE", matches, locations);
+    }
+
+    // Stripe restricted keys: rk_live_ / rk_test_ followed by 24+ alphanumeric chars
+    if (enabledTypes.has("API_KEY_STRIPE_RESTRICTED")) {
+      const stripeRestrictedPattern = /rk_(?:live|test)_[0-9A-Za-z]{24,}/g;
+      detectPattern(text, stripeRestrictedPattern, "API_KEY_STRIPE_RESTRICTED", matches, locations);
+    }
+
+    // Twilio API key SIDs: SK followed by exactly 32 lowercase hex chars
+    if (enabledTypes.has("API_KEY_TWILIO")) {
+      const twilioPattern = /\bSK[0-9a-f]{32}\b/g;
+      detectPattern(text, twilioPattern, "API_KEY_TWILIO", matches, locations);
+    }
+
+    // SendGrid API keys: SG.<22 chars>.<43 chars>
+    if (enabledTypes.has("API_KEY_SENDGRID")) {
+      const sendgridPattern = /SG\.[A-Za-z0-9_-]{22}\.[A-Za-z0-9_-]{43}/g;
+      detectPattern(text, sendgridPattern, "API_KEY_SENDGRID", matches, locations);
+    }
+
     return {
       detected: matches.length > 0,
       matches,
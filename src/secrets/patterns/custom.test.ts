@@ -0,0 +1,118 @@
+import { describe, expect, test } from "bun:test";
+import {
+  type CustomSecretPattern,
+  createCustomPatternsDetector,
+  findNestedQuantifier,
+  validateCustomPattern,
+} from "./custom";
+
+const acmeKey = "acme_live_9fK2xQ7mZ4pL8vR1tW6y";
+
+describe("findNestedQuantifier", () => {
+  test("finds nested unbounded quantifiers", () => {
+    expect(findNestedQuantifier("(a+)+")).toBe("(a+)+");
+    expect(findNestedQuantifier("x(\\w*)*y")).toBe("(\\w*)*");
+    expect(findNestedQuantifier("((ab)+c)+")).toBe("((ab)+c)+");
+    expect(findNestedQuantifier("(?:[a-z]+\\s?){2,}")).toBe("(?:[a-z]+\\s?){2,}");
+  });
+
+  test("accepts linear patterns", () => {
+    expect(findNestedQuantifier("acme_live_[A-Za-z0-9]{20,}")).toBeUndefined();
+    expect(findNestedQuantifier("(foo|bar)+")).toBeUndefined();
+    expect(findNestedQuantifier("(a{1,3})+")).toBeUndefined();
+    expect(findNestedQuantifier("[(+]+\\(+")).toBeUndefined();
+  });
+});
+
+describe("validateCustomPattern", () => {
+  const pattern = (overrides: Partial<CustomSecretPattern>): CustomSecretPattern => ({
+    name: "ACME_KEY",
+    regex: "acme_live_[A-Za-z0-9]{20,}",
+    ...overrides,
+  });
+
+  test("accepts a valid pattern", () => {
+    expect(validateCustomPattern(pattern({}))).toBeUndefined();
+  });
+
+  test("rejects invalid regex", () => {
+    expect(validateCustomPattern(pattern({ regex: "acme_(" }))).toContain("invalid regex");
+  });
+
+  test("rejects patterns that match empty text", () => {
+    expect(validateCustomPattern(pattern({ regex: "[a-z]*" }))).toContain("empty");
+  });
+
+  test("rejects catastrophic backtracking", () => {
+    expect(validateCustomPattern(pattern({ regex: "token_(\\w+)+!" }))).toContain(
+      "catastrophic backtracking",
+    );
+  });
+
+  test("checks that the capture group exists", () => {
+    expect(validateCustomPattern(pattern({ regex: "key=(\\w{8,})", group: 1 }))).toBeUndefined();
+    expect(
+      validateCustomPattern(pattern({ regex: "key=(?<value>\\w{8,})", group: "value" })),
+    ).toBeUndefined();
+    expect(validateCustomPattern(pattern({ regex: "key=(\\w{8,})", group: 2 }))).toContain(
+      "does not exist",
+    );
+    expect(validateCustomPattern(pattern({ regex: "key=\\w{8,}", group: "value" }))).toContain(
+      "does not exist",
+    );
+  });
+});
+
+describe("createCustomPatternsDetector", () => {
+  const enabled = new Set(["ACME_KEY"]);
+
+  test("detects matches of enabled patterns", () => {
+    const detector = createCustomPatternsDetector([
+      { name: "ACME_KEY", regex: "acme_live_[A-Za-z0-9]{20,}" },
+    ]);
+    const text = `key: ${acmeKey}`;
+
+    const result = detector.detect(text, enabled);
+
+    expect(detector.patterns).toEqual(["ACME_KEY"]);
+    expect(result.matches).toEqual([{ type: "ACME_KEY", count: 1 }]);
+    expect(result.locations).toEqual([{ start: 5, end: text.length, type: "ACME_KEY" }]);
+  });
+
+  test("skips patterns that are not enabled", () => {
+    const detector = createCustomPatternsDetector([
+      { name: "ACME_KEY", regex: "acme_live_[A-Za-z0-9]{20,}" },
+    ]);
+
+    expect(detector.detect(acmeKey, new Set()).detected).toBe(false);
+  });
+
+  test("skips text without any keyword", () => {
+    const detector = createCustomPatternsDetector([
+      { name: "ACME_KEY", regex: "[A-Za-z0-9]{24}", keywords: ["ACME"] },
+    ]);
+
+    expect(detector.detect("token 9fK2xQ7mZ4pL8vR1tW6yAbCd", enabled).detected).toBe(false);
+    expect(detector.detect("acme token 9fK2xQ7mZ4pL8vR1tW6yAbCd", enabled).detected).toBe(true);
+  });
+
+  test("rejects values below the entropy minimum", () => {
+    const detector = createCustomPatternsDetector([
+      { name: "ACME_KEY", regex: "acme_live_[A-Za-z0-9]{20,}", min_entropy: 3.5 },
+    ]);
+
+    expect(detector.detect("acme_live_aaaaaaaaaaaaaaaaaaaaaaaa", enabled).detected).toBe(false);
+    expect(detector.detect(acmeKey, enabled).detected).toBe(true);
+  });
+
+  test("reports only the capture group", () => {
+    const detector = createCustomPatternsDetector([
+      { name: "ACME_KEY", regex: "ACME_TOKEN=(?<value>[A-Za-z0-9]{16,})", group: "value" },
+    ]);
+    const text = "ACME_TOKEN=9fK2xQ7mZ4pL8vR1tW6y";
+
+    const result = detector.detect(text, enabled);
+
+    expect(result.locations).toEqual([{ start: 11, end: text.length, type: "ACME_KEY" }]);
+  });
+});
@@ -0,0 +1,180 @@
+import type { PatternDetector, SecretLocation, SecretsMatch } from "./types";
+import { shannonEntropy } from "./utils";
+
+/**
+ * Custom secret pattern from `secrets_detection.custom_patterns`
+ */
+export interface CustomSecretPattern {
+  /** Entity type reported for matches (UPPER_SNAKE_CASE) */
+  name: string;
+  /** Regular expression source (no delimiters or flags) */
+  regex: string;
+  /** Text is only scanned if it contains one of these (case-insensitive) */
+  keywords?: string[];
+  /** Minimum Shannon entropy (bits per character) of the secret value */
+  min_entropy?: number;
+  /** Capture group (index or name) that holds the secret value - only it is checked and masked */
+  group?: number | string;
+}
+
+/** Quantifiers that repeat without an upper bound */
+const UNBOUNDED_QUANTIFIER = /^(?:[*+]|\{\d+,\})/;
+
+/** Any quantifier */
+const QUANTIFIER = /^(?:[*+?]|\{\d+(?:,\d*)?\})/;
+
+/**
+ * Finds a nested unbounded quantifier such as `(a+)+` or `(\w*)*`
+ *
+ * Nested quantifiers are the common cause of catastrophic backtracking: on a
+ * near-miss input the engine tries every way to split the text between the
+ * inner and outer repetition. Returns the offending group, or undefined.
+ */
+export function findNestedQuantifier(source: string): string | undefined {
+  // Each frame: group start offset and whether it contains an unbounded quantifier
+  const stack: Array<{ start: number; unbounded: boolean }> = [{ start: 0, unbounded: false }];
+  let inClass = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+
+    if (ch === "\\") {
+      i++;
+      continue;
+    }
+    if (inClass) {
+      if (ch === "]") inClass = false;
+      continue;
+    }
+    if (ch === "[") {
+      inClass = true;
+      continue;
+    }
+    if (ch === "(") {
+      stack.push({ start: i, unbounded: false });
+      continue;
+    }
+
+    const rest = source.slice(i);
+    if (ch === ")" && stack.length > 1) {
+      const frame = stack.pop()!;
+      const quantified = UNBOUNDED_QUANTIFIER.test(source.slice(i + 1));
+      if (frame.unbounded && quantified) {
+        const quantifier = source.slice(i + 1).match(QUANTIFIER)![0];
+        return source.slice(frame.start, i + 1) + quantifier;
+      }
+      if (frame.unbounded || quantified) stack[stack.length - 1].unbounded = true;
+      continue;
+    }
+
+    if (UNBOUNDED_QUANTIFIER.test(rest)) {
+      stack[stack.length - 1].unbounded = true;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Validates a custom pattern, returning an error message or undefined
+ */
+export function validateCustomPattern(pattern: CustomSecretPattern): string | undefined {
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern.regex, "g");
+  } catch (error) {
+    return `invalid regex: ${error instanceof Error ? error.message : String(error)}`;
+  }
+
+  if (regex.test("")) {
+    return "regex must not match empty text";
+  }
+
+  const nested = findNestedQuantifier(pattern.regex);
+  if (nested) {
+    return `nested quantifier "${nested}" can cause catastrophic backtracking`;
+  }
+
+  if (pattern.group !== undefined) {
+    // An alternative that matches the empty string reveals all capture groups
+    const groups = new RegExp(`${pattern.regex}|`).exec("")!;
+    const exists =
+      typeof pattern.group === "number"
+        ? pattern.group < groups.length
+        : groups.groups !== undefined && pattern.group in groups.groups;
+    if (!exists) {
+      return `capture group ${JSON.stringify(pattern.group)} does not exist`;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Compiles custom patterns into a pattern detector
+ *
+ * Patterns are expected to be validated (see validateCustomPattern) - the
+ * config schema does this at startup.
+ */
+export function createCustomPatternsDetector(patterns: CustomSecretPattern[]): PatternDetector {
+  const compiled = patterns.map((pattern) => ({
+    ...pattern,
+    // "d" records capture group offsets
+    regex: new RegExp(pattern.regex, pattern.group !== undefined ? "gd" : "g"),
+    keywords: pattern.keywords?.map((keyword) => keyword.toLowerCase()),
+  }));
+
+  return {
+    patterns: patterns.map((pattern) => pattern.name),
+
+    detect(text: string, enabledTypes: Set<string>) {
+      const matches: SecretsMatch[] = [];
+      const locations: SecretLocation[] = [];
+      let lowerText: string | undefined;
+
+      for (const pattern of compiled) {
+        if (!enabledTypes.has(pattern.name)) continue;
+
+        if (pattern.keywords?.length) {
+          lowerText ??= text.toLowerCase();
+          if (!pattern.keywords.some((keyword) => lowerText!.includes(keyword))) continue;
+        }
+
+        let count = 0;
+        for (const match of text.matchAll(pattern.regex)) {
+          const [start, end] = secretRange(match, pattern.group);
+          if (start === end) continue;
+          if (
+            pattern.min_entropy !== undefined &&
+            shannonEntropy(text.slice(start, end)) < pattern.min_entropy
+          ) {
+            continue;
+          }
+          count++;
+          locations.push({ start, end, type: pattern.name });
+        }
+        if (count > 0) {
+          matches.push({ type: pattern.name, count });
+        }
+      }
+
+      return {
+        detected: matches.length > 0,
+        matches,
+        locations: locations.length > 0 ? locations : undefined,
+      };
+    },
+  };
+}
+
+/**
+ * Returns the offsets of the secret value in a match (the capture group, or the whole match)
+ */
+function secretRange(match: RegExpMatchArray, group?: number | string): [number, number] {
+  const start = match.index ?? 0;
+  if (group === undefined) return [start, start + match[0].length];
+
+  const indices =
+    typeof group === "number" ? match.indices?.[group] : match.indices?.groups?.[group];
+  return indices ? [indices[0], indices[1]] : [start, start];
+}
@@ -0,0 +1,146 @@
+import type { PatternDetector, SecretLocation, SecretsMatch } from "./types";
+import { shannonEntropy } from "./utils";
+
+/**
+ * Options for the high-entropy detector (`secrets_detection.entropy`)
+ */
+export interface EntropyOptions {
+  /** Minimum value length */
+  min_length: number;
+  /** Minimum Shannon entropy (bits per character) of hex values */
+  hex_threshold: number;
+  /** Minimum Shannon entropy (bits per character) of all other values */
+  base64_threshold: number;
+  /**
+   * Key name words that mark a value as a credential (case-insensitive, matched
+   * on identifier segments: "key" matches `api_key` and `apiKey`, not `monkey`)
+   */
+  keywords: string[];
+  /** Only report values assigned to a key containing a keyword */
+  require_keyword: boolean;
+  /** Regexes for values that are never reported (matched against the whole value) */
+  allowlist: string[];
+}
+
+export const DEFAULT_ENTROPY_OPTIONS: EntropyOptions = {
+  min_length: 20,
+  hex_threshold: 3.0,
+  base64_threshold: 3.5,
+  keywords: ["key", "token", "secret", "password", "passwd", "pwd", "auth", "credential"],
+  require_keyword: true,
+  allowlist: [],
+};
+
+/**
+ * Candidate assignments: key, separator (=, :, :=, =>) and an unquoted or
+ * quoted value - covers JSON, YAML, env files and most source code
+ */
+const ASSIGNMENT_PATTERN =
+  /(?<key>[A-Za-z_][A-Za-z0-9_.-]*)["']?\s*(?::=|=>|[=:])\s*["']?(?<value>[A-Za-z0-9+/=_-]+)/dg;
+
+const HEX_VALUE = /^[0-9a-f]+$/i;
+
+const UUID_VALUE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Keys whose hex values are hashes (git SHAs, digests) rather than secrets */
+const HASH_KEY = /sha|hash|commit|rev|digest|checksum|integrity|etag|fingerprint/i;
+
+/** Lengths of git SHAs and common digests (MD5, SHA-1, SHA-256, SHA-512) */
+const HASH_LENGTHS = new Set([32, 40, 64, 128]);
+
+/**
+ * Splits an identifier into lowercase words at separators, digits and camelCase
+ * boundaries: `client_secret`, `clientSecret` -> client, secret; `APIKey` -> api, key
+ */
+function identifierSegments(identifier: string): string[] {
+  return identifier
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Whether the key's segments contain the keyword's segments in a row (the last
+ * one also in plural, e.g. `api_keys`)
+ */
+function containsKeyword(keySegments: string[], keywordSegments: string[]): boolean {
+  const last = keywordSegments.length - 1;
+  if (last < 0) return false;
+  for (let start = 0; start + last < keySegments.length; start++) {
+    const matches = keywordSegments.every((segment, i) => {
+      const keySegment = keySegments[start + i];
+      return keySegment === segment || (i === last && keySegment === `${segment}s`);
+    });
+    if (matches) return true;
+  }
+  return false;
+}
+
+/**
+ * Returns true for values that look random but are not secrets
+ */
+function isAllowlisted(key: string, value: string, allowlist: RegExp[]): boolean {
+  if (UUID_VALUE.test(value)) return true;
+  if (HASH_KEY.test(key) && HEX_VALUE.test(value) && HASH_LENGTHS.has(value.length)) return true;
+  return allowlist.some((pattern) => pattern.test(value));
+}
+
+/**
+ * Creates the HIGH_ENTROPY_SECRET detector
+ *
+ * Credentials without a recognizable prefix are found by their context and
+ * randomness: a value assigned to a key like `token`, `apiKey` or
+ * `client_secret` is reported if it is long enough, mixes letters and digits,
+ * and its Shannon entropy reaches the threshold for its alphabet. UUIDs,
+ * hashes under hash-like keys and allowlisted values are skipped. Only the
+ * value is reported, so the key stays readable after masking.
+ */
+export function createEntropyDetector(
+  options: EntropyOptions = DEFAULT_ENTROPY_OPTIONS,
+): PatternDetector {
+  const keywords = options.keywords.map(identifierSegments);
+  const allowlist = options.allowlist.map((pattern) => new RegExp(`^(?:${pattern})$`));
+
+  return {
+    patterns: ["HIGH_ENTROPY_SECRET"],
+
+    detect(text: string, enabledTypes: Set<string>) {
+      const matches: SecretsMatch[] = [];
+      const locations: SecretLocation[] = [];
+
+      if (enabledTypes.has("HIGH_ENTROPY_SECRET")) {
+        for (const match of text.matchAll(ASSIGNMENT_PATTERN)) {
+          const { key, value } = match.groups!;
+          if (value.length < options.min_length) continue;
+          if (!/[A-Za-z]/.test(value) || !/\d/.test(value)) continue;
+
+          if (options.require_keyword) {
+            const keySegments = identifierSegments(key);
+            if (!keywords.some((keyword) => containsKeyword(keySegments, keyword))) continue;
+          }
+
+          const threshold = HEX_VALUE.test(value)
+            ? options.hex_threshold
+            : options.base64_threshold;
+          if (shannonEntropy(value) < threshold) continue;
+          if (isAllowlisted(key, value, allowlist)) continue;
+
+          const [start, end] = match.indices!.groups!.value;
+          locations.push({ start, end, type: "HIGH_ENTROPY_SECRET" });
+        }
+      }
+
+      if (locations.length > 0) {
+        matches.push({ type: "HIGH_ENTROPY_SECRET", count: locations.length });
+      }
+
+      return {
+        detected: matches.length > 0,
+        matches,
+        locations: locations.length > 0 ? locations : undefined,
+      };
+    },
+  };
+}
@@ -1,4 +1,7 @@
 import { apiKeysDetector } from "./api-keys";
+import { cloudDetector } from "./cloud";
+import { type CustomSecretPattern, createCustomPatternsDetector } from "./custom";
+import { createEntropyDetector, DEFAULT_ENTROPY_OPTIONS, type EntropyOptions } from "./entropy";
 import { envVarsDetector } from "./env-vars";
 import { privateKeysDetector } from "./private-keys";
 import { tokensDetector } from "./tokens";
@@ -15,7 +18,40 @@ export const patternDetectors: PatternDetector[] = [
   apiKeysDetector,
   tokensDetector,
   envVarsDetector,
+  cloudDetector,
 ];
 
+// Configured detectors, compiled once per config section
+const compiledDetectors = new WeakMap<object, PatternDetector>();
+
+function compiled<T extends object>(section: T, create: (section: T) => PatternDetector) {
+  let detector = compiledDetectors.get(section);
+  if (!detector) {
+    detector = create(section);
+    compiledDetectors.set(section, detector);
+  }
+  return detector;
+}
+
+/**
+ * Returns the built-in detectors plus the detectors built from config:
+ * the high-entropy detector (with its thresholds) and the custom patterns
+ */
+export function getPatternDetectors(config: {
+  entropy?: EntropyOptions;
+  custom_patterns?: CustomSecretPattern[];
+}): PatternDetector[] {
+  const detectors = [
+    ...patternDetectors,
+    compiled(config.entropy ?? DEFAULT_ENTROPY_OPTIONS, createEntropyDetector),
+  ];
+  if (config.custom_patterns?.length) {
+    detectors.push(compiled(config.custom_patterns, createCustomPatternsDetector));
+  }
+  return detectors;
+}
+
+export type { CustomSecretPattern } from "./custom";
+export type { EntropyOptions } from "./entropy";
 export type { PatternDetector, SecretEntityType, SecretsDetectionResult } from "./types";
 export { detectPattern } from "./utils";
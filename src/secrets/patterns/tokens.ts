@@ -7,9 +7,22 @@ import { detectPattern } from "./utils";
  * Detects:
  * - JWT_TOKEN: JSON Web Tokens (eyJ...)
  * - BEARER_TOKEN: Bearer tokens in Authorization-style contexts
+ * - SLACK_TOKEN: Slack bot, user, app and refresh tokens (xoxb-, xoxp-, xoxa-, ...)
+ * - GITLAB_TOKEN: GitLab personal access tokens (glpat-)
+ * - NPM_TOKEN: npm access tokens (npm_)
+ * - PYPI_TOKEN: PyPI API tokens (pypi-AgEIcHlwaS5vcmc...)
+ * - HUGGINGFACE_TOKEN: Hugging Face access tokens (hf_)
  */
 export const tokensDetector: PatternDetector = {
-  patterns: ["JWT_TOKEN", "BEARER_TOKEN"],
+  patterns: [
+    "JWT_TOKEN",
+    "BEARER_TOKEN",
+    "SLACK_TOKEN",
+    "GITLAB_TOKEN",
+    "NPM_TOKEN",
+    "PYPI_TOKEN",
+    "HUGGINGFACE_TOKEN",
+  ],
 
   detect(text: string, enabledTypes: Set<string>) {
     const matches: SecretsMatch[] = [];
@@ -29,6 +42,36 @@ export const tokensDetector: PatternDetector = {
       detectPattern(text, bearerPattern, "BEARER_TOKEN", matches, locations);
     }
 
+    // Slack tokens: xox + token kind, a numeric team/user ID and the secret part
+    if (enabledTypes.has("SLACK_TOKEN")) {
+      const slackPattern = /xox[abeoprs]-\d{6,}-[0-9A-Za-z-]{10,}/g;
+      detectPattern(text, slackPattern, "SLACK_TOKEN", matches, locations);
+    }
+
+    // GitLab personal access tokens: glpat- followed by 20+ chars
+    if (enabledTypes.has("GITLAB_TOKEN")) {
+      const gitlabPattern = /glpat-[0-9A-Za-z_-]{20,}/g;
+      detectPattern(text, gitlabPattern, "GITLAB_TOKEN", matches, locations);
+    }
+
+    // npm access tokens: npm_ followed by 36 alphanumeric chars
+    if (enabledTypes.has("NPM_TOKEN")) {
+      const npmPattern = /\bnpm_[A-Za-z0-9]{36}\b/g;
+      detectPattern(text, npmPattern, "NPM_TOKEN", matches, locations);
+    }
+
+    // PyPI API tokens: macaroons whose header always encodes "pypi.org"
+    if (enabledTypes.has("PYPI_TOKEN")) {
+      const pypiPattern = /pypi-AgEIcHlwaS5vcmc[A-Za-z0-9_-]{50,}/g;
+      detectPattern(text, pypiPattern, "PYPI_TOKEN", matches, locations);
+    }
+
+    // Hugging Face access tokens: hf_ followed by 34+ alphanumeric chars
+    if (enabledTypes.has("HUGGINGFACE_TOKEN")) {
+      const huggingFacePattern = /\bhf_[A-Za-z0-9]{34,}\b/g;
+      detectPattern(text, huggingFacePattern, "HUGGINGFACE_TOKEN", matches, locations);
+    }
+
     return {
       detected: matches.length > 0,
       matches,
@@ -1,5 +1,8 @@
 /**
- * All supported secret entity types
+ * All built-in secret entity types
+ *
+ * Custom patterns (`secrets_detection.custom_patterns`) add their own names,
+ * so detection results carry the type as a string.
  */
 export type SecretEntityType =
   | "OPENSSH_PRIVATE_KEY"
@@ -11,10 +14,25 @@ export type SecretEntityType =
   | "BEARER_TOKEN"
   | "ENV_PASSWORD"
   | "ENV_SECRET"
-  | "CONNECTION_STRING";
+  | "CONNECTION_STRING"
+  | "API_KEY_AWS_SECRET"
+  | "API_KEY_GOOGLE"
+  | "API_KEY_STRIPE_RESTRICTED"
+  | "API_KEY_TWILIO"
+  | "API_KEY_SENDGRID"
+  | "SLACK_TOKEN"
+  | "GITLAB_TOKEN"
+  | "NPM_TOKEN"
+  | "PYPI_TOKEN"
+  | "HUGGINGFACE_TOKEN"
+  | "GCP_SERVICE_ACCOUNT"
+  | "GCP_PRIVATE_KEY"
+  | "AZURE_STORAGE_CONNECTION_STRING"
+  | "HIGH_ENTROPY_SECRET";
 
 export interface SecretsMatch {
-  type: SecretEntityType;
+  /** Built-in SecretEntityType or custom pattern name */
+  type: string;
   count: number;
 }
 
@@ -24,7 +42,8 @@ export interface SecretsMatch {
 export interface SecretLocation {
   start: number;
   end: number;
-  type: SecretEntityType;
+  /** Built-in SecretEntityType or custom pattern name */
+  type: string;
 }
 
 export interface SecretsDetectionResult {
@@ -51,7 +70,7 @@ export interface MessageSecretsResult {
  */
 export interface PatternDetector {
   /** Entity types this detector can detect */
-  patterns: SecretEntityType[];
+  patterns: string[];
 
   /** Run detection for enabled entity types */
   detect(text: string, enabledTypes: Set<string>): SecretsDetectionResult;
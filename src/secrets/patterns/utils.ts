@@ -22,12 +22,30 @@ export function detectPattern(
       locations.push({
         start: match.index,
         end: match.index + match[0].length,
-        type: entityType as SecretLocation["type"],
+        type: entityType,
       });
     }
   }
   if (count > 0) {
-    matches.push({ type: entityType as SecretsMatch["type"], count });
+    matches.push({ type: entityType, count });
   }
   return count;
 }
+
+/**
+ * Shannon entropy of a string in bits per character
+ */
+export function shannonEntropy(value: string): number {
+  if (!value) return 0;
+  const counts = new Map<string, number>();
+  for (const ch of value) {
+    counts.set(ch, (counts.get(ch) ?? 0) + 1);
+  }
+  const length = [...value].length;
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
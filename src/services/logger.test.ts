@@ -125,6 +125,63 @@ describe("Logger token metrics", () => {
     });
   });
 
+  describe("updateFuzzyRestores()", () => {
+    test("records the fuzzy restore count for a log entry", () => {
+      const id = logger.log(makeEntry());
+
+      logger.updateFuzzyRestores(id, 3);
+
+      const logs = logger.getLogs(1, 0);
+      expect(logs[0].fuzzy_restores).toBe(3);
+    });
+
+    test("is null when nothing was restored", () => {
+      logger.log(makeEntry());
+
+      const logs = logger.getLogs(1, 0);
+      expect(logs[0].fuzzy_restores).toBeNull();
+    });
+  });
+
+  describe("validation_rejected", () => {
+    test("stores rejected entity counts", () => {
+      logger.log(makeEntry({ validation_rejected: "CREDIT_CARD:2,PHONE_NUMBER:1" }));
+
+      const logs = logger.getLogs(1, 0);
+      expect(logs[0].validation_rejected).toBe("CREDIT_CARD:2,PHONE_NUMBER:1");
+    });
+
+    test("is null when nothing was rejected", () => {
+      logger.log(makeEntry());
+
+      const logs = logger.getLogs(1, 0);
+      expect(logs[0].validation_rejected).toBeNull();
+    });
+  });
+
+  describe("detection_degraded", () => {
+    test("stores the on_error policy and counts it in degraded_last_hour", () => {
+      logger.log(makeEntry({ detection_degraded: "allow_with_secrets_only" }));
+      logger.log(makeEntry());
+
+      const logs = logger.getLogs(2, 0);
+      expect(logs.map((log) => log.detection_degraded)).toContain("allow_with_secrets_only");
+      expect(logger.getStats().degraded_last_hour).toBe(1);
+    });
+  });
+
+  describe("spans_scanned / spans_skipped", () => {
+    test("stores span counts and reports the skip rate", () => {
+      logger.log(makeEntry({ spans_scanned: 10, spans_skipped: 0 }));
+      logger.log(makeEntry({ spans_scanned: 2, spans_skipped: 28 }));
+      logger.log(makeEntry());
+
+      const logs = logger.getLogs(3, 0);
+      expect(logs.map((log) => log.spans_skipped)).toContain(28);
+      expect(logger.getStats().span_skip_rate).toBe(70);
+    });
+  });
+
   describe("getStats() token breakdown", () => {
     test("returns zero token fields when no requests logged", () => {
       const stats = logger.getStats();
@@ -3,11 +3,23 @@ import { mkdirSync } from "node:fs";
 import { getConfig } from "../config";
 import { decrementActive } from "./active-requests";
 
+/**
+ * Built-in provider, or a providers.upstreams name for routed OpenAI-compatible requests
+ */
+export type LogProvider =
+  | "openai"
+  | "anthropic"
+  | "copilot"
+  | "gemini"
+  | "local"
+  | "api"
+  | (string & {});
+
 export interface RequestLog {
   id?: number;
   timestamp: string;
   mode: "route" | "mask";
-  provider: "openai" | "anthropic" | "copilot" | "local" | "api";
+  provider: LogProvider;
   model: string;
   pii_detected: boolean;
   entities: string;
@@ -27,6 +39,22 @@ export interface RequestLog {
   secrets_types: string | null;
   status_code: number | null;
   error_message: string | null;
+  /** Mangled placeholders restored by fuzzy unmasking (set after the response is unmasked) */
+  fuzzy_restores?: number | null;
+  /** Entities dropped by PII validation as TYPE:count pairs, e.g. "CREDIT_CARD:2,PHONE_NUMBER:1" */
+  validation_rejected?: string | null;
+  /** on_error policy the request was forwarded under after PII detection failed */
+  detection_degraded?: string | null;
+  /** Languages spans were scanned with, comma-separated (language_detection.mode span) */
+  languages?: string | null;
+  /** Spans sent to the PII detector */
+  spans_scanned?: number | null;
+  /** Spans whose detection results were reused from an earlier turn */
+  spans_skipped?: number | null;
+  /** Policy decision, e.g. "route_local; rule=financial; entities=CREDIT_CARD" */
+  decision?: string | null;
+  /** Provider calls that failed before the final one, e.g. "openai: 503; openai: 503" */
+  failed_attempts?: string | null;
 }
 
 /**
@@ -70,6 +98,10 @@ export interface Stats {
   cache_hit_rate: number;
   avg_tokens_per_request: number;
   errors_last_hour: number;
+  /** Requests forwarded without PII detection in the last hour (on_error policy) */
+  degraded_last_hour: number;
+  /** % of spans reused from earlier turns instead of scanned (incremental scanning) */
+  span_skip_rate: number;
 }
 
 /**
@@ -80,8 +112,10 @@ export class Logger {
   private retentionDays: number;
   private insertStmt: ReturnType<Database["prepare"]>;
   private updateTokensStmt: ReturnType<Database["prepare"]>;
+  private updateFuzzyRestoresStmt: ReturnType<Database["prepare"]>;
   private writeQueue: Array<{ id: number; entry: Omit<RequestLog, "id"> }> = [];
   private tokenUpdateQueue: Array<{ id: number; tokens: TokenUsage }> = [];
+  private fuzzyUpdateQueue: Array<{ id: number; count: number }> = [];
   private nextId: number;
   private flushTimer: ReturnType<typeof setTimeout> | null = null;
 
@@ -100,13 +134,16 @@ export class Logger {
     this.initializeDatabase();
     this.insertStmt = this.db.prepare(`
       INSERT INTO request_logs
-        (id, timestamp, mode, provider, model, pii_detected, entities, latency_ms, scan_time_ms, provider_call_ms, prompt_tokens, completion_tokens, cache_creation_input_tokens, cache_read_input_tokens, user_agent, language, language_fallback, detected_language, masked_content, secrets_detected, secrets_types, status_code, error_message)
+        (id, timestamp, mode, provider, model, pii_detected, entities, latency_ms, scan_time_ms, provider_call_ms, prompt_tokens, completion_tokens, cache_creation_input_tokens, cache_read_input_tokens, user_agent, language, language_fallback, detected_language, masked_content, secrets_detected, secrets_types, status_code, error_message, validation_rejected, detection_degraded, spans_scanned, spans_skipped, languages, decision, failed_attempts)
       VALUES
-        (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
     this.updateTokensStmt = this.db.prepare(
       `UPDATE request_logs SET prompt_tokens=?, completion_tokens=?, cache_creation_input_tokens=?, cache_read_input_tokens=? WHERE id=?`,
     );
+    this.updateFuzzyRestoresStmt = this.db.prepare(
+      "UPDATE request_logs SET fuzzy_restores=? WHERE id=?",
+    );
 
     // Initialize ID counter from existing data
     const maxRow = this.db
@@ -167,6 +204,28 @@ export class Logger {
         "ALTER TABLE request_logs ADD COLUMN provider_call_ms INTEGER NOT NULL DEFAULT 0",
       );
     }
+    if (!columns.find((c) => c.name === "fuzzy_restores")) {
+      this.db.run("ALTER TABLE request_logs ADD COLUMN fuzzy_restores INTEGER");
+    }
+    if (!columns.find((c) => c.name === "validation_rejected")) {
+      this.db.run("ALTER TABLE request_logs ADD COLUMN validation_rejected TEXT");
+    }
+    if (!columns.find((c) => c.name === "detection_degraded")) {
+      this.db.run("ALTER TABLE request_logs ADD COLUMN detection_degraded TEXT");
+    }
+    if (!columns.find((c) => c.name === "spans_scanned")) {
+      this.db.run("ALTER TABLE request_logs ADD COLUMN spans_scanned INTEGER");
+      this.db.run("ALTER TABLE request_logs ADD COLUMN spans_skipped INTEGER");
+    }
+    if (!columns.find((c) => c.name === "languages")) {
+      this.db.run("ALTER TABLE request_logs ADD COLUMN languages TEXT");
+    }
+    if (!columns.find((c) => c.name === "decision")) {
+      this.db.run("ALTER TABLE request_logs ADD COLUMN decision TEXT");
+    }
+    if (!columns.find((c) => c.name === "failed_attempts")) {
+      this.db.run("ALTER TABLE request_logs ADD COLUMN failed_attempts TEXT");
+    }
 
     // Create indexes for performance
     this.db.run(`
@@ -195,6 +254,14 @@ export class Logger {
     this.scheduleFlush();
   }
 
+  /**
+   * Records how many mangled placeholders fuzzy unmasking restored for a request
+   */
+  updateFuzzyRestores(logId: number, count: number): void {
+    this.fuzzyUpdateQueue.push({ id: logId, count });
+    this.scheduleFlush();
+  }
+
   /**
    * Schedules a deferred flush of all queued writes.
    * Uses setTimeout(0) to batch writes from concurrent requests into a single transaction.
@@ -206,17 +273,24 @@ export class Logger {
   }
 
   /**
-   * Flushes all queued inserts and token updates to the database in a single transaction.
+   * Flushes all queued inserts and updates to the database in a single transaction.
    */
   flush(): void {
     if (this.flushTimer) {
       clearTimeout(this.flushTimer);
       this.flushTimer = null;
     }
-    if (this.writeQueue.length === 0 && this.tokenUpdateQueue.length === 0) return;
+    if (
+      this.writeQueue.length === 0 &&
+      this.tokenUpdateQueue.length === 0 &&
+      this.fuzzyUpdateQueue.length === 0
+    ) {
+      return;
+    }
 
     const inserts = this.writeQueue.splice(0);
     const updates = this.tokenUpdateQueue.splice(0);
+    const fuzzyUpdates = this.fuzzyUpdateQueue.splice(0);
 
     try {
       this.db.transaction(() => {
@@ -245,6 +319,13 @@ export class Logger {
             entry.secrets_types ?? null,
             entry.status_code ?? null,
             entry.error_message ?? null,
+            entry.validation_rejected ?? null,
+            entry.detection_degraded ?? null,
+            entry.spans_scanned ?? null,
+            entry.spans_skipped ?? null,
+            entry.languages ?? null,
+            entry.decision ?? null,
+            entry.failed_attempts ?? null,
           );
         }
         for (const { id, tokens } of updates) {
@@ -256,6 +337,9 @@ export class Logger {
             id,
           );
         }
+        for (const { id, count } of fuzzyUpdates) {
+          this.updateFuzzyRestoresStmt.run(count, id);
+        }
       })();
     } catch (error) {
       console.error("Failed to flush log writes:", error);
@@ -286,7 +370,7 @@ export class Logger {
         `SELECT
           COUNT(*) as total,
           SUM(CASE WHEN pii_detected = 1 THEN 1 ELSE 0 END) as pii_count,
-          SUM(CASE WHEN provider IN ('openai', 'anthropic') THEN 1 ELSE 0 END) as proxy_count,
+          SUM(CASE WHEN provider NOT IN ('local', 'api', 'copilot') THEN 1 ELSE 0 END) as proxy_count,
           SUM(CASE WHEN provider = 'local' THEN 1 ELSE 0 END) as local_count,
           SUM(CASE WHEN provider = 'api' THEN 1 ELSE 0 END) as api_count,
           AVG(latency_ms) as avg_latency,
@@ -297,7 +381,9 @@ export class Logger {
           COALESCE(SUM(completion_tokens), 0) as total_completion,
           COALESCE(SUM(cache_read_input_tokens), 0) as total_cache_read,
           COALESCE(SUM(cache_creation_input_tokens), 0) as total_cache_creation,
-          COUNT(CASE WHEN prompt_tokens IS NOT NULL OR completion_tokens IS NOT NULL THEN 1 END) as token_requests
+          COUNT(CASE WHEN prompt_tokens IS NOT NULL OR completion_tokens IS NOT NULL THEN 1 END) as token_requests,
+          COALESCE(SUM(spans_scanned), 0) as spans_scanned,
+          COALESCE(SUM(spans_skipped), 0) as spans_skipped
         FROM request_logs`,
       )
       .get() as {
@@ -315,6 +401,8 @@ export class Logger {
       total_cache_read: number;
       total_cache_creation: number;
       token_requests: number;
+      spans_scanned: number;
+      spans_skipped: number;
     };
 
     const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
@@ -322,16 +410,22 @@ export class Logger {
       .prepare(
         `SELECT
           COUNT(*) as count,
-          SUM(CASE WHEN status_code >= 400 THEN 1 ELSE 0 END) as error_count
+          SUM(CASE WHEN status_code >= 400 THEN 1 ELSE 0 END) as error_count,
+          SUM(CASE WHEN detection_degraded IS NOT NULL THEN 1 ELSE 0 END) as degraded_count
         FROM request_logs WHERE timestamp >= ?`,
       )
-      .get(oneHourAgo) as { count: number; error_count: number | null };
+      .get(oneHourAgo) as {
+      count: number;
+      error_count: number | null;
+      degraded_count: number | null;
+    };
 
     const total = mainResult.total;
     const pii = mainResult.pii_count;
     const cacheRead = mainResult.total_cache_read;
     const cacheCreation = mainResult.total_cache_creation;
     const totalEffectiveInput = mainResult.total_prompt + cacheRead + cacheCreation;
+    const totalSpans = mainResult.spans_scanned + mainResult.spans_skipped;
 
     return {
       total_requests: total,
@@ -356,6 +450,9 @@ export class Logger {
           ? Math.round(mainResult.total_tokens / mainResult.token_requests)
           : 0,
       errors_last_hour: hourResult.error_count ?? 0,
+      degraded_last_hour: hourResult.degraded_count ?? 0,
+      span_skip_rate:
+        totalSpans > 0 ? Math.round((mainResult.spans_skipped / totalSpans) * 100 * 10) / 10 : 0,
     };
   }
 
@@ -509,7 +606,7 @@ export function getLogger(): Logger {
 export interface RequestLogData {
   timestamp: string;
   mode: "route" | "mask";
-  provider: "openai" | "anthropic" | "copilot" | "local" | "api";
+  provider: LogProvider;
   model: string;
   piiDetected: boolean;
   entities: string[];
@@ -521,15 +618,28 @@ export interface RequestLogData {
   cacheCreationInputTokens?: number;
   cacheReadInputTokens?: number;
   language: string;
+  languages?: string[];
   languageFallback: boolean;
   detectedLanguage?: string;
   maskedContent?: string;
   secretsDetected?: boolean;
   secretsTypes?: string[];
+  validationRejected?: Record<string, number>;
+  detectionDegraded?: string;
+  spansScanned?: number;
+  spansSkipped?: number;
+  decision?: string;
+  failedAttempts?: string;
   statusCode?: number;
   errorMessage?: string;
 }
 
+function formatValidationRejected(rejected?: Record<string, number>): string | null {
+  const entries = Object.entries(rejected ?? {});
+  if (entries.length === 0) return null;
+  return entries.map(([type, count]) => `${type}:${count}`).join(",");
+}
+
 export function logRequest(
   data: RequestLogData,
   userAgent: string | null,
@@ -572,6 +682,13 @@ export function logRequest(
       secrets_types: shouldLogSecretTypes ? data.secretsTypes!.join(",") : null,
       status_code: data.statusCode ?? null,
       error_message: data.errorMessage ?? null,
+      validation_rejected: formatValidationRejected(data.validationRejected),
+      detection_degraded: data.detectionDegraded ?? null,
+      spans_scanned: data.spansScanned ?? null,
+      spans_skipped: data.spansSkipped ?? null,
+      languages: data.languages?.length ? data.languages.join(",") : null,
+      decision: data.decision ?? null,
+      failed_attempts: data.failedAttempts ?? null,
     });
   } catch (error) {
     console.error("Failed to log request:", error);
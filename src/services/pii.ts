@@ -2,14 +2,25 @@
  * PII Service - detect and mask PII in requests
  */
 
+import { type DetectionErrorPolicy, type DetectionErrorRoute, getConfig } from "../config";
 import type { PlaceholderContext } from "../masking/context";
 import type { RequestExtractor } from "../masking/types";
 import { getPIIDetector, type PIIDetectionResult } from "../pii/detect";
-import { createMaskingContext, maskRequest } from "../pii/mask";
+import {
+  createMaskingContext,
+  createPrefixContext,
+  getPlaceholderAssignments,
+  maskRequest,
+} from "../pii/mask";
+import type { PolicyDecision } from "./policy";
 
 export interface PIIDetectResult {
   detection: PIIDetectionResult;
   hasPII: boolean;
+  /** Set when detection failed and the request continues under this on_error policy */
+  degraded?: Exclude<DetectionErrorPolicy, "block">;
+  /** Set once the route has decided what to do with the request (see services/policy) */
+  decision?: PolicyDecision;
 }
 
 export interface PIIMaskResult<TRequest> {
@@ -33,8 +44,60 @@ export async function detectPII<TRequest, TResponse>(
   };
 }
 
+/**
+ * Resolves `pii_detection.on_error` for a route
+ *
+ * route_local falls back to block where the route can't forward to the local
+ * provider: Copilot, Gemini, and embeddings without `embeddings.local_model`.
+ */
+export function getDetectionErrorPolicy(route: DetectionErrorRoute): DetectionErrorPolicy {
+  const config = getConfig();
+  const onError = config.pii_detection.on_error;
+  const policy = typeof onError === "string" ? onError : (onError[route] ?? onError.default);
+
+  if (policy === "route_local") {
+    if (route === "copilot" || route === "gemini" || !config.local) return "block";
+    if (route === "embeddings" && !config.embeddings.local_model) return "block";
+  }
+  return policy;
+}
+
+/**
+ * Applies the on_error policy after PII detection failed
+ *
+ * Returns the PII result to continue with (no entities, marked as degraded),
+ * or undefined if the request must be blocked.
+ */
+export function handleDetectionError(
+  route: DetectionErrorRoute,
+  error: unknown,
+): PIIDetectResult | undefined {
+  console.error("PII detection error:", error);
+
+  const policy = getDetectionErrorPolicy(route);
+  if (policy === "block") return undefined;
+
+  console.warn(`[AUDIT] Forwarding ${route} request without PII detection (on_error: ${policy})`);
+  return {
+    detection: {
+      hasPII: false,
+      spanEntities: [],
+      allEntities: [],
+      scanTimeMs: 0,
+      language: getConfig().pii_detection.fallback_language,
+      languageFallback: false,
+    },
+    hasPII: false,
+    degraded: policy,
+  };
+}
+
 /**
  * Mask PII in a request
+ *
+ * Without an existing (session) context, the reused conversation prefix keeps
+ * the placeholders it was masked with in the earlier request (incremental
+ * scanning).
  */
 export function maskPII<TRequest, TResponse>(
   request: TRequest,
@@ -42,14 +105,32 @@ export function maskPII<TRequest, TResponse>(
   extractor: RequestExtractor<TRequest, TResponse>,
   existingContext?: PlaceholderContext,
 ): PIIMaskResult<TRequest> {
+  const masking = getConfig().masking;
+  const { prefixHashes } = detection;
+  const context =
+    existingContext ??
+    (prefixHashes
+      ? createPrefixContext(
+          getPIIDetector().getPlaceholderAssignments(prefixHashes),
+          masking,
+          extractor.extractTexts(request).map((span) => span.text),
+        )
+      : createMaskingContext(masking));
+
   if (!detection.hasPII) {
     return {
       request,
-      maskingContext: existingContext ?? createMaskingContext(),
+      maskingContext: context,
     };
   }
 
-  const result = maskRequest(request, detection, extractor, existingContext);
+  const result = maskRequest(request, detection, extractor, context, masking.strategy);
+  if (prefixHashes) {
+    getPIIDetector().storePlaceholderAssignments(
+      prefixHashes,
+      getPlaceholderAssignments(result.maskedSpans, result.context, masking),
+    );
+  }
 
   return {
     request: result.request,
@@ -0,0 +1,177 @@
+import { describe, expect, test } from "bun:test";
+import type { PolicyRule } from "../config";
+import type { PIIDetectResult } from "./pii";
+import { formatDecision, matchPolicyRules, type PolicyInput } from "./policy";
+import type { SecretsProcessResult } from "./secrets";
+
+function createInput(
+  entityTypes: string[],
+  secretTypes: string[] = [],
+  overrides: Partial<PolicyInput> = {},
+): PolicyInput {
+  const allEntities = entityTypes.map((entity_type) => ({
+    entity_type,
+    start: 0,
+    end: 1,
+    score: 0.9,
+  }));
+  const piiResult: PIIDetectResult = {
+    detection: {
+      hasPII: allEntities.length > 0,
+      spanEntities: [allEntities],
+      allEntities,
+      scanTimeMs: 0,
+      language: "en",
+      languageFallback: false,
+    },
+    hasPII: allEntities.length > 0,
+  };
+  const secretsResult: SecretsProcessResult<unknown> = {
+    blocked: false,
+    request: {},
+    masked: secretTypes.length > 0,
+    detection: {
+      detected: secretTypes.length > 0,
+      matches: secretTypes.map((type) => ({ type, count: 1 })),
+    },
+  };
+  return { piiResult, secretsResult, model: "gpt-4o", client: "cursor/1.2", ...overrides };
+}
+
+const tieredRules: PolicyRule[] = [
+  { name: "secrets", secrets: true, action: "block" },
+  { name: "financial", entities: ["CREDIT_CARD", "US_SSN"], action: "route_local" },
+  { name: "names", only_entities: ["PERSON"], action: "mask" },
+];
+
+describe("matchPolicyRules", () => {
+  test("first matching rule wins", () => {
+    const decision = matchPolicyRules(
+      tieredRules,
+      "openai",
+      createInput(["CREDIT_CARD"], ["AWS_ACCESS_KEY"]),
+    );
+
+    expect(decision).toEqual({
+      action: "block",
+      rule: "secrets",
+      matched: ["secrets=AWS_ACCESS_KEY"],
+      upstream: undefined,
+    });
+  });
+
+  test("entities matches any listed type and reports the hits", () => {
+    const decision = matchPolicyRules(
+      tieredRules,
+      "openai",
+      createInput(["PERSON", "US_SSN", "PERSON"]),
+    );
+
+    expect(decision?.rule).toBe("financial");
+    expect(decision?.matched).toEqual(["entities=US_SSN"]);
+  });
+
+  test("only_entities requires PII limited to the listed types", () => {
+    expect(matchPolicyRules(tieredRules, "openai", createInput(["PERSON"]))?.rule).toBe("names");
+    expect(
+      matchPolicyRules(tieredRules, "openai", createInput(["PERSON", "EMAIL_ADDRESS"])),
+    ).toBeUndefined();
+    expect(matchPolicyRules(tieredRules, "openai", createInput([]))).toBeUndefined();
+  });
+
+  test("min_entities counts the listed types, or all entities", () => {
+    const rules: PolicyRule[] = [
+      { name: "many-emails", entities: ["EMAIL_ADDRESS"], min_entities: 3, action: "block" },
+      { name: "bulk", min_entities: 4, action: "route_local" },
+    ];
+
+    const twoEmails = createInput(["EMAIL_ADDRESS", "EMAIL_ADDRESS", "PERSON", "PERSON"]);
+    const threeEmails = createInput(["EMAIL_ADDRESS", "EMAIL_ADDRESS", "EMAIL_ADDRESS"]);
+
+    expect(matchPolicyRules(rules, "openai", twoEmails)).toMatchObject({
+      rule: "bulk",
+      matched: ["count=4"],
+    });
+    expect(matchPolicyRules(rules, "openai", threeEmails)).toMatchObject({
+      rule: "many-emails",
+      matched: ["entities=EMAIL_ADDRESS", "count=3"],
+    });
+  });
+
+  test("secrets matches listed types, and false requires no secrets", () => {
+    const rules: PolicyRule[] = [
+      { name: "keys", secrets: ["OPENSSH_PRIVATE_KEY"], action: "block" },
+      { name: "clean", secrets: false, action: "allow" },
+    ];
+
+    expect(matchPolicyRules(rules, "openai", createInput([], ["OPENSSH_PRIVATE_KEY"]))?.rule).toBe(
+      "keys",
+    );
+    expect(matchPolicyRules(rules, "openai", createInput([], ["AWS_ACCESS_KEY"]))).toBeUndefined();
+    expect(matchPolicyRules(rules, "openai", createInput(["PERSON"]))?.rule).toBe("clean");
+  });
+
+  test("model and client globs must both match", () => {
+    const rules: PolicyRule[] = [
+      { model: "mistral-*", client: "cursor/*", action: "upstream", upstream: "mistral" },
+    ];
+
+    expect(
+      matchPolicyRules(rules, "openai", createInput([], [], { model: "mistral-large" })),
+    ).toEqual({
+      action: "upstream",
+      rule: "#1",
+      upstream: "mistral",
+      matched: ["model=mistral-large", "client=cursor/*"],
+    });
+    expect(
+      matchPolicyRules(
+        rules,
+        "openai",
+        createInput([], [], { model: "mistral-large", client: "curl/8" }),
+      ),
+    ).toBeUndefined();
+    expect(matchPolicyRules(rules, "openai", createInput([]))).toBeUndefined();
+  });
+
+  test("skips rules scoped to other routes", () => {
+    const rules: PolicyRule[] = [
+      { name: "chat-only", routes: ["openai", "anthropic"], entities: ["PERSON"], action: "mask" },
+      { name: "rest", entities: ["PERSON"], action: "block" },
+    ];
+
+    expect(matchPolicyRules(rules, "anthropic", createInput(["PERSON"]))?.rule).toBe("chat-only");
+    expect(matchPolicyRules(rules, "gemini", createInput(["PERSON"]))?.rule).toBe("rest");
+  });
+
+  test("a rule without conditions matches every request", () => {
+    const decision = matchPolicyRules([{ action: "mask" }], "copilot", createInput([]));
+
+    expect(decision).toMatchObject({ action: "mask", rule: "#1", matched: [] });
+  });
+});
+
+describe("formatDecision", () => {
+  test("formats action, rule and matched conditions", () => {
+    expect(
+      formatDecision({
+        action: "route_local",
+        rule: "financial",
+        matched: ["entities=CREDIT_CARD,US_SSN", "model=gpt-4o"],
+      }),
+    ).toBe("route_local; rule=financial; entities=CREDIT_CARD,US_SSN; model=gpt-4o");
+  });
+
+  test("includes the upstream and a replaced action", () => {
+    expect(formatDecision({ action: "upstream", rule: "eu", upstream: "mistral" })).toBe(
+      "upstream:mistral; rule=eu",
+    );
+    expect(
+      formatDecision({ action: "block", rule: "#2", replaces: "route_local", matched: [] }),
+    ).toBe("block; rule=#2; replaces=route_local");
+  });
+
+  test("formats fallback decisions", () => {
+    expect(formatDecision({ action: "mask", rule: "mode" })).toBe("mask; rule=mode");
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Policy Service - decide what happens to a request after detection
+ *
+ * policy.rules are checked in order; the first rule whose conditions all
+ * match picks the action (allow / mask / route_local / upstream / block).
+ * Without a matching rule the route's own behaviour applies (mode,
+ * embeddings.action). The decision is returned in X-PasteGuard-Decision
+ * and logged.
+ */
+
+import { type DetectionErrorRoute, getConfig, type PolicyAction, type PolicyRule } from "../config";
+import { matchesGlob } from "../masking/whitelist";
+import type { PIIDetectResult } from "./pii";
+import type { SecretsProcessResult } from "./secrets";
+
+export interface PolicyDecision {
+  action: PolicyAction;
+  /** Matching rule name, or the setting the action came from (mode, embeddings.action, on_error) */
+  rule: string;
+  /** Target of the upstream action */
+  upstream?: string;
+  /** Action the rule asked for when the route can't carry it out (replaced by block) */
+  replaces?: PolicyAction;
+  /** Conditions the rule matched on, e.g. "entities=CREDIT_CARD" */
+  matched?: string[];
+}
+
+export interface PolicyInput {
+  piiResult: PIIDetectResult;
+  secretsResult: SecretsProcessResult<unknown>;
+  model?: string;
+  /** User-Agent of the client */
+  client?: string;
+}
+
+/** Actions each route can carry out - the rest fall back to block */
+const ROUTE_ACTIONS: Record<DetectionErrorRoute, PolicyAction[]> = {
+  openai: ["allow", "mask", "route_local", "upstream", "block"],
+  embeddings: ["allow", "mask", "route_local", "upstream", "block"],
+  anthropic: ["allow", "mask", "route_local", "block"],
+  gemini: ["allow", "mask", "block"],
+  copilot: ["allow", "mask", "block"],
+};
+
+/**
+ * Returns the conditions a rule matched on, or undefined if it doesn't match
+ */
+function matchRule(rule: PolicyRule, input: PolicyInput): string[] | undefined {
+  const entities = input.piiResult.detection.allEntities;
+  const entityTypes = [...new Set(entities.map((e) => e.entity_type))];
+  const secretTypes = input.secretsResult.detection?.detected
+    ? [...new Set(input.secretsResult.detection.matches.map((m) => m.type))]
+    : [];
+  const matched: string[] = [];
+
+  if (rule.entities) {
+    const hits = entityTypes.filter((type) => rule.entities!.includes(type));
+    if (hits.length === 0) return undefined;
+    matched.push(`entities=${hits.join(",")}`);
+  }
+
+  if (rule.only_entities) {
+    if (entityTypes.length === 0) return undefined;
+    if (!entityTypes.every((type) => rule.only_entities!.includes(type))) return undefined;
+    matched.push(`entities=${entityTypes.join(",")}`);
+  }
+
+  if (rule.min_entities !== undefined) {
+    const count = rule.entities
+      ? entities.filter((e) => rule.entities!.includes(e.entity_type)).length
+      : entities.length;
+    if (count < rule.min_entities) return undefined;
+    matched.push(`count=${count}`);
+  }
+
+  if (rule.secrets !== undefined) {
+    if (rule.secrets === false) {
+      if (secretTypes.length > 0) return undefined;
+    } else {
+      const wanted = rule.secrets;
+      const hits = wanted === true ? secretTypes : secretTypes.filter((t) => wanted.includes(t));
+      if (hits.length === 0) return undefined;
+      matched.push(`secrets=${hits.join(",")}`);
+    }
+  }
+
+  if (rule.model) {
+    if (!input.model || !matchesGlob(rule.model, input.model)) return undefined;
+    matched.push(`model=${input.model}`);
+  }
+
+  if (rule.client) {
+    if (!input.client || !matchesGlob(rule.client, input.client)) return undefined;
+    matched.push(`client=${rule.client}`);
+  }
+
+  return matched;
+}
+
+/**
+ * Whether a route can carry out an action with the current config
+ */
+function isSupported(route: DetectionErrorRoute, action: PolicyAction): boolean {
+  if (!ROUTE_ACTIONS[route].includes(action)) return false;
+  if (action === "route_local" && route === "embeddings") {
+    return getConfig().embeddings.local_model !== undefined;
+  }
+  return true;
+}
+
+/**
+ * First rule that applies to the route and matches the request, with the rule's own action
+ */
+export function matchPolicyRules(
+  rules: PolicyRule[],
+  route: DetectionErrorRoute,
+  input: PolicyInput,
+): PolicyDecision | undefined {
+  for (let i = 0; i < rules.length; i++) {
+    const rule = rules[i];
+    if (rule.routes && !rule.routes.includes(route)) continue;
+
+    const matched = matchRule(rule, input);
+    if (!matched) continue;
+
+    return {
+      action: rule.action,
+      rule: rule.name ?? `#${i + 1}`,
+      upstream: rule.upstream,
+      matched,
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Decides the action for a request
+ *
+ * `fallback` is the route's own decision, used when no rule matches. Actions
+ * the route can't carry out are replaced by block.
+ */
+export function decidePolicy(
+  route: DetectionErrorRoute,
+  input: PolicyInput,
+  fallback: PolicyDecision,
+): PolicyDecision {
+  const decision = matchPolicyRules(getConfig().policy.rules, route, input);
+  if (!decision) return fallback;
+
+  if (!isSupported(route, decision.action)) {
+    return {
+      action: "block",
+      rule: decision.rule,
+      replaces: decision.action,
+      matched: decision.matched,
+    };
+  }
+  return decision;
+}
+
+/**
+ * The mode's decision, used when no rule matches on routes that support both modes
+ *
+ * mask masks everything; route sends requests with PII (or secrets under
+ * secrets_detection.action route_local) to the local provider and the rest as-is.
+ */
+export function getModeDecision<TRequest>(
+  piiResult: PIIDetectResult,
+  secretsResult: SecretsProcessResult<TRequest>,
+): PolicyDecision {
+  const config = getConfig();
+  if (config.mode === "mask") return { action: "mask", rule: "mode" };
+
+  const routeLocal =
+    piiResult.hasPII ||
+    (secretsResult.detection?.detected && config.secrets_detection.action === "route_local");
+  return { action: routeLocal ? "route_local" : "allow", rule: "mode" };
+}
+
+/**
+ * Formats a decision for the X-PasteGuard-Decision header and the log
+ *
+ * e.g. "route_local; rule=financial; entities=CREDIT_CARD"
+ */
+export function formatDecision(decision: PolicyDecision): string {
+  const action = decision.upstream ? `${decision.action}:${decision.upstream}` : decision.action;
+  return [
+    action,
+    `rule=${decision.rule}`,
+    ...(decision.replaces ? [`replaces=${decision.replaces}`] : []),
+    ...(decision.matched ?? []),
+  ].join("; ");
+}
@@ -2,11 +2,11 @@
  * Secrets Service - detect and mask secrets in requests
  */
 
-import type { SecretsDetectionConfig } from "../config";
+import { getConfig, type SecretsDetectionConfig } from "../config";
 import type { PlaceholderContext } from "../masking/context";
 import type { RequestExtractor } from "../masking/types";
 import { detectSecretsInRequest, type MessageSecretsResult } from "../secrets/detect";
-import { maskRequest } from "../secrets/mask";
+import { createSecretsMaskingContext, maskRequest } from "../secrets/mask";
 
 export interface SecretsProcessResult<TRequest> {
   blocked: boolean;
@@ -25,12 +25,14 @@ export function processSecretsRequest<TRequest, TResponse>(
   request: TRequest,
   config: SecretsDetectionConfig,
   extractor: RequestExtractor<TRequest, TResponse>,
+  existingContext?: PlaceholderContext,
 ): SecretsProcessResult<TRequest> {
   if (!config.enabled) {
     return { blocked: false, request, masked: false };
   }
 
-  const detection = detectSecretsInRequest(request, config, extractor);
+  const masking = getConfig().masking;
+  const detection = detectSecretsInRequest(request, config, extractor, masking.whitelist);
 
   if (!detection.detected) {
     return { blocked: false, request, detection, masked: false };
@@ -52,7 +54,12 @@ export function processSecretsRequest<TRequest, TResponse>(
 
   // Mask action
   if (config.action === "mask") {
-    const result = maskRequest(request, detection, extractor);
+    const result = maskRequest(
+      request,
+      detection,
+      extractor,
+      existingContext ?? createSecretsMaskingContext(masking),
+    );
     return {
       blocked: false,
       request: result.masked,
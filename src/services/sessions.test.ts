@@ -0,0 +1,145 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import type { TextSpan } from "../masking/types";
+import { mask } from "../pii/mask";
+import { getClientCredential, resolveSessionId, SessionStore } from "./sessions";
+
+function span(text: string, role: string, messageIndex: number): TextSpan {
+  return { text, path: `messages[${messageIndex}].content`, messageIndex, partIndex: 0, role };
+}
+
+describe("resolveSessionId", () => {
+  test("prefers the session header", () => {
+    const spans = [span("Hi", "user", 0)];
+    const fromHeader = resolveSessionId("abc", spans, true);
+
+    expect(fromHeader).toBe(resolveSessionId("abc", [], false));
+    expect(fromHeader).not.toBe(resolveSessionId(undefined, spans, true));
+    expect(fromHeader).toHaveLength(64);
+  });
+
+  test("hashes the conversation prefix up to the first user message", () => {
+    const turn1 = [span("You are helpful", "system", 0), span("I am Jane", "user", 1)];
+    const turn2 = [...turn1, span("Hello Jane", "assistant", 2), span("Thanks", "user", 3)];
+
+    expect(resolveSessionId(undefined, turn2, true)).toBe(resolveSessionId(undefined, turn1, true));
+    expect(resolveSessionId(undefined, [span("I am Bob", "user", 0)], true)).not.toBe(
+      resolveSessionId(undefined, turn1, true),
+    );
+  });
+
+  test("scopes header and prefix sessions to the client credential", () => {
+    const spans = [span("You are helpful", "system", 0), span("Hi", "user", 1)];
+    const alice = getClientCredential({ authorization: "Bearer sk-alice" });
+    const bob = getClientCredential({ authorization: "Bearer sk-bob" });
+
+    expect(resolveSessionId("abc", [], false, alice)).not.toBe(
+      resolveSessionId("abc", [], false, bob),
+    );
+    expect(resolveSessionId(undefined, spans, true, alice)).not.toBe(
+      resolveSessionId(undefined, spans, true, bob),
+    );
+    expect(resolveSessionId("abc", [], false, alice)).toBe(
+      resolveSessionId("abc", spans, true, alice),
+    );
+  });
+
+  test("reads credentials from auth headers and Gemini's key parameter", () => {
+    const none = getClientCredential({});
+
+    expect(getClientCredential({ "x-api-key": "sk-ant" })).not.toBe(none);
+    expect(getClientCredential({}, new URLSearchParams("key=AIza"))).not.toBe(none);
+    expect(getClientCredential({ "user-agent": "curl" })).toBe(none);
+  });
+
+  test("returns undefined without header, user message or prefix fallback", () => {
+    expect(resolveSessionId(undefined, [span("system only", "system", 0)], true)).toBeUndefined();
+    expect(resolveSessionId(undefined, [span("Hi", "user", 0)], false)).toBeUndefined();
+  });
+});
+
+describe("SessionStore", () => {
+  let store: SessionStore;
+
+  afterEach(() => {
+    store.close();
+  });
+
+  test("starts an empty session for unknown IDs", () => {
+    store = new SessionStore(":memory:", 3600);
+    const session = store.load("missing");
+
+    expect(session.id).toBe("missing");
+    expect(session.pii.mapping).toEqual({});
+    expect(session.secrets.counters).toEqual({});
+  });
+
+  test("round-trips contexts and rebuilds reverse mappings", () => {
+    store = new SessionStore(":memory:", 3600);
+    const session = store.load("s1");
+    session.pii.mapping["[[PERSON_1]]"] = "Jane";
+    session.pii.counters.PERSON = 1;
+    session.secrets.mapping["[[API_KEY_SK_1]]"] = "sk-123";
+    session.secrets.counters.API_KEY_SK = 1;
+    store.save(session);
+
+    const loaded = store.load("s1");
+
+    expect(loaded.pii.mapping).toEqual({ "[[PERSON_1]]": "Jane" });
+    expect(loaded.pii.reverseMapping).toEqual({ Jane: "[[PERSON_1]]" });
+    expect(loaded.pii.counters).toEqual({ PERSON: 1 });
+    expect(loaded.secrets.reverseMapping).toEqual({ "sk-123": "[[API_KEY_SK_1]]" });
+  });
+
+  test("keeps placeholders stable when later turns mask in a different order", () => {
+    store = new SessionStore(":memory:", 3600);
+
+    const turn1 = store.load("conv");
+    mask("Jane", [{ entity_type: "PERSON", start: 0, end: 4, score: 1 }], turn1.pii);
+    store.save(turn1);
+
+    // Bob now appears before Jane, which would make him PERSON_1 in a fresh context
+    const turn2 = store.load("conv");
+    const result = mask(
+      "Bob and Jane",
+      [
+        { entity_type: "PERSON", start: 0, end: 3, score: 1 },
+        { entity_type: "PERSON", start: 8, end: 12, score: 1 },
+      ],
+      turn2.pii,
+    );
+
+    expect(result.masked).toBe("[[PERSON_2]] and [[PERSON_1]]");
+  });
+
+  test("keeps the placeholder nonce of a session", () => {
+    store = new SessionStore(":memory:", 3600, { placeholder_format: "⟦{NONCE}:{TYPE}_{N}⟧" });
+
+    const turn1 = store.load("nonce");
+    const first = mask("Jane", [{ entity_type: "PERSON", start: 0, end: 4, score: 1 }], turn1.pii);
+    store.save(turn1);
+
+    const turn2 = store.load("nonce");
+    const second = mask("Bob", [{ entity_type: "PERSON", start: 0, end: 3, score: 1 }], turn2.pii);
+
+    expect(first.masked).toMatch(/^⟦[0-9a-f]{4}:PERSON_1⟧$/);
+    expect(second.masked).toBe(first.masked.replace("PERSON_1", "PERSON_2"));
+  });
+
+  test("keeps the pseudonym salt of a session", () => {
+    store = new SessionStore(":memory:", 3600);
+    const session = store.load("salted");
+    session.pii.pseudonymSalt = "0123456789abcdef";
+    store.save(session);
+
+    expect(store.load("salted").pii.pseudonymSalt).toBe("0123456789abcdef");
+  });
+
+  test("expired sessions are not loaded", () => {
+    store = new SessionStore(":memory:", 0);
+    const session = store.load("old");
+    session.pii.mapping["[[PERSON_1]]"] = "Jane";
+    store.save(session);
+
+    expect(store.load("old").pii.mapping).toEqual({});
+  });
+});
@@ -0,0 +1,306 @@
+/**
+ * Placeholder sessions - stable placeholders across conversation turns
+ *
+ * Every request normally masks with a fresh PlaceholderContext, so the same
+ * value can become [[PERSON_1]] in one turn and [[PERSON_2]] in the next.
+ * With sessions enabled, the PII and secrets contexts are loaded before masking
+ * and saved afterwards, keyed by:
+ * 1. the X-PasteGuard-Session request header, or
+ * 2. a hash of the conversation prefix (all spans up to and including the
+ *    first user message), which stays the same for every turn of a conversation
+ *    (opt-in via sessions.conversation_hash)
+ *
+ * Both keys are scoped to the client's credential, so clients with different
+ * API keys never load each other's sessions, even with the same header value
+ * or system prompt.
+ *
+ * Contexts are stored in SQLite with a sliding TTL, so they survive restarts.
+ * They hold the original values, so the session database is as sensitive as
+ * the requests themselves.
+ */
+
+import { Database } from "bun:sqlite";
+import { createHash } from "node:crypto";
+import { mkdirSync } from "node:fs";
+import { getConfig, type MaskingConfig } from "../config";
+import {
+  createPlaceholderContext,
+  type PlaceholderContext,
+  unmapLiteralPlaceholders,
+} from "../masking/context";
+import type { FuzzyUnmaskLevel } from "../masking/fuzzy";
+import { createMaskingContext } from "../masking/service";
+import type { RequestExtractor, TextSpan } from "../masking/types";
+
+export const SESSION_HEADER = "X-PasteGuard-Session";
+
+/** Request headers that carry the client's API key or token */
+const CREDENTIAL_HEADERS = ["authorization", "x-api-key", "x-goog-api-key", "api-key"];
+
+// Expired sessions are deleted at most this often (on save)
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * PII and secrets placeholder contexts of one conversation
+ */
+export interface PlaceholderSession {
+  id: string;
+  pii: PlaceholderContext;
+  secrets: PlaceholderContext;
+}
+
+/**
+ * Persisted part of a context - reverseMapping is rebuilt on load
+ */
+interface StoredContext {
+  mapping: Record<string, string>;
+  counters: Record<string, number>;
+  /** Placeholder format with its nonce resolved, so placeholders stay stable */
+  format?: string;
+  /** Pseudonym salt, so values keep their pseudonym across turns */
+  pseudonymSalt?: string;
+}
+
+function serializeContext(context: PlaceholderContext): string {
+  const stored: StoredContext = {
+    mapping: context.mapping,
+    counters: context.counters,
+    format: context.format?.template,
+    pseudonymSalt: context.pseudonymSalt,
+  };
+  return JSON.stringify(stored);
+}
+
+function deserializeContext(json: string, fuzzy?: FuzzyUnmaskLevel): PlaceholderContext {
+  const stored = JSON.parse(json) as StoredContext;
+  const context = createPlaceholderContext({ placeholderFormat: stored.format, fuzzy });
+  context.mapping = stored.mapping;
+  context.counters = stored.counters;
+  if (stored.pseudonymSalt) context.pseudonymSalt = stored.pseudonymSalt;
+  for (const [placeholder, original] of Object.entries(stored.mapping)) {
+    context.reverseMapping[original] = placeholder;
+  }
+  return context;
+}
+
+function sha256(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+/**
+ * The client's credential from its auth headers (or Gemini's ?key=), for scoping sessions
+ */
+export function getClientCredential(
+  headers: Record<string, string | undefined>,
+  query?: URLSearchParams,
+): string {
+  const credentials = CREDENTIAL_HEADERS.map((name) => headers[name] ?? "");
+  credentials.push(query?.get("key") ?? "");
+  return credentials.join("\0");
+}
+
+/**
+ * Derives a session ID from the session header or the conversation prefix
+ *
+ * The ID also hashes the client credential, so the same header value or
+ * conversation from another client leads to another session. Returns undefined
+ * when there is no header and no user message to anchor the prefix on (or the
+ * prefix fallback is disabled).
+ */
+export function resolveSessionId(
+  headerValue: string | undefined,
+  spans: TextSpan[],
+  useConversationHash: boolean,
+  credential = "",
+): string | undefined {
+  const scope = sha256(`credential\0${credential}`);
+  if (headerValue) {
+    return sha256(`header\0${scope}\0${headerValue}`);
+  }
+  if (!useConversationHash) return undefined;
+
+  const firstUser = spans.findIndex((span) => span.role === "user");
+  if (firstUser === -1) return undefined;
+
+  const prefix = spans.slice(0, firstUser + 1).map((span) => `${span.path}\0${span.text}`);
+  return sha256(`prefix\0${scope}\0${prefix.join("\0")}`);
+}
+
+/**
+ * SQLite-backed store for placeholder sessions
+ *
+ * Concurrent requests in the same session are last-write-wins: placeholders
+ * stay correct within each request, only the numbering may drift.
+ */
+export class SessionStore {
+  private db: Database;
+  private ttlMs: number;
+  private masking: Partial<Pick<MaskingConfig, "placeholder_format" | "fuzzy_unmask">>;
+  private lastCleanup = 0;
+  private loadStmt: ReturnType<Database["prepare"]>;
+  private saveStmt: ReturnType<Database["prepare"]>;
+
+  constructor(
+    dbPath: string,
+    ttlSeconds: number,
+    masking: Partial<Pick<MaskingConfig, "placeholder_format" | "fuzzy_unmask">> = {},
+  ) {
+    // Ensure data directory exists
+    const dir = dbPath.substring(0, dbPath.lastIndexOf("/"));
+    if (dir) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    this.ttlMs = ttlSeconds * 1000;
+    this.masking = masking;
+    this.db = new Database(dbPath);
+    this.db.run("PRAGMA journal_mode = WAL");
+    this.db.run("PRAGMA busy_timeout = 5000");
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS placeholder_sessions (
+        id TEXT PRIMARY KEY,
+        pii_context TEXT NOT NULL,
+        secrets_context TEXT NOT NULL,
+        expires_at INTEGER NOT NULL
+      )
+    `);
+    this.db.run(
+      "CREATE INDEX IF NOT EXISTS idx_sessions_expires_at ON placeholder_sessions(expires_at)",
+    );
+
+    this.loadStmt = this.db.prepare(
+      "SELECT pii_context, secrets_context FROM placeholder_sessions WHERE id = ? AND expires_at > ?",
+    );
+    this.saveStmt = this.db.prepare(
+      `INSERT INTO placeholder_sessions (id, pii_context, secrets_context, expires_at)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET
+         pii_context = excluded.pii_context,
+         secrets_context = excluded.secrets_context,
+         expires_at = excluded.expires_at`,
+    );
+  }
+
+  /**
+   * Loads a session, or starts an empty one if it doesn't exist or has expired
+   */
+  load(id: string): PlaceholderSession {
+    const row = this.loadStmt.get(id, Date.now()) as {
+      pii_context: string;
+      secrets_context: string;
+    } | null;
+
+    if (!row) {
+      return {
+        id,
+        pii: createMaskingContext(this.masking),
+        secrets: createMaskingContext(this.masking),
+      };
+    }
+
+    return {
+      id,
+      pii: deserializeContext(row.pii_context, this.masking.fuzzy_unmask),
+      secrets: deserializeContext(row.secrets_context, this.masking.fuzzy_unmask),
+    };
+  }
+
+  /**
+   * Saves a session and extends its TTL
+   */
+  save(session: PlaceholderSession): void {
+    const now = Date.now();
+    this.saveStmt.run(
+      session.id,
+      serializeContext(session.pii),
+      serializeContext(session.secrets),
+      now + this.ttlMs,
+    );
+
+    if (now - this.lastCleanup > CLEANUP_INTERVAL_MS) {
+      this.lastCleanup = now;
+      this.cleanup();
+    }
+  }
+
+  /**
+   * Deletes expired sessions
+   */
+  cleanup(): number {
+    return this.db.prepare("DELETE FROM placeholder_sessions WHERE expires_at <= ?").run(Date.now())
+      .changes;
+  }
+
+  /**
+   * Closes database connection
+   */
+  close(): void {
+    this.db.close();
+  }
+}
+
+// Singleton instance
+let storeInstance: SessionStore | null = null;
+
+/**
+ * Returns the session store, or null if sessions are disabled
+ */
+export function getSessionStore(): SessionStore | null {
+  const { sessions: config, masking } = getConfig();
+  if (!config?.enabled) return null;
+
+  if (!storeInstance) {
+    storeInstance = new SessionStore(config.database, config.ttl_seconds, masking);
+  }
+  return storeInstance;
+}
+
+/**
+ * Loads the placeholder session for a request
+ *
+ * Returns undefined when sessions are disabled, no session ID can be derived,
+ * or the store fails - masking then falls back to per-request contexts.
+ * Placeholders the request contains literally are unmapped from the loaded
+ * session, so they are passed through instead of unmasked.
+ */
+export function loadSession<TRequest, TResponse>(
+  request: TRequest,
+  extractor: RequestExtractor<TRequest, TResponse>,
+  headerValue: string | undefined,
+  credential: string,
+): PlaceholderSession | undefined {
+  try {
+    const store = getSessionStore();
+    if (!store) return undefined;
+
+    const spans = extractor.extractTexts(request);
+    const id = resolveSessionId(
+      headerValue,
+      spans,
+      getConfig().sessions.conversation_hash,
+      credential,
+    );
+    if (!id) return undefined;
+
+    const session = store.load(id);
+    const texts = spans.map((span) => span.text);
+    unmapLiteralPlaceholders(texts, session.pii);
+    unmapLiteralPlaceholders(texts, session.secrets);
+    return session;
+  } catch (error) {
+    console.error("Session load failed:", error);
+    return undefined;
+  }
+}
+
+/**
+ * Persists a session after masking (no-op without a session)
+ */
+export function saveSession(session: PlaceholderSession | undefined): void {
+  if (!session) return;
+  try {
+    getSessionStore()?.save(session);
+  } catch (error) {
+    console.error("Session save failed:", error);
+  }
+}
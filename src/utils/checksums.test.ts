@@ -0,0 +1,15 @@
+import { describe, expect, test } from "bun:test";
+import { ibanCheckDigits, luhnCheckDigit } from "./checksums";
+
+describe("luhnCheckDigit", () => {
+  test("matches a known test card", () => {
+    expect(luhnCheckDigit("411111111111111")).toBe("1");
+  });
+});
+
+describe("ibanCheckDigits", () => {
+  test("matches a known IBAN", () => {
+    // DE89 3704 0044 0532 0130 00
+    expect(ibanCheckDigits("DE", "370400440532013000")).toBe("89");
+  });
+});
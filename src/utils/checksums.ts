@@ -0,0 +1,32 @@
+/**
+ * Checksum utilities for card numbers (Luhn) and IBANs (mod 97)
+ */
+
+/**
+ * Computes the Luhn check digit for a digit string (without check digit)
+ */
+export function luhnCheckDigit(digits: string): string {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    // Double every second digit from the right, starting next to the check digit
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 0) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return String((10 - (sum % 10)) % 10);
+}
+
+/**
+ * Computes the two IBAN check digits for a country code and BBAN (ISO 13616 mod 97)
+ */
+export function ibanCheckDigits(country: string, bban: string): string {
+  const rearranged = `${bban}${country}00`.replace(/[A-Z]/g, (ch) => String(ch.charCodeAt(0) - 55));
+  let remainder = 0;
+  for (const ch of rearranged) {
+    remainder = (remainder * 10 + Number(ch)) % 97;
+  }
+  return String(98 - remainder).padStart(2, "0");
+}
@@ -97,6 +97,7 @@ const DashboardPage: FC = () => {
 							.bg-success { background: var(--color-success); }
 							.bg-success\\/10 { background: rgba(22, 163, 74, 0.1); }
 							.bg-teal { background: var(--color-teal); }
+							.bg-teal\\/10 { background: rgba(13, 148, 136, 0.1); }
 							.bg-anthropic { background: var(--color-anthropic); }
 							.bg-anthropic\\/10 { background: rgba(217, 119, 6, 0.1); }
 							.bg-error { background: var(--color-error); }
@@ -324,6 +325,16 @@ const Header: FC = () => (
 				</svg>
 				<span id="error-pill-label">0 errors</span>
 			</div>
+			<div
+				id="degraded-pill"
+				class="hidden items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-medium text-warning border border-warning/20 bg-warning/10 shadow-sm"
+				title="Requests forwarded without PII detection (pii_detection.on_error)"
+			>
+				<svg viewBox="0 0 12 12" fill="currentColor" class="w-[10px] h-[10px] shrink-0">
+					<path d="M6 1a.5.5 0 0 1 .447.276l4.5 9A.5.5 0 0 1 10.5 11h-9a.5.5 0 0 1-.447-.724l4.5-9A.5.5 0 0 1 6 1zm0 4a.5.5 0 0 0-.5.5v2a.5.5 0 0 0 1 0v-2A.5.5 0 0 0 6 5zm0 5a.75.75 0 1 0 0-1.5A.75.75 0 0 0 6 10z"/>
+				</svg>
+				<span id="degraded-pill-label">0 degraded</span>
+			</div>
 			<div id="activity-pill" class="flex items-center gap-2 px-3 py-1.5 bg-surface border border-border rounded-full text-xs text-text-secondary shadow-sm">
 				<div id="activity-dot" class="w-[7px] h-[7px] bg-success rounded-full animate-pulse-dot" />
 				<span id="activity-label">Live</span>
@@ -358,7 +369,7 @@ const StatsGrid: FC = () => (
 			tooltip="Requests where PII was detected and masked (or routed locally)"
 		/>
 		<StatCard label="API Requests" valueId="api-requests" accent="accent" tooltip="Direct API requests (not proxied through a provider)" />
-		<StatCard label="Avg PII Scan" valueId="avg-scan" accent="teal" tooltip="Average time to scan a request for PII and secrets" />
+		<StatCard label="Avg PII Scan" valueId="avg-scan" accent="teal" tooltip="Average time to scan a request for PII and secrets, and the % of spans reused from earlier turns instead of scanned" />
 		<StatCard label="Requests/Hour" valueId="requests-hour" tooltip="Number of requests in the last 60 minutes" />
 		<StatCard
 			id="proxy-card"
@@ -366,7 +377,7 @@ const StatsGrid: FC = () => (
 			valueId="proxy-requests"
 			accent="info"
 			routeOnly
-			tooltip="Requests forwarded to upstream providers (OpenAI, Anthropic)"
+			tooltip="Requests forwarded to upstream providers (OpenAI, Anthropic, Gemini, named upstreams)"
 		/>
 		<StatCard
 			id="local-card"
@@ -592,7 +603,7 @@ const CacheAndTokenGrid: FC = () => (
 			label="PII Cache Hit Rate"
 			valueId="pii-cache-hit-rate"
 			accent="teal"
-			tooltip="% of Presidio scan calls served from in-memory cache (higher = fewer HTTP round-trips)"
+			tooltip="% of NER scan calls served from the in-memory cache (higher = fewer HTTP round-trips). With a persistent cache, its hit rate on in-memory misses is shown second"
 		/>
 	</div>
 );
@@ -787,7 +798,8 @@ async function fetchStats() {
 
     document.getElementById('total-requests').textContent = data.total_requests.toLocaleString();
     document.getElementById('api-requests').textContent = data.api_requests.toLocaleString();
-    document.getElementById('avg-scan').textContent = data.avg_scan_time_ms + 'ms';
+    document.getElementById('avg-scan').textContent = data.avg_scan_time_ms + 'ms' +
+      (data.span_skip_rate ? ' · ' + data.span_skip_rate.toFixed(1) + '% reused' : '');
     document.getElementById('requests-hour').textContent = data.requests_last_hour.toLocaleString();
 
     const modeBadge = document.getElementById('mode-badge');
@@ -835,6 +847,16 @@ async function fetchStats() {
       errorPill.style.display = '';
     }
 
+    // Degraded pill: requests forwarded without PII detection in the last hour
+    const degradedPill = document.getElementById('degraded-pill');
+    const degraded = data.degraded_last_hour || 0;
+    if (degraded > 0) {
+      document.getElementById('degraded-pill-label').textContent = degraded + ' degraded (1h)';
+      degradedPill.style.display = 'flex';
+    } else {
+      degradedPill.style.display = '';
+    }
+
     const piiLabel = document.getElementById('pii-label');
     if (data.mode === 'mask') {
       piiLabel.textContent = 'Masked';
@@ -890,7 +912,9 @@ async function fetchStats() {
     document.getElementById('avg-tokens-request').textContent = avgTokens > 0 ? avgTokens.toLocaleString() : '—';
     document.getElementById('cache-hit-rate').textContent = (data.cache_hit_rate || 0).toFixed(1) + '%';
     if (data.pii_cache) {
-      document.getElementById('pii-cache-hit-rate').textContent = data.pii_cache.hitRate.toFixed(1) + '%';
+      const persistent = data.pii_cache.persistent;
+      document.getElementById('pii-cache-hit-rate').textContent = data.pii_cache.hitRate.toFixed(1) + '%' +
+        (persistent ? ' · ' + persistent.hitRate.toFixed(1) + '% ' + persistent.type : '');
     }
 
     // Token anomaly banner
@@ -1026,6 +1050,8 @@ async function fetchLogs() {
 
       const statusBadge = isError
         ? '<span class="inline-flex items-center px-2 py-1 rounded-sm font-mono text-[0.6rem] font-medium uppercase tracking-wide bg-error/10 text-error">' + log.status_code + '</span>'
+        : log.detection_degraded
+        ? '<span class="inline-flex items-center px-2 py-1 rounded-sm font-mono text-[0.6rem] font-medium uppercase tracking-wide bg-warning/10 text-warning" title="PII detection failed, forwarded under on_error: ' + log.detection_degraded + '">Degraded</span>'
         : '<span class="inline-flex items-center px-2 py-1 rounded-sm font-mono text-[0.6rem] font-medium uppercase tracking-wide bg-success/10 text-success">OK</span>';
 
       const sourceBadge = log.provider === 'api'
@@ -1042,7 +1068,7 @@ async function fetchLogs() {
           '<td class="text-sm px-4 py-3 border-b border-border-subtle align-middle">' + statusBadge + '</td>' +
           '<td class="route-only text-sm px-4 py-3 border-b border-border-subtle align-middle">' +
             '<span class="inline-flex items-center px-2 py-1 rounded-sm font-mono text-[0.6rem] font-medium uppercase tracking-wide ' +
-              (log.provider === 'openai' ? 'bg-info/10 text-info' : log.provider === 'anthropic' ? 'bg-anthropic/10 text-anthropic' : 'bg-success/10 text-success') + '">' + log.provider + '</span>' +
+              (log.provider === 'local' ? 'bg-success/10 text-success' : log.provider === 'anthropic' ? 'bg-anthropic/10 text-anthropic' : log.provider === 'gemini' ? 'bg-teal/10 text-teal' : 'bg-info/10 text-info') + '">' + log.provider + '</span>' +
           '</td>' +
           '<td class="font-mono text-[0.7rem] text-text-secondary px-4 py-3 border-b border-border-subtle align-middle">' + log.model + '</td>' +
           '<td class="font-mono text-[0.65rem] font-medium px-4 py-3 border-b border-border-subtle align-middle">' + langDisplay + '</td>' +
@@ -1056,7 +1082,11 @@ async function fetchLogs() {
               ? '<div class="flex flex-wrap gap-1">' + (secretsTypes.length > 0 ? secretsTypes.map(s => '<span class="font-mono text-[0.55rem] px-1.5 py-0.5 bg-error/10 border border-error/20 rounded-sm text-error">' + s.trim() + '</span>').join('') : '<span class="font-mono text-[0.55rem] px-1.5 py-0.5 bg-error/10 border border-error/20 rounded-sm text-error">DETECTED</span>') + '</div>'
               : '<span class="text-text-muted">—</span>') +
           '</td>' +
-          '<td class="font-mono text-[0.7rem] text-teal px-4 py-3 border-b border-border-subtle align-middle">' + log.scan_time_ms + 'ms</td>' +
+          '<td class="font-mono text-[0.7rem] text-teal px-4 py-3 border-b border-border-subtle align-middle"' +
+            (log.spans_skipped ? ' title="' + log.spans_skipped + ' of ' + (log.spans_skipped + (log.spans_scanned || 0)) + ' spans reused from earlier turns"' : '') + '>' +
+            log.scan_time_ms + 'ms' +
+            (log.spans_skipped ? ' <span class="text-text-muted">(' + log.spans_skipped + ' reused)</span>' : '') +
+          '</td>' +
           '<td class="font-mono text-[0.7rem] text-text-secondary px-4 py-3 border-b border-border-subtle align-middle">' +
             ((log.prompt_tokens != null || log.completion_tokens != null)
               ? ((log.prompt_tokens || 0) + (log.completion_tokens || 0)).toLocaleString()
@@ -1064,6 +1094,13 @@ async function fetchLogs() {
           '</td>' +
         '</tr>';
 
+      const decisionLine = log.decision
+        ? '<div class="font-mono text-[0.65rem] text-text-muted mb-2">Decision: <span class="text-text-secondary">' + log.decision.replace(/</g, '&lt;').replace(/>/g, '&gt;') + '</span></div>'
+        : '';
+      const attemptsLine = log.failed_attempts
+        ? '<div class="font-mono text-[0.65rem] text-text-muted mb-2">Failed attempts: <span class="text-warning">' + log.failed_attempts.replace(/</g, '&lt;').replace(/>/g, '&gt;') + '</span></div>'
+        : '';
+
       const detailContent = isError && log.error_message
         ? '<div class="font-mono text-xs leading-relaxed text-error bg-error/10 border border-error/20 rounded-lg p-3 whitespace-pre-wrap break-words">' + log.error_message.replace(/</g, '&lt;').replace(/>/g, '&gt;') + '</div>'
         : '<div class="font-mono text-xs leading-relaxed text-text-secondary bg-surface border border-border-subtle rounded-lg p-3 whitespace-pre-wrap break-words">' + formatMaskedPreview(log.masked_content, entities) + '</div>';
@@ -1071,7 +1108,7 @@ async function fetchLogs() {
       const detailRow =
         '<tr id="detail-' + logId + '" class="' + (isExpanded ? 'detail-row-visible' : 'hidden') + '">' +
           '<td colspan="10" class="p-0 bg-detail border-b border-border-subtle">' +
-            '<div class="p-4 px-5 animate-slide-down">' + detailContent + '</div>' +
+            '<div class="p-4 px-5 animate-slide-down">' + decisionLine + attemptsLine + detailContent + '</div>' +
           '</td>' +
         '</tr>';
 